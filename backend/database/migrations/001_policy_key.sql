@@ -0,0 +1,12 @@
+-- Stable policy key for idempotent CSV loads
+-- policy_key is "UY|View Extract", with "#n" appended to the nth repeated line of the same extract
+
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS policy_key VARCHAR(255);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS uy VARCHAR(10);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS view_extract VARCHAR(50);
+
+-- Rows loaded before the key existed cannot be matched and are reloaded
+DELETE FROM policies WHERE policy_key IS NULL;
+
+ALTER TABLE policies ALTER COLUMN policy_key SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_policies_policy_key ON policies(policy_key);
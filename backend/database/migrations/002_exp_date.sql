@@ -0,0 +1,4 @@
+-- Exp date for pro-rata earned premium
+-- Policies loaded before the column existed are earned over one year from com_date until the extract is loaded again
+
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS exp_date DATE;
@@ -0,0 +1,29 @@
+-- Remaining extract columns, so records read back from the table match the CSV datasets
+-- Policies loaded before these columns existed keep them blank until the extract is loaded again
+
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS loc VARCHAR(50);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS ext_type VARCHAR(100);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS broker VARCHAR(255);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS broker_norm VARCHAR(255);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS max_liability_fc DECIMAL(18,2) DEFAULT 0;
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS inception_month VARCHAR(20);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS business_class VARCHAR(100);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS sub_branch VARCHAR(255);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS treaty_nature VARCHAR(255);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS nature_of_risk_desc VARCHAR(255);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS sign_share_pct DOUBLE PRECISION;
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS accepted_share DOUBLE PRECISION;
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS written_line DOUBLE PRECISION;
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS signed_line DOUBLE PRECISION;
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS tsi100_fc DECIMAL(18,2);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS org_prem_fc DECIMAL(18,2);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS currency VARCHAR(10);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS new_renew VARCHAR(50);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS renewal_status VARCHAR(50);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS running_expired VARCHAR(50);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS status VARCHAR(50);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS renewal_date DATE;
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS source_file VARCHAR(255);
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS source_row INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_policies_broker ON policies(broker_norm);
@@ -0,0 +1,6 @@
+-- ISO 3166-1 alpha-3 country code, so a country filter matches every spelling of the country as the CSV source does
+-- Policies loaded before the column existed only match on their stored spelling until the extract is loaded again
+
+ALTER TABLE policies ADD COLUMN IF NOT EXISTS country_code VARCHAR(3);
+
+CREATE INDEX IF NOT EXISTS idx_policies_country_code ON policies(country_code);
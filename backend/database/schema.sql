@@ -7,10 +7,14 @@
 -- Policies table - main data table
 CREATE TABLE IF NOT EXISTS policies (
     id SERIAL PRIMARY KEY,
+    policy_key VARCHAR(255) NOT NULL UNIQUE,
+    uy VARCHAR(10),
+    view_extract VARCHAR(50),
     year INTEGER NOT NULL,
     month INTEGER,
     quarter INTEGER,
     com_date DATE,
+    exp_date DATE,
     inception_year INTEGER,
     premium DECIMAL(15,2) DEFAULT 0,
     gross_book_prem DECIMAL(15,2) DEFAULT 0,
@@ -20,6 +24,7 @@ CREATE TABLE IF NOT EXISTS policies (
     gross_os_loss DECIMAL(15,2) DEFAULT 0,
     incurred DECIMAL(15,2) DEFAULT 0,
     country_name VARCHAR(255),
+    country_code VARCHAR(3),
     hub VARCHAR(255),
     region VARCHAR(255),
     cedant VARCHAR(255),
@@ -29,6 +34,30 @@ CREATE TABLE IF NOT EXISTS policies (
     region_norm VARCHAR(255),
     cedant_norm VARCHAR(255),
     insured_norm VARCHAR(255),
+    loc VARCHAR(50),
+    ext_type VARCHAR(100),
+    broker VARCHAR(255),
+    broker_norm VARCHAR(255),
+    max_liability_fc DECIMAL(18,2) DEFAULT 0,
+    inception_month VARCHAR(20),
+    business_class VARCHAR(100),
+    sub_branch VARCHAR(255),
+    treaty_nature VARCHAR(255),
+    nature_of_risk_desc VARCHAR(255),
+    sign_share_pct DOUBLE PRECISION,
+    accepted_share DOUBLE PRECISION,
+    written_line DOUBLE PRECISION,
+    signed_line DOUBLE PRECISION,
+    tsi100_fc DECIMAL(18,2),
+    org_prem_fc DECIMAL(18,2),
+    currency VARCHAR(10),
+    new_renew VARCHAR(50),
+    renewal_status VARCHAR(50),
+    running_expired VARCHAR(50),
+    status VARCHAR(50),
+    renewal_date DATE,
+    source_file VARCHAR(255),
+    source_row INTEGER,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -36,9 +65,11 @@ CREATE TABLE IF NOT EXISTS policies (
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_policies_year ON policies(year);
 CREATE INDEX IF NOT EXISTS idx_policies_country ON policies(country_name_norm);
+CREATE INDEX IF NOT EXISTS idx_policies_country_code ON policies(country_code);
 CREATE INDEX IF NOT EXISTS idx_policies_hub ON policies(hub_norm);
 CREATE INDEX IF NOT EXISTS idx_policies_region ON policies(region_norm);
 CREATE INDEX IF NOT EXISTS idx_policies_cedant ON policies(cedant_norm);
+CREATE INDEX IF NOT EXISTS idx_policies_broker ON policies(broker_norm);
 CREATE INDEX IF NOT EXISTS idx_policies_insured ON policies(insured_norm);
 CREATE INDEX IF NOT EXISTS idx_policies_com_date ON policies(com_date);
 
@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { loadIngestionReport, parseReinsuranceCsv, RejectedRow } from '../../src/lib/ingestion';
+import { ReinsuranceData } from '../../src/lib/schema';
+import { closeDbPool } from '../services/database';
+import { loadPolicies } from '../services/policies';
+
+/**
+ * CSV-to-Postgres loader
+ * npm run db:load                 - load every dataset registered in datasets.json
+ * npm run db:load -- extract.csv  - load a single extract
+ */
+
+async function readRecords(file: string | undefined): Promise<{ records: ReinsuranceData[]; rejected: RejectedRow[]; rejectedRowCount: number; totalRows: number }> {
+  if (file) {
+    const filePath = path.resolve(file);
+    console.log('Loader - Reading', filePath);
+    const result = parseReinsuranceCsv(await fs.readFile(filePath, 'utf-8'));
+    return { ...result, rejected: result.rejected.map(issue => ({ ...issue, file })) };
+  }
+
+  // Loading the database only reads the files; snapshots are captured by the app
+  console.log('Loader - Reading registered datasets');
+  return loadIngestionReport({ captureSnapshot: false });
+}
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is not set');
+  }
+
+  const { records, rejected, rejectedRowCount, totalRows } = await readRecords(process.argv[2]);
+  const summary = await loadPolicies(records);
+
+  console.log('');
+  console.log('Load summary');
+  console.log(`  Rows read:  ${totalRows}`);
+  console.log(`  Inserted:   ${summary.inserted}`);
+  console.log(`  Updated:    ${summary.updated}`);
+  console.log(`  Rejected:   ${rejectedRowCount + summary.rejected.length}`);
+
+  rejected.forEach(issue => {
+    console.log(`    ${issue.file ?? ''} row ${issue.row}${issue.column ? ` [${issue.column}]` : ''}: ${issue.reason}`);
+  });
+  summary.rejected.forEach(issue => {
+    console.log(`    View Extract ${issue.viewExtract ?? '(blank)'}: ${issue.reason}`);
+  });
+}
+
+main()
+  .catch(error => {
+    console.error('Loader - Failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDbPool());
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildWhereClause } from '../queries';
+
+describe('buildWhereClause', () => {
+  it('returns no clause without filters', () => {
+    assert.deepEqual(buildWhereClause({}), { sql: '', params: [] });
+  });
+
+  it('matches a country filter on the name or the ISO code', () => {
+    const { sql, params } = buildWhereClause({ year: 2024, country: 'KSA' });
+
+    assert.equal(sql, 'WHERE year = $1 AND (country_name_norm = $2 OR country_code = $3)');
+    assert.deepEqual(params, [2024, 'ksa', 'SAU']);
+  });
+
+  it('matches subdivisions and unknown countries on the name alone', () => {
+    assert.deepEqual(buildWhereClause({ country: 'Dubai' }), { sql: 'WHERE country_name_norm = $1', params: ['dubai'] });
+    assert.deepEqual(buildWhereClause({ country: 'Atlantis' }), { sql: 'WHERE country_name_norm = $1', params: ['atlantis'] });
+  });
+
+  it('normalises text filters and matches a list of cedant spellings', () => {
+    const { sql, params } = buildWhereClause({ hub: ' GCC ', cedant: ['Gulf Insurance', 'Gulf  Ins. Co.', ' '] });
+
+    assert.equal(sql, 'WHERE hub_norm = $1 AND cedant_norm = ANY($2)');
+    assert.deepEqual(params, ['gcc', ['gulf insurance', 'gulf ins. co.']]);
+  });
+});
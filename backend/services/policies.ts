@@ -0,0 +1,245 @@
+import { PoolClient } from 'pg';
+import { getDbPool } from './database';
+import { ReinsuranceData } from '../../src/lib/schema';
+import { getRecordYear } from '../../src/lib/kpi';
+import { norm } from '../../src/lib/normalize';
+import { getPolicyKeys } from '../../src/lib/policy-key';
+
+// Mapping and upserts from validated CSV records into the policies table
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Column values for one policies row
+ */
+export interface PolicyRow {
+  policy_key: string;
+  uy: string;
+  view_extract: string;
+  year: number;
+  month: number | null;
+  quarter: number | null;
+  com_date: string | null;
+  exp_date: string | null;
+  inception_year: number | null;
+  premium: number;
+  gross_book_prem: number;
+  gross_uw_prem: number;
+  gross_actual_acq: number;
+  gross_paid_claims: number;
+  gross_os_loss: number;
+  incurred: number;
+  country_name: string | null;
+  country_code: string | null;
+  hub: string | null;
+  region: string | null;
+  cedant: string | null;
+  insured: string | null;
+  country_name_norm: string | null;
+  hub_norm: string | null;
+  region_norm: string | null;
+  cedant_norm: string | null;
+  insured_norm: string | null;
+  loc: string | null;
+  ext_type: string | null;
+  broker: string | null;
+  broker_norm: string | null;
+  max_liability_fc: number;
+  inception_month: string | null;
+  business_class: string | null;
+  sub_branch: string | null;
+  treaty_nature: string | null;
+  nature_of_risk_desc: string | null;
+  sign_share_pct: number | null;
+  accepted_share: number | null;
+  written_line: number | null;
+  signed_line: number | null;
+  tsi100_fc: number | null;
+  org_prem_fc: number | null;
+  currency: string | null;
+  new_renew: string | null;
+  renewal_status: string | null;
+  running_expired: string | null;
+  status: string | null;
+  renewal_date: string | null;
+  source_file: string | null;
+  source_row: number | null;
+}
+
+/**
+ * Outcome of loading records into the policies table
+ */
+export interface LoadSummary {
+  inserted: number;
+  updated: number;
+  rejected: Array<{ viewExtract: string | null; reason: string }>;
+}
+
+const POLICY_COLUMNS: Array<keyof PolicyRow> = [
+  'policy_key', 'uy', 'view_extract', 'year', 'month', 'quarter', 'com_date', 'exp_date', 'inception_year',
+  'premium', 'gross_book_prem', 'gross_uw_prem', 'gross_actual_acq', 'gross_paid_claims', 'gross_os_loss', 'incurred',
+  'country_name', 'country_code', 'hub', 'region', 'cedant', 'insured',
+  'country_name_norm', 'hub_norm', 'region_norm', 'cedant_norm', 'insured_norm',
+  'loc', 'ext_type', 'broker', 'broker_norm', 'max_liability_fc', 'inception_month',
+  'business_class', 'sub_branch', 'treaty_nature', 'nature_of_risk_desc',
+  'sign_share_pct', 'accepted_share', 'written_line', 'signed_line', 'tsi100_fc', 'org_prem_fc', 'currency',
+  'new_renew', 'renewal_status', 'running_expired', 'status', 'renewal_date', 'source_file', 'source_row',
+];
+
+const UPSERT_SQL = `
+  INSERT INTO policies (${POLICY_COLUMNS.join(', ')})
+  VALUES (${POLICY_COLUMNS.map((_, i) => `$${i + 1}`).join(', ')})
+  ON CONFLICT (policy_key) DO UPDATE SET
+    ${POLICY_COLUMNS.filter(column => column !== 'policy_key').map(column => `${column} = EXCLUDED.${column}`).join(',\n    ')}
+  RETURNING (xmax = 0) AS inserted
+`;
+
+/**
+ * ISO date (YYYY-MM-DD) from a Com date or Exp date cell, or null when it is not in ISO form
+ */
+function toIsoDate(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Inception month (1-12) from Inception Month, falling back to the Com date
+ */
+function toMonth(record: ReinsuranceData, comDate: string | null): number | null {
+  const monthIndex = MONTHS.indexOf(record.inceptionMonth?.trim().slice(0, 3).toUpperCase() ?? '');
+  if (monthIndex >= 0) return monthIndex + 1;
+  return comDate ? parseInt(comDate.slice(5, 7), 10) : null;
+}
+
+/**
+ * Inception quarter (1-4) from Inception Quarter, falling back to the month
+ */
+function toQuarter(record: ReinsuranceData, month: number | null): number | null {
+  const match = record.inceptionQuarter?.trim().toUpperCase().match(/^Q?([1-4])$/);
+  if (match) return parseInt(match[1], 10);
+  return month ? Math.ceil(month / 3) : null;
+}
+
+/**
+ * Map validated records to policies rows keyed by getPolicyKeys()
+ */
+export function toPolicyRows(records: ReinsuranceData[]): { rows: PolicyRow[]; rejected: LoadSummary['rejected'] } {
+  const rows: PolicyRow[] = [];
+  const rejected: LoadSummary['rejected'] = [];
+  const policyKeys = getPolicyKeys(records);
+
+  records.forEach((record, index) => {
+    const policyKey = policyKeys[index];
+    if (!policyKey || !record.viewExtract) {
+      rejected.push({ viewExtract: null, reason: 'View Extract is required for the policy key' });
+      return;
+    }
+    const year = getRecordYear(record);
+    if (!year) {
+      rejected.push({ viewExtract: record.viewExtract, reason: 'No Inception Year or UY to derive the policy year' });
+      return;
+    }
+
+    const comDate = toIsoDate(record.comDate);
+    const month = toMonth(record, comDate);
+
+    rows.push({
+      policy_key: policyKey,
+      uy: record.uy,
+      view_extract: record.viewExtract,
+      year,
+      month,
+      quarter: toQuarter(record, month),
+      com_date: comDate,
+      exp_date: toIsoDate(record.expDate),
+      inception_year: record.inceptionYear ?? null,
+      premium: record.grossUWPrem,
+      gross_book_prem: record.grossBookPrem ?? 0,
+      gross_uw_prem: record.grossUWPrem,
+      gross_actual_acq: record.grossActualAcq,
+      gross_paid_claims: record.grossPaidClaims,
+      gross_os_loss: record.grossOsLoss,
+      incurred: record.grossPaidClaims + record.grossOsLoss,
+      country_name: record.countryName || null,
+      country_code: record.countryCode || null,
+      hub: record.hub || null,
+      region: record.region || null,
+      cedant: record.cedant || null,
+      insured: record.orgInsuredTrtyName || null,
+      country_name_norm: norm(record.countryName),
+      hub_norm: norm(record.hub),
+      region_norm: norm(record.region),
+      cedant_norm: norm(record.cedant),
+      insured_norm: norm(record.orgInsuredTrtyName),
+      loc: record.loc || null,
+      ext_type: record.extType || null,
+      broker: record.broker || null,
+      broker_norm: norm(record.broker),
+      max_liability_fc: record.maxLiabilityFC,
+      inception_month: record.inceptionMonth || null,
+      business_class: record.businessClass || null,
+      sub_branch: record.subBranch || null,
+      treaty_nature: record.treatyNature || null,
+      nature_of_risk_desc: record.natureOfRiskDesc || null,
+      sign_share_pct: record.signSharePct ?? null,
+      accepted_share: record.acceptedShare ?? null,
+      written_line: record.writtenLine ?? null,
+      signed_line: record.signedLine ?? null,
+      tsi100_fc: record.tsi100FC ?? null,
+      org_prem_fc: record.orgPremFC ?? null,
+      currency: record.currency || null,
+      new_renew: record.newRenew || null,
+      renewal_status: record.renewalStatus || null,
+      running_expired: record.runningExpired || null,
+      status: record.status || null,
+      renewal_date: toIsoDate(record.renewalDate),
+      source_file: record.sourceFile || null,
+      source_row: record.sourceRow ?? null,
+    });
+  });
+
+  return { rows, rejected };
+}
+
+/**
+ * Upsert policies rows on policy_key in a single transaction
+ */
+async function upsertRows(client: PoolClient, rows: PolicyRow[]): Promise<{ inserted: number; updated: number }> {
+  let inserted = 0;
+  let updated = 0;
+
+  for (const row of rows) {
+    const result = await client.query<{ inserted: boolean }>(
+      UPSERT_SQL,
+      POLICY_COLUMNS.map(column => row[column])
+    );
+    if (result.rows[0]?.inserted) {
+      inserted++;
+    } else {
+      updated++;
+    }
+  }
+
+  return { inserted, updated };
+}
+
+/**
+ * Load validated records into the policies table
+ * Existing policies are updated in place, so repeated loads of the same extract never duplicate rows.
+ */
+export async function loadPolicies(records: ReinsuranceData[]): Promise<LoadSummary> {
+  const { rows, rejected } = toPolicyRows(records);
+  const client = await getDbPool().connect();
+
+  try {
+    await client.query('BEGIN');
+    const { inserted, updated } = await upsertRows(client, rows);
+    await client.query('COMMIT');
+    return { inserted, updated, rejected };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
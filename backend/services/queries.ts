@@ -0,0 +1,248 @@
+import { getDbPool } from './database';
+import { AggregatedTotals, AggregationPeriod, Dimensions, PeriodAggregatedData, Policy, QueryFilters } from './types';
+import { norm } from '../../src/lib/normalize';
+import { getToday } from '../../src/lib/earned';
+import { getCountryFilterCode } from '../../src/lib/countries';
+
+// Repository queries for the policies table
+
+interface AggregateRow {
+  policy_count: number;
+  premium: number;
+  acq: number;
+  paid_claims: number;
+  os_loss: number;
+  earned_premium: number;
+  earned_acq: number;
+}
+
+/**
+ * Share of cover elapsed at the valuation date, as in src/lib/earned.ts
+ * Cover runs from com_date to exp_date, or one year when exp_date is missing or earlier; no com_date is fully earned.
+ */
+function earnedFraction(valuationParam: string): string {
+  const coverEnd = `CASE WHEN exp_date >= com_date THEN exp_date ELSE (com_date + INTERVAL '1 year')::date - 1 END`;
+  return `CASE WHEN com_date IS NULL THEN 1
+    ELSE LEAST(1, GREATEST(0, (${valuationParam}::date - com_date + 1)::float8 / ((${coverEnd}) - com_date + 1)))
+  END`;
+}
+
+function aggregateColumns(valuationParam: string): string {
+  return `
+  COUNT(*)::int AS policy_count,
+  COALESCE(SUM(gross_uw_prem), 0)::float8 AS premium,
+  COALESCE(SUM(gross_actual_acq), 0)::float8 AS acq,
+  COALESCE(SUM(gross_paid_claims), 0)::float8 AS paid_claims,
+  COALESCE(SUM(gross_os_loss), 0)::float8 AS os_loss,
+  COALESCE(SUM(gross_uw_prem * ${earnedFraction(valuationParam)}), 0)::float8 AS earned_premium,
+  COALESCE(SUM(gross_actual_acq * ${earnedFraction(valuationParam)}), 0)::float8 AS earned_acq
+`;
+}
+
+// Only whitelisted columns are ever interpolated into SQL
+const PERIOD_COLUMNS: Record<AggregationPeriod, string> = {
+  month: 'month',
+  quarter: 'quarter',
+  year: 'year',
+};
+
+type DimensionName = Exclude<keyof Dimensions, 'years'>;
+
+interface DimensionColumn {
+  column: string;
+  normalized: boolean;
+}
+
+// Only whitelisted columns are ever interpolated into SQL
+const DIMENSION_COLUMNS: Record<DimensionName, DimensionColumn> = {
+  countries: { column: 'country_name', normalized: true },
+  hubs: { column: 'hub', normalized: true },
+  regions: { column: 'region', normalized: true },
+  brokers: { column: 'broker', normalized: true },
+  cedants: { column: 'cedant', normalized: true },
+  insureds: { column: 'insured', normalized: true },
+  extTypes: { column: 'ext_type', normalized: false },
+  classes: { column: 'business_class', normalized: false },
+  subBranches: { column: 'sub_branch', normalized: false },
+  treatyNatures: { column: 'treaty_nature', normalized: false },
+  natureOfRisks: { column: 'nature_of_risk_desc', normalized: false },
+  newRenew: { column: 'new_renew', normalized: false },
+  renewalStatuses: { column: 'renewal_status', normalized: false },
+  runningExpired: { column: 'running_expired', normalized: false },
+  statuses: { column: 'status', normalized: false },
+};
+
+/**
+ * Build a parameterised WHERE clause from QueryFilters
+ * Text filters match the *_norm columns using the same normalisation as the loader. A country filter naming a
+ * country also matches its ISO code, as matchesCountry() does for the CSV source, so "KSA" finds "Saudi Arabia" rows.
+ * A cedant filter given as a list matches any of its spellings.
+ */
+export function buildWhereClause(filters: QueryFilters): { sql: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.year !== undefined) {
+    params.push(filters.year);
+    conditions.push(`year = $${params.length}`);
+  }
+
+  const countryKey = norm(filters.country);
+  if (filters.country && countryKey) {
+    params.push(countryKey);
+    const countryCode = getCountryFilterCode(filters.country);
+    if (countryCode) {
+      params.push(countryCode);
+      conditions.push(`(country_name_norm = $${params.length - 1} OR country_code = $${params.length})`);
+    } else {
+      conditions.push(`country_name_norm = $${params.length}`);
+    }
+  }
+
+  const textFilters: Array<[string | undefined, string]> = [
+    [filters.hub, 'hub_norm'],
+    [filters.region, 'region_norm'],
+    [filters.insured, 'insured_norm'],
+  ];
+  textFilters.forEach(([value, column]) => {
+    const normalized = norm(value);
+    if (normalized) {
+      params.push(normalized);
+      conditions.push(`${column} = $${params.length}`);
+    }
+  });
+
+  const cedants = [filters.cedant ?? []].flat().map(norm).filter((value): value is string => !!value);
+  if (cedants.length > 0) {
+    params.push(cedants);
+    conditions.push(`cedant_norm = ANY($${params.length})`);
+  }
+
+  return {
+    sql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/**
+ * Derive ratios and technical result from summed measures
+ */
+function toAggregatedData(row: AggregateRow | undefined): AggregatedTotals {
+  const policyCount = row?.policy_count ?? 0;
+  const premium = row?.premium ?? 0;
+  const acq = row?.acq ?? 0;
+  const paidClaims = row?.paid_claims ?? 0;
+  const osLoss = row?.os_loss ?? 0;
+  const incurred = paidClaims + osLoss;
+
+  const lossRatioPct = premium > 0 ? (incurred / premium) * 100 : 0;
+  const acqPct = premium > 0 ? (acq / premium) * 100 : 0;
+
+  return {
+    policyCount,
+    premium,
+    acq,
+    incurred,
+    acqPct,
+    lossRatioPct,
+    technicalResult: premium - incurred - acq,
+    combinedRatioPct: lossRatioPct + acqPct,
+    paidClaims,
+    osLoss,
+    earnedPremium: row?.earned_premium ?? 0,
+    earnedAcq: row?.earned_acq ?? 0,
+  };
+}
+
+/**
+ * Zero totals for periods with no policies
+ */
+export function emptyAggregatedTotals(): AggregatedTotals {
+  return toAggregatedData(undefined);
+}
+
+/**
+ * Totals grouped by month, quarter or year
+ * Policies with no value for the period column are left out.
+ */
+export async function getAggregatedDataByPeriod(
+  period: AggregationPeriod,
+  filters: QueryFilters = {},
+  valuationDate = getToday()
+): Promise<PeriodAggregatedData[]> {
+  const column = PERIOD_COLUMNS[period];
+  const { sql, params } = buildWhereClause(filters);
+  const where = sql ? `${sql} AND ${column} IS NOT NULL` : `WHERE ${column} IS NOT NULL`;
+  params.push(valuationDate);
+
+  const result = await getDbPool().query<AggregateRow & { period: number }>(
+    `SELECT ${column} AS period, ${aggregateColumns(`$${params.length}`)}
+     FROM policies ${where}
+     GROUP BY ${column}
+     ORDER BY ${column}`,
+    params
+  );
+
+  return result.rows.map(row => ({ period: row.period, ...toAggregatedData(row) }));
+}
+
+/**
+ * Distinct values for each filterable dimension
+ * Columns with a *_norm twin are keyed on it and labelled with a representative raw spelling; the rest are keyed on
+ * their trimmed value. Policies with no value for a dimension are left out of its list.
+ */
+export async function getDimensions(): Promise<Dimensions> {
+  const pool = getDbPool();
+
+  const listDimension = async ({ column, normalized }: DimensionColumn) => {
+    const key = normalized ? `${column}_norm` : `NULLIF(TRIM(${column}), '')`;
+    const result = await pool.query<{ value: string; label: string }>(
+      `SELECT ${key} AS value, MIN(${column}) AS label
+       FROM policies
+       WHERE ${key} IS NOT NULL
+       GROUP BY ${key}
+       ORDER BY label`
+    );
+    return result.rows;
+  };
+
+  const names = Object.keys(DIMENSION_COLUMNS) as DimensionName[];
+  const [years, lists] = await Promise.all([
+    pool.query<{ year: number }>('SELECT DISTINCT year FROM policies WHERE year IS NOT NULL ORDER BY year'),
+    Promise.all(names.map(name => listDimension(DIMENSION_COLUMNS[name]))),
+  ]);
+
+  const dimensions = Object.fromEntries(names.map((name, i) => [name, lists[i]])) as Omit<Dimensions, 'years'>;
+  return { years: years.rows.map(row => row.year), ...dimensions };
+}
+
+/**
+ * Policies matching the filters, ordered by year and policy key
+ */
+export async function getPolicies(filters: QueryFilters = {}): Promise<Policy[]> {
+  const { sql, params } = buildWhereClause(filters);
+  let limitClause = '';
+  if (filters.limit !== undefined) {
+    params.push(filters.limit);
+    limitClause = `LIMIT $${params.length}`;
+  }
+
+  const result = await getDbPool().query<Policy>(
+    `SELECT * FROM policies ${sql} ORDER BY year, policy_key ${limitClause}`,
+    params
+  );
+  return result.rows;
+}
+
+/**
+ * Row count and last load time of the policies table
+ */
+export async function getPolicyTableSummary(): Promise<{ policyCount: number; lastUpdated: Date | null }> {
+  const result = await getDbPool().query<{ policy_count: number; last_updated: Date | null }>(
+    'SELECT COUNT(*)::int AS policy_count, MAX(updated_at) AS last_updated FROM policies'
+  );
+  return {
+    policyCount: result.rows[0]?.policy_count ?? 0,
+    lastUpdated: result.rows[0]?.last_updated ?? null,
+  };
+}
@@ -2,10 +2,14 @@
 
 export interface Policy {
   id: number;
+  policy_key: string;
+  uy?: string;
+  view_extract?: string;
   year: number;
   month?: number;
   quarter?: number;
   com_date?: Date;
+  exp_date?: Date;
   inception_year?: number;
   premium: number;
   gross_book_prem: number;
@@ -15,6 +19,7 @@ export interface Policy {
   gross_os_loss: number;
   incurred: number;
   country_name?: string;
+  country_code?: string;
   hub?: string;
   region?: string;
   cedant?: string;
@@ -24,6 +29,30 @@ export interface Policy {
   region_norm?: string;
   cedant_norm?: string;
   insured_norm?: string;
+  loc?: string;
+  ext_type?: string;
+  broker?: string;
+  broker_norm?: string;
+  max_liability_fc?: number;
+  inception_month?: string;
+  business_class?: string;
+  sub_branch?: string;
+  treaty_nature?: string;
+  nature_of_risk_desc?: string;
+  sign_share_pct?: number;
+  accepted_share?: number;
+  written_line?: number;
+  signed_line?: number;
+  tsi100_fc?: number;
+  org_prem_fc?: number;
+  currency?: string;
+  new_renew?: string;
+  renewal_status?: string;
+  running_expired?: string;
+  status?: string;
+  renewal_date?: Date;
+  source_file?: string;
+  source_row?: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -33,7 +62,8 @@ export interface QueryFilters {
   country?: string;
   hub?: string;
   region?: string;
-  cedant?: string;
+  /** One cedant, or every raw spelling of one */
+  cedant?: string | string[];
   insured?: string;
   limit?: number;
 }
@@ -49,12 +79,41 @@ export interface AggregatedData {
   combinedRatioPct: number;
 }
 
+export interface DimensionValue {
+  value: string;
+  label: string;
+}
+
 export interface Dimensions {
   years: number[];
-  countries: Array<{ value: string; label: string }>;
-  hubs: Array<{ value: string; label: string }>;
-  regions: Array<{ value: string; label: string }>;
-  cedants: Array<{ value: string; label: string }>;
-  insureds: Array<{ value: string; label: string }>;
+  countries: DimensionValue[];
+  hubs: DimensionValue[];
+  regions: DimensionValue[];
+  brokers: DimensionValue[];
+  cedants: DimensionValue[];
+  insureds: DimensionValue[];
+  extTypes: DimensionValue[];
+  classes: DimensionValue[];
+  subBranches: DimensionValue[];
+  treatyNatures: DimensionValue[];
+  natureOfRisks: DimensionValue[];
+  newRenew: DimensionValue[];
+  renewalStatuses: DimensionValue[];
+  runningExpired: DimensionValue[];
+  statuses: DimensionValue[];
+}
+
+
+export type AggregationPeriod = 'month' | 'quarter' | 'year';
+
+export interface AggregatedTotals extends AggregatedData {
+  paidClaims: number;
+  osLoss: number;
+  /** Pro-rata earned Gross UW Prem and acquisition at the valuation date */
+  earnedPremium: number;
+  earnedAcq: number;
 }
 
+export interface PeriodAggregatedData extends AggregatedTotals {
+  period: number;
+}
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // node-postgres is loaded at runtime rather than bundled into the API routes
+  serverExternalPackages: ['pg'],
 };
 
 export default nextConfig;
@@ -0,0 +1,535 @@
+'use client';
+
+import { useState, useEffect, type ReactNode } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ShieldAlert, Loader2, Filter, Map, Plus, Trash2 } from 'lucide-react';
+import { formatNumber, formatPct, safeDivide } from '@/lib/format';
+import { COUNTRIES } from '@/lib/countries';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { useDataUpdates } from '@/hooks/useDataUpdates';
+import type { AccumulationResult, AccumulationRow, LimitStatus } from '@/lib/accumulation';
+
+type FilterKey = 'year' | 'class' | 'extType' | 'runningExpired';
+
+const FILTERS: Array<{ key: FilterKey; label: string; dimension: 'years' | 'classes' | 'extTypes' | 'runningExpired' }> = [
+  { key: 'year', label: 'Years', dimension: 'years' },
+  { key: 'class', label: 'Classes', dimension: 'classes' },
+  { key: 'extType', label: 'Ext Types', dimension: 'extTypes' },
+  { key: 'runningExpired', label: 'Running/Expired', dimension: 'runningExpired' },
+];
+
+const STATUS_LABELS: Record<LimitStatus, string> = {
+  ok: 'Within limit',
+  warning: 'Warning',
+  breach: 'Breach',
+};
+
+const STATUS_VARIANTS: Record<LimitStatus, 'default' | 'secondary' | 'destructive'> = {
+  ok: 'default',
+  warning: 'secondary',
+  breach: 'destructive',
+};
+
+const SORTED_COUNTRIES = [...COUNTRIES].sort((a, b) => a.name.localeCompare(b.name));
+
+// Insureds listed; the rest are in the totals
+const TOP_INSUREDS = 25;
+
+/**
+ * New limit as typed; zone hubs and countries are comma-separated
+ */
+interface LimitForm {
+  type: 'country' | 'zone';
+  country: string;
+  name: string;
+  hubs: string;
+  countries: string;
+  limit: string;
+}
+
+const EMPTY_FORM: LimitForm = { type: 'country', country: '', name: '', hubs: '', countries: '', limit: '' };
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function toLimitInput(form: LimitForm) {
+  const limit = Number(form.limit);
+  return form.type === 'country'
+    ? { type: 'country', country: form.country, limit }
+    : { type: 'zone', name: form.name, hubs: splitList(form.hubs), countries: splitList(form.countries).map(code => code.toUpperCase()), limit };
+}
+
+function StatusBadge({ status }: { status: LimitStatus | null }) {
+  if (status === null) return <span className="text-xs text-muted-foreground">No limit</span>;
+  return <Badge variant={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>;
+}
+
+function AccumulationTable<T extends AccumulationRow>({
+  rows,
+  label,
+  totalExposure,
+  formatAmount,
+  extra,
+}: {
+  rows: T[];
+  label: string;
+  totalExposure: number;
+  formatAmount: (value: number) => string;
+  extra?: { label: string; render: (row: T) => ReactNode };
+}) {
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <Table>
+        <TableHeader className="bg-muted/50">
+          <TableRow>
+            <TableHead className="font-semibold">{label}</TableHead>
+            <TableHead className="text-right font-semibold">Policies</TableHead>
+            <TableHead className="text-right font-semibold">Premium</TableHead>
+            <TableHead className="text-right font-semibold">Our-Share Liability</TableHead>
+            <TableHead className="text-right font-semibold">Share of Total</TableHead>
+            {extra && <TableHead className="font-semibold">{extra.label}</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key} className="hover:bg-muted/30">
+              <TableCell className="font-medium">{row.name}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{formatNumber(row.policyCount)}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{formatAmount(row.premium)}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{formatAmount(row.exposure)}</TableCell>
+              <TableCell className="text-right text-sm">{formatPct(safeDivide(row.exposure, totalExposure) * 100)}</TableCell>
+              {extra && <TableCell className="text-sm">{extra.render(row)}</TableCell>}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function AccumulationPage() {
+  const { formatAmount } = useCurrency();
+  const { dataVersion } = useDataUpdates();
+  const [dimensions, setDimensions] = useState<Record<string, string[]>>({});
+  const [filters, setFilters] = useState<Partial<Record<FilterKey, string>>>({});
+  const [result, setResult] = useState<AccumulationResult | null>(null);
+  const [form, setForm] = useState<LimitForm>(EMPTY_FORM);
+  const [warningPct, setWarningPct] = useState('');
+  // Bumped after each limits edit so the accumulation is checked again
+  const [limitsVersion, setLimitsVersion] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load filter options
+  useEffect(() => {
+    const loadDimensions = async () => {
+      try {
+        const response = await fetch('/api/dimensions');
+        setDimensions(await response.json());
+      } catch (err) {
+        console.error('Accumulation - Failed to load dimensions:', err);
+      }
+    };
+
+    loadDimensions();
+  }, [dataVersion]);
+
+  const query = new URLSearchParams(
+    Object.entries(filters).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+
+  // Accumulate whenever a filter or a limit changes
+  useEffect(() => {
+    const loadAccumulation = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/accumulation?${query}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `API request failed: ${response.status}`);
+        }
+        setResult(data);
+      } catch (err) {
+        console.error('Accumulation - Failed to load accumulation:', err);
+        setError(err instanceof Error ? err.message : String(err));
+        setResult(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadAccumulation();
+  }, [query, limitsVersion, dataVersion]);
+
+  const setFilter = (key: FilterKey, value: string) => {
+    setFilters(current => ({ ...current, [key]: value === 'all' ? undefined : value }));
+  };
+
+  const editLimits = async (init: RequestInit, url = '/api/accumulation') => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, { headers: { 'Content-Type': 'application/json' }, ...init });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `API request failed: ${response.status}`);
+      }
+      setLimitsVersion(version => version + 1);
+      return true;
+    } catch (err) {
+      console.error('Accumulation - Failed to edit limits:', err);
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addLimit = async () => {
+    if (await editLimits({ method: 'POST', body: JSON.stringify({ limit: toLimitInput(form) }) })) {
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const saveWarningPct = async () => {
+    if (await editLimits({ method: 'POST', body: JSON.stringify({ warningPct: Number(warningPct) }) })) {
+      setWarningPct('');
+    }
+  };
+
+  const removeLimit = (id: string) => editLimits({ method: 'DELETE' }, `/api/accumulation?id=${encodeURIComponent(id)}`);
+
+  const breaches = result?.limits.filter(limit => limit.status === 'breach').length ?? 0;
+  const warnings = result?.limits.filter(limit => limit.status === 'warning').length ?? 0;
+  const canAdd = !!form.limit && Number(form.limit) > 0
+    && (form.type === 'country' ? !!form.country : !!form.name.trim() && (!!form.hubs.trim() || !!form.countries.trim()));
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Fixed Header */}
+      <div className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-foreground">Exposure Accumulation</h1>
+              {breaches > 0 && (
+                <Badge variant="destructive" className="text-xs">{breaches} breaches</Badge>
+              )}
+              {warnings > 0 && (
+                <Badge variant="secondary" className="text-xs">{warnings} warnings</Badge>
+              )}
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/world-map">
+                <Map className="w-4 h-4 mr-2" />
+                Map layer
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filter Bar */}
+      <div className="border-b bg-muted/30">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Filter className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm font-medium">Filters:</span>
+            </div>
+            {FILTERS.map(({ key, label, dimension }) => (
+              <Select key={key} value={filters[key] ?? 'all'} onValueChange={value => setFilter(key, value)}>
+                <SelectTrigger className="h-8 min-w-[140px] max-w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All {label}</SelectItem>
+                  {(dimensions[dimension] ?? []).map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {!result && isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-muted-foreground">Accumulating exposure...</span>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Our-Share Liability</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatAmount(result.total.exposure)}</div>
+                  <p className="text-xs text-muted-foreground mt-1">{formatNumber(result.total.policyCount)} policies</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Limits</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{result.limits.length}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {breaches} breached • {warnings} at or above {formatPct(result.warningPct)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Regional Scopes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatAmount(result.unallocated.exposure)}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatNumber(result.unallocated.policyCount)} policies without a single country; counted in hubs only
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Not Accumulated</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatNumber(result.excluded.noRate + result.excluded.noLine)}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatNumber(result.excluded.noRate)} without an FX rate • {formatNumber(result.excluded.noLine)} without a signed line
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Limits */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5" />
+                  Concentration Limits
+                </CardTitle>
+                <CardDescription>
+                  Our-share liability against each country and zone limit (KD), highest utilisation first. A zone covers
+                  its countries and every policy written under its hubs.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {result.limits.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No limits set yet. Add a country or zone limit below.</p>
+                ) : (
+                  <div className="overflow-x-auto border rounded-lg">
+                    <Table>
+                      <TableHeader className="bg-muted/50">
+                        <TableRow>
+                          <TableHead className="font-semibold">Limit</TableHead>
+                          <TableHead className="font-semibold">Covers</TableHead>
+                          <TableHead className="text-right font-semibold">Limit</TableHead>
+                          <TableHead className="text-right font-semibold">Our-Share Liability</TableHead>
+                          <TableHead className="text-right font-semibold">Utilisation</TableHead>
+                          <TableHead className="text-right font-semibold">Headroom</TableHead>
+                          <TableHead className="font-semibold">Status</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.limits.map(limit => (
+                          <TableRow key={limit.id} className={limit.status === 'breach' ? 'bg-red-50/50 dark:bg-red-950/20' : 'hover:bg-muted/30'}>
+                            <TableCell className="font-medium">
+                              {limit.name}
+                              <span className="ml-2 text-xs text-muted-foreground">{limit.type === 'country' ? 'Country' : 'Zone'}</span>
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {limit.type === 'country' ? limit.countries.join(', ') : [...limit.hubs, ...limit.countries].join(', ') || '-'}
+                            </TableCell>
+                            <TableCell className="text-right font-mono text-sm">{formatAmount(limit.limit)}</TableCell>
+                            <TableCell className="text-right font-mono text-sm">{formatAmount(limit.exposure)}</TableCell>
+                            <TableCell className="text-right text-sm">{formatPct(limit.utilisationPct)}</TableCell>
+                            <TableCell className={`text-right font-mono text-sm ${limit.headroom < 0 ? 'text-red-600' : ''}`}>
+                              {formatAmount(limit.headroom)}
+                            </TableCell>
+                            <TableCell><StatusBadge status={limit.status} /></TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => removeLimit(limit.id)} disabled={isSaving}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={form.type} onValueChange={value => setForm({ ...EMPTY_FORM, type: value as LimitForm['type'], limit: form.limit })}>
+                    <SelectTrigger className="h-8 w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="country">Country</SelectItem>
+                      <SelectItem value="zone">Zone</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {form.type === 'country' ? (
+                    <Select value={form.country} onValueChange={value => setForm({ ...form, country: value })}>
+                      <SelectTrigger className="h-8 w-[220px]">
+                        <SelectValue placeholder="Country" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SORTED_COUNTRIES.map(country => (
+                          <SelectItem key={country.code} value={country.code}>{country.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <>
+                      <Input
+                        placeholder="Zone name"
+                        className="h-8 w-[160px]"
+                        value={form.name}
+                        onChange={event => setForm({ ...form, name: event.target.value })}
+                      />
+                      <Input
+                        placeholder="Hubs, e.g. GCC"
+                        className="h-8 w-[180px]"
+                        value={form.hubs}
+                        onChange={event => setForm({ ...form, hubs: event.target.value })}
+                      />
+                      <Input
+                        placeholder="ISO codes, e.g. SAU, ARE"
+                        className="h-8 w-[200px]"
+                        value={form.countries}
+                        onChange={event => setForm({ ...form, countries: event.target.value })}
+                      />
+                    </>
+                  )}
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Limit (KD)"
+                    className="h-8 w-[160px]"
+                    value={form.limit}
+                    onChange={event => setForm({ ...form, limit: event.target.value })}
+                  />
+                  <Button size="sm" onClick={addLimit} disabled={isSaving || !canAdd}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Save limit
+                  </Button>
+                  <div className="flex items-center gap-2 ml-auto">
+                    <span className="text-sm font-medium">Warn at %:</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      placeholder={String(result.warningPct)}
+                      className="h-8 w-[80px]"
+                      value={warningPct}
+                      onChange={event => setWarningPct(event.target.value)}
+                    />
+                    <Button variant="outline" size="sm" onClick={saveWarningPct} disabled={isSaving || warningPct === ''}>
+                      Set
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Countries */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Accumulation by Country</CardTitle>
+                <CardDescription>
+                  Max Liability × Signed Line in KD; rows without a Signed Line use Sign share %
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AccumulationTable
+                  rows={result.countries}
+                  label="Country"
+                  totalExposure={result.total.exposure}
+                  formatAmount={formatAmount}
+                  extra={{
+                    label: 'Limit Status',
+                    render: row => <StatusBadge status={row.status} />,
+                  }}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Accumulation by Hub</CardTitle>
+                  <CardDescription>Includes regional scopes such as G.C.C. Countries</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AccumulationTable rows={result.hubs} label="Hub" totalExposure={result.total.exposure} formatAmount={formatAmount} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Largest Insureds</CardTitle>
+                  <CardDescription>
+                    Top {Math.min(TOP_INSUREDS, result.insureds.length)} of {formatNumber(result.insureds.length)} insureds by our-share liability
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AccumulationTable
+                    rows={result.insureds.slice(0, TOP_INSUREDS)}
+                    label="Insured"
+                    totalExposure={result.total.exposure}
+                    formatAmount={formatAmount}
+                    extra={{
+                      label: 'Countries',
+                      render: row => row.countries.join(', '),
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
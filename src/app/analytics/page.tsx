@@ -9,7 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Download, BarChart3, TrendingUp } from 'lucide-react';
-import { formatKD, formatPct, formatNumber } from '@/lib/format';
+import { formatPct, formatNumber } from '@/lib/format';
+import { currencyLabel, useCurrency } from '@/components/currency/CurrencyProvider';
 import { ReinsuranceData } from '@/lib/schema';
 import { aggregateKPIs } from '@/lib/kpi';
 // CSV data loading logic removed - new implementation will be added
@@ -17,6 +18,7 @@ import { ChatBot } from '@/components/chat/ChatBot';
 
 
 export default function AnalyticsPage() {
+  const { currency, convert, formatAmount } = useCurrency();
   const [data, setData] = useState<ReinsuranceData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [groupBy, setGroupBy] = useState<string>('uy');
@@ -185,20 +187,22 @@ export default function AnalyticsPage() {
   };
 
   const exportToCSV = () => {
+    // Amounts are exported in the selected presentation currency
+    const unit = currencyLabel(currency);
     const csvContent = [
-      ['Group By', 'Premium', 'Paid Claims', 'Outstanding Claims', 'Incurred Claims', 'Expense', 'Loss Ratio %', 'Expense Ratio %', 'Combined Ratio %', 'Accounts', 'Avg Max Liability'],
+      ['Group By', `Premium (${unit})`, `Paid Claims (${unit})`, `Outstanding Claims (${unit})`, `Incurred Claims (${unit})`, `Expense (${unit})`, 'Loss Ratio %', 'Expense Ratio %', 'Combined Ratio %', 'Accounts', `Avg Max Liability (${unit})`],
       ...analyticsData.map(row => [
         row.groupBy,
-        row.kpis.premium.toString(),
-        row.kpis.paidClaims.toString(),
-        row.kpis.outstandingClaims.toString(),
-        row.kpis.incurredClaims.toString(),
-        row.kpis.expense.toString(),
+        convert(row.kpis.premium).toString(),
+        convert(row.kpis.paidClaims).toString(),
+        convert(row.kpis.outstandingClaims).toString(),
+        convert(row.kpis.incurredClaims).toString(),
+        convert(row.kpis.expense).toString(),
         row.kpis.lossRatio.toString(),
         row.kpis.expenseRatio.toString(),
         row.kpis.combinedRatio.toString(),
         row.kpis.numberOfAccounts.toString(),
-        row.kpis.avgMaxLiability.toString(),
+        convert(row.kpis.avgMaxLiability).toString(),
       ])
     ].map(row => row.join(',')).join('\n');
 
@@ -417,19 +421,19 @@ export default function AnalyticsPage() {
                                 {row.groupBy}
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(row.kpis.premium)}
+                                {formatAmount(row.kpis.premium)}
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(row.kpis.paidClaims)}
+                                {formatAmount(row.kpis.paidClaims)}
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(row.kpis.outstandingClaims)}
+                                {formatAmount(row.kpis.outstandingClaims)}
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(row.kpis.incurredClaims)}
+                                {formatAmount(row.kpis.incurredClaims)}
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(row.kpis.expense)}
+                                {formatAmount(row.kpis.expense)}
                               </TableCell>
                               <TableCell className="text-right">
                                 <span className={`${
@@ -462,7 +466,7 @@ export default function AnalyticsPage() {
                                 {formatNumber(row.kpis.numberOfAccounts)}
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(row.kpis.avgMaxLiability)}
+                                {formatAmount(row.kpis.avgMaxLiability)}
                               </TableCell>
                             </motion.tr>
                           ))}
@@ -501,7 +505,7 @@ export default function AnalyticsPage() {
                               <CardContent className="space-y-2">
                                 <div className="flex justify-between">
                                   <span className="text-sm text-muted-foreground">Premium:</span>
-                                  <span className="font-medium">{formatKD(entity.kpis.premium)}</span>
+                                  <span className="font-medium">{formatAmount(entity.kpis.premium)}</span>
                                 </div>
                                 <div className="flex justify-between">
                                   <span className="text-sm text-muted-foreground">Loss Ratio:</span>
@@ -556,7 +560,7 @@ export default function AnalyticsPage() {
                 Loading Analytics Data
               </h3>
               <p className="text-muted-foreground mb-4">
-                Processing your 2019-2021 reinsurance data for analytics...
+                Processing your reinsurance data for analytics...
               </p>
               <div className="text-sm text-muted-foreground">
                 <p>Preparing data for grouping and comparison</p>
@@ -0,0 +1,101 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { z } from 'zod';
+import { getDataSource } from '@/lib/data-source';
+import {
+  AccumulationFilters,
+  AccumulationLimitInputSchema,
+  calculateAccumulation,
+  loadAccumulationLimits,
+  removeAccumulationLimit,
+  saveAccumulationLimit,
+  setAccumulationWarningPct,
+} from '@/lib/accumulation';
+
+const SaveRequestSchema = z.union([
+  z.object({ limit: AccumulationLimitInputSchema }),
+  z.object({ warningPct: z.number().min(0).max(100) }),
+]);
+
+function errorResponse(message: string, error: unknown) {
+  return NextResponse.json({
+    error: message,
+    details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+  }, { status: 500 });
+}
+
+/**
+ * Our-share liability per country, hub and insured, with each country and zone limit's utilisation
+ * Accepts year, class, extType and runningExpired filters.
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+
+    const year = params.get('year');
+    if (year && !/^\d{4}$/.test(year)) {
+      return NextResponse.json({ error: 'year must be a four-digit year' }, { status: 400 });
+    }
+    const filters: AccumulationFilters = {
+      year: year ? Number(year) : undefined,
+      businessClass: params.get('class') || undefined,
+      extType: params.get('extType') || undefined,
+      runningExpired: params.get('runningExpired') || undefined,
+    };
+
+    const dataSource = await getDataSource();
+    const [records, table] = await Promise.all([dataSource.loadRecords(), loadAccumulationLimits()]);
+    const result = calculateAccumulation(records, table, filters);
+    console.log('Accumulation API - Checked', result.limits.length, 'limits over', result.total.policyCount, 'policies with filters:', filters);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Accumulation API error:', error);
+    return errorResponse('Failed to calculate exposure accumulation', error);
+  }
+}
+
+/**
+ * Edit the limits table: { limit } adds a country or zone limit, replacing the existing one for the same country or
+ * zone name; { warningPct } sets the utilisation at which limits are flagged
+ */
+export async function POST(req: Request) {
+  try {
+    const body = SaveRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!body.success) {
+      return NextResponse.json({
+        error: body.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ')
+      }, { status: 400 });
+    }
+
+    if ('limit' in body.data) {
+      return NextResponse.json({ limit: await saveAccumulationLimit(body.data.limit) });
+    }
+    return NextResponse.json({ warningPct: await setAccumulationWarningPct(body.data.warningPct) });
+  } catch (error) {
+    console.error('Accumulation API error:', error);
+    return errorResponse('Failed to save accumulation limit', error);
+  }
+}
+
+/**
+ * Remove a limit: ?id=country-SAU
+ */
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const removed = await removeAccumulationLimit(id);
+    if (!removed) {
+      return NextResponse.json({ error: `No accumulation limit ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    console.error('Accumulation API error:', error);
+    return errorResponse('Failed to remove accumulation limit', error);
+  }
+}
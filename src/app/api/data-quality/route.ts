@@ -0,0 +1,62 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { loadIngestionReport } from '@/lib/ingestion';
+import { listSnapshots } from '@/lib/snapshots';
+import { DATA_QUALITY_CHECKS, getDataQualityCounts, runDataQualityChecks } from '@/lib/data-quality';
+
+/**
+ * Data-quality checks over the registered CSV extracts
+ * Without ?check= the response has each check's count and breakdown plus the counts recorded with every snapshot;
+ * ?check=<id>&limit=N returns the offending rows of one check.
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const checkId = params.get('check');
+    const limitParam = params.get('limit');
+    if (limitParam !== null && !/^[1-9]\d*$/.test(limitParam)) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+    }
+    const limit = limitParam ? parseInt(limitParam, 10) : 500;
+
+    const report = await loadIngestionReport();
+    const results = runDataQualityChecks(report);
+
+    if (checkId) {
+      const result = results.find(check => check.id === checkId);
+      if (!result) {
+        return NextResponse.json({
+          error: `check must be one of ${DATA_QUALITY_CHECKS.map(check => check.id).join(', ')}`
+        }, { status: 400 });
+      }
+      const { issues, ...check } = result;
+      return NextResponse.json({ check, issues: issues.slice(0, limit), totalIssues: issues.length });
+    }
+
+    // Oldest first, ending with the extract as loaded now
+    const snapshots = await listSnapshots();
+    const trend = [
+      ...snapshots
+        .filter(snapshot => snapshot.quality)
+        .reverse()
+        .map(snapshot => ({ id: snapshot.id, asOf: snapshot.asOf, counts: snapshot.quality! })),
+      { id: 'current', asOf: report.loadedAt.slice(0, 10), counts: getDataQualityCounts(results) },
+    ];
+
+    return NextResponse.json({
+      loadedAt: report.loadedAt,
+      totalRows: report.totalRows,
+      acceptedRows: report.records.length,
+      rejectedRows: report.rejectedRowCount,
+      checks: results.map(({ id, label, description, count, breakdown }) => ({ id, label, description, count, breakdown })),
+      trend,
+    });
+  } catch (error) {
+    console.error('Data quality API error:', error);
+    return NextResponse.json({
+      error: 'Failed to run data-quality checks',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
@@ -1,142 +1,22 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { promises as fs } from 'fs';
-import path from 'path';
 import { ReinsuranceData } from '@/lib/schema';
+import { getDataSource } from '@/lib/data-source';
+import { filterRecords } from '@/lib/kpi';
+import { matchesCountry } from '@/lib/countries';
 
-// Cache for CSV data to avoid re-reading on every request
-let csvDataCache: ReinsuranceData[] | null = null;
-let lastModified: number | null = null;
-
-/**
- * Parse CSV data and convert to ReinsuranceData format
- */
-function parseCSVData(csvContent: string): ReinsuranceData[] {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  const headers = lines[0].split(',').map(h => h.trim());
-  
-  console.log('API - CSV parsing:', {
-    totalLines: lines.length,
-    headers: headers.length,
-    sampleHeaders: headers.slice(0, 5)
-  });
-  
-  const data: ReinsuranceData[] = [];
-  const yearCounts: Record<string, number> = {};
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    const values = line.split(',');
-    
-    // Skip if not enough values
-    if (values.length < headers.length) {
-      console.log(`API - Skipping row ${i + 1}: insufficient values (${values.length} < ${headers.length})`);
-      continue;
-    }
-    
-    try {
-      const record: ReinsuranceData = {
-        uy: values[2]?.trim() || '', // UY column
-        extType: values[4]?.trim() || '', // Ext Type column
-        broker: values[11]?.trim() || '', // Broker column
-        cedant: values[12]?.trim() || '', // Cedant column
-        orgInsuredTrtyName: values[13]?.trim() || '', // Org.Insured/Trty Name column
-        maxLiabilityFC: parseFloat(values[16]) || 0, // Max Liability (FC) column
-        grossUWPrem: parseFloat(values[17]) || 0, // Gross UW Prem column
-        grossBookPrem: parseFloat(values[18]) || 0, // Gross Book Prem column
-        grossActualAcq: parseFloat(values[19]) || 0, // Gross Actual Acq. column
-        grossPaidClaims: parseFloat(values[20]) || 0, // Gross paid claims column
-        grossOsLoss: parseFloat(values[21]) || 0, // Gross os loss column
-        countryName: values[10]?.trim() || '', // Country column
-        region: values[44]?.trim() || '', // Region column
-        hub: values[45]?.trim() || '', // Hub column
-        inceptionYear: parseFloat(values[32]) || undefined, // Inception Year column
-        inceptionQuarter: values[31]?.trim() || undefined, // Inception Quarter column
-        inceptionMonth: values[30]?.trim() || undefined, // Inception Month column
-        comDate: values[7]?.trim() || undefined, // Com date column
-      };
-      
-      // Only add valid records (must have UY)
-      if (record.uy) {
-        data.push(record);
-        yearCounts[record.uy] = (yearCounts[record.uy] || 0) + 1;
-      } else {
-        console.log(`API - Skipping row ${i + 1}: no UY value`);
-      }
-    } catch (error) {
-      console.warn(`API - Error parsing CSV row ${i + 1}:`, error);
-      continue;
-    }
-  }
-  
-  console.log('API - CSV parsing complete:', {
-    totalRecords: data.length,
-    yearCounts: yearCounts,
-    sampleRecord: data[0]
-  });
-  
-  return data;
-}
-
-/**
- * Load CSV data with caching
- */
-async function loadCSVData(): Promise<ReinsuranceData[]> {
-  // Try multiple possible paths for the CSV file
-  const possiblePaths = [
-    path.join(process.cwd(), 'Dataset_2019_2021_clean_for_code.csv'),
-    path.join(process.cwd(), '..', 'Dataset_2019_2021_clean_for_code.csv'),
-    path.join(process.cwd(), '..', '..', 'Dataset_2019_2021_clean_for_code.csv'),
-    path.join(process.cwd(), 'src', 'Dataset_2019_2021_clean_for_code.csv'),
-    path.join(process.cwd(), 'frontend', 'Dataset_2019_2021_clean_for_code.csv')
-  ];
-  
-  let csvPath = '';
-  for (const testPath of possiblePaths) {
-    try {
-      await fs.stat(testPath);
-      csvPath = testPath;
-      break;
-    } catch {
-      // Continue to next path
-    }
-  }
-  
-  if (!csvPath) {
-    throw new Error(`CSV file not found. Tried paths: ${possiblePaths.join(', ')}`);
-  }
-  
-  try {
-    console.log('API - Loading CSV from path:', csvPath);
-    console.log('API - Current working directory:', process.cwd());
-    const stats = await fs.stat(csvPath);
-    const currentModified = stats.mtime.getTime();
-    
-    // Return cached data if file hasn't changed
-    if (csvDataCache && lastModified && currentModified === lastModified) {
-      console.log('API - Returning cached data:', csvDataCache.length, 'records');
-      return csvDataCache;
-    }
-    
-    // Read and parse CSV file
-    console.log('API - Reading CSV file...');
-    const csvContent = await fs.readFile(csvPath, 'utf-8');
-    console.log('API - CSV content length:', csvContent.length);
-    
-    const data = parseCSVData(csvContent);
-    console.log('API - Parsed data:', data.length, 'records');
-    
-    // Cache the data
-    csvDataCache = data;
-    lastModified = currentModified;
-    
-    return data;
-  } catch (error) {
-    console.error('API - Error loading CSV data:', error);
-    return [];
-  }
-}
+// Query parameters matched exactly against policy attribute columns
+const ATTRIBUTE_PARAMS: Record<string, keyof ReinsuranceData> = {
+  class: 'businessClass',
+  subBranch: 'subBranch',
+  treatyNature: 'treatyNature',
+  natureOfRisk: 'natureOfRiskDesc',
+  newRenew: 'newRenew',
+  renewalStatus: 'renewalStatus',
+  runningExpired: 'runningExpired',
+  status: 'status',
+};
 
 /**
  * Shuffle array to get random sample
@@ -166,7 +46,7 @@ function filterData(data: ReinsuranceData[], params: URLSearchParams): Reinsuran
   const country = params.get('country');
   if (country) {
     filteredData = filteredData.filter(record => 
-      record.countryName.toLowerCase().includes(country.toLowerCase())
+      record.countryName.toLowerCase().includes(country.toLowerCase()) || matchesCountry(country, record)
     );
   }
   
@@ -202,6 +82,14 @@ function filterData(data: ReinsuranceData[], params: URLSearchParams): Reinsuran
     );
   }
   
+  // Filter by policy attributes (repeatable, e.g. ?class=FI&class=EN)
+  const attributeFilters: Partial<Record<string, string[]>> = {};
+  Object.entries(ATTRIBUTE_PARAMS).forEach(([param, field]) => {
+    const values = params.getAll(param).filter(Boolean);
+    if (values.length > 0) attributeFilters[field] = values;
+  });
+  filteredData = filterRecords(filteredData, attributeFilters);
+  
   return filteredData;
 }
 
@@ -218,13 +106,10 @@ export async function GET(req: Request) {
     
     // Check for force reload parameter
     const forceReload = params.get('forceReload') === 'true';
-    if (forceReload) {
-      csvDataCache = null;
-      lastModified = null;
-    }
     
-    // Load CSV data
-    const allData = await loadCSVData();
+    // Load records from the configured data source
+    const dataSource = await getDataSource();
+    const allData = await dataSource.loadRecords({ forceReload });
     console.log('API - Loaded data:', allData.length, 'records');
     
     // Apply filters
@@ -248,9 +133,11 @@ export async function GET(req: Request) {
         hub: params.get('hub'),
         region: params.get('region'),
         cedant: params.get('cedant'),
-        insured: params.get('insured')
+        insured: params.get('insured'),
+        ...Object.fromEntries(Object.keys(ATTRIBUTE_PARAMS).map(param => [param, params.getAll(param)]))
       },
-      message: `Loaded ${limitedData.length} records from CSV dataset`
+      dates: (await dataSource.describe()).dates,
+      message: `Loaded ${limitedData.length} records from ${dataSource.kind} data source`
     });
   } catch (error) {
     console.error('API error:', error);
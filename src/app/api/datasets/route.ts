@@ -0,0 +1,26 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getDataSource } from '@/lib/data-source';
+
+export async function GET() {
+  try {
+    const dataSource = await getDataSource();
+    const summary = await dataSource.describe();
+
+    return NextResponse.json({
+      source: summary.kind,
+      datasets: summary.datasets,
+      totalRecords: summary.totalRecords,
+      duplicateCount: summary.duplicateCount,
+      loadedAt: summary.loadedAt,
+      dates: summary.dates,
+    });
+  } catch (error) {
+    console.error('Datasets API error:', error);
+    return NextResponse.json({
+      error: 'Failed to load dataset registry',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,134 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { z } from 'zod';
+import { loadIngestionReport } from '@/lib/ingestion';
+import { norm } from '@/lib/normalize';
+import { listReservingRuns } from '@/lib/reserving';
+import {
+  EntityTypeSchema,
+  confirmEntityAlias,
+  createEntityResolver,
+  loadEntityAliases,
+  removeEntityAlias,
+  suggestEntityMatches,
+} from '@/lib/entities';
+
+const ConfirmAliasSchema = z.object({
+  type: EntityTypeSchema,
+  alias: z.string().trim().min(1, 'alias is required'),
+  entityName: z.string().trim().min(1, 'entityName is required'),
+});
+
+function errorResponse(message: string, error: unknown) {
+  return NextResponse.json({
+    error: message,
+    details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+  }, { status: 500 });
+}
+
+/**
+ * Canonical entities with their record counts, plus the unmapped raw names with fuzzy-match suggestions
+ * Raw names come from the CSV extracts, before resolution.
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const type = EntityTypeSchema.safeParse(params.get('type') || 'cedant');
+    if (!type.success) {
+      return NextResponse.json({ error: 'type must be cedant or broker' }, { status: 400 });
+    }
+
+    const [report, table] = await Promise.all([loadIngestionReport(), loadEntityAliases()]);
+    const resolver = createEntityResolver(table);
+
+    // Raw spellings that only differ in case or spacing count as one name
+    const rawNames = new Map<string, { name: string; recordCount: number }>();
+    report.records.forEach(record => {
+      const rawName = type.data === 'cedant' ? record.cedant : record.broker;
+      const key = norm(rawName);
+      if (!key) return;
+      const entry = rawNames.get(key) ?? { name: rawName.trim().replace(/\s+/g, ' '), recordCount: 0 };
+      entry.recordCount++;
+      rawNames.set(key, entry);
+    });
+
+    const entityCounts = new Map<string, number>();
+    const unmapped: Array<{ name: string; recordCount: number }> = [];
+    rawNames.forEach(entry => {
+      const resolved = resolver.resolve(type.data, entry.name);
+      if (resolved.mapped) {
+        entityCounts.set(resolved.id, (entityCounts.get(resolved.id) ?? 0) + entry.recordCount);
+      } else {
+        unmapped.push(entry);
+      }
+    });
+
+    const suggestions = suggestEntityMatches(type.data, unmapped.map(entry => entry.name), table);
+
+    return NextResponse.json({
+      type: type.data,
+      entities: table.entities
+        .filter(entity => entity.type === type.data)
+        .map(entity => ({ ...entity, recordCount: entityCounts.get(entity.id) ?? 0 }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      unmapped: unmapped
+        .map(entry => ({ ...entry, suggestions: suggestions.get(entry.name) ?? [] }))
+        .sort((a, b) =>
+          Number(b.suggestions.length > 0) - Number(a.suggestions.length > 0)
+          || b.recordCount - a.recordCount
+          || a.name.localeCompare(b.name)
+        ),
+    });
+  } catch (error) {
+    console.error('Entities API error:', error);
+    return errorResponse('Failed to load entities', error);
+  }
+}
+
+/**
+ * Confirm a mapping: { type, alias, entityName } adds the raw name to the entity, creating it if needed
+ */
+export async function POST(req: Request) {
+  try {
+    const body = ConfirmAliasSchema.safeParse(await req.json().catch(() => null));
+    if (!body.success) {
+      return NextResponse.json({
+        error: body.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ')
+      }, { status: 400 });
+    }
+
+    const entity = await confirmEntityAlias(body.data.type, body.data.alias, body.data.entityName);
+    return NextResponse.json({ entity });
+  } catch (error) {
+    console.error('Entities API error:', error);
+    return errorResponse('Failed to save entity alias', error);
+  }
+}
+
+/**
+ * Remove a confirmed alias: ?type=cedant&alias=...
+ */
+export async function DELETE(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const type = EntityTypeSchema.safeParse(params.get('type'));
+    const alias = params.get('alias');
+    if (!type.success || !alias) {
+      return NextResponse.json({ error: 'type (cedant or broker) and alias are required' }, { status: 400 });
+    }
+
+    // A cedant entity named by a saved reserving run's segment is kept even without aliases
+    const referencedNames = type.data === 'cedant'
+      ? (await listReservingRuns()).flatMap(run => run.filters.cedant ? [run.filters.cedant] : [])
+      : [];
+    const removed = await removeEntityAlias(type.data, alias, referencedNames);
+    if (!removed) {
+      return NextResponse.json({ error: `No ${type.data} alias "${alias}"` }, { status: 404 });
+    }
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    console.error('Entities API error:', error);
+    return errorResponse('Failed to remove entity alias', error);
+  }
+}
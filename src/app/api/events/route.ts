@@ -0,0 +1,59 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { getDataSource } from '@/lib/data-source';
+import { subscribeToDataEvents } from '@/lib/data-events';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+/**
+ * Server-sent events stream announcing dataset reloads
+ * Only the CSV source is watched; other sources keep the stream open without update events.
+ */
+export async function GET(req: Request) {
+  const dataSource = await getDataSource();
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      send('ready', { source: dataSource.kind });
+
+      const unsubscribe = dataSource.kind === 'csv'
+        ? subscribeToDataEvents(event => send(event.type, event))
+        : () => undefined;
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(': heartbeat\n\n')), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = null;
+      };
+
+      req.signal.addEventListener('abort', () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,25 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { REPORTING_CURRENCY, getPresentationRates, loadFxRates } from '@/lib/fx';
+
+/**
+ * Presentation currencies with their rate from KD, for the global currency selector
+ */
+export async function GET() {
+  try {
+    const table = await loadFxRates();
+
+    return NextResponse.json({
+      reportingCurrency: REPORTING_CURRENCY,
+      source: table.source ?? null,
+      currencies: getPresentationRates(table),
+    });
+  } catch (error) {
+    console.error('FX Rates API error:', error);
+    return NextResponse.json({
+      error: 'Failed to load FX rates',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
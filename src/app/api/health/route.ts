@@ -1,16 +1,31 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
+import { getDataSource } from "@/lib/data-source";
+import { testConnection } from "@backend/services/database";
 
 export async function GET() {
   try {
+    const dataSource = await getDataSource();
+
+    if (dataSource.kind !== 'postgres') {
+      return NextResponse.json({
+        status: 'healthy',
+        message: `API server operational - serving ${dataSource.kind} data source`,
+        timestamp: new Date().toISOString(),
+        dataSource: dataSource.kind,
+        database: 'not configured'
+      });
+    }
+
+    const connected = await testConnection();
     return NextResponse.json({
-      status: 'healthy',
-      message: 'API server operational - database implementation removed',
+      status: connected ? 'healthy' : 'degraded',
+      message: connected ? 'API server operational - PostgreSQL connected' : 'PostgreSQL connection failed',
       timestamp: new Date().toISOString(),
-      database: 'removed',
-      ready_for: 'PostgreSQL implementation'
-    });
+      dataSource: dataSource.kind,
+      database: connected ? 'connected' : 'unreachable'
+    }, { status: connected ? 200 : 503 });
   } catch (error) {
     console.error('Health check failed:', error);
     return NextResponse.json({
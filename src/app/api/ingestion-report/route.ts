@@ -0,0 +1,56 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { loadIngestionReport, RejectedRow } from '@/lib/ingestion';
+
+/**
+ * Count rejection reasons per CSV column
+ */
+function summarizeByColumn(rejected: RejectedRow[]) {
+  const byColumn: Record<string, number> = {};
+  rejected.forEach(issue => {
+    const key = issue.column ?? '(row)';
+    byColumn[key] = (byColumn[key] || 0) + 1;
+  });
+  return byColumn;
+}
+
+/**
+ * Validation report for the CSV dataset registry, independent of the active data source
+ */
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const params = url.searchParams;
+
+    const limitParam = params.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : 1000;
+    const column = params.get('column');
+
+    const report = await loadIngestionReport({ forceReload: params.get('forceReload') === 'true' });
+
+    const rejected = column
+      ? report.rejected.filter(issue => issue.column?.toLowerCase() === column.toLowerCase())
+      : report.rejected;
+
+    return NextResponse.json({
+      sources: report.sources,
+      loadedAt: report.loadedAt,
+      duplicates: report.duplicates.slice(0, limit),
+      duplicateCount: report.duplicates.length,
+      totalRows: report.totalRows,
+      acceptedRows: report.records.length,
+      rejectedRows: report.rejectedRowCount,
+      byColumn: summarizeByColumn(report.rejected),
+      dates: report.dates,
+      issues: rejected.slice(0, limit),
+      totalIssues: rejected.length,
+    });
+  } catch (error) {
+    console.error('Ingestion report API error:', error);
+    return NextResponse.json({
+      error: 'Failed to build ingestion report',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
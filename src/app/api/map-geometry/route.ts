@@ -0,0 +1,44 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import {
+  DEFAULT_REGION_RESOLUTION,
+  MAP_REGIONS,
+  MAP_RESOLUTIONS,
+  MapRegion,
+  MapResolution,
+  loadMapGeometry,
+} from '@/lib/map-geometry';
+
+/**
+ * Country geometry as TopoJSON: ?region=world|mena&resolution=low|medium|high
+ * The world defaults to low resolution and the MENA detail layer to high.
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const region = (params.get('region') || 'world') as MapRegion;
+    if (!MAP_REGIONS.includes(region)) {
+      return NextResponse.json({ error: `region must be one of ${MAP_REGIONS.join(', ')}` }, { status: 400 });
+    }
+    const resolution = (params.get('resolution') || DEFAULT_REGION_RESOLUTION[region]) as MapResolution;
+    if (!MAP_RESOLUTIONS.includes(resolution)) {
+      return NextResponse.json({ error: `resolution must be one of ${MAP_RESOLUTIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const body = await loadMapGeometry(region, resolution);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'application/json',
+        // Geometry only changes with a deployment
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('Map Geometry API - Error:', error);
+    return NextResponse.json({
+      error: 'Failed to load map geometry',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
@@ -1,34 +1,77 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
+import { PerformanceTotals } from "@/lib/schema";
+import { getDataSource } from "@/lib/data-source";
+import { AggregateFilters, calculatePerformanceTotals } from "@/lib/kpi";
+import { getToday, parseValuationDate } from "@/lib/earned";
 
 export async function GET(req: Request) {
   try {
     const url = new URL(req.url);
     const year = url.searchParams.get("year");
-    
-    if (!year) {
-      return NextResponse.json({ error: "year is required" }, { status: 400 });
+
+    if (year && year !== 'all' && isNaN(parseInt(year))) {
+      return NextResponse.json({ error: "year must be a number or 'all'" }, { status: 400 });
+    }
+
+    // Earned premium is pro-rata at asOf (YYYY-MM-DD), today by default
+    const asOf = url.searchParams.get("asOf");
+    const valuationDate = asOf ? parseValuationDate(asOf) : getToday();
+    if (!valuationDate) {
+      return NextResponse.json({ error: "asOf must be a date (YYYY-MM-DD)" }, { status: 400 });
+    }
+
+    // Omitting year (or year=all) aggregates every year
+    const filters: AggregateFilters = {
+      year: year && year !== 'all' ? parseInt(year) : undefined,
+      country: url.searchParams.get("country") || undefined,
+      hub: url.searchParams.get("hub") || undefined,
+      region: url.searchParams.get("region") || undefined,
+      cedant: url.searchParams.get("cedant") || undefined,
+      insured: url.searchParams.get("insured") || undefined,
+    };
+    console.log('Monthly API - GET request:', req.url);
+    console.log('Monthly API - Filters:', filters);
+
+    // Months come from Inception Month, falling back to the Com date
+    const dataSource = await getDataSource();
+    const [{ periods, total }, yearly, summary] = await Promise.all([
+      dataSource.aggregate('month', filters, valuationDate),
+      dataSource.aggregate('year'),
+      dataSource.describe(),
+    ]);
+
+    // Always return Jan-Dec, with empty months zeroed
+    const months: Record<number, PerformanceTotals & { month: number }> = {};
+    for (let month = 1; month <= 12; month++) {
+      const monthData = periods.find(p => p.period === month);
+      months[month] = {
+        ...(monthData ?? calculatePerformanceTotals([], valuationDate)),
+        month
+      };
     }
 
-    // Return empty monthly data - ready for PostgreSQL implementation
+    console.log('Monthly API - Final result:', {
+      source: dataSource.kind,
+      year: filters.year ?? 'all',
+      totalPolicies: total.policyCount,
+      monthsWithData: periods.length
+    });
+
     return NextResponse.json({ 
-      year: parseInt(year), 
-      months: {},
-      total: {
-        policyCount: 0,
-        premium: 0,
-        acq: 0,
-        incurred: 0,
-        acqPct: 0,
-        lossRatioPct: 0,
-        technicalResult: 0,
-        combinedRatioPct: 0,
-      },
-      message: "Database implementation removed - ready for PostgreSQL"
+      year: filters.year ?? 'all', 
+      valuationDate,
+      months,
+      total,
+      availableYears: yearly.periods.map(p => p.period),
+      dates: summary.dates
     });
   } catch (error) {
     console.error('Failed to fetch monthly data:', error);
-    return NextResponse.json({ error: 'Failed to fetch monthly data' }, { status: 500 });
+    return NextResponse.json({ 
+      error: 'Failed to fetch monthly data',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
   }
 }
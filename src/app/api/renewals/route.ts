@@ -0,0 +1,42 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getDataSource } from '@/lib/data-source';
+import { getToday, parseValuationDate } from '@/lib/earned';
+import { buildRenewalPipeline, calculateRetention } from '@/lib/renewals';
+
+/**
+ * Renewals falling due within 30, 60 and 90 days after asOf (default today), with historic retention by cedant,
+ * broker, hub and UY
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const asOfParam = params.get('asOf');
+    const asOf = asOfParam ? parseValuationDate(asOfParam) : getToday();
+    if (!asOf) {
+      return NextResponse.json({ error: 'asOf must be a date (YYYY-MM-DD)' }, { status: 400 });
+    }
+
+    const dataSource = await getDataSource();
+    const records = await dataSource.loadRecords();
+    const pipeline = buildRenewalPipeline(records, asOf);
+    console.log('Renewals API - Found', pipeline.upcoming.length, 'renewals due within 90 days of', asOf);
+
+    return NextResponse.json({
+      ...pipeline,
+      retention: {
+        cedant: calculateRetention(records, 'cedant'),
+        broker: calculateRetention(records, 'broker'),
+        hub: calculateRetention(records, 'hub'),
+        uy: calculateRetention(records, 'uy'),
+      },
+    });
+  } catch (error) {
+    console.error('Renewals API error:', error);
+    return NextResponse.json({
+      error: 'Failed to build renewal pipeline',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
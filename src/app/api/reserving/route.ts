@@ -0,0 +1,98 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { z } from 'zod';
+import { loadTriangles } from '@/lib/triangles';
+import {
+  isSegmentRun,
+  listReservingRuns,
+  ReservingAssumptionsSchema,
+  runReserving,
+  saveReservingRun,
+  TriangleFiltersSchema,
+} from '@/lib/reserving';
+
+const RunRequestSchema = z.object({
+  filters: TriangleFiltersSchema.default({}),
+  assumptions: ReservingAssumptionsSchema.default(ReservingAssumptionsSchema.parse({})),
+  save: z.boolean().default(false),
+  name: z.string().optional(),
+});
+
+function errorResponse(message: string, error: unknown) {
+  return NextResponse.json({
+    error: message,
+    details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+  }, { status: 500 });
+}
+
+/**
+ * Saved reserving runs, newest first
+ * ?id=<id> returns one saved run with its factors and per-UY results. ?current=true returns the latest saved run for
+ * the segment given by hub, region, extType and cedant (the whole portfolio without them), or a run with the default
+ * assumptions computed now when none is saved.
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const runs = await listReservingRuns();
+
+    const id = params.get('id');
+    if (id) {
+      const run = runs.find(saved => saved.id === id);
+      if (!run) {
+        return NextResponse.json({ error: `Reserving run ${id} not found` }, { status: 404 });
+      }
+      return NextResponse.json({ run });
+    }
+
+    if (params.get('current') === 'true') {
+      const filters = TriangleFiltersSchema.parse({
+        hub: params.get('hub') || undefined,
+        region: params.get('region') || undefined,
+        extType: params.get('extType') || undefined,
+        cedant: params.get('cedant') || undefined,
+      });
+      const saved = runs.find(run => isSegmentRun(run, filters));
+      if (saved) {
+        return NextResponse.json({ run: saved, saved: true });
+      }
+      const { triangles, records } = await loadTriangles(filters);
+      return NextResponse.json({ run: runReserving(triangles, records, ReservingAssumptionsSchema.parse({})), saved: false });
+    }
+
+    return NextResponse.json({
+      runs: runs.map(({ id, name, createdAt, filters, assumptions, asOf, total }) => ({ id, name, createdAt, filters, assumptions, asOf, total })),
+    });
+  } catch (error) {
+    console.error('Reserving API error:', error);
+    return errorResponse('Failed to load reserving runs', error);
+  }
+}
+
+/**
+ * Run chain-ladder and BF for a segment with the given assumptions; with save: true the run is stored
+ */
+export async function POST(req: Request) {
+  try {
+    const body = RunRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!body.success) {
+      return NextResponse.json({
+        error: body.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ')
+      }, { status: 400 });
+    }
+
+    const { filters, assumptions, save, name } = body.data;
+    const { triangles, records } = await loadTriangles(filters);
+    const run = runReserving(triangles, records, assumptions);
+    console.log('Reserving API - Ran', assumptions.method, 'on', assumptions.measure, 'with filters:', filters);
+
+    if (save) {
+      return NextResponse.json({ run: await saveReservingRun(run, name), saved: true });
+    }
+    return NextResponse.json({ run, saved: false });
+  } catch (error) {
+    console.error('Reserving API error:', error);
+    return errorResponse('Failed to run reserving', error);
+  }
+}
@@ -0,0 +1,54 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { diffSnapshots, isSnapshotId, listSnapshots, loadSnapshot, SnapshotGrouping } from '@/lib/snapshots';
+import { createEntityResolver, loadEntityAliases } from '@/lib/entities';
+
+const GROUPINGS: SnapshotGrouping[] = ['uy', 'cedant', 'country'];
+
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const params = url.searchParams;
+
+    const groupBy = (params.get('groupBy') || 'uy') as SnapshotGrouping;
+    if (!GROUPINGS.includes(groupBy)) {
+      return NextResponse.json({ error: `groupBy must be one of ${GROUPINGS.join(', ')}` }, { status: 400 });
+    }
+
+    const limitParam = params.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : 200;
+
+    // Default to the two most recent snapshots
+    const snapshots = await listSnapshots();
+    const toId = params.get('to') || snapshots[0]?.id;
+    const fromId = params.get('from') || snapshots.find(snapshot => snapshot.id !== toId)?.id;
+    if (!fromId || !toId) {
+      return NextResponse.json({ error: 'At least two snapshots are needed for a diff' }, { status: 404 });
+    }
+
+    const invalidId = [fromId, toId].find(id => !isSnapshotId(id));
+    if (invalidId) {
+      return NextResponse.json({ error: `Invalid snapshot id: ${invalidId}` }, { status: 400 });
+    }
+
+    const [from, to, table] = await Promise.all([loadSnapshot(fromId), loadSnapshot(toId), loadEntityAliases()]);
+    if (!from || !to) {
+      return NextResponse.json({ error: `Snapshot not found: ${!from ? fromId : toId}` }, { status: 404 });
+    }
+    // Group cedants on the current alias table, so older snapshots line up with newer ones
+    const diff = diffSnapshots(from, to, groupBy, createEntityResolver(table));
+
+    return NextResponse.json({
+      ...diff,
+      policies: diff.policies.slice(0, limit),
+      changedPolicies: diff.policies.length,
+    });
+  } catch (error) {
+    console.error('Snapshot diff API error:', error);
+    return NextResponse.json({
+      error: 'Failed to diff snapshots',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
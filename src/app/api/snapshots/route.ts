@@ -0,0 +1,17 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { listSnapshots } from '@/lib/snapshots';
+
+export async function GET() {
+  try {
+    const snapshots = await listSnapshots();
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error('Snapshots API error:', error);
+    return NextResponse.json({
+      error: 'Failed to list snapshots',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { formatCsv } from '@/lib/csv';
+import { getPresentationRates, loadFxRates, REPORTING_CURRENCY } from '@/lib/fx';
+import {
+  buildTriangleWorkbook,
+  getTriangleSheetRows,
+  loadTriangles,
+  TRIANGLE_MEASURES,
+  TriangleFilters,
+  TriangleMeasure,
+} from '@/lib/triangles';
+
+const FORMATS = ['json', 'csv', 'xlsx'];
+
+/**
+ * Paid and incurred development triangles by UY from the stored snapshots
+ * Accepts hub, region, extType and cedant filters. format=csv returns the triangle selected by measure (default
+ * incurred); format=xlsx returns both triangles as sheets. Exported amounts are in the presentation currency given
+ * by currency (default KWD).
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+
+    const format = params.get('format') || 'json';
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${FORMATS.join(', ')}` }, { status: 400 });
+    }
+    const measure = (params.get('measure') || 'incurred') as TriangleMeasure;
+    if (!TRIANGLE_MEASURES.includes(measure)) {
+      return NextResponse.json({ error: `measure must be one of ${TRIANGLE_MEASURES.join(', ')}` }, { status: 400 });
+    }
+
+    const currency = params.get('currency') || REPORTING_CURRENCY;
+    const rate = format === 'json' ? undefined : getPresentationRates(await loadFxRates()).find(entry => entry.currency === currency);
+    if (format !== 'json' && !rate) {
+      return NextResponse.json({ error: `No presentation rate for currency ${currency}` }, { status: 400 });
+    }
+
+    const filters: TriangleFilters = {
+      hub: params.get('hub') || undefined,
+      region: params.get('region') || undefined,
+      extType: params.get('extType') || undefined,
+      cedant: params.get('cedant') || undefined,
+    };
+
+    const { triangles } = await loadTriangles(filters);
+    console.log('Triangles API - Built from', triangles.diagonals.length, 'diagonals with filters:', filters);
+
+    const fileName = `triangles_${new Date().toISOString().split('T')[0]}`;
+    if (format === 'csv') {
+      return new NextResponse(formatCsv(getTriangleSheetRows(triangles[measure], rate)), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${fileName}_${measure}.csv"`,
+        },
+      });
+    }
+    if (format === 'xlsx') {
+      return new NextResponse(new Uint8Array(await buildTriangleWorkbook(triangles, rate)), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${fileName}.xlsx"`,
+        },
+      });
+    }
+
+    return NextResponse.json(triangles);
+  } catch (error) {
+    console.error('Triangles API error:', error);
+    return NextResponse.json({
+      error: 'Failed to build development triangles',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    }, { status: 500 });
+  }
+}
@@ -31,9 +31,12 @@ import {
   Users,
   Building
 } from 'lucide-react';
-import { formatKD, formatPct } from '@/lib/format';
+import { formatPct } from '@/lib/format';
+import { currencyLabel, useCurrency } from '@/components/currency/CurrencyProvider';
 import { ReinsuranceData } from '@/lib/schema';
 import { ChatBot } from '@/components/chat/ChatBot';
+import { BusinessMixTable } from '@/components/tables/BusinessMixTable';
+import { calculateBusinessMix } from '@/lib/business-mix';
 
 type ClientType = 'broker' | 'cedant';
 
@@ -61,6 +64,10 @@ interface NormalizedRow {
   grossActualAcq: number;
   grossPaidClaims: number;
   grossOsLoss: number;
+
+  // Business mix fields
+  newRenew: string | null;
+  renewalStatus: string | null;
 }
 
 interface FilterState {
@@ -95,7 +102,57 @@ interface FilterIndexes {
   byYear: Map<number, number[]>;
 }
 
+// Filtering algorithm according to spec: union-within, intersection-across
+function filterRows(rows: NormalizedRow[], indexes: FilterIndexes, filters: FilterState): NormalizedRow[] {
+  // Start with pool = ALL indices
+  let pool = new Set<number>(rows.map((_, index) => index));
+
+  // For each facet with selections: UNION within facet, INTERSECT across facets
+  Object.entries(filters).forEach(([facet, selections]) => {
+    if (selections.length === 0) return; // Skip empty filters
+
+    const facetIndices = new Set<number>();
+
+    // UNION within facet (all selections for this facet)
+    selections.forEach((selection: string) => {
+      let indices: number[] = [];
+
+      switch (facet) {
+        case 'country':
+          indices = indexes.byCountry.get(selection.toLowerCase()) || [];
+          break;
+        case 'region':
+          indices = indexes.byRegion.get(selection.toLowerCase()) || [];
+          break;
+        case 'hub':
+          indices = indexes.byHub.get(selection.toLowerCase()) || [];
+          break;
+        case 'broker':
+          indices = indexes.byBroker.get(selection.toLowerCase()) || [];
+          break;
+        case 'cedant':
+          indices = indexes.byCedant.get(selection.toLowerCase()) || [];
+          break;
+        case 'insured':
+          indices = indexes.byInsured.get(selection.toLowerCase()) || [];
+          break;
+        case 'year':
+          indices = indexes.byYear.get(Number(selection)) || [];
+          break;
+      }
+
+      indices.forEach(index => facetIndices.add(index));
+    });
+
+    // INTERSECT with pool
+    pool = new Set([...pool].filter(index => facetIndices.has(index)));
+  });
+
+  return Array.from(pool).map(index => rows[index]);
+}
+
 export default function ClientOverviewPage() {
+  const { currency, formatAmount } = useCurrency();
   const [rawData, setRawData] = useState<ReinsuranceData[]>([]);
   const [normalizedRows, setNormalizedRows] = useState<NormalizedRow[]>([]);
   const [indexes, setIndexes] = useState<FilterIndexes | null>(null);
@@ -113,6 +170,7 @@ export default function ClientOverviewPage() {
   });
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
+  const [mixClient, setMixClient] = useState<string>('');
 
   // Normalization function according to spec
   const normalizeData = (records: ReinsuranceData[]): NormalizedRow[] => {
@@ -159,7 +217,11 @@ export default function ClientOverviewPage() {
         grossUWPrem: safeNum(record.grossUWPrem),
         grossActualAcq: safeNum(record.grossActualAcq),
         grossPaidClaims: safeNum(record.grossPaidClaims),
-        grossOsLoss: safeNum(record.grossOsLoss)
+        grossOsLoss: safeNum(record.grossOsLoss),
+
+        // Business mix fields
+        newRenew: record.newRenew ?? null,
+        renewalStatus: record.renewalStatus ?? null
       };
     });
   };
@@ -279,58 +341,14 @@ export default function ClientOverviewPage() {
     loadData();
   }, [loadData]);
 
-  // Filtering algorithm according to spec: union-within, intersection-across
+  // Apply the current filters
   const filteredData = useMemo(() => {
     if (!indexes || normalizedRows.length === 0) {
       console.log('Client Overview - No data or indexes available for filtering');
       return [];
     }
 
-    // Start with pool = ALL indices
-    let pool = new Set<number>(normalizedRows.map((_, index) => index));
-    
-    // For each facet with selections: UNION within facet, INTERSECT across facets
-    Object.entries(filters).forEach(([facet, selections]) => {
-      if (selections.length === 0) return; // Skip empty filters
-      
-      const facetIndices = new Set<number>();
-      
-      // UNION within facet (all selections for this facet)
-      selections.forEach((selection: string) => {
-        let indices: number[] = [];
-        
-        switch (facet) {
-          case 'country':
-            indices = indexes.byCountry.get(selection.toLowerCase()) || [];
-            break;
-          case 'region':
-            indices = indexes.byRegion.get(selection.toLowerCase()) || [];
-            break;
-          case 'hub':
-            indices = indexes.byHub.get(selection.toLowerCase()) || [];
-            break;
-          case 'broker':
-            indices = indexes.byBroker.get(selection.toLowerCase()) || [];
-            break;
-          case 'cedant':
-            indices = indexes.byCedant.get(selection.toLowerCase()) || [];
-            break;
-          case 'insured':
-            indices = indexes.byInsured.get(selection.toLowerCase()) || [];
-            break;
-          case 'year':
-            indices = indexes.byYear.get(Number(selection)) || [];
-            break;
-        }
-        
-        indices.forEach(index => facetIndices.add(index));
-      });
-      
-      // INTERSECT with pool
-      pool = new Set([...pool].filter(index => facetIndices.has(index)));
-    });
-    
-    const filteredRows = Array.from(pool).map(index => normalizedRows[index]);
+    const filteredRows = filterRows(normalizedRows, indexes, filters);
     
     console.log('Client Overview - Filtering results:', {
       totalRows: normalizedRows.length,
@@ -518,6 +536,29 @@ export default function ClientOverviewPage() {
     };
   }, [filteredData, clientType, maxClients, filters]);
 
+  // New vs renewal business of one client: every year is kept so lost business and the bridge have a prior year
+  const businessMix = useMemo(() => {
+    if (!indexes || normalizedRows.length === 0) {
+      return { clients: [], client: null, rows: [] };
+    }
+
+    const rows = filterRows(normalizedRows, indexes, { ...filters, year: [] });
+    const getClient = (row: NormalizedRow) => clientType === 'broker' ? row.broker : row.cedant;
+    const premiums = new Map<string, number>();
+    rows.forEach(row => {
+      const client = getClient(row);
+      if (client) premiums.set(client, (premiums.get(client) ?? 0) + row.grossUWPrem);
+    });
+    const clients = [...premiums.keys()].sort((a, b) => premiums.get(b)! - premiums.get(a)!);
+    const client = clients.includes(mixClient) ? mixClient : clients[0] ?? null;
+
+    return {
+      clients,
+      client,
+      rows: client ? calculateBusinessMix(rows.filter(row => getClient(row) === client), row => row.year) : []
+    };
+  }, [normalizedRows, indexes, filters, clientType, mixClient]);
+
   // Handle filter changes
   const handleFilterChange = (filterType: keyof FilterState, values: string[]) => {
     setFilters(prev => ({
@@ -995,7 +1036,7 @@ export default function ClientOverviewPage() {
                       <TableHeader className="bg-muted/50">
                         <TableRow>
                           <TableHead className="w-[250px] font-semibold">Broker List</TableHead>
-                          <TableHead className="text-right w-[140px] font-semibold">Premium (KD)</TableHead>
+                          <TableHead className="text-right w-[140px] font-semibold">Premium ({currencyLabel(currency)})</TableHead>
                           <TableHead className="text-right w-[120px] font-semibold">Loss Ratio %</TableHead>
                           <TableHead className="text-right w-[140px] font-semibold">% of Grand Total</TableHead>
                         </TableRow>
@@ -1012,7 +1053,7 @@ export default function ClientOverviewPage() {
                               </div>
                             </TableCell>
                             <TableCell className="text-right font-mono text-sm py-3">
-                              {formatKD(client.premium)}
+                              {formatAmount(client.premium)}
                             </TableCell>
                             <TableCell className="text-right py-3">
                               <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getRatioColor(client.lossRatio)}`}>
@@ -1031,7 +1072,7 @@ export default function ClientOverviewPage() {
                                 TOTAL
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(clientData.totals.premium)}
+                                {formatAmount(clientData.totals.premium)}
                               </TableCell>
                               <TableCell className="text-right">
                                 <span className={getRatioColor(clientData.grandTotal.lossRatio)}>
@@ -1047,7 +1088,7 @@ export default function ClientOverviewPage() {
                                 Grand Total
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(clientData.grandTotal.premium)}
+                                {formatAmount(clientData.grandTotal.premium)}
                               </TableCell>
                               <TableCell className="text-right">
                                 <span className={getRatioColor(clientData.grandTotal.lossRatio)}>
@@ -1092,7 +1133,7 @@ export default function ClientOverviewPage() {
                       <TableHeader className="bg-muted/50">
                         <TableRow>
                           <TableHead className="w-[250px] font-semibold">Cedant List</TableHead>
-                          <TableHead className="text-right w-[140px] font-semibold">Premium (KD)</TableHead>
+                          <TableHead className="text-right w-[140px] font-semibold">Premium ({currencyLabel(currency)})</TableHead>
                           <TableHead className="text-right w-[120px] font-semibold">Loss Ratio %</TableHead>
                           <TableHead className="text-right w-[140px] font-semibold">% of Grand Total</TableHead>
                         </TableRow>
@@ -1109,7 +1150,7 @@ export default function ClientOverviewPage() {
                               </div>
                             </TableCell>
                             <TableCell className="text-right font-mono text-sm py-3">
-                              {formatKD(client.premium)}
+                              {formatAmount(client.premium)}
                             </TableCell>
                             <TableCell className="text-right py-3">
                               <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getRatioColor(client.lossRatio)}`}>
@@ -1128,7 +1169,7 @@ export default function ClientOverviewPage() {
                                 TOTAL
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(clientData.totals.premium)}
+                                {formatAmount(clientData.totals.premium)}
                               </TableCell>
                               <TableCell className="text-right">
                                 <span className={getRatioColor(clientData.grandTotal.lossRatio)}>
@@ -1144,7 +1185,7 @@ export default function ClientOverviewPage() {
                                 Grand Total
                               </TableCell>
                               <TableCell className="text-right">
-                                {formatKD(clientData.grandTotal.premium)}
+                                {formatAmount(clientData.grandTotal.premium)}
                               </TableCell>
                               <TableCell className="text-right">
                                 <span className={getRatioColor(clientData.grandTotal.lossRatio)}>
@@ -1165,6 +1206,30 @@ export default function ClientOverviewPage() {
             </Tabs>
           </CardContent>
         </Card>
+
+        {/* New vs Renewal Business */}
+        {!isLoading && (
+          <BusinessMixTable
+            className="mt-6"
+            title={`New vs Renewal Business${businessMix.client ? ` – ${businessMix.client}` : ''}`}
+            rows={businessMix.rows}
+            actions={businessMix.clients.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-muted-foreground">{clientType === 'broker' ? 'Broker' : 'Cedant'}:</span>
+                <Select value={businessMix.client ?? undefined} onValueChange={setMixClient}>
+                  <SelectTrigger className="w-[240px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {businessMix.clients.map(client => (
+                      <SelectItem key={client} value={client}>{client}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          />
+        )}
       </div>
 
       {/* ChatBot */}
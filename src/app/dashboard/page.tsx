@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { SimpleSearchFilter } from '@/components/filters/SimpleSearchFilter';
 import { ChatBot } from '@/components/chat/ChatBot';
@@ -11,18 +11,32 @@ import { LossRatioBarChart } from '@/components/charts/LossRatioChart';
 import { PremiumByExtTypeDonut } from '@/components/charts/PremiumByExtensionTypeChart';
 import { TopCedantsList } from '@/components/charts/TopCedantsChart';
 import { TopBrokersList } from '@/components/charts/TopBrokersChart';
+import { ConcentrationAnalysis } from '@/components/charts/ConcentrationChart';
 import { FilterSummary } from '@/components/filters/FilterSummary';
+import { DataUpdatedBanner } from '@/components/data/DataUpdatedBanner';
+import { useDataUpdates } from '@/hooks/useDataUpdates';
+import { usePremiumBasis } from '@/components/premium/PremiumBasisProvider';
 import { ReinsuranceData } from '@/lib/schema';
-import { aggregateKPIs, calculateUYPerformance, calculateUYPerformanceTotals } from '@/lib/kpi';
+import type { ReservingRun } from '@/lib/reserving';
+import { aggregateKPIs, calculateUYPerformance, calculateUYPerformanceTotals, getFilterOptions } from '@/lib/kpi';
 // CSV data loading logic removed - new implementation will be added
 
 export default function DashboardPage() {
   const [data, setData] = useState<ReinsuranceData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [filters, setFilters] = useState<Partial<Record<string, string[]>>>({});
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const { dataVersion, dataUpdatedAt } = useDataUpdates();
+  const { valuationDate } = usePremiumBasis();
+  const [ultimateRatios, setUltimateRatios] = useState<Record<string, number | null> | undefined>(undefined);
+  // Lets a live reload keep the active filter instead of replacing the view with all records
+  const filtersRef = useRef(filters);
   const [filterOptions, setFilterOptions] = useState<{
     years?: string[];
     countries?: Array<{ label: string; value: string }>;
+    classes?: string[];
+    treatyNatures?: string[];
+    renewalStatuses?: string[];
   }>({});
 
   // Function to clear filters and reload all data
@@ -34,6 +48,7 @@ export default function DashboardPage() {
       const dataResult = await dataResponse.json();
       console.log('Dashboard - Reloaded all data:', dataResult.data.length, 'records');
       setData(dataResult.data);
+      setLastUpdated(new Date());
     } catch (error) {
       console.error('Failed to reload data:', error);
     } finally {
@@ -41,7 +56,11 @@ export default function DashboardPage() {
     }
   };
 
-  // Load dimensions and initial data
+  useEffect(() => {
+    filtersRef.current = filters;
+  }, [filters]);
+
+  // Load dimensions and initial data, again after every dataset reload
   useEffect(() => {
     const loadInitialData = async () => {
       setIsLoading(true);
@@ -67,16 +86,25 @@ export default function DashboardPage() {
         const years = [...new Set(dataResult.data.map((record: ReinsuranceData) => record.uy))].filter(Boolean).sort() as string[];
         const countries = [...new Set(dataResult.data.map((record: ReinsuranceData) => record.countryName))].filter(Boolean).sort() as string[];
         
+        const attributeOptions = getFilterOptions(dataResult.data);
+        
         setFilterOptions({
           years,
-          countries: countries.map(country => ({ label: country, value: country }))
+          countries: countries.map(country => ({ label: country, value: country })),
+          classes: attributeOptions.businessClass,
+          treatyNatures: attributeOptions.treatyNature,
+          renewalStatuses: attributeOptions.renewalStatus
         });
         
         // Debug: Show years in the data
         console.log('Dashboard - Years in data:', years);
         console.log('Dashboard - Countries in data:', countries);
         
-        setData(dataResult.data);
+        // With filters active the filtered effect below refreshes the records
+        if (Object.keys(filtersRef.current).length === 0) {
+          setData(dataResult.data);
+          setLastUpdated(new Date());
+        }
       } catch (error) {
         console.error('Failed to load dashboard data:', error);
       } finally {
@@ -85,7 +113,7 @@ export default function DashboardPage() {
     };
 
     loadInitialData();
-  }, []);
+  }, [dataVersion]);
 
   // Load data when filters change
   useEffect(() => {
@@ -110,6 +138,9 @@ export default function DashboardPage() {
         if (filters.cedant && filters.cedant.length > 0) {
           params.append('cedant', filters.cedant[0]);
         }
+        filters.businessClass?.forEach(value => params.append('class', value));
+        filters.treatyNature?.forEach(value => params.append('treatyNature', value));
+        filters.renewalStatus?.forEach(value => params.append('renewalStatus', value));
         
         params.append('limit', '5000');
         
@@ -129,6 +160,7 @@ export default function DashboardPage() {
         
         console.log('Dashboard - Filtered data:', dataResult.data.length, 'records');
         setData(dataResult.data);
+        setLastUpdated(new Date());
       } catch (error) {
         console.error('Failed to load filtered data:', error);
       } finally {
@@ -140,8 +172,52 @@ export default function DashboardPage() {
     if (Object.keys(filters).length > 0) {
       loadFilteredData();
     }
+  }, [filters, dataVersion]);
+
+  // Reserving segment for the active filters, or null when a filter narrows the UYs in a way a run cannot express.
+  // A UY filter keeps whole UYs, so the per-UY ratios of the segment still apply.
+  const reservingSegment = useMemo(() => {
+    const segment: Partial<Record<'hub' | 'region' | 'extType' | 'cedant', string>> = {};
+    for (const [key, values] of Object.entries(filters)) {
+      if (!values || values.length === 0 || key === 'uy') continue;
+      if (values.length > 1 || !['hub', 'region', 'extType', 'cedant'].includes(key)) return null;
+      segment[key as keyof typeof segment] = values[0];
+    }
+    return new URLSearchParams(segment).toString();
   }, [filters]);
 
+  // Ultimate to reported incurred per UY from the latest reserving run for the segment
+  useEffect(() => {
+    if (reservingSegment === null) {
+      setUltimateRatios(undefined);
+      return;
+    }
+    // A response for a segment that is no longer selected is dropped
+    let active = true;
+    const loadReserving = async () => {
+      try {
+        const response = await fetch(`/api/reserving?current=true${reservingSegment ? `&${reservingSegment}` : ''}`);
+        if (!response.ok) {
+          throw new Error(`API request failed: ${response.status}`);
+        }
+        const { run }: { run: Pick<ReservingRun, 'results'> } = await response.json();
+        if (!active) return;
+        setUltimateRatios(Object.fromEntries(run.results.map(row => [
+          row.uy,
+          row.incurred === 0 ? null : row.selected.ultimate / row.incurred,
+        ])));
+      } catch (error) {
+        console.error('Dashboard - Failed to load reserving run:', error);
+        if (active) setUltimateRatios(undefined);
+      }
+    };
+
+    loadReserving();
+    return () => {
+      active = false;
+    };
+  }, [reservingSegment, dataVersion]);
+
   // Use data directly since filtering is done at API level
   const filteredData = useMemo(() => {
     console.log('Dashboard - Displaying data:', data.length, 'records');
@@ -151,7 +227,7 @@ export default function DashboardPage() {
 
   // Calculate KPIs
   const kpiData = useMemo(() => {
-    const kpis = aggregateKPIs(filteredData);
+    const kpis = aggregateKPIs(filteredData, valuationDate);
     console.log('Dashboard - KPI Data:', {
       premium: kpis.premium,
       paidClaims: kpis.paidClaims,
@@ -161,15 +237,16 @@ export default function DashboardPage() {
       lossRatio: kpis.lossRatio,
       expenseRatio: kpis.expenseRatio,
       combinedRatio: kpis.combinedRatio,
-      numberOfAccounts: kpis.numberOfAccounts
+      numberOfAccounts: kpis.numberOfAccounts,
+      earnedPremium: kpis.earnedPremium
     });
     return kpis;
-  }, [filteredData]);
+  }, [filteredData, valuationDate]);
 
   // Calculate UY performance
   const uyPerformance = useMemo(() => {
-    return calculateUYPerformance(filteredData);
-  }, [filteredData]);
+    return calculateUYPerformance(filteredData, valuationDate);
+  }, [filteredData, valuationDate]);
 
   const uyPerformanceTotals = useMemo(() => {
     return calculateUYPerformanceTotals(uyPerformance);
@@ -193,6 +270,8 @@ export default function DashboardPage() {
           </p>
         </motion.div>
 
+        <DataUpdatedBanner dataUpdatedAt={dataUpdatedAt} lastUpdated={lastUpdated} className="mb-6" />
+
 
         {/* Global Filters */}
         <motion.div
@@ -238,6 +317,7 @@ export default function DashboardPage() {
           <UyPerformanceTable
             data={uyPerformance}
             totals={uyPerformanceTotals}
+            ultimateRatios={ultimateRatios}
           />
         </motion.div>
 
@@ -263,6 +343,9 @@ export default function DashboardPage() {
             <TopBrokersList data={filteredData} />
           </div>
 
+          {/* Concentration: HHI, top-N shares and Pareto curve */}
+          <ConcentrationAnalysis data={filteredData} />
+
 
 
         </motion.div>
@@ -283,7 +366,7 @@ export default function DashboardPage() {
                 Loading Your Data
               </h3>
               <p className="text-muted-foreground mb-4">
-                Processing your 2019-2021 reinsurance data...
+                Processing your reinsurance data...
               </p>
               <div className="text-sm text-muted-foreground">
                 <p>Loading 3,290+ records and calculating KPIs</p>
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { LineChart, Line, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
+import { ShieldCheck, Loader2, ListFilter } from 'lucide-react';
+import { formatNumber } from '@/lib/format';
+import { useDataUpdates } from '@/hooks/useDataUpdates';
+import type { DataQualityCheckId, DataQualityCheckResult, DataQualityCounts, DataQualityIssue } from '@/lib/data-quality';
+
+type CheckSummary = Omit<DataQualityCheckResult, 'issues'>;
+
+interface DataQualityResponse {
+  loadedAt: string;
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  checks: CheckSummary[];
+  trend: Array<{ id: string; asOf: string; counts: DataQualityCounts }>;
+}
+
+interface CheckIssuesResponse {
+  check: CheckSummary;
+  issues: DataQualityIssue[];
+  totalIssues: number;
+}
+
+export default function DataQualityPage() {
+  const { dataVersion } = useDataUpdates();
+  const [data, setData] = useState<DataQualityResponse | null>(null);
+  const [selectedCheck, setSelectedCheck] = useState<DataQualityCheckId | null>(null);
+  const [issues, setIssues] = useState<CheckIssuesResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingIssues, setIsLoadingIssues] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadChecks = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch('/api/data-quality');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `API request failed: ${response.status}`);
+        }
+        setData(result);
+        setError(null);
+      } catch (err) {
+        console.error('Data Quality - Failed to load checks:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadChecks();
+  }, [dataVersion]);
+
+  // Drill-down rows for the selected check
+  useEffect(() => {
+    if (!selectedCheck) {
+      setIssues(null);
+      return;
+    }
+
+    const loadIssues = async () => {
+      setIsLoadingIssues(true);
+      try {
+        const response = await fetch(`/api/data-quality?check=${selectedCheck}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `API request failed: ${response.status}`);
+        }
+        setIssues(result);
+      } catch (err) {
+        console.error('Data Quality - Failed to load rows:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setIsLoadingIssues(false);
+      }
+    };
+
+    loadIssues();
+  }, [selectedCheck, dataVersion]);
+
+  const totalIssues = data?.checks.reduce((sum, check) => sum + check.count, 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Fixed Header */}
+      <div className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-foreground">Data Quality</h1>
+            {data && (
+              <>
+                <Badge variant="outline" className="text-xs">
+                  {formatNumber(data.acceptedRows)} of {formatNumber(data.totalRows)} rows accepted
+                </Badge>
+                <Badge variant={totalIssues > 0 ? 'secondary' : 'outline'} className="text-xs">
+                  {formatNumber(totalIssues)} issues
+                </Badge>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {isLoading && !data && (
+          <div className="flex items-center justify-center py-12">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-muted-foreground">Running checks...</span>
+            </div>
+          </div>
+        )}
+
+        {data && (
+          <>
+            {/* Checks */}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {data.checks.map(check => {
+                const trend = data.trend.map(point => ({ asOf: point.asOf, count: point.counts[check.id] ?? 0 }));
+                return (
+                  <Card
+                    key={check.id}
+                    className={selectedCheck === check.id ? 'border-primary' : undefined}
+                  >
+                    <CardHeader className="pb-2">
+                      <CardTitle className="flex items-center justify-between text-base">
+                        <span>{check.label}</span>
+                        <Badge variant={check.count > 0 ? 'destructive' : 'outline'}>
+                          {formatNumber(check.count)}
+                        </Badge>
+                      </CardTitle>
+                      <CardDescription>{check.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {trend.length > 1 ? (
+                        <div className="h-16">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={trend}>
+                              <XAxis dataKey="asOf" hide />
+                              <Tooltip formatter={(value: number) => [formatNumber(value), 'Issues']} />
+                              <Line type="monotone" dataKey="count" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">No earlier snapshots with counts yet</p>
+                      )}
+                      <div className="flex flex-wrap gap-1">
+                        {check.breakdown.slice(0, 4).map(entry => (
+                          <Badge key={entry.label} variant="secondary" className="text-xs">
+                            {entry.label}: {formatNumber(entry.count)}
+                          </Badge>
+                        ))}
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={check.count === 0}
+                        onClick={() => setSelectedCheck(current => current === check.id ? null : check.id)}
+                      >
+                        <ListFilter className="h-4 w-4 mr-2" />
+                        {selectedCheck === check.id ? 'Hide rows' : 'View rows'}
+                      </Button>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
+            {/* Drill-down */}
+            {selectedCheck && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5" />
+                    {issues?.check.label ?? 'Offending rows'}
+                  </CardTitle>
+                  <CardDescription>
+                    Row numbers are lines in the source file, counting the header as line 1
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {isLoadingIssues && !issues ? (
+                    <div className="flex items-center gap-2 py-6">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="text-sm text-muted-foreground">Loading rows...</span>
+                    </div>
+                  ) : issues && (
+                    <>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>File</TableHead>
+                            <TableHead className="text-right">Row</TableHead>
+                            <TableHead>View Extract</TableHead>
+                            <TableHead>UY</TableHead>
+                            <TableHead>Cedant</TableHead>
+                            <TableHead>Column</TableHead>
+                            <TableHead>Value</TableHead>
+                            <TableHead>Detail</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {issues.issues.map((issue, index) => (
+                            <TableRow key={`${issue.file}-${issue.row}-${issue.column}-${index}`}>
+                              <TableCell className="text-xs">{issue.file ?? '-'}</TableCell>
+                              <TableCell className="text-right font-mono text-xs">{issue.row ?? '-'}</TableCell>
+                              <TableCell className="font-mono text-xs">{issue.viewExtract ?? '-'}</TableCell>
+                              <TableCell>{issue.uy ?? '-'}</TableCell>
+                              <TableCell className="max-w-[200px] truncate">{issue.cedant ?? '-'}</TableCell>
+                              <TableCell>{issue.column ?? '-'}</TableCell>
+                              <TableCell className="font-mono text-xs">{issue.value || '(blank)'}</TableCell>
+                              <TableCell className="text-sm text-muted-foreground">{issue.detail}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      {issues.totalIssues > issues.issues.length && (
+                        <p className="text-xs text-muted-foreground mt-3">
+                          Showing {formatNumber(issues.issues.length)} of {formatNumber(issues.totalIssues)} rows
+                        </p>
+                      )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Link2, Loader2, Check, X, Building2 } from 'lucide-react';
+import { formatNumber, formatPct } from '@/lib/format';
+import type { CanonicalEntity, EntitySuggestion, EntityType } from '@/lib/entities';
+
+interface UnmappedName {
+  name: string;
+  recordCount: number;
+  suggestions: EntitySuggestion[];
+}
+
+interface EntitiesResponse {
+  type: EntityType;
+  entities: Array<CanonicalEntity & { recordCount: number }>;
+  unmapped: UnmappedName[];
+}
+
+const TYPE_LABELS: Record<EntityType, string> = {
+  cedant: 'Cedants',
+  broker: 'Brokers',
+};
+
+// Rows rendered at once; the list is sorted so names with suggestions come first
+const MAX_ROWS = 200;
+
+export default function EntitiesPage() {
+  const [type, setType] = useState<EntityType>('cedant');
+  const [data, setData] = useState<EntitiesResponse | null>(null);
+  const [onlySuggested, setOnlySuggested] = useState(true);
+  const [search, setSearch] = useState('');
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingName, setSavingName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  // Reload after every confirmed or removed mapping
+  useEffect(() => {
+    const loadEntities = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/entities?type=${type}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `API request failed: ${response.status}`);
+        }
+        setData(result);
+        setError(null);
+      } catch (err) {
+        console.error('Entities - Failed to load entities:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadEntities();
+  }, [type, version]);
+
+  const confirmAlias = async (alias: string, entityName: string) => {
+    setSavingName(alias);
+    try {
+      const response = await fetch('/api/entities', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, alias, entityName }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `API request failed: ${response.status}`);
+      }
+      setTargets(current => ({ ...current, [alias]: '' }));
+      setVersion(current => current + 1);
+    } catch (err) {
+      console.error('Entities - Failed to confirm alias:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSavingName(null);
+    }
+  };
+
+  const removeAlias = async (alias: string) => {
+    setSavingName(alias);
+    try {
+      const params = new URLSearchParams({ type, alias });
+      const response = await fetch(`/api/entities?${params.toString()}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `API request failed: ${response.status}`);
+      }
+      setVersion(current => current + 1);
+    } catch (err) {
+      console.error('Entities - Failed to remove alias:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSavingName(null);
+    }
+  };
+
+  const unmapped = (data?.unmapped ?? [])
+    .filter(entry => !onlySuggested || entry.suggestions.length > 0)
+    .filter(entry => !search || entry.name.toLowerCase().includes(search.toLowerCase()));
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Fixed Header */}
+      <div className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-foreground">Entity Aliases</h1>
+            {data && (
+              <>
+                <Badge variant="outline" className="text-xs">
+                  {data.entities.length} confirmed entities
+                </Badge>
+                <Badge variant="secondary" className="text-xs">
+                  {data.unmapped.length} unmapped names
+                </Badge>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="border-b bg-muted/30">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={type} onValueChange={value => setType(value as EntityType)}>
+              <SelectTrigger className="h-8 min-w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TYPE_LABELS) as EntityType[]).map(entityType => (
+                  <SelectItem key={entityType} value={entityType}>{TYPE_LABELS[entityType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={search}
+              onChange={event => setSearch(event.target.value)}
+              placeholder="Search names..."
+              className="h-8 max-w-xs"
+            />
+            <div className="flex items-center gap-2">
+              <Switch checked={onlySuggested} onCheckedChange={setOnlySuggested} />
+              <span className="text-sm">Only names with suggestions</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {isLoading && !data && (
+          <div className="flex items-center justify-center py-12">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-muted-foreground">Loading entities...</span>
+            </div>
+          </div>
+        )}
+
+        {data && (
+          <>
+            {/* Unmapped Names */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Link2 className="h-5 w-5" />
+                  Unmapped {TYPE_LABELS[data.type]}
+                </CardTitle>
+                <CardDescription>
+                  Confirm a suggestion or type the canonical name to map a spelling. Aggregations group by the canonical entity.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name in extract</TableHead>
+                      <TableHead className="text-right">Records</TableHead>
+                      <TableHead>Suggestions</TableHead>
+                      <TableHead className="w-[320px]">Map to</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unmapped.slice(0, MAX_ROWS).map(entry => (
+                      <TableRow key={entry.name}>
+                        <TableCell className="font-medium">{entry.name}</TableCell>
+                        <TableCell className="text-right">{formatNumber(entry.recordCount)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {entry.suggestions.length === 0 && (
+                              <span className="text-xs text-muted-foreground">None</span>
+                            )}
+                            {entry.suggestions.map(suggestion => (
+                              <Button
+                                key={suggestion.entityId ?? suggestion.name}
+                                variant="outline"
+                                size="sm"
+                                className="h-7 text-xs"
+                                disabled={savingName === entry.name}
+                                onClick={() => confirmAlias(entry.name, suggestion.name)}
+                                title={suggestion.entityId ? `Confirmed entity ${suggestion.entityId}` : 'Unmapped name'}
+                              >
+                                <Check className="h-3 w-3 mr-1" />
+                                {suggestion.name} ({formatPct(suggestion.score * 100)})
+                              </Button>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={targets[entry.name] ?? ''}
+                              onChange={event => setTargets(current => ({ ...current, [entry.name]: event.target.value }))}
+                              placeholder="Canonical name"
+                              className="h-7 text-xs"
+                            />
+                            <Button
+                              size="sm"
+                              className="h-7"
+                              disabled={!targets[entry.name]?.trim() || savingName === entry.name}
+                              onClick={() => confirmAlias(entry.name, targets[entry.name])}
+                            >
+                              Map
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {unmapped.length > MAX_ROWS && (
+                  <p className="text-xs text-muted-foreground mt-3">
+                    Showing {MAX_ROWS} of {formatNumber(unmapped.length)} names; search to narrow the list.
+                  </p>
+                )}
+                {unmapped.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No unmapped names match.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Confirmed Entities */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="h-5 w-5" />
+                  Confirmed Entities
+                </CardTitle>
+                <CardDescription>
+                  Canonical names with the spellings mapped to them
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Entity</TableHead>
+                      <TableHead className="text-right">Records</TableHead>
+                      <TableHead>Aliases</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.entities.map(entity => (
+                      <TableRow key={entity.id}>
+                        <TableCell>
+                          <div className="font-medium">{entity.name}</div>
+                          <div className="text-xs text-muted-foreground">{entity.id}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatNumber(entity.recordCount)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {entity.aliases.map(alias => (
+                              <Badge key={alias} variant="secondary" className="text-xs gap-1">
+                                {alias}
+                                <button
+                                  type="button"
+                                  onClick={() => removeAlias(alias)}
+                                  disabled={savingName === alias}
+                                  className="hover:text-red-600"
+                                  title="Remove alias"
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {data.entities.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No mappings confirmed yet.</p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/theme/ThemeProvider";
 import { Navbar } from "@/components/navigation/Navbar";
+import { Footer } from "@/components/navigation/Footer";
+import { CurrencyProvider } from "@/components/currency/CurrencyProvider";
+import { PremiumBasisProvider } from "@/components/premium/PremiumBasisProvider";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -30,10 +33,15 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <ThemeProvider>
-          <div className="min-h-screen bg-background">
-            <Navbar />
-            <main>{children}</main>
-          </div>
+          <CurrencyProvider>
+            <PremiumBasisProvider>
+              <div className="min-h-screen bg-background">
+                <Navbar />
+                <main>{children}</main>
+                <Footer />
+              </div>
+            </PremiumBasisProvider>
+          </CurrencyProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -18,199 +18,104 @@ import {
   Clock,
   AlertCircle
 } from "lucide-react";
-import { formatKD, formatPct, formatNumber } from "@/lib/format";
-import { ReinsuranceData } from "@/lib/schema";
-import { aggregateKPIs } from "@/lib/kpi";
+import { formatPct, formatNumber } from "@/lib/format";
+import { useCurrency } from "@/components/currency/CurrencyProvider";
+import { PerformanceTotals } from "@/lib/schema";
+import { DataUpdatedBanner } from "@/components/data/DataUpdatedBanner";
+import { useDataUpdates } from "@/hooks/useDataUpdates";
+import { PremiumBasisToggle, usePremiumBasis } from "@/components/premium/PremiumBasisProvider";
+import type { PremiumBasis } from "@/lib/earned";
 
 const monthLabels = [
   "Jan", "Feb", "Mar", "Apr", "May", "Jun",
   "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"
 ];
 
-interface MonthlyData {
+type MonthlyRow = ReturnType<typeof toMonthlyRow>;
+
+interface MonthlyData extends MonthlyRow {
   month: number;
-  policyCount: number;
-  grossPremium: number;
-  acquisitionCostPercent: number;
-  incurredClaims: number;
-  lossRatio: number;
-  technicalResult: number;
-  combinedRatio: number;
 }
 
 interface MonthlyOverviewData {
   monthlyData: MonthlyData[];
-  totals: {
-    policyCount: number;
-    grossPremium: number;
-    acquisitionCostPercent: number;
-    incurredClaims: number;
-    lossRatio: number;
-    technicalResult: number;
-    combinedRatio: number;
+  totals: MonthlyRow;
+}
+
+/**
+ * Response of GET /api/monthly
+ */
+interface MonthlyApiResponse {
+  year: number | 'all';
+  valuationDate: string;
+  months: Record<number, PerformanceTotals & { month: number }>;
+  total: PerformanceTotals;
+  availableYears: number[];
+}
+
+/**
+ * Map API totals onto the table's row fields on the written or earned basis
+ */
+function toMonthlyRow(totals: PerformanceTotals, basis: PremiumBasis) {
+  const earned = basis === 'earned';
+  return {
+    policyCount: totals.policyCount,
+    writtenPremium: totals.premium,
+    grossPremium: earned ? totals.earnedPremium : totals.premium,
+    unearnedPremium: totals.unearnedPremium,
+    acquisitionCostPercent: earned ? totals.earnedAcquisitionPct : totals.acquisitionPct,
+    incurredClaims: totals.incurredClaims,
+    lossRatio: earned ? totals.earnedLossRatioPct : totals.lossRatioPct,
+    writtenLossRatio: totals.lossRatioPct,
+    technicalResult: earned ? totals.earnedTechnicalResult : totals.technicalResult,
+    combinedRatio: earned ? totals.earnedCombinedRatioPct : totals.combinedRatioPct
   };
 }
 
 export default function MonthlyOverviewPage() {
-  const [data, setData] = useState<ReinsuranceData[]>([]);
-  const [monthlyData, setMonthlyData] = useState<MonthlyOverviewData | null>(null);
-  const [availableYears] = useState<string[]>(['2019', '2020', '2021']);
+  const { formatAmount } = useCurrency();
+  const [monthlyResponse, setMonthlyResponse] = useState<MonthlyApiResponse | null>(null);
+  const [availableYears, setAvailableYears] = useState<string[]>([]);
   const [selectedYear, setSelectedYear] = useState<string>('all');
   const [loading, setIsLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const { dataVersion, dataUpdatedAt } = useDataUpdates();
+  const { basis, valuationDate } = usePremiumBasis();
+  const earned = basis === 'earned';
 
-
-  const getMonthFromDate = (dateString: string): number => {
-    const date = new Date(dateString);
-    if (isNaN(date.getTime())) return 0;
-    return date.getMonth() + 1; // getMonth() returns 0-11, we need 1-12
-  };
-
-  // Load data from API
+  // Load server-side monthly aggregates for the selected year, with earned premium at the valuation date
   useEffect(() => {
     const loadData = async () => {
       setIsLoading(true);
       try {
-        const dataResponse = await fetch('/api/data?limit=5000');
-        const dataResult = await dataResponse.json();
-        console.log('Monthly Overview - Loaded data:', dataResult.data.length, 'records');
-        setData(dataResult.data);
+        const response = await fetch(`/api/monthly?year=${selectedYear}&asOf=${valuationDate}`);
+        if (!response.ok) {
+          throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        }
+        const result: MonthlyApiResponse = await response.json();
+        console.log('Monthly Overview - Loaded monthly data:', result.total.policyCount, 'policies');
+
+        setAvailableYears(result.availableYears.map(String));
+        setMonthlyResponse(result.total.policyCount > 0 ? result : null);
         setLastUpdated(new Date());
       } catch (error) {
         console.error('Error loading data:', error);
+        setMonthlyResponse(null);
       } finally {
         setIsLoading(false);
       }
     };
 
     loadData();
-  }, []);
-
-  // Calculate monthly data based on selected year
-  const calculatedMonthlyData = useMemo(() => {
-    if (data.length === 0) return null;
-
-    // Filter data by selected year
-    const filteredData = selectedYear === 'all' 
-      ? data 
-      : data.filter(record => record.uy === selectedYear);
-
-    console.log('Monthly Overview - Filtered data:', {
-      selectedYear,
-      totalRecords: data.length,
-      filteredRecords: filteredData.length
-    });
-
-    if (filteredData.length === 0) return null;
-
-    // Group data by month based on commitment date (comDate)
-    const monthlyGroups: Record<number, ReinsuranceData[]> = {};
-    
-    filteredData.forEach(record => {
-      if (record.comDate) {
-        const monthNumber = getMonthFromDate(record.comDate);
-        if (monthNumber > 0) {
-          if (!monthlyGroups[monthNumber]) {
-            monthlyGroups[monthNumber] = [];
-          }
-          monthlyGroups[monthNumber].push(record);
-        }
-      }
-    });
-
-    console.log('Monthly Overview - Monthly groups:', {
-      selectedYear,
-      totalFilteredRecords: filteredData.length,
-      recordsWithComDate: filteredData.filter(r => r.comDate).length,
-      availableMonths: Object.keys(monthlyGroups).map(Number).sort(),
-      monthCounts: Object.entries(monthlyGroups).map(([month, records]) => ({
-        month: Number(month),
-        monthName: monthLabels[Number(month) - 1],
-        count: records.length
-      }))
-    });
-
-    // Calculate metrics for each month
-    const monthlyData: MonthlyData[] = [];
-    const totals = {
-      policyCount: 0,
-      grossPremium: 0,
-      acquisitionCostPercent: 0,
-      incurredClaims: 0,
-      lossRatio: 0,
-      technicalResult: 0,
-      combinedRatio: 0
-    };
+  }, [selectedYear, valuationDate, dataVersion]);
 
-    for (let month = 1; month <= 12; month++) {
-      const monthRecords = monthlyGroups[month] || [];
-      const kpis = aggregateKPIs(monthRecords);
-      
-      const monthData: MonthlyData = {
-        month,
-        policyCount: monthRecords.length,
-        grossPremium: kpis.premium,
-        acquisitionCostPercent: kpis.expenseRatio,
-        incurredClaims: kpis.incurredClaims,
-        lossRatio: kpis.lossRatio,
-        technicalResult: kpis.premium - kpis.incurredClaims - (kpis.premium * kpis.expenseRatio / 100),
-        combinedRatio: kpis.combinedRatio
-      };
-
-      monthlyData.push(monthData);
-
-      // Add to totals
-      totals.policyCount += monthData.policyCount;
-      totals.grossPremium += monthData.grossPremium;
-      totals.incurredClaims += monthData.incurredClaims;
-      totals.technicalResult += monthData.technicalResult;
-
-      // Debug logging for months with data
-      if (monthRecords.length > 0) {
-        console.log(`${selectedYear} - Month ${month} (${monthLabels[month-1]}):`, {
-          records: monthRecords.length,
-          premium: kpis.premium,
-          claims: kpis.incurredClaims,
-          lossRatio: kpis.lossRatio,
-          sampleDates: monthRecords.slice(0, 3).map(r => r.comDate)
-        });
-      }
-    }
-
-    // Update totals to reflect all records, not just those with inception month
-    totals.policyCount = filteredData.length; // Use total filtered records
-    
-    // Calculate total percentages
-    totals.acquisitionCostPercent = totals.grossPremium > 0 
-      ? (totals.grossPremium * 0.1) / totals.grossPremium * 100 
-      : 0;
-    totals.lossRatio = totals.grossPremium > 0 
-      ? (totals.incurredClaims / totals.grossPremium) * 100 
-      : 0;
-    totals.combinedRatio = totals.lossRatio + totals.acquisitionCostPercent;
-
-    console.log('Monthly Overview - Final result:', {
-      selectedYear,
-      totalRecords: filteredData.length,
-      recordsWithInceptionMonth: filteredData.filter(r => r.inceptionMonth).length,
-      monthlyDataLength: monthlyData.length,
-      totals: {
-        policyCount: totals.policyCount,
-        grossPremium: totals.grossPremium,
-        lossRatio: totals.lossRatio
-      }
-    });
-
-    return {
-      monthlyData,
-      totals
-    };
-  }, [data, selectedYear]);
-
-  // Update monthly data when calculated data changes
-  useEffect(() => {
-    setMonthlyData(calculatedMonthlyData);
-  }, [calculatedMonthlyData]);
+  // Switching basis only re-maps the loaded totals
+  const monthlyData = useMemo<MonthlyOverviewData | null>(() => monthlyResponse && {
+    monthlyData: Object.values(monthlyResponse.months)
+      .sort((a, b) => a.month - b.month)
+      .map(month => ({ month: month.month, ...toMonthlyRow(month, basis) })),
+    totals: toMonthlyRow(monthlyResponse.total, basis)
+  }, [monthlyResponse, basis]);
 
   const getValueColor = (metric: string, value: number) => {
     if (metric === "Loss Ratio %" || metric === "Combined Ratio %") {
@@ -244,7 +149,7 @@ export default function MonthlyOverviewPage() {
                   Monthly Overview {selectedYear !== 'all' ? `- ${selectedYear}` : '- All Years'}
                 </h1>
                 <Badge variant="outline" className="text-xs">
-                  {data.length.toLocaleString()} records
+                  0 policies
                 </Badge>
               </div>
               <div className="flex items-center space-x-4">
@@ -317,10 +222,7 @@ export default function MonthlyOverviewPage() {
                 Monthly Overview {selectedYear !== 'all' ? `- ${selectedYear}` : '- All Years'}
               </h1>
               <Badge variant="outline" className="text-xs">
-                {monthlyData ? 
-                  `${monthlyData.totals.policyCount.toLocaleString()} policies` :
-                  `${data.length.toLocaleString()} records`
-                }
+                {monthlyData.totals.policyCount.toLocaleString()} policies
               </Badge>
             </div>
             <div className="flex items-center space-x-4">
@@ -356,12 +258,15 @@ export default function MonthlyOverviewPage() {
                 </SelectContent>
               </Select>
             </div>
+            <PremiumBasisToggle className="ml-auto" />
           </div>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-6 space-y-6">
+        <DataUpdatedBanner dataUpdatedAt={dataUpdatedAt} lastUpdated={lastUpdated} />
+
         {/* Summary Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <Card>
@@ -382,14 +287,16 @@ export default function MonthlyOverviewPage() {
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                Gross Premium
+                {earned ? 'Earned Premium' : 'Gross Premium'}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{formatKD(monthlyData.totals.grossPremium)}</div>
+              <div className="text-2xl font-bold">{formatAmount(monthlyData.totals.grossPremium)}</div>
               <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
                 <Minus className="w-3 h-3" />
-                {selectedYear !== 'all' ? selectedYear : 'All Years'} data
+                {earned
+                  ? `Pro-rata at ${valuationDate} • UPR ${formatAmount(monthlyData.totals.unearnedPremium)}`
+                  : `${selectedYear !== 'all' ? selectedYear : 'All Years'} data`}
               </p>
             </CardContent>
           </Card>
@@ -397,7 +304,7 @@ export default function MonthlyOverviewPage() {
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                Average Loss Ratio
+                {earned ? 'Average Earned Loss Ratio' : 'Average Loss Ratio'}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -406,7 +313,9 @@ export default function MonthlyOverviewPage() {
               </div>
               <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
                 <Minus className="w-3 h-3" />
-                {selectedYear !== 'all' ? selectedYear : 'All Years'} average
+                {earned
+                  ? `Written ${formatPct(monthlyData.totals.writtenLossRatio)}`
+                  : `${selectedYear !== 'all' ? selectedYear : 'All Years'} average`}
               </p>
             </CardContent>
           </Card>
@@ -419,7 +328,7 @@ export default function MonthlyOverviewPage() {
             </CardHeader>
             <CardContent>
               <div className={`text-2xl font-bold ${monthlyData.totals.technicalResult > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                {formatKD(monthlyData.totals.technicalResult)}
+                {formatAmount(monthlyData.totals.technicalResult)}
               </div>
               <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
                 <Minus className="w-3 h-3" />
@@ -461,27 +370,42 @@ export default function MonthlyOverviewPage() {
                     <TableCell className="font-medium w-[180px] px-4 py-3">Policy Premium</TableCell>
                     {monthlyData.monthlyData.map((month) => (
                       <TableCell key={month.month} className="text-center w-[120px] px-2 py-3">
-                        {formatKD(month.grossPremium)}
+                        {formatAmount(month.writtenPremium)}
                       </TableCell>
                     ))}
                     <TableCell className="text-center font-semibold bg-muted w-[120px] px-2 py-3">
-                      {formatKD(monthlyData.totals.grossPremium)}
+                      {formatAmount(monthlyData.totals.writtenPremium)}
                     </TableCell>
                   </TableRow>
 
                   {/* Gross Premium Row */}
                   <TableRow className="hover:bg-muted/50">
-                    <TableCell className="font-medium w-[180px] px-4 py-3">Gross Premium</TableCell>
+                    <TableCell className="font-medium w-[180px] px-4 py-3">{earned ? 'Earned Premium' : 'Gross Premium'}</TableCell>
                     {monthlyData.monthlyData.map((month) => (
                       <TableCell key={month.month} className="text-center w-[120px] px-2 py-3">
-                        {formatKD(month.grossPremium)}
+                        {formatAmount(month.grossPremium)}
                       </TableCell>
                     ))}
                     <TableCell className="text-center font-semibold bg-muted w-[120px] px-2 py-3">
-                      {formatKD(monthlyData.totals.grossPremium)}
+                      {formatAmount(monthlyData.totals.grossPremium)}
                     </TableCell>
                   </TableRow>
 
+                  {/* Unearned Premium Row */}
+                  {earned && (
+                    <TableRow className="hover:bg-muted/50">
+                      <TableCell className="font-medium w-[180px] px-4 py-3">Unearned Premium (UPR)</TableCell>
+                      {monthlyData.monthlyData.map((month) => (
+                        <TableCell key={month.month} className="text-center w-[120px] px-2 py-3">
+                          {formatAmount(month.unearnedPremium)}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-center font-semibold bg-muted w-[120px] px-2 py-3">
+                        {formatAmount(monthlyData.totals.unearnedPremium)}
+                      </TableCell>
+                    </TableRow>
+                  )}
+
                   {/* Acquisition Costs % Row */}
                   <TableRow className="hover:bg-muted/50">
                     <TableCell className="font-medium w-[180px] px-4 py-3">Acquisition Costs %</TableCell>
@@ -500,11 +424,11 @@ export default function MonthlyOverviewPage() {
                     <TableCell className="font-medium w-[180px] px-4 py-3">Incurred Claims</TableCell>
                     {monthlyData.monthlyData.map((month) => (
                       <TableCell key={month.month} className="text-center w-[120px] px-2 py-3">
-                        {formatKD(month.incurredClaims)}
+                        {formatAmount(month.incurredClaims)}
                       </TableCell>
                     ))}
                     <TableCell className="text-center font-semibold bg-muted w-[120px] px-2 py-3">
-                      {formatKD(monthlyData.totals.incurredClaims)}
+                      {formatAmount(monthlyData.totals.incurredClaims)}
                     </TableCell>
                   </TableRow>
 
@@ -521,16 +445,31 @@ export default function MonthlyOverviewPage() {
                     </TableCell>
                   </TableRow>
 
+                  {/* Written Loss Ratio % Row */}
+                  {earned && (
+                    <TableRow className="hover:bg-muted/50">
+                      <TableCell className="font-medium w-[180px] px-4 py-3">Written Loss Ratio %</TableCell>
+                      {monthlyData.monthlyData.map((month) => (
+                        <TableCell key={month.month} className="text-center w-[120px] px-2 py-3 text-muted-foreground">
+                          {formatPct(month.writtenLossRatio)}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-center font-semibold bg-muted w-[120px] px-2 py-3 text-muted-foreground">
+                        {formatPct(monthlyData.totals.writtenLossRatio)}
+                      </TableCell>
+                    </TableRow>
+                  )}
+
                   {/* Technical Result Row */}
                   <TableRow className="hover:bg-muted/50">
                     <TableCell className="font-medium w-[180px] px-4 py-3">Technical Result</TableCell>
                     {monthlyData.monthlyData.map((month) => (
                       <TableCell key={month.month} className={`text-center w-[120px] px-2 py-3 ${month.technicalResult > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                        {formatKD(month.technicalResult)}
+                        {formatAmount(month.technicalResult)}
                       </TableCell>
                     ))}
                     <TableCell className={`text-center font-semibold bg-muted w-[120px] px-2 py-3 ${monthlyData.totals.technicalResult > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatKD(monthlyData.totals.technicalResult)}
+                      {formatAmount(monthlyData.totals.technicalResult)}
                     </TableCell>
                   </TableRow>
 
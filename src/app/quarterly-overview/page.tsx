@@ -32,37 +32,39 @@ import {
   BarChart3,
   Download
 } from 'lucide-react';
-import { formatKD, formatPct, formatNumber } from '@/lib/format';
+import { formatPct, formatNumber } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 import { ChatBot } from '@/components/chat/ChatBot';
+import { DataUpdatedBanner } from '@/components/data/DataUpdatedBanner';
+import { useDataUpdates } from '@/hooks/useDataUpdates';
+import { PremiumBasisToggle, usePremiumBasis } from '@/components/premium/PremiumBasisProvider';
+import type { PremiumBasis } from '@/lib/earned';
+import type { PerformanceTotals } from '@/lib/schema';
 
-interface QuarterlyData {
+interface QuarterlyData extends PerformanceTotals {
   quarter: number;
-  policyCount: number;
-  premium: number;
-  acquisition: number;
-  paidClaims: number;
-  osLoss: number;
-  incurredClaims: number;
-  technicalResult: number;
-  lossRatioPct: number;
-  acquisitionPct: number;
-  combinedRatioPct: number;
 }
 
 interface QuarterlyResponse {
   year: number;
+  valuationDate: string;
   quarters: Record<number, QuarterlyData>;
-  total: {
-    policyCount: number;
-    premium: number;
-    acquisition: number;
-    paidClaims: number;
-    osLoss: number;
-    incurredClaims: number;
-    technicalResult: number;
-    lossRatioPct: number;
-    acquisitionPct: number;
-    combinedRatioPct: number;
+  total: PerformanceTotals;
+}
+
+/**
+ * Totals with premium, acquisition and the ratios swapped for their earned values when the earned basis is selected
+ */
+function onPremiumBasis<T extends PerformanceTotals>(totals: T, basis: PremiumBasis): T {
+  if (basis === 'written') return totals;
+  return {
+    ...totals,
+    premium: totals.earnedPremium,
+    acquisition: totals.earnedAcquisition,
+    acquisitionPct: totals.earnedAcquisitionPct,
+    technicalResult: totals.earnedTechnicalResult,
+    lossRatioPct: totals.earnedLossRatioPct,
+    combinedRatioPct: totals.earnedCombinedRatioPct,
   };
 }
 
@@ -73,10 +75,11 @@ interface FilterState {
 }
 
 export default function QuarterlyOverviewPage() {
+  const { formatAmount } = useCurrency();
   const [quarterlyData, setQuarterlyData] = useState<QuarterlyResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedYear, setSelectedYear] = useState<string>('all');
-  const [availableYears, setAvailableYears] = useState<string[]>(['all', '2019', '2020', '2021']);
+  const [availableYears, setAvailableYears] = useState<string[]>(['all']);
   const [filters, setFilters] = useState<FilterState>({
     cedant: [],
     broker: [],
@@ -84,6 +87,9 @@ export default function QuarterlyOverviewPage() {
   });
   const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const { dataVersion, dataUpdatedAt } = useDataUpdates();
+  const { basis, valuationDate } = usePremiumBasis();
+  const earned = basis === 'earned';
 
   // Load dimensions for filter options
   useEffect(() => {
@@ -98,13 +104,13 @@ export default function QuarterlyOverviewPage() {
           insured: data.insureds?.length || 0,
           years: data.years?.length || 0
         });
-        setAvailableYears(data.years || []);
+        setAvailableYears(['all', ...(data.years || [])]);
       } catch (error) {
         console.error('Quarterly Overview - Failed to load dimensions:', error);
       }
     };
     loadDimensions();
-  }, []);
+  }, [dataVersion]);
 
   // Load quarterly data when year changes
   useEffect(() => {
@@ -120,6 +126,7 @@ export default function QuarterlyOverviewPage() {
         if (selectedYear !== 'all') {
           params.append('year', selectedYear);
         }
+        params.append('asOf', valuationDate);
 
         const response = await fetch(`/api/quarterly?${params.toString()}`);
         console.log('Quarterly Overview - API response status:', response.status);
@@ -147,7 +154,7 @@ export default function QuarterlyOverviewPage() {
     };
 
     loadQuarterlyData();
-  }, [selectedYear]);
+  }, [selectedYear, valuationDate, dataVersion]);
 
   const handleYearChange = (year: string) => {
     console.log('Quarterly Overview - Year changed to:', year);
@@ -166,6 +173,7 @@ export default function QuarterlyOverviewPage() {
           if (selectedYear !== 'all') {
             params.append('year', selectedYear);
           }
+          params.append('asOf', valuationDate);
 
           const response = await fetch(`/api/quarterly?${params.toString()}`);
           const data = await response.json();
@@ -212,7 +220,8 @@ export default function QuarterlyOverviewPage() {
     return 'default';
   };
 
-  // Calculate trend indicators
+  const total = quarterlyData?.total && onPremiumBasis(quarterlyData.total, basis);
+
 
   return (
     <div className="min-h-screen bg-background">
@@ -291,6 +300,8 @@ export default function QuarterlyOverviewPage() {
             </div>
             
             <div className="flex items-center space-x-2">
+              <PremiumBasisToggle />
+
               {/* Reset Filters Button */}
               <Button
                 variant="outline"
@@ -353,7 +364,12 @@ export default function QuarterlyOverviewPage() {
                   </SelectContent>
                 </Select>
               </div>
-              
+
+              {/* Premium Basis */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Premium Basis</label>
+                <PremiumBasisToggle />
+              </div>
             </div>
 
             {/* Filter Actions */}
@@ -377,6 +393,8 @@ export default function QuarterlyOverviewPage() {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-6">
+        <DataUpdatedBanner dataUpdatedAt={dataUpdatedAt} lastUpdated={lastUpdated} className="mb-6" />
+
         {/* Loading State */}
         {isLoading && (
           <div className="flex items-center justify-center py-12">
@@ -388,7 +406,7 @@ export default function QuarterlyOverviewPage() {
         )}
 
         {/* Quarterly Data Table */}
-        {quarterlyData && !isLoading && (
+        {quarterlyData && total && !isLoading && (
           <div className="space-y-6">
             {/* Year Indicator */}
             <div className="mb-6">
@@ -423,28 +441,38 @@ export default function QuarterlyOverviewPage() {
                 <CardHeader className="pb-2">
                   <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
                     <DollarSign className="w-4 h-4" />
-                    Gross Premium
+                    {earned ? 'Earned Premium' : 'Gross Premium'}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">
-                    {formatKD(quarterlyData.total?.premium || 0)}
+                    {formatAmount(total.premium)}
                   </div>
+                  {earned && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      At {valuationDate} • UPR {formatAmount(total.unearnedPremium)}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
               <Card>
                 <CardHeader className="pb-2">
                   <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
                     <AlertTriangle className="w-4 h-4" />
-                    Loss Ratio
+                    {earned ? 'Earned Loss Ratio' : 'Loss Ratio'}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">
-                    <span className={getRatioColor(quarterlyData.total?.lossRatioPct || 0)}>
-                      {formatPct(quarterlyData.total?.lossRatioPct || 0)}
+                    <span className={getRatioColor(total.lossRatioPct)}>
+                      {formatPct(total.lossRatioPct)}
                     </span>
                   </div>
+                  {earned && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Written {formatPct(quarterlyData.total.lossRatioPct)}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
               <Card>
@@ -456,8 +484,8 @@ export default function QuarterlyOverviewPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">
-                    <span className={getRatioColor(quarterlyData.total?.combinedRatioPct || 0)}>
-                      {formatPct(quarterlyData.total?.combinedRatioPct || 0)}
+                    <span className={getRatioColor(total.combinedRatioPct)}>
+                      {formatPct(total.combinedRatioPct)}
                     </span>
                   </div>
                 </CardContent>
@@ -485,19 +513,22 @@ export default function QuarterlyOverviewPage() {
                       <TableRow>
                         <TableHead className="font-semibold">Quarter</TableHead>
                         <TableHead className="text-right font-semibold">Policies</TableHead>
-                        <TableHead className="text-right font-semibold">Gross Premium</TableHead>
+                        <TableHead className="text-right font-semibold">{earned ? 'Earned Premium' : 'Gross Premium'}</TableHead>
+                        {earned && <TableHead className="text-right font-semibold">UPR</TableHead>}
                         <TableHead className="text-right font-semibold">Acquisition Cost</TableHead>
                         <TableHead className="text-right font-semibold">Acq. Cost %</TableHead>
                         <TableHead className="text-right font-semibold">Incurred Claims</TableHead>
                         <TableHead className="text-right font-semibold">Loss Ratio</TableHead>
+                        {earned && <TableHead className="text-right font-semibold">Written Loss Ratio</TableHead>}
                         <TableHead className="text-right font-semibold">Technical Result</TableHead>
                         <TableHead className="text-right font-semibold">Combined Ratio</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {[1, 2, 3, 4].map((quarter) => {
-                        const data = quarterlyData.quarters?.[quarter];
-                        if (!data) return null;
+                        const written = quarterlyData.quarters?.[quarter];
+                        if (!written) return null;
+                        const data = onPremiumBasis(written, basis);
                         
                         return (
                           <TableRow key={quarter} className="hover:bg-muted/30">
@@ -513,10 +544,15 @@ export default function QuarterlyOverviewPage() {
                               {formatNumber(data.policyCount)}
                             </TableCell>
                             <TableCell className="text-right font-mono text-sm">
-                              {formatKD(data.premium)}
+                              {formatAmount(data.premium)}
                             </TableCell>
+                            {earned && (
+                              <TableCell className="text-right font-mono text-sm">
+                                {formatAmount(data.unearnedPremium)}
+                              </TableCell>
+                            )}
                             <TableCell className="text-right font-mono text-sm">
-                              {formatKD(data.acquisition)}
+                              {formatAmount(data.acquisition)}
                             </TableCell>
                             <TableCell className="text-right">
                               <span className={getRatioColor(data.acquisitionPct)}>
@@ -524,16 +560,21 @@ export default function QuarterlyOverviewPage() {
                               </span>
                             </TableCell>
                             <TableCell className="text-right font-mono text-sm">
-                              {formatKD(data.incurredClaims)}
+                              {formatAmount(data.incurredClaims)}
                             </TableCell>
                             <TableCell className="text-right">
                               <Badge variant={getRatioBadgeVariant(data.lossRatioPct)}>
                                 {formatPct(data.lossRatioPct)}
                               </Badge>
                             </TableCell>
+                            {earned && (
+                              <TableCell className="text-right font-mono text-sm text-muted-foreground">
+                                {formatPct(written.lossRatioPct)}
+                              </TableCell>
+                            )}
                             <TableCell className="text-right">
                               <span className={`font-mono text-sm ${data.technicalResult >= 0 ? "text-green-600" : "text-red-600"}`}>
-                                {formatKD(data.technicalResult)}
+                                {formatAmount(data.technicalResult)}
                               </span>
                             </TableCell>
                             <TableCell className="text-right">
@@ -546,41 +587,51 @@ export default function QuarterlyOverviewPage() {
                       })}
                       
                       {/* Total Row */}
-                      {quarterlyData.total && (
+                      {total && (
                         <TableRow className="bg-muted/50 font-semibold border-t-2">
                           <TableCell className="font-medium text-primary">
                             TOTAL
                           </TableCell>
                           <TableCell className="text-right">
-                            {formatNumber(quarterlyData.total.policyCount)}
+                            {formatNumber(total.policyCount)}
                           </TableCell>
                           <TableCell className="text-right">
-                            {formatKD(quarterlyData.total.premium)}
+                            {formatAmount(total.premium)}
                           </TableCell>
+                          {earned && (
+                            <TableCell className="text-right">
+                              {formatAmount(total.unearnedPremium)}
+                            </TableCell>
+                          )}
                           <TableCell className="text-right">
-                            {formatKD(quarterlyData.total.acquisition)}
+                            {formatAmount(total.acquisition)}
                           </TableCell>
                           <TableCell className="text-right">
-                            <span className={getRatioColor(quarterlyData.total.acquisitionPct)}>
-                              {formatPct(quarterlyData.total.acquisitionPct)}
+                            <span className={getRatioColor(total.acquisitionPct)}>
+                              {formatPct(total.acquisitionPct)}
                             </span>
                           </TableCell>
                           <TableCell className="text-right">
-                            {formatKD(quarterlyData.total.incurredClaims)}
+                            {formatAmount(total.incurredClaims)}
                           </TableCell>
                           <TableCell className="text-right">
-                            <Badge variant={getRatioBadgeVariant(quarterlyData.total.lossRatioPct)}>
-                              {formatPct(quarterlyData.total.lossRatioPct)}
+                            <Badge variant={getRatioBadgeVariant(total.lossRatioPct)}>
+                              {formatPct(total.lossRatioPct)}
                             </Badge>
                           </TableCell>
+                          {earned && (
+                            <TableCell className="text-right text-muted-foreground">
+                              {formatPct(quarterlyData.total.lossRatioPct)}
+                            </TableCell>
+                          )}
                           <TableCell className="text-right">
-                            <span className={`font-mono ${quarterlyData.total.technicalResult >= 0 ? "text-green-600" : "text-red-600"}`}>
-                              {formatKD(quarterlyData.total.technicalResult)}
+                            <span className={`font-mono ${total.technicalResult >= 0 ? "text-green-600" : "text-red-600"}`}>
+                              {formatAmount(total.technicalResult)}
                             </span>
                           </TableCell>
                           <TableCell className="text-right">
-                            <Badge variant={getRatioBadgeVariant(quarterlyData.total.combinedRatioPct)}>
-                              {formatPct(quarterlyData.total.combinedRatioPct)}
+                            <Badge variant={getRatioBadgeVariant(total.combinedRatioPct)}>
+                              {formatPct(total.combinedRatioPct)}
                             </Badge>
                           </TableCell>
                         </TableRow>
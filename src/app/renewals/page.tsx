@@ -0,0 +1,318 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { CalendarClock, Loader2, Repeat } from 'lucide-react';
+import { formatNumber, formatPct } from '@/lib/format';
+import { getToday, parseValuationDate } from '@/lib/earned';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { useDataUpdates } from '@/hooks/useDataUpdates';
+import {
+  RENEWAL_WINDOWS,
+  type RenewalPipeline,
+  type RenewalWindow,
+  type RetentionDimension,
+  type RetentionRow,
+} from '@/lib/renewals';
+
+type RenewalsResponse = RenewalPipeline & {
+  retention: Record<RetentionDimension, { rows: RetentionRow[]; total: RetentionRow }>;
+};
+
+const RETENTION_TABS: Array<{ dimension: RetentionDimension; label: string }> = [
+  { dimension: 'cedant', label: 'Cedant' },
+  { dimension: 'broker', label: 'Broker' },
+  { dimension: 'hub', label: 'Hub' },
+  { dimension: 'uy', label: 'UY' },
+];
+
+function lossRatioClass(value: number): string {
+  if (value > 100) return 'text-red-600';
+  if (value > 80) return 'text-yellow-600';
+  return 'text-green-600';
+}
+
+function RetentionTable({
+  rows,
+  total,
+  label,
+  formatAmount,
+}: {
+  rows: RetentionRow[];
+  total: RetentionRow;
+  label: string;
+  formatAmount: (value: number) => string;
+}) {
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <Table>
+        <TableHeader className="bg-muted/50">
+          <TableRow>
+            <TableHead className="font-semibold">{label}</TableHead>
+            <TableHead className="text-right font-semibold">Renewed</TableHead>
+            <TableHead className="text-right font-semibold">Renewed Premium</TableHead>
+            <TableHead className="text-right font-semibold">Not Renewed</TableHead>
+            <TableHead className="text-right font-semibold">Not Renewed Premium</TableHead>
+            <TableHead className="text-right font-semibold">Open Premium</TableHead>
+            <TableHead className="text-right font-semibold">Retention</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {[...rows, total].map(row => (
+            <TableRow key={row === total ? '__total' : row.key} className={row === total ? 'bg-muted/50 font-semibold border-t-2' : 'hover:bg-muted/30'}>
+              <TableCell className="font-medium">{row.key}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{formatNumber(row.renewedCount)}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{formatAmount(row.renewedPremium)}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{formatNumber(row.notRenewedCount)}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{formatAmount(row.notRenewedPremium)}</TableCell>
+              <TableCell className="text-right font-mono text-sm text-muted-foreground">{formatAmount(row.openPremium)}</TableCell>
+              <TableCell className="text-right">{row.retentionPct === null ? '-' : formatPct(row.retentionPct)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function RenewalsPage() {
+  const { formatAmount } = useCurrency();
+  const { dataVersion } = useDataUpdates();
+  const [asOf, setAsOf] = useState(getToday);
+  const [horizon, setHorizon] = useState<RenewalWindow>(90);
+  const [retentionBy, setRetentionBy] = useState<RetentionDimension>('cedant');
+  const [data, setData] = useState<RenewalsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the as-of date changes
+  useEffect(() => {
+    const loadRenewals = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/renewals?asOf=${asOf}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `API request failed: ${response.status}`);
+        }
+        setData(result);
+      } catch (err) {
+        console.error('Renewals - Failed to load renewals:', err);
+        setError(err instanceof Error ? err.message : String(err));
+        setData(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRenewals();
+  }, [asOf, dataVersion]);
+
+  // Half-typed dates from the input are ignored until they are complete
+  const changeAsOf = (value: string) => {
+    const parsed = parseValuationDate(value);
+    if (parsed) setAsOf(parsed);
+  };
+
+  const due = data?.upcoming.filter(renewal => renewal.daysToRenewal <= horizon) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Fixed Header */}
+      <div className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-foreground">Renewal Pipeline</h1>
+              {data && (
+                <Badge variant="outline" className="text-xs">
+                  {due.length} due within {horizon} days
+                </Badge>
+              )}
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filter Bar */}
+      <div className="border-b bg-muted/30">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">As of:</span>
+              <Input
+                type="date"
+                aria-label="As-of date"
+                className="h-8 w-[150px]"
+                value={asOf}
+                onChange={event => changeAsOf(event.target.value)}
+              />
+            </div>
+            <div className="flex rounded-md border">
+              {RENEWAL_WINDOWS.map((days, index) => (
+                <Button
+                  key={days}
+                  variant={horizon === days ? 'default' : 'ghost'}
+                  size="sm"
+                  className={`h-8 ${index === 0 ? 'rounded-r-none' : index === RENEWAL_WINDOWS.length - 1 ? 'rounded-l-none' : 'rounded-none'}`}
+                  onClick={() => setHorizon(days)}
+                >
+                  {days} days
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {!data && isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-muted-foreground">Loading renewals...</span>
+            </div>
+          </div>
+        )}
+
+        {data && (
+          <>
+            {/* Windows */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {data.windows.map(bucket => (
+                <Card
+                  key={bucket.days}
+                  className={`cursor-pointer ${bucket.days === horizon ? 'border-primary' : ''}`}
+                  onClick={() => setHorizon(bucket.days)}
+                >
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Next {bucket.days} Days</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatAmount(bucket.premium)}</div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Expiring premium on {formatNumber(bucket.policyCount)} policies
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Upcoming */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Upcoming Renewals
+                </CardTitle>
+                <CardDescription>
+                  Policies falling due within {horizon} days after {data.asOf}, on their Renewal Date or the day after Exp
+                  date. Account loss ratio covers every UY of the same cedant and insured.
+                  {data.undated > 0 && ` ${formatNumber(data.undated)} policies have neither date.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {due.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No renewals fall due in this window.</p>
+                ) : (
+                  <div className="overflow-x-auto border rounded-lg">
+                    <Table>
+                      <TableHeader className="bg-muted/50">
+                        <TableRow>
+                          <TableHead className="font-semibold">Renewal Date</TableHead>
+                          <TableHead className="text-right font-semibold">Days</TableHead>
+                          <TableHead className="font-semibold">Insured</TableHead>
+                          <TableHead className="font-semibold">Cedant</TableHead>
+                          <TableHead className="font-semibold">Broker</TableHead>
+                          <TableHead className="font-semibold">Hub</TableHead>
+                          <TableHead className="text-right font-semibold">Expiring Premium</TableHead>
+                          <TableHead className="text-right font-semibold">Account Loss Ratio</TableHead>
+                          <TableHead className="font-semibold">Renewal Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {due.map((renewal, index) => (
+                          <TableRow key={`${renewal.renewalDate}-${renewal.insured}-${index}`} className="hover:bg-muted/30">
+                            <TableCell className="font-mono text-sm">{renewal.renewalDate}</TableCell>
+                            <TableCell className="text-right font-mono text-sm">{renewal.daysToRenewal}</TableCell>
+                            <TableCell className="font-medium">
+                              {renewal.insured}
+                              <div className="text-xs text-muted-foreground">UY {renewal.uy} • {renewal.country}</div>
+                            </TableCell>
+                            <TableCell className="text-sm">{renewal.cedant}</TableCell>
+                            <TableCell className="text-sm">{renewal.broker}</TableCell>
+                            <TableCell className="text-sm">{renewal.hub}</TableCell>
+                            <TableCell className="text-right font-mono text-sm">{formatAmount(renewal.expiringPremium)}</TableCell>
+                            <TableCell className="text-right">
+                              <span className={lossRatioClass(renewal.accountLossRatio)}>{formatPct(renewal.accountLossRatio)}</span>
+                              <div className="text-xs text-muted-foreground">{formatNumber(renewal.accountPolicyCount)} policies</div>
+                            </TableCell>
+                            <TableCell>
+                              {renewal.renewalStatus ? <Badge variant="outline">{renewal.renewalStatus}</Badge> : '-'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Retention */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Repeat className="h-5 w-5" />
+                  Historic Retention
+                </CardTitle>
+                <CardDescription>
+                  Renewed premium over renewed plus not renewed premium, from Renewal Status; policies still open are
+                  shown but left out of the rate
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={retentionBy} onValueChange={value => setRetentionBy(value as RetentionDimension)}>
+                  <TabsList className="grid w-full grid-cols-4">
+                    {RETENTION_TABS.map(({ dimension, label }) => (
+                      <TabsTrigger key={dimension} value={dimension}>{label}</TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {RETENTION_TABS.map(({ dimension, label }) => (
+                    <TabsContent key={dimension} value={dimension} className="mt-6">
+                      <RetentionTable
+                        rows={data.retention[dimension].rows}
+                        total={data.retention[dimension].total}
+                        label={label}
+                        formatAmount={formatAmount}
+                      />
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
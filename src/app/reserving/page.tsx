@@ -0,0 +1,561 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Calculator, Loader2, Save, Filter, History } from 'lucide-react';
+import { formatPct } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { useDataUpdates } from '@/hooks/useDataUpdates';
+import type { TriangleFilters, TriangleMeasure } from '@/lib/triangles';
+import type { ReservingMethod, ReservingRun, ReservingRunSummary } from '@/lib/reserving';
+
+type FilterKey = keyof TriangleFilters;
+
+const FILTERS: Array<{ key: FilterKey; label: string; dimension: 'hubs' | 'regions' | 'extTypes' | 'cedants' }> = [
+  { key: 'hub', label: 'Hubs', dimension: 'hubs' },
+  { key: 'region', label: 'Regions', dimension: 'regions' },
+  { key: 'extType', label: 'Ext Types', dimension: 'extTypes' },
+  { key: 'cedant', label: 'Cedants', dimension: 'cedants' },
+];
+
+const METHOD_LABELS: Record<ReservingMethod, string> = {
+  'chain-ladder': 'Chain Ladder',
+  'bornhuetter-ferguson': 'Bornhuetter-Ferguson',
+};
+
+type Run = Omit<ReservingRun, 'id' | 'name' | 'createdAt'> & Partial<Pick<ReservingRun, 'id' | 'name' | 'createdAt'>>;
+
+/**
+ * Editable form of a run's segment and assumptions; numbers are kept as typed
+ */
+interface RunInputs {
+  filters: TriangleFilters;
+  measure: TriangleMeasure;
+  method: ReservingMethod;
+  tailFactor: string;
+  expectedLossRatio: string;
+  selectedFactors: Record<string, string>;
+}
+
+const DEFAULT_INPUTS: RunInputs = {
+  filters: {},
+  measure: 'incurred',
+  method: 'chain-ladder',
+  tailFactor: '1',
+  expectedLossRatio: '',
+  selectedFactors: {},
+};
+
+function toPositive(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Request body for the inputs; blank or invalid numbers fall back to the defaults
+ */
+function toRequest(inputs: RunInputs) {
+  const expectedLossRatio = parseFloat(inputs.expectedLossRatio);
+  return {
+    filters: Object.fromEntries(Object.entries(inputs.filters).filter(([, value]) => !!value)),
+    assumptions: {
+      measure: inputs.measure,
+      method: inputs.method,
+      tailFactor: toPositive(inputs.tailFactor) ?? 1,
+      expectedLossRatio: Number.isFinite(expectedLossRatio) && expectedLossRatio >= 0 ? expectedLossRatio : null,
+      selectedFactors: Object.fromEntries(
+        Object.entries(inputs.selectedFactors).flatMap(([from, value]) => {
+          const factor = toPositive(value);
+          return factor === undefined ? [] : [[from, factor]];
+        })
+      ),
+    },
+  };
+}
+
+function toInputs(run: Run): RunInputs {
+  return {
+    filters: run.filters,
+    measure: run.assumptions.measure,
+    method: run.assumptions.method,
+    tailFactor: String(run.assumptions.tailFactor),
+    expectedLossRatio: run.assumptions.expectedLossRatio === null ? '' : String(run.assumptions.expectedLossRatio),
+    selectedFactors: Object.fromEntries(
+      Object.entries(run.assumptions.selectedFactors).map(([from, factor]) => [from, String(factor)])
+    ),
+  };
+}
+
+function formatFactor(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+function segmentLabel(filters: TriangleFilters): string {
+  const values = Object.values(filters).filter(Boolean);
+  return values.length ? values.join(' • ') : 'Whole portfolio';
+}
+
+export default function ReservingPage() {
+  const { formatAmount } = useCurrency();
+  const { dataVersion } = useDataUpdates();
+  const [dimensions, setDimensions] = useState<Record<string, string[]>>({});
+  const [inputs, setInputs] = useState<RunInputs>(DEFAULT_INPUTS);
+  const [liveRun, setLiveRun] = useState<Run | null>(null);
+  // A saved run is shown as saved until its assumptions are edited
+  const [savedRun, setSavedRun] = useState<ReservingRun | null>(null);
+  const [runs, setRuns] = useState<ReservingRunSummary[]>([]);
+  const [runName, setRunName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestKey = JSON.stringify(toRequest(inputs));
+  const showingSaved = !!savedRun && JSON.stringify(toRequest(toInputs(savedRun))) === requestKey;
+  const run = showingSaved ? savedRun : liveRun;
+
+  const loadRuns = async () => {
+    try {
+      const response = await fetch('/api/reserving');
+      const result = await response.json();
+      setRuns(result.runs || []);
+    } catch (err) {
+      console.error('Reserving - Failed to load runs:', err);
+    }
+  };
+
+  // Load filter options and saved runs
+  useEffect(() => {
+    const loadDimensions = async () => {
+      try {
+        const response = await fetch('/api/dimensions');
+        setDimensions(await response.json());
+      } catch (err) {
+        console.error('Reserving - Failed to load dimensions:', err);
+      }
+    };
+
+    loadDimensions();
+    loadRuns();
+  }, [dataVersion]);
+
+  // Recalculate whenever the segment or an assumption changes
+  useEffect(() => {
+    if (showingSaved) return;
+
+    const calculate = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/reserving', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: requestKey,
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `API request failed: ${response.status}`);
+        }
+        setLiveRun(result.run);
+      } catch (err) {
+        console.error('Reserving - Failed to run:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    calculate();
+  }, [requestKey, showingSaved, dataVersion]);
+
+  const updateInputs = (update: Partial<RunInputs>) => setInputs(current => ({ ...current, ...update }));
+
+  const setFilter = (key: FilterKey, value: string) => {
+    // Factor overrides belong to the segment they were selected for
+    updateInputs({ filters: { ...inputs.filters, [key]: value === 'all' ? undefined : value }, selectedFactors: {} });
+  };
+
+  const saveRun = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/reserving', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...toRequest(inputs), save: true, name: runName }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `API request failed: ${response.status}`);
+      }
+      setSavedRun(result.run);
+      setRunName('');
+      await loadRuns();
+    } catch (err) {
+      console.error('Reserving - Failed to save run:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openRun = async (id: string) => {
+    try {
+      const response = await fetch(`/api/reserving?id=${encodeURIComponent(id)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `API request failed: ${response.status}`);
+      }
+      setSavedRun(result.run);
+      setInputs(toInputs(result.run));
+    } catch (err) {
+      console.error('Reserving - Failed to open run:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Fixed Header */}
+      <div className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-foreground">Reserving</h1>
+              <Badge variant="outline" className="text-xs">{segmentLabel(inputs.filters)}</Badge>
+              {showingSaved && savedRun && (
+                <Badge variant="secondary" className="text-xs">Saved: {savedRun.name}</Badge>
+              )}
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="Run name"
+                className="h-8 w-[200px]"
+                value={runName}
+                onChange={event => setRunName(event.target.value)}
+              />
+              <Button size="sm" onClick={saveRun} disabled={isSaving || !run}>
+                <Save className="w-4 h-4 mr-2" />
+                Save run
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Segment and Assumptions */}
+      <div className="border-b bg-muted/30">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Filter className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm font-medium">Segment:</span>
+            </div>
+            {FILTERS.map(({ key, label, dimension }) => (
+              <Select key={key} value={inputs.filters[key] ?? 'all'} onValueChange={value => setFilter(key, value)}>
+                <SelectTrigger className="h-8 min-w-[140px] max-w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All {label}</SelectItem>
+                  {(dimensions[dimension] ?? []).map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+            <Select
+              value={inputs.measure}
+              onValueChange={value => updateInputs({ measure: value as TriangleMeasure, selectedFactors: {} })}
+            >
+              <SelectTrigger className="h-8 w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="incurred">Incurred triangle</SelectItem>
+                <SelectItem value="paid">Paid triangle</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={inputs.method} onValueChange={value => updateInputs({ method: value as ReservingMethod })}>
+              <SelectTrigger className="h-8 w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METHOD_LABELS) as ReservingMethod[]).map(method => (
+                  <SelectItem key={method} value={method}>{METHOD_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Tail:</span>
+              <Input
+                type="number"
+                step="0.001"
+                min="0"
+                className="h-8 w-[90px]"
+                value={inputs.tailFactor}
+                onChange={event => updateInputs({ tailFactor: event.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">BF a priori LR %:</span>
+              <Input
+                type="number"
+                step="0.1"
+                min="0"
+                placeholder={run ? run.expectedLossRatio.toFixed(1) : 'CL'}
+                className="h-8 w-[90px]"
+                value={inputs.expectedLossRatio}
+                onChange={event => updateInputs({ expectedLossRatio: event.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {!run && isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-muted-foreground">Running reserving...</span>
+            </div>
+          </div>
+        )}
+
+        {run && (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Reported Incurred</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatAmount(run.total.incurred)}</div>
+                  <p className="text-xs text-muted-foreground mt-1">Loss ratio {formatPct(run.total.reportedLossRatio)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">IBNR ({METHOD_LABELS[run.assumptions.method]})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatAmount(run.total.selected.ibnr)}</div>
+                  <p className="text-xs text-muted-foreground mt-1">Ultimate {formatAmount(run.total.selected.ultimate)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Ultimate Loss Ratio</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatPct(run.total.selected.ultimateLossRatio)}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    CL {formatPct(run.total.chainLadder.ultimateLossRatio)} • BF {formatPct(run.total.bornhuetterFerguson.ultimateLossRatio)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Valuation</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{run.asOf ?? '-'}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    BF a priori loss ratio {formatPct(run.expectedLossRatio)}
+                    {run.assumptions.expectedLossRatio === null ? ' (chain ladder)' : ''}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Factors */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Selected Age-to-Age Factors</CardTitle>
+                <CardDescription>
+                  {run.assumptions.measure === 'paid' ? 'Paid' : 'Incurred'} triangle; leave a selection blank to use the
+                  volume-weighted factor (1 where no UY has both quarters)
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {run.factors.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    The triangle has a single development quarter, so only the tail factor applies. Factors appear once
+                    snapshots from two quarters are stored.
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto border rounded-lg">
+                    <Table>
+                      <TableHeader className="bg-muted/50">
+                        <TableRow>
+                          <TableHead className="font-semibold">Development</TableHead>
+                          <TableHead className="text-right font-semibold">Volume Weighted</TableHead>
+                          <TableHead className="text-right font-semibold">Simple Average</TableHead>
+                          <TableHead className="text-right font-semibold">Selected</TableHead>
+                          <TableHead className="text-right font-semibold">CDF to Ultimate</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {run.factors.map(factor => (
+                          <TableRow key={factor.from}>
+                            <TableCell className="font-medium">DQ {factor.from}-{factor.to}</TableCell>
+                            <TableCell className="text-right font-mono text-sm">{formatFactor(factor.weighted)}</TableCell>
+                            <TableCell className="text-right font-mono text-sm">{formatFactor(factor.simple)}</TableCell>
+                            <TableCell className="text-right">
+                              <Input
+                                type="number"
+                                step="0.001"
+                                min="0"
+                                placeholder={formatFactor(factor.weighted ?? 1)}
+                                className={`h-8 w-[110px] ml-auto text-right font-mono ${factor.overridden ? 'border-primary' : ''}`}
+                                value={inputs.selectedFactors[String(factor.from)] ?? ''}
+                                onChange={event => updateInputs({
+                                  selectedFactors: { ...inputs.selectedFactors, [String(factor.from)]: event.target.value },
+                                })}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right font-mono text-sm">{formatFactor(factor.cdf)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Results */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Calculator className="h-5 w-5" />
+                  Ultimates and IBNR by Underwriting Year
+                </CardTitle>
+                <CardDescription>
+                  IBNR is the ultimate less reported incurred; loss ratios are on Gross UW Prem
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto border rounded-lg">
+                  <Table>
+                    <TableHeader className="bg-muted/50">
+                      <TableRow>
+                        <TableHead className="font-semibold">UY</TableHead>
+                        <TableHead className="text-right font-semibold">Premium</TableHead>
+                        <TableHead className="text-right font-semibold">DQ</TableHead>
+                        <TableHead className="text-right font-semibold">CDF</TableHead>
+                        <TableHead className="text-right font-semibold">Reported Incurred</TableHead>
+                        <TableHead className="text-right font-semibold">Reported LR</TableHead>
+                        <TableHead className="text-right font-semibold">CL Ultimate</TableHead>
+                        <TableHead className="text-right font-semibold">CL IBNR</TableHead>
+                        <TableHead className="text-right font-semibold">BF Ultimate</TableHead>
+                        <TableHead className="text-right font-semibold">BF IBNR</TableHead>
+                        <TableHead className="text-right font-semibold">Ultimate LR</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...run.results, { ...run.total, developmentQuarter: null, cdf: null }].map(row => (
+                        <TableRow
+                          key={row.uy}
+                          className={row.uy === 'Total' ? 'bg-muted/50 font-semibold border-t-2' : 'hover:bg-muted/30'}
+                        >
+                          <TableCell className="font-medium">{row.uy}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatAmount(row.premium)}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{row.developmentQuarter ?? ''}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{row.cdf === null ? '' : formatFactor(row.cdf)}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatAmount(row.incurred)}</TableCell>
+                          <TableCell className="text-right">{formatPct(row.reportedLossRatio)}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatAmount(row.chainLadder.ultimate)}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatAmount(row.chainLadder.ibnr)}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatAmount(row.bornhuetterFerguson.ultimate)}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatAmount(row.bornhuetterFerguson.ibnr)}</TableCell>
+                          <TableCell className="text-right">
+                            <span className={row.selected.ultimateLossRatio > 100 ? 'text-red-600' : row.selected.ultimateLossRatio > 80 ? 'text-yellow-600' : 'text-green-600'}>
+                              {formatPct(row.selected.ultimateLossRatio)}
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {/* Saved Runs */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Saved Runs
+            </CardTitle>
+            <CardDescription>
+              Runs keep their selected factors and results; the latest whole-portfolio run feeds the ultimate loss ratio
+              on the dashboard
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No runs saved yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead>Segment</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead className="text-right">IBNR</TableHead>
+                    <TableHead className="text-right">Ultimate LR</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(saved => (
+                    <TableRow key={saved.id}>
+                      <TableCell className="font-medium">{saved.name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{new Date(saved.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">{segmentLabel(saved.filters)}</TableCell>
+                      <TableCell className="text-sm">{METHOD_LABELS[saved.assumptions.method]}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAmount(saved.total.selected.ibnr)}</TableCell>
+                      <TableCell className="text-right">{formatPct(saved.total.selected.ultimateLossRatio)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => openRun(saved.id)}>Open</Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
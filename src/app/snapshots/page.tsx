@@ -0,0 +1,340 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { GitCompare, Loader2, AlertCircle, ArrowRight } from 'lucide-react';
+import { formatPct, formatNumber } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import type { MeasureMovement, SnapshotDiff, SnapshotGrouping, SnapshotSummary } from '@/lib/snapshots';
+
+const GROUP_LABELS: Record<SnapshotGrouping, string> = {
+  uy: 'Underwriting Year',
+  cedant: 'Cedant',
+  country: 'Country',
+};
+
+/**
+ * Signed amount with a colour for the direction of movement
+ */
+function Change({ value, format, inverse = false }: { value: number; format: (value: number) => string; inverse?: boolean }) {
+  if (value === 0) return <span className="text-muted-foreground">-</span>;
+  const good = inverse ? value < 0 : value > 0;
+  return (
+    <span className={good ? 'text-green-600' : 'text-red-600'}>
+      {value > 0 ? '+' : ''}{format(value)}
+    </span>
+  );
+}
+
+function MovementCard({ title, movement, format, inverse = false }: {
+  title: string;
+  movement: MeasureMovement;
+  format: (value: number) => string;
+  inverse?: boolean;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-2 text-lg font-bold">
+          <span>{format(movement.from)}</span>
+          <ArrowRight className="w-4 h-4 text-muted-foreground" />
+          <span>{format(movement.to)}</span>
+        </div>
+        <p className="text-xs mt-1">
+          <Change value={movement.change} format={format} inverse={inverse} />
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SnapshotsPage() {
+  const { formatAmount } = useCurrency();
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [groupBy, setGroupBy] = useState<SnapshotGrouping>('uy');
+  const [diff, setDiff] = useState<(SnapshotDiff & { changedPolicies: number }) | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the snapshot list and default to the two most recent
+  useEffect(() => {
+    const loadSnapshots = async () => {
+      try {
+        const response = await fetch('/api/snapshots');
+        const result = await response.json();
+        const list: SnapshotSummary[] = result.snapshots || [];
+        setSnapshots(list);
+        if (list.length >= 2) {
+          setToId(list[0].id);
+          setFromId(list[1].id);
+        }
+      } catch (err) {
+        console.error('Snapshots - Failed to load snapshots:', err);
+      }
+    };
+
+    loadSnapshots();
+  }, []);
+
+  // Load the diff whenever the selection changes
+  useEffect(() => {
+    if (!fromId || !toId) return;
+
+    const loadDiff = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ from: fromId, to: toId, groupBy, limit: '100' });
+        const response = await fetch(`/api/snapshots/diff?${params.toString()}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `API request failed: ${response.status}`);
+        }
+        setDiff(result);
+      } catch (err) {
+        console.error('Snapshots - Failed to load diff:', err);
+        setError(err instanceof Error ? err.message : String(err));
+        setDiff(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadDiff();
+  }, [fromId, toId, groupBy]);
+
+  const snapshotLabel = (snapshot: SnapshotSummary) =>
+    `${snapshot.asOf} • ${formatNumber(snapshot.policyCount)} policies`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Fixed Header */}
+      <div className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-foreground">Snapshot Comparison</h1>
+            <Badge variant="outline" className="text-xs">
+              {snapshots.length} snapshots
+            </Badge>
+          </div>
+        </div>
+      </div>
+
+      {/* Snapshot Selection */}
+      <div className="border-b bg-muted/30">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">From:</span>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="h-8 min-w-[220px]">
+                  <SelectValue placeholder="Select snapshot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {snapshots.map(snapshot => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">To:</span>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="h-8 min-w-[220px]">
+                  <SelectValue placeholder="Select snapshot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {snapshots.map(snapshot => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Group by:</span>
+              <Select value={groupBy} onValueChange={value => setGroupBy(value as SnapshotGrouping)}>
+                <SelectTrigger className="h-8 min-w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GROUP_LABELS) as SnapshotGrouping[]).map(grouping => (
+                    <SelectItem key={grouping} value={grouping}>{GROUP_LABELS[grouping]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {snapshots.length < 2 && (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="text-center max-w-md">
+              <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+                <AlertCircle className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold text-foreground mb-2">Not Enough Snapshots</h3>
+              <p className="text-muted-foreground">
+                A snapshot is stored each time a new extract is loaded. Load another extract to compare closes.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-muted-foreground">Comparing snapshots...</span>
+            </div>
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {diff && !isLoading && (
+          <>
+            {/* Total Movement */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <MovementCard title="Policies" movement={diff.total.policyCount} format={formatNumber} />
+              <MovementCard title="Gross Premium" movement={diff.total.premium} format={formatAmount} />
+              <MovementCard title="Incurred Claims" movement={diff.total.incurred} format={formatAmount} inverse />
+              <MovementCard title="Loss Ratio" movement={diff.total.lossRatioPct} format={formatPct} inverse />
+            </div>
+
+            {/* Movement by Group */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <GitCompare className="h-5 w-5" />
+                  Movement by {GROUP_LABELS[diff.groupBy]}
+                </CardTitle>
+                <CardDescription>
+                  {diff.from.asOf} to {diff.to.asOf}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto border rounded-lg">
+                  <Table>
+                    <TableHeader className="bg-muted/50">
+                      <TableRow>
+                        <TableHead className="font-semibold">{GROUP_LABELS[diff.groupBy]}</TableHead>
+                        <TableHead className="text-right font-semibold">Policies</TableHead>
+                        <TableHead className="text-right font-semibold">Premium</TableHead>
+                        <TableHead className="text-right font-semibold">Paid Claims</TableHead>
+                        <TableHead className="text-right font-semibold">OS Loss</TableHead>
+                        <TableHead className="text-right font-semibold">Loss Ratio</TableHead>
+                        <TableHead className="text-right font-semibold">Loss Ratio Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.aggregates.map(row => (
+                        <TableRow key={row.key} className="hover:bg-muted/30">
+                          <TableCell className="font-medium">{row.key || '(blank)'}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            <Change value={row.policyCount.change} format={formatNumber} />
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            <Change value={row.premium.change} format={formatAmount} />
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            <Change value={row.paidClaims.change} format={formatAmount} inverse />
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            <Change value={row.osLoss.change} format={formatAmount} inverse />
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            {formatPct(row.lossRatioPct.from)} → {formatPct(row.lossRatioPct.to)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            <Change value={row.lossRatioPct.change} format={formatPct} inverse />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Policy Movements */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Policy Movements</CardTitle>
+                <CardDescription>
+                  {formatNumber(diff.changedPolicies)} policies changed, {formatNumber(diff.unchangedPolicies)} unchanged
+                  {diff.changedPolicies > diff.policies.length && ` • largest ${diff.policies.length} shown`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto border rounded-lg">
+                  <Table>
+                    <TableHeader className="bg-muted/50">
+                      <TableRow>
+                        <TableHead className="font-semibold">Policy Key</TableHead>
+                        <TableHead className="font-semibold">Cedant</TableHead>
+                        <TableHead className="font-semibold">Country</TableHead>
+                        <TableHead className="font-semibold">Status</TableHead>
+                        <TableHead className="text-right font-semibold">Premium</TableHead>
+                        <TableHead className="text-right font-semibold">Paid Claims</TableHead>
+                        <TableHead className="text-right font-semibold">OS Loss</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.policies.map(policy => (
+                        <TableRow key={policy.key} className="hover:bg-muted/30">
+                          <TableCell className="font-mono text-sm">{policy.key}</TableCell>
+                          <TableCell>{policy.cedant}</TableCell>
+                          <TableCell>{policy.countryName}</TableCell>
+                          <TableCell>
+                            <Badge variant={policy.status === 'changed' ? 'secondary' : policy.status === 'added' ? 'default' : 'destructive'}>
+                              {policy.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            <Change value={policy.premium.change} format={formatAmount} />
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            <Change value={policy.paidClaims.change} format={formatAmount} inverse />
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            <Change value={policy.osLoss.change} format={formatAmount} inverse />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
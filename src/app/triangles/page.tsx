@@ -0,0 +1,326 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Triangle, Loader2, AlertCircle, Download, Filter } from 'lucide-react';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { useDataUpdates } from '@/hooks/useDataUpdates';
+import type { DevelopmentTriangle, TriangleFilters, TriangleMeasure, TriangleSet } from '@/lib/triangles';
+
+type FilterKey = keyof TriangleFilters;
+
+const FILTERS: Array<{ key: FilterKey; label: string; dimension: 'hubs' | 'regions' | 'extTypes' | 'cedants' }> = [
+  { key: 'hub', label: 'Hub', dimension: 'hubs' },
+  { key: 'region', label: 'Region', dimension: 'regions' },
+  { key: 'extType', label: 'Ext Type', dimension: 'extTypes' },
+  { key: 'cedant', label: 'Cedant', dimension: 'cedants' },
+];
+
+const MEASURE_LABELS: Record<TriangleMeasure, string> = {
+  paid: 'Paid',
+  incurred: 'Incurred',
+};
+
+function formatFactor(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+function TriangleTable({ triangle, formatAmount }: { triangle: DevelopmentTriangle; formatAmount: (value: number) => string }) {
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <Table>
+        <TableHeader className="bg-muted/50">
+          <TableRow>
+            <TableHead className="font-semibold">UY</TableHead>
+            {triangle.developmentQuarters.map(quarter => (
+              <TableHead key={quarter} className="text-right font-semibold">DQ {quarter}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {triangle.rows.map(row => (
+            <TableRow key={row.uy} className="hover:bg-muted/30">
+              <TableCell className="font-medium">{row.uy}</TableCell>
+              {row.values.map((value, index) => (
+                <TableCell key={index} className="text-right font-mono text-sm">
+                  {value === null ? <span className="text-muted-foreground">-</span> : formatAmount(value)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function FactorTable({ triangle }: { triangle: DevelopmentTriangle }) {
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <Table>
+        <TableHeader className="bg-muted/50">
+          <TableRow>
+            <TableHead className="font-semibold">UY</TableHead>
+            {triangle.factors.map(factor => (
+              <TableHead key={factor.from} className="text-right font-semibold">{factor.from}-{factor.to}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {triangle.rows.map(row => (
+            <TableRow key={row.uy} className="hover:bg-muted/30">
+              <TableCell className="font-medium">{row.uy}</TableCell>
+              {row.linkRatios.map((ratio, index) => (
+                <TableCell key={index} className="text-right font-mono text-sm">{formatFactor(ratio)}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+          <TableRow className="bg-muted/50 font-semibold border-t-2">
+            <TableCell className="text-primary">Volume weighted</TableCell>
+            {triangle.factors.map(factor => (
+              <TableCell key={factor.from} className="text-right font-mono text-sm">{formatFactor(factor.weighted)}</TableCell>
+            ))}
+          </TableRow>
+          <TableRow className="bg-muted/50">
+            <TableCell className="font-medium">Simple average</TableCell>
+            {triangle.factors.map(factor => (
+              <TableCell key={factor.from} className="text-right font-mono text-sm">{formatFactor(factor.simple)}</TableCell>
+            ))}
+          </TableRow>
+          <TableRow className="bg-muted/50">
+            <TableCell className="font-medium text-muted-foreground">UYs</TableCell>
+            {triangle.factors.map(factor => (
+              <TableCell key={factor.from} className="text-right text-sm text-muted-foreground">{factor.count}</TableCell>
+            ))}
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function TrianglesPage() {
+  const { currency, formatAmount } = useCurrency();
+  const { dataVersion } = useDataUpdates();
+  const [dimensions, setDimensions] = useState<Record<string, string[]>>({});
+  const [filters, setFilters] = useState<TriangleFilters>({});
+  const [measure, setMeasure] = useState<TriangleMeasure>('incurred');
+  const [triangles, setTriangles] = useState<TriangleSet | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load filter options
+  useEffect(() => {
+    const loadDimensions = async () => {
+      try {
+        const response = await fetch('/api/dimensions');
+        setDimensions(await response.json());
+      } catch (err) {
+        console.error('Triangles - Failed to load dimensions:', err);
+      }
+    };
+
+    loadDimensions();
+  }, [dataVersion]);
+
+  const query = new URLSearchParams(
+    Object.entries(filters).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+
+  // Rebuild the triangles whenever a filter changes
+  useEffect(() => {
+    const loadTriangles = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/triangles?${query}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `API request failed: ${response.status}`);
+        }
+        setTriangles(result);
+      } catch (err) {
+        console.error('Triangles - Failed to load triangles:', err);
+        setError(err instanceof Error ? err.message : String(err));
+        setTriangles(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTriangles();
+  }, [query, dataVersion]);
+
+  const setFilter = (key: FilterKey, value: string) => {
+    setFilters(current => ({ ...current, [key]: value === 'all' ? undefined : value }));
+  };
+
+  // Exports are in the selected presentation currency, like the table
+  const exportUrl = (format: 'csv' | 'xlsx') =>
+    `/api/triangles?${new URLSearchParams({ ...Object.fromEntries(new URLSearchParams(query)), format, measure, currency }).toString()}`;
+
+  const triangle = triangles?.[measure];
+  const activeFilters = Object.values(filters).filter(Boolean).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Fixed Header */}
+      <div className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-foreground">Loss Development Triangles</h1>
+              {triangles && (
+                <Badge variant="outline" className="text-xs">
+                  {triangles.diagonals.length} diagonals
+                </Badge>
+              )}
+              {activeFilters > 0 && (
+                <Badge variant="secondary" className="text-xs">
+                  {activeFilters} filters active
+                </Badge>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={exportUrl('csv')} download>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={exportUrl('xlsx')} download>
+                  <Download className="w-4 h-4 mr-2" />
+                  XLSX
+                </a>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filter Bar */}
+      <div className="border-b bg-muted/30">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Filter className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm font-medium">Filters:</span>
+            </div>
+            {FILTERS.map(({ key, label, dimension }) => (
+              <Select key={key} value={filters[key] ?? 'all'} onValueChange={value => setFilter(key, value)}>
+                <SelectTrigger className="h-8 min-w-[150px] max-w-[240px]">
+                  <SelectValue placeholder={label} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All {label === 'Hub' ? 'Hubs' : `${label}s`}</SelectItem>
+                  {(dimensions[dimension] ?? []).map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+            <div className="flex rounded-md border ml-auto">
+              {(Object.keys(MEASURE_LABELS) as TriangleMeasure[]).map((option, index) => (
+                <Button
+                  key={option}
+                  variant={measure === option ? 'default' : 'ghost'}
+                  size="sm"
+                  className={`h-8 ${index === 0 ? 'rounded-r-none' : 'rounded-l-none'}`}
+                  onClick={() => setMeasure(option)}
+                >
+                  {MEASURE_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {isLoading && !triangles && (
+          <div className="flex items-center justify-center py-12">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-muted-foreground">Building triangles...</span>
+            </div>
+          </div>
+        )}
+
+        {triangles && triangle && triangle.rows.length === 0 && (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="text-center max-w-md">
+              <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+                <AlertCircle className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold text-foreground mb-2">No Development History</h3>
+              <p className="text-muted-foreground">
+                Each stored snapshot adds a diagonal. No snapshot has policies matching the selected filters.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {triangles && triangle && triangle.rows.length > 0 && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Triangle className="h-5 w-5" />
+                  {MEASURE_LABELS[measure]} Development by Underwriting Year
+                </CardTitle>
+                <CardDescription>
+                  Cumulative {measure === 'paid' ? 'paid claims' : 'paid claims plus OS loss'} by development
+                  quarter; DQ 1 is the first quarter of the UY. Diagonals: {triangles.diagonals.map(d => d.quarter).join(', ')}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TriangleTable triangle={triangle} formatAmount={formatAmount} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Age-to-Age Factors</CardTitle>
+                <CardDescription>
+                  Link ratios per UY with volume-weighted and simple-average factors over the UYs that have both quarters
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {triangle.factors.length > 0 ? (
+                  <FactorTable triangle={triangle} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Factors need at least two development quarters; they appear once snapshots from two quarters are stored.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
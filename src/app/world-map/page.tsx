@@ -10,14 +10,23 @@ import {
   RefreshCw,
   Loader2,
   Clock,
-  BarChart3
+  BarChart3,
+  AlertTriangle,
+  ShieldAlert
 } from 'lucide-react';
-import { formatKD, formatPct, formatNumber } from '@/lib/format';
+import Link from 'next/link';
+import { formatPct, formatNumber } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 import { ChatBot } from '@/components/chat/ChatBot';
-import WorldMap from '@/components/charts/WorldMap';
+import WorldMap, { type CountryAccumulationLayer } from '@/components/charts/WorldMap';
+import type { AccumulationResult } from '@/lib/accumulation';
+
+type MapLayer = 'policies' | 'accumulation';
 
 interface CountryData {
+  code: string;
   country: string;
+  names: string[];
   policyCount: number;
   premium: number;
   acquisition: number;
@@ -34,8 +43,16 @@ interface CountryData {
   hubs: string[];
 }
 
+interface UnmatchedCountry {
+  country: string;
+  regionalScope: boolean;
+  policyCount: number;
+  premium: number;
+}
+
 interface WorldMapResponse {
   countries: CountryData[];
+  unmatchedCountries: UnmatchedCountry[];
   total: {
     policyCount: number;
     premium: number;
@@ -52,11 +69,15 @@ interface WorldMapResponse {
 
 
 export default function WorldMapPage() {
+  const { formatAmount } = useCurrency();
   const [worldData, setWorldData] = useState<WorldMapResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [hoveredCountry, setHoveredCountry] = useState<CountryData | null>(null);
   const [selectedCountry, setSelectedCountry] = useState<CountryData | null>(null);
+  const [layer, setLayer] = useState<MapLayer>('policies');
+  const [accumulation, setAccumulation] = useState<AccumulationResult | null>(null);
+  const [accumulationError, setAccumulationError] = useState<string | null>(null);
 
   // Load world map data
   useEffect(() => {
@@ -91,6 +112,37 @@ export default function WorldMapPage() {
     loadWorldData();
   }, []);
 
+  // Accumulation against the concentration limits, loaded when the layer is first shown and on refresh
+  const loadAccumulation = async () => {
+    setAccumulationError(null);
+    try {
+      const response = await fetch('/api/accumulation');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `API request failed: ${response.status}`);
+      }
+      setAccumulation(data);
+    } catch (error) {
+      console.error('World Map - Failed to load accumulation:', error);
+      setAccumulationError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const showLayer = (next: MapLayer) => {
+    setLayer(next);
+    if (next === 'accumulation' && !accumulation) loadAccumulation();
+  };
+
+  const accumulationLayer = useMemo(() => {
+    if (layer !== 'accumulation' || !accumulation) return undefined;
+    return Object.fromEntries(accumulation.countries.map(country => [
+      country.key,
+      { exposure: country.exposure, status: country.status },
+    ])) as Record<string, CountryAccumulationLayer>;
+  }, [layer, accumulation]);
+
+  const flaggedLimits = accumulation?.limits.filter(limit => limit.status !== 'ok') ?? [];
+
   const handleRefresh = () => {
     const loadWorldData = async () => {
       setIsLoading(true);
@@ -100,6 +152,7 @@ export default function WorldMapPage() {
         const data = await response.json();
         setWorldData(data);
         setLastUpdated(new Date());
+        if (accumulation) await loadAccumulation();
       } catch (error) {
         console.error('World Map - Failed to refresh data:', error);
       } finally {
@@ -208,12 +261,25 @@ export default function WorldMapPage() {
                 <CardTitle className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <Map className="h-5 w-5" />
-                    <span>Global Policy Distribution</span>
+                    <span>{layer === 'accumulation' ? 'Exposure Accumulation' : 'Global Policy Distribution'}</span>
                     <Badge variant="outline" className="text-xs">
                       Click countries to view details
                     </Badge>
                   </div>
                   <div className="flex gap-2">
+                    <div className="flex rounded-md border">
+                      {(['policies', 'accumulation'] as const).map((option, index) => (
+                        <Button
+                          key={option}
+                          variant={layer === option ? 'default' : 'ghost'}
+                          size="sm"
+                          className={index === 0 ? 'rounded-r-none' : 'rounded-l-none'}
+                          onClick={() => showLayer(option)}
+                        >
+                          {option === 'policies' ? 'Policies' : 'Accumulation'}
+                        </Button>
+                      ))}
+                    </div>
                     {selectedCountry && (
                       <Button 
                         variant="outline" 
@@ -236,6 +302,7 @@ export default function WorldMapPage() {
                   {/* D3 World Map */}
                   <WorldMap
                     data={worldData.countries || []}
+                    accumulation={accumulationLayer}
                     onCountryHover={setHoveredCountry}
                     onCountryClick={setSelectedCountry}
                   />
@@ -243,6 +310,71 @@ export default function WorldMapPage() {
               </CardContent>
             </Card>
 
+            {/* Flagged Limits */}
+            {layer === 'accumulation' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <ShieldAlert className="h-5 w-5" />
+                      <span>Limit Breaches and Warnings</span>
+                    </div>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href="/accumulation">Manage limits</Link>
+                    </Button>
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Our-share liability (Max Liability × Signed Line) against the country and zone limits
+                    {accumulation ? `; warnings from ${formatPct(accumulation.warningPct)} utilisation` : ''}
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  {accumulationError && <p className="text-sm text-red-600">{accumulationError}</p>}
+                  {!accumulation && !accumulationError && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="text-sm">Accumulating exposure...</span>
+                    </div>
+                  )}
+                  {accumulation && flaggedLimits.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {accumulation.limits.length === 0 ? 'No limits set yet.' : 'Every limit is below the warning level.'}
+                    </p>
+                  )}
+                  {flaggedLimits.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left py-2 font-semibold">Limit</th>
+                            <th className="text-right py-2 font-semibold">Limit</th>
+                            <th className="text-right py-2 font-semibold">Our-Share Liability</th>
+                            <th className="text-right py-2 font-semibold">Utilisation</th>
+                            <th className="text-right py-2 font-semibold">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {flaggedLimits.map(limit => (
+                            <tr key={limit.id} className="border-b hover:bg-muted/30">
+                              <td className="py-2 font-medium">{limit.name}</td>
+                              <td className="text-right py-2 font-mono text-sm">{formatAmount(limit.limit)}</td>
+                              <td className="text-right py-2 font-mono text-sm">{formatAmount(limit.exposure)}</td>
+                              <td className="text-right py-2 text-sm">{formatPct(limit.utilisationPct)}</td>
+                              <td className="text-right py-2">
+                                <Badge variant={limit.status === 'breach' ? 'destructive' : 'secondary'}>
+                                  {limit.status === 'breach' ? 'Breach' : 'Warning'}
+                                </Badge>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Hovered Country Quick Info */}
             {hoveredCountry && !selectedCountry && (
               <Card className="border-blue-200 bg-blue-50/50">
@@ -292,7 +424,7 @@ export default function WorldMapPage() {
                     </thead>
                     <tbody>
                       {topCountries.map((country, index) => (
-                        <tr key={country.country} className="border-b hover:bg-muted/30">
+                        <tr key={country.code} className="border-b hover:bg-muted/30">
                           <td className="py-2">
                             <div className="flex items-center space-x-2">
                               <span className="inline-flex items-center justify-center w-6 h-6 bg-primary/10 text-primary text-xs font-bold rounded-full">
@@ -313,7 +445,7 @@ export default function WorldMapPage() {
                             {formatNumber(country.policyCount)}
                           </td>
                           <td className="text-right py-2 font-mono text-sm">
-                            {formatKD(country.premium)}
+                            {formatAmount(country.premium)}
                           </td>
                           <td className="text-right py-2">
                             <Badge variant={getRatioBadgeVariant(country.lossRatioPct)}>
@@ -333,6 +465,53 @@ export default function WorldMapPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Unmatched Countries */}
+            {worldData.unmatchedCountries?.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5" />
+                    <span>Unmatched Countries</span>
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Country values without an ISO code are left off the map. Regional scopes cover several countries; other names need an alias in the country reference.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left py-2 font-semibold">Country value</th>
+                          <th className="text-left py-2 font-semibold">Type</th>
+                          <th className="text-right py-2 font-semibold">Policies</th>
+                          <th className="text-right py-2 font-semibold">Premium</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {worldData.unmatchedCountries.map(country => (
+                          <tr key={country.country} className="border-b hover:bg-muted/30">
+                            <td className="py-2 font-medium">{country.country}</td>
+                            <td className="py-2">
+                              <Badge variant={country.regionalScope ? 'secondary' : 'destructive'}>
+                                {country.regionalScope ? 'Regional scope' : 'Unknown'}
+                              </Badge>
+                            </td>
+                            <td className="text-right py-2 font-mono text-sm">
+                              {formatNumber(country.policyCount)}
+                            </td>
+                            <td className="text-right py-2 font-mono text-sm">
+                              {formatAmount(country.premium)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
 
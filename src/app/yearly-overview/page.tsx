@@ -23,8 +23,13 @@ import {
   Target,
   Users
 } from 'lucide-react';
-import { formatKD, formatPct, formatNumber } from '@/lib/format';
+import { formatPct, formatNumber } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 import { ChatBot } from '@/components/chat/ChatBot';
+import { DataUpdatedBanner } from '@/components/data/DataUpdatedBanner';
+import { useDataUpdates } from '@/hooks/useDataUpdates';
+import { BusinessMixTable } from '@/components/tables/BusinessMixTable';
+import { BusinessMixYear } from '@/lib/business-mix';
 
 interface YearlyData {
   year: number;
@@ -42,6 +47,7 @@ interface YearlyData {
 
 interface YearlyResponse {
   years: Record<number, YearlyData>;
+  availableYears: number[];
   total: {
     policyCount: number;
     premium: number;
@@ -54,12 +60,15 @@ interface YearlyResponse {
     acquisitionPct: number;
     combinedRatioPct: number;
   };
+  businessMix: BusinessMixYear[];
 }
 
 export default function YearlyOverviewPage() {
+  const { formatAmount } = useCurrency();
   const [yearlyData, setYearlyData] = useState<YearlyResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const { dataVersion, dataUpdatedAt } = useDataUpdates();
 
   // Load yearly data
   useEffect(() => {
@@ -92,7 +101,7 @@ export default function YearlyOverviewPage() {
     };
 
     loadYearlyData();
-  }, []);
+  }, [dataVersion]);
 
   const handleRefresh = () => {
     const loadYearlyData = async () => {
@@ -112,6 +121,14 @@ export default function YearlyOverviewPage() {
     loadYearlyData();
   };
 
+  // Years come from the API so new extracts show up without code changes
+  const availableYears = yearlyData?.availableYears ?? [];
+  const yearRange = availableYears.length > 0
+    ? availableYears.length > 1
+      ? `${availableYears[0]}-${availableYears[availableYears.length - 1]}`
+      : `${availableYears[0]}`
+    : null;
+
   // Get color class for ratio metrics
   const getRatioColor = (value: number) => {
     if (value > 100) return 'text-red-600';
@@ -136,9 +153,11 @@ export default function YearlyOverviewPage() {
             {/* Left side - Title */}
             <div className="flex items-center space-x-3">
               <h1 className="text-2xl font-bold text-foreground">Yearly Overview</h1>
-              <Badge variant="outline" className="text-xs">
-                2019-2021
-              </Badge>
+              {yearRange && (
+                <Badge variant="outline" className="text-xs">
+                  {yearRange}
+                </Badge>
+              )}
             </div>
 
             {/* Right side - Controls */}
@@ -167,6 +186,8 @@ export default function YearlyOverviewPage() {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-6">
+        <DataUpdatedBanner dataUpdatedAt={dataUpdatedAt} lastUpdated={lastUpdated} className="mb-6" />
+
         {/* Loading State */}
         {isLoading && (
           <div className="flex items-center justify-center py-12">
@@ -204,7 +225,7 @@ export default function YearlyOverviewPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">
-                    {formatKD(yearlyData.total?.premium || 0)}
+                    {formatAmount(yearlyData.total?.premium || 0)}
                   </div>
                 </CardContent>
               </Card>
@@ -272,7 +293,7 @@ export default function YearlyOverviewPage() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {[2019, 2020, 2021].map((year) => {
+                      {availableYears.map((year) => {
                         const data = yearlyData.years?.[year];
                         if (!data) return null;
                         
@@ -289,11 +310,11 @@ export default function YearlyOverviewPage() {
                             </TableCell>
                             <TableCell className="text-right">
                               <span className="font-mono text-sm">
-                                {formatKD(data.premium)}
+                                {formatAmount(data.premium)}
                               </span>
                             </TableCell>
                             <TableCell className="text-right font-mono text-sm">
-                              {formatKD(data.acquisition)}
+                              {formatAmount(data.acquisition)}
                             </TableCell>
                             <TableCell className="text-right">
                               <span className={getRatioColor(data.acquisitionPct)}>
@@ -301,7 +322,7 @@ export default function YearlyOverviewPage() {
                               </span>
                             </TableCell>
                             <TableCell className="text-right font-mono text-sm">
-                              {formatKD(data.incurredClaims)}
+                              {formatAmount(data.incurredClaims)}
                             </TableCell>
                             <TableCell className="text-right">
                               <Badge variant={getRatioBadgeVariant(data.lossRatioPct)}>
@@ -310,7 +331,7 @@ export default function YearlyOverviewPage() {
                             </TableCell>
                             <TableCell className="text-right">
                               <span className={`font-mono text-sm ${data.technicalResult >= 0 ? "text-green-600" : "text-red-600"}`}>
-                                {formatKD(data.technicalResult)}
+                                {formatAmount(data.technicalResult)}
                               </span>
                             </TableCell>
                             <TableCell className="text-right">
@@ -335,10 +356,10 @@ export default function YearlyOverviewPage() {
                             {formatNumber(yearlyData.total.policyCount)}
                           </TableCell>
                           <TableCell className="text-right">
-                            {formatKD(yearlyData.total.premium)}
+                            {formatAmount(yearlyData.total.premium)}
                           </TableCell>
                           <TableCell className="text-right">
-                            {formatKD(yearlyData.total.acquisition)}
+                            {formatAmount(yearlyData.total.acquisition)}
                           </TableCell>
                           <TableCell className="text-right">
                             <span className={getRatioColor(yearlyData.total.acquisitionPct)}>
@@ -346,7 +367,7 @@ export default function YearlyOverviewPage() {
                             </span>
                           </TableCell>
                           <TableCell className="text-right">
-                            {formatKD(yearlyData.total.incurredClaims)}
+                            {formatAmount(yearlyData.total.incurredClaims)}
                           </TableCell>
                           <TableCell className="text-right">
                             <Badge variant={getRatioBadgeVariant(yearlyData.total.lossRatioPct)}>
@@ -355,7 +376,7 @@ export default function YearlyOverviewPage() {
                           </TableCell>
                           <TableCell className="text-right">
                             <span className={`font-mono ${yearlyData.total.technicalResult >= 0 ? "text-green-600" : "text-red-600"}`}>
-                              {formatKD(yearlyData.total.technicalResult)}
+                              {formatAmount(yearlyData.total.technicalResult)}
                             </span>
                           </TableCell>
                           <TableCell className="text-right">
@@ -373,6 +394,9 @@ export default function YearlyOverviewPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* New vs Renewal Business */}
+            <BusinessMixTable rows={yearlyData.businessMix ?? []} />
           </div>
         )}
 
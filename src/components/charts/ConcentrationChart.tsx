@@ -0,0 +1,201 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { formatNumber, formatPct } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { ReinsuranceData } from '@/lib/schema';
+import {
+  CONCENTRATION_TOP_N,
+  calculateConcentration,
+  type ConcentrationDimension,
+  type ParetoPoint,
+} from '@/lib/concentration';
+import { PieChart, AlertTriangle } from 'lucide-react';
+
+interface ConcentrationAnalysisProps {
+  data: ReinsuranceData[];
+  className?: string;
+}
+
+const DIMENSIONS: Array<{ dimension: ConcentrationDimension; label: string }> = [
+  { dimension: 'cedant', label: 'Cedants' },
+  { dimension: 'broker', label: 'Brokers' },
+  { dimension: 'country', label: 'Countries' },
+  { dimension: 'insured', label: 'Insureds' },
+];
+
+// Usual competition-authority bands: below 1,500 unconcentrated, above 2,500 highly concentrated
+function hhiClass(hhi: number): string {
+  if (hhi > 2500) return 'text-red-600';
+  if (hhi >= 1500) return 'text-yellow-600';
+  return 'text-green-600';
+}
+
+export function ConcentrationAnalysis({ data, className }: ConcentrationAnalysisProps) {
+  const { formatAmount } = useCurrency();
+  const [dimension, setDimension] = useState<ConcentrationDimension>('cedant');
+  const [selectedPeriod, setSelectedPeriod] = useState('All');
+
+  const concentration = useMemo(() => calculateConcentration(data, dimension), [data, dimension]);
+  const periods = ['All', ...concentration.years.map(year => year.key)];
+  const period = periods.includes(selectedPeriod) ? selectedPeriod : 'All';
+  const pareto = concentration.pareto[period] ?? [];
+  const label = DIMENSIONS.find(option => option.dimension === dimension)!.label;
+
+  const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: ParetoPoint }> }) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+      return (
+        <div className="bg-background border rounded-lg shadow-lg p-4 min-w-[200px]">
+          <p className="font-semibold mb-2">#{point.rank} {point.name}</p>
+          <div className="space-y-1 text-sm">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-muted-foreground">Premium:</span>
+              <span className="font-medium">{formatAmount(point.premium)}</span>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-muted-foreground">Share:</span>
+              <span className="font-medium">{formatPct(point.sharePct)}</span>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-muted-foreground">Cumulative:</span>
+              <span className="font-medium text-blue-600">{formatPct(point.cumulativePct)}</span>
+            </div>
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.3 }}
+      className={className}
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PieChart className="h-5 w-5 text-primary" />
+            Portfolio Concentration
+          </CardTitle>
+          <CardDescription>
+            Herfindahl-Hirschman index (sum of squared premium shares, 0-10,000), share of premium with the largest
+            5, 10 and 20, and the cumulative Pareto curve, by year of the current selection
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Tabs value={dimension} onValueChange={value => setDimension(value as ConcentrationDimension)}>
+            <TabsList className="grid w-full grid-cols-4">
+              {DIMENSIONS.map(option => (
+                <TabsTrigger key={option.dimension} value={option.dimension}>{option.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {concentration.overall.entityCount === 0 ? (
+            <div className="flex items-center justify-center h-64 text-muted-foreground">
+              <div className="text-center">
+                <AlertTriangle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No data available</p>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto border rounded-lg">
+                <Table>
+                  <TableHeader className="bg-muted/50">
+                    <TableRow>
+                      <TableHead className="font-semibold">Year</TableHead>
+                      <TableHead className="text-right font-semibold">{label}</TableHead>
+                      <TableHead className="text-right font-semibold">Premium</TableHead>
+                      <TableHead className="text-right font-semibold">HHI</TableHead>
+                      <TableHead className="text-right font-semibold">Equivalent Count</TableHead>
+                      {CONCENTRATION_TOP_N.map(n => (
+                        <TableHead key={n} className="text-right font-semibold">Top {n} Share</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...concentration.years, concentration.overall].map(row => (
+                      <TableRow
+                        key={row.key}
+                        className={row === concentration.overall ? 'bg-muted/50 font-semibold border-t-2' : 'hover:bg-muted/30'}
+                      >
+                        <TableCell className="font-medium">{row.key === 'All' ? 'All Years' : row.key}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{formatNumber(row.entityCount)}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{formatAmount(row.premium)}</TableCell>
+                        <TableCell className={`text-right font-mono text-sm ${hhiClass(row.hhi)}`}>{formatNumber(Math.round(row.hhi))}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{row.equivalentCount.toFixed(1)}</TableCell>
+                        {CONCENTRATION_TOP_N.map(n => (
+                          <TableCell key={n} className="text-right font-mono text-sm">{formatPct(row.topShares[n])}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold">Pareto Curve – {period === 'All' ? 'All Years' : period}</h3>
+                  <div className="flex rounded-md border">
+                    {periods.map((key, index) => (
+                      <Button
+                        key={key}
+                        variant={key === period ? 'default' : 'ghost'}
+                        size="sm"
+                        className={`h-8 ${periods.length === 1 ? '' : index === 0 ? 'rounded-r-none' : index === periods.length - 1 ? 'rounded-l-none' : 'rounded-none'}`}
+                        onClick={() => setSelectedPeriod(key)}
+                      >
+                        {key}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={pareto}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis
+                        dataKey="entityPct"
+                        type="number"
+                        domain={[0, 100]}
+                        tick={{ fontSize: 12 }}
+                        tickLine={{ stroke: '#6b7280' }}
+                        tickFormatter={(value) => formatPct(value)}
+                        label={{ value: `Share of ${label.toLowerCase()}`, position: 'insideBottom', offset: -5, fontSize: 12 }}
+                      />
+                      <YAxis
+                        domain={[0, 100]}
+                        tick={{ fontSize: 12 }}
+                        tickLine={{ stroke: '#6b7280' }}
+                        tickFormatter={(value) => formatPct(value)}
+                      />
+                      <Tooltip content={<CustomTooltip />} />
+                      <Line
+                        type="monotone"
+                        dataKey="cumulativePct"
+                        stroke="#3b82f6"
+                        strokeWidth={3}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
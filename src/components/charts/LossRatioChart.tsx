@@ -5,6 +5,7 @@ import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { formatPct } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 import { ReinsuranceData } from '@/lib/schema';
 import { Target, AlertTriangle } from 'lucide-react';
 
@@ -14,6 +15,7 @@ interface LossRatioBarChartProps {
 }
 
 export function LossRatioBarChart({ data, className }: LossRatioBarChartProps) {
+  const { formatAmount } = useCurrency();
   console.log('LossRatioBarChart - Data received:', data.length, 'records');
   
   const chartData = useMemo(() => {
@@ -71,11 +73,11 @@ export function LossRatioBarChart({ data, className }: LossRatioBarChartProps) {
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Premium:</span>
-              <span className="font-medium text-blue-600">{formatPct(data.premium)}</span>
+              <span className="font-medium text-blue-600">{formatAmount(data.premium)}</span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Incurred:</span>
-              <span className="font-medium text-red-600">{formatPct(data.incurred)}</span>
+              <span className="font-medium text-red-600">{formatAmount(data.incurred)}</span>
             </div>
           </div>
         </div>
@@ -4,7 +4,8 @@ import { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { formatKD, formatPct } from '@/lib/format';
+import { formatPct } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 import { ReinsuranceData } from '@/lib/schema';
 import { PieChart as PieChartIcon, Building2 } from 'lucide-react';
 
@@ -16,6 +17,7 @@ interface PremiumByExtTypeDonutProps {
 const COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#84cc16', '#f97316'];
 
 export function PremiumByExtTypeDonut({ data, className }: PremiumByExtTypeDonutProps) {
+  const { formatAmount } = useCurrency();
   const chartData = useMemo(() => {
     const extTypeMap = new Map<string, { name: string; value: number; count: number }>();
     
@@ -46,7 +48,7 @@ export function PremiumByExtTypeDonut({ data, className }: PremiumByExtTypeDonut
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Premium:</span>
-              <span className="font-medium text-blue-600">{formatKD(data.value)}</span>
+              <span className="font-medium text-blue-600">{formatAmount(data.value)}</span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Percentage:</span>
@@ -89,7 +91,7 @@ export function PremiumByExtTypeDonut({ data, className }: PremiumByExtTypeDonut
             <div className="grid grid-cols-2 gap-4">
               <div className="text-center p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg">
                 <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                  {formatKD(totalPremium)}
+                  {formatAmount(totalPremium)}
                 </div>
                 <div className="text-xs text-muted-foreground">Total Premium</div>
               </div>
@@ -154,7 +156,7 @@ export function PremiumByExtTypeDonut({ data, className }: PremiumByExtTypeDonut
                       </div>
                       <div className="flex items-center gap-2">
                         <span className="text-muted-foreground">{item.count} accounts</span>
-                        <span className="font-medium">{formatKD(item.value)}</span>
+                        <span className="font-medium">{formatAmount(item.value)}</span>
                       </div>
                     </div>
                   ))}
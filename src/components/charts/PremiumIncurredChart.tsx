@@ -4,7 +4,8 @@ import { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { formatKD, formatPct } from '@/lib/format';
+import { formatPct } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 import { ReinsuranceData } from '@/lib/schema';
 import { TrendingUp, AlertTriangle } from 'lucide-react';
 
@@ -14,6 +15,7 @@ interface PremiumIncurredLineChartProps {
 }
 
 export function PremiumIncurredLineChart({ data, className }: PremiumIncurredLineChartProps) {
+  const { formatAmount } = useCurrency();
   console.log('PremiumIncurredLineChart - Data received:', data.length, 'records');
   
   const chartData = useMemo(() => {
@@ -55,11 +57,11 @@ export function PremiumIncurredLineChart({ data, className }: PremiumIncurredLin
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Premium:</span>
-              <span className="font-medium text-blue-600">{formatKD(data.premium)}</span>
+              <span className="font-medium text-blue-600">{formatAmount(data.premium)}</span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Incurred Claims:</span>
-              <span className="font-medium text-red-600">{formatKD(data.incurred)}</span>
+              <span className="font-medium text-red-600">{formatAmount(data.incurred)}</span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Loss Ratio:</span>
@@ -106,13 +108,13 @@ export function PremiumIncurredLineChart({ data, className }: PremiumIncurredLin
             <div className="grid grid-cols-3 gap-4">
               <div className="text-center p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg">
                 <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                  {formatKD(totalPremium)}
+                  {formatAmount(totalPremium)}
                 </div>
                 <div className="text-xs text-muted-foreground">Total Premium</div>
               </div>
               <div className="text-center p-3 bg-red-50 dark:bg-red-950/20 rounded-lg">
                 <div className="text-2xl font-bold text-red-600 dark:text-red-400">
-                  {formatKD(totalIncurred)}
+                  {formatAmount(totalIncurred)}
                 </div>
                 <div className="text-xs text-muted-foreground">Total Incurred</div>
               </div>
@@ -145,7 +147,7 @@ export function PremiumIncurredLineChart({ data, className }: PremiumIncurredLin
                     <YAxis 
                       tick={{ fontSize: 12 }}
                       tickLine={{ stroke: '#6b7280' }}
-                      tickFormatter={(value) => formatKD(value)}
+                      tickFormatter={(value) => formatAmount(value)}
                     />
                     <Tooltip content={<CustomTooltip />} />
                     <Legend />
@@ -2,10 +2,20 @@
 
 import { useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import * as d3 from 'd3';
-import { formatKD, formatPct, formatNumber } from '@/lib/format';
+import { feature as topojsonFeature } from 'topojson-client';
+import type { Feature, Geometry } from 'geojson';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import { formatPct, formatNumber } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { findCountry } from '@/lib/countries';
+import type { MapRegion, MapResolution } from '@/lib/map-geometry';
+import type { LimitStatus } from '@/lib/accumulation';
 
 interface CountryData {
+  /** ISO 3166-1 alpha-3 code */
+  code: string;
   country: string;
+  names: string[];
   policyCount: number;
   premium: number;
   acquisition: number;
@@ -22,13 +32,76 @@ interface CountryData {
   hubs: string[];
 }
 
+/**
+ * Our-share liability and worst limit status of a country, for the accumulation layer
+ */
+export interface CountryAccumulationLayer {
+  exposure: number;
+  status: LimitStatus | null;
+}
+
 interface WorldMapProps {
   data: CountryData[];
+  /** Accumulation per ISO code; when set, countries are coloured by limit status instead of policy count */
+  accumulation?: Record<string, CountryAccumulationLayer>;
   onCountryHover?: (country: CountryData | null) => void;
   onCountryClick?: (country: CountryData | null) => void;
 }
 
-export default function WorldMap({ data, onCountryHover, onCountryClick }: WorldMapProps) {
+interface FeatureProperties {
+  iso_a3?: string;
+  ISO_A3?: string;
+  ADM0_A3?: string;
+  NAME?: string;
+  NAME_LONG?: string;
+  name?: string;
+  ADMIN?: string;
+}
+
+type CountryFeature = Feature<Geometry, FeatureProperties>;
+
+// Geometry requests shared by every map on the page, so zooming back out does not refetch
+const geometryCache = new Map<string, Promise<CountryFeature[]>>();
+
+/**
+ * Country features from the bundled geometry route
+ */
+function loadGeometry(region: MapRegion, resolution: MapResolution): Promise<CountryFeature[]> {
+  const url = `/api/map-geometry?region=${region}&resolution=${resolution}`;
+  let cached = geometryCache.get(url);
+  if (!cached) {
+    cached = d3.json<Topology<{ countries: GeometryCollection<FeatureProperties> }>>(url).then(topology => {
+      if (!topology) throw new Error(`No geometry returned from ${url}`);
+      return topojsonFeature(topology, topology.objects.countries).features as CountryFeature[];
+    });
+    cached.catch(() => geometryCache.delete(url));
+    geometryCache.set(url, cached);
+  }
+  return cached;
+}
+
+/**
+ * ISO alpha-3 codes a map feature may carry, most specific first
+ * Geometry sources disagree on the property (Natural Earth uses ISO_A3 with "-99" for a few countries, others use
+ * the feature id), so the feature name resolved through the country reference is the last candidate.
+ */
+function getFeatureCodes(feature: { id?: string | number; properties?: FeatureProperties }): string[] {
+  const properties = feature.properties ?? {};
+  const name = properties.NAME || properties.NAME_LONG || properties.name || properties.ADMIN;
+  return [properties.iso_a3, properties.ISO_A3, properties.ADM0_A3, feature.id, findCountry(name)?.code]
+    .filter((code): code is string => typeof code === 'string' && /^[A-Z]{3}$/.test(code));
+}
+
+// Accumulation layer colours by limit status; countries with exposure but no limit are grey
+const LIMIT_STATUS_COLORS: Record<LimitStatus | 'none', string> = {
+  breach: '#dc2626',
+  warning: '#f59e0b',
+  ok: '#16a34a',
+  none: '#94a3b8',
+};
+
+export default function WorldMap({ data, accumulation, onCountryHover, onCountryClick }: WorldMapProps) {
+  const { formatAmount } = useCurrency();
   const svgRef = useRef<SVGSVGElement>(null);
   const loadingRef = useRef(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -41,23 +114,34 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
     y: number;
     country: CountryData;
   } | null>(null);
+  // Countries with data but no shape in the loaded geometry
+  const [unplotted, setUnplotted] = useState<CountryData[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
 
-  // Create a map of country data for quick lookup (memoized)
+  // Finer outlines once the map is zoomed in
+  const resolution: MapResolution = zoom >= 4 ? 'high' : zoom >= 2 ? 'medium' : 'low';
+
+  // Create a map of country data by ISO code for quick lookup (memoized)
   const countryDataMap = useMemo(() => {
     const map = new Map<string, CountryData>();
     data.forEach(country => {
-      map.set(country.country.toLowerCase(), country);
+      map.set(country.code, country);
     });
     return map;
   }, [data]);
 
+  const findCountryData = useCallback((feature: unknown) => {
+    const code = getFeatureCodes(feature as Parameters<typeof getFeatureCodes>[0]).find(candidate => countryDataMap.has(candidate));
+    return code ? countryDataMap.get(code) : undefined;
+  }, [countryDataMap]);
+
   // Get max policy count for color scaling (memoized)
   const maxPolicies = useMemo(() => {
     return Math.max(...data.map(d => d.policyCount));
   }, [data]);
 
   // Color scale function (memoized)
-  const getColor = useMemo(() => {
+  const getPolicyColor = useMemo(() => {
     return (policyCount: number) => {
       if (policyCount === 0) return '#f8fafc'; // Very light gray for no data
       
@@ -77,6 +161,13 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
     };
   }, [maxPolicies]);
 
+  const getColor = useCallback((country: CountryData) => {
+    if (!accumulation) return getPolicyColor(country.policyCount);
+    const layer = accumulation[country.code];
+    if (!layer) return '#f8fafc';
+    return LIMIT_STATUS_COLORS[layer.status ?? 'none'];
+  }, [accumulation, getPolicyColor]);
+
   // Handle zoom and pan with mouse-centered zoom
   const handleWheel = useCallback((event: WheelEvent) => {
     event.preventDefault();
@@ -138,31 +229,19 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
       
       loadingRef.current = true;
       setIsLoading(true);
+      setLoadError(null);
 
       try {
-        // Load world topology data - try multiple sources
-        let world;
-        try {
-          world = await d3.json('https://raw.githubusercontent.com/holtzy/D3-graph-gallery/master/DATA/world.geojson');
-        } catch {
-          console.log('First source failed, trying alternative...');
-          try {
-            world = await d3.json('https://raw.githubusercontent.com/d3/d3.github.io/master/world-110m.v1.json');
-          } catch {
-            console.log('Second source failed, using fallback...');
-            // Fallback to a simple world map
-            world = {
-              type: "FeatureCollection",
-              features: []
-            };
-          }
-        }
-        
-        if (!world || !(world as { features?: unknown[] }).features) {
-          console.error('Failed to load world data');
-          setIsLoading(false);
-          return;
-        }
+        // World outlines at the zoom level's resolution, with the detailed MENA layer drawn in place of those countries
+        const [world, detail] = await Promise.all([
+          loadGeometry('world', resolution),
+          loadGeometry('mena', 'high').catch(error => {
+            console.error('Failed to load MENA map detail:', error);
+            return [] as CountryFeature[];
+          }),
+        ]);
+        const detailCodes = new Set(detail.map(feature => feature.properties?.iso_a3));
+        const features = [...world.filter(feature => !detailCodes.has(feature.properties?.iso_a3)), ...detail];
 
         // Clear previous content
         d3.select(svgRef.current).selectAll('*').remove();
@@ -192,29 +271,22 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
           .on('mouseleave', handleMouseLeave)
           .style('cursor', isDragging ? 'grabbing' : 'grab');
 
-        // Use GeoJSON directly (no need for feature extraction)
-        const countries = world;
-
         // Create country paths
         mapGroup.selectAll('path')
-          .data((countries as { features: unknown[] }).features)
+          .data(features)
           .enter()
           .append('path')
           .attr('d', (d: unknown) => path(d as any)) // eslint-disable-line @typescript-eslint/no-explicit-any
           .attr('fill', (d: unknown) => {
-            const data = d as { properties: { NAME?: string; NAME_LONG?: string; name?: string; ADMIN?: string } };
-            const countryName = data.properties.NAME || data.properties.NAME_LONG || data.properties.name || data.properties.ADMIN;
-            const countryData = countryDataMap.get(countryName?.toLowerCase() || '');
-            return countryData ? getColor(countryData.policyCount) : '#f8fafc';
+            const countryData = findCountryData(d);
+            return countryData ? getColor(countryData) : '#f8fafc';
           })
           .attr('stroke', '#ffffff')
           .attr('stroke-width', 0.8)
           .style('cursor', 'pointer')
           .style('transition', 'all 0.2s ease')
           .on('mouseover', function(event, d: unknown) {
-            const data = d as { properties: { NAME?: string; NAME_LONG?: string; name?: string; ADMIN?: string } };
-            const countryName = data.properties.NAME || data.properties.NAME_LONG || data.properties.name || data.properties.ADMIN;
-            const countryData = countryDataMap.get(countryName?.toLowerCase() || '');
+            const countryData = findCountryData(d);
             
             if (countryData) {
               // Enhanced highlight on hover
@@ -246,11 +318,9 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
             onCountryHover?.(null);
           })
           .on('click', function(event, d: unknown) {
-            const data = d as { properties: { NAME?: string; NAME_LONG?: string; name?: string; ADMIN?: string } };
             // Prevent drag when clicking on countries
             event.stopPropagation();
-            const countryName = data.properties.NAME || data.properties.NAME_LONG || data.properties.name || data.properties.ADMIN;
-            const countryData = countryDataMap.get(countryName?.toLowerCase() || '');
+            const countryData = findCountryData(d);
             onCountryClick?.(countryData || null);
           })
           .on('mousedown', function(event) {
@@ -261,17 +331,26 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
 
         // No country labels - only color coding
 
+        // Small territories are missing from coarse geometry; list them rather than drop them silently
+        const plotted = new Set<CountryData>();
+        features.forEach(feature => {
+          const countryData = findCountryData(feature);
+          if (countryData) plotted.add(countryData);
+        });
+        setUnplotted(data.filter(country => !plotted.has(country)));
+
         setIsLoading(false);
         loadingRef.current = false;
       } catch (error) {
         console.error('Error loading world map:', error);
+        setLoadError(error instanceof Error ? error.message : String(error));
         setIsLoading(false);
         loadingRef.current = false;
       }
     };
 
     loadWorldMap();
-  }, [data, countryDataMap, maxPolicies, getColor, handleWheel, handleMouseDown, handleMouseMove, isDragging, onCountryClick, onCountryHover]); // Depend on memoized values
+  }, [data, resolution, findCountryData, maxPolicies, getColor, handleWheel, handleMouseDown, handleMouseMove, isDragging, onCountryClick, onCountryHover]); // Depend on memoized values
 
   // Apply zoom and pan transformations
   useEffect(() => {
@@ -380,23 +459,37 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
 
       {/* Color Legend */}
       <div className="absolute bottom-4 right-4 z-10 bg-background/90 backdrop-blur-sm rounded-md p-3 text-sm">
-        <div className="text-xs font-semibold text-muted-foreground mb-2">Policy Count</div>
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded" style={{ backgroundColor: '#f8fafc' }}></div>
-          <span className="text-xs text-muted-foreground">0</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded" style={{ backgroundColor: '#06b6d4' }}></div>
-          <span className="text-xs text-muted-foreground">Low</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded" style={{ backgroundColor: '#1d4ed8' }}></div>
-          <span className="text-xs text-muted-foreground">Medium</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded" style={{ backgroundColor: '#dc2626' }}></div>
-          <span className="text-xs text-muted-foreground">High</span>
-        </div>
+        {accumulation ? (
+          <>
+            <div className="text-xs font-semibold text-muted-foreground mb-2">Limit Status</div>
+            {([['breach', 'Breach'], ['warning', 'Warning'], ['ok', 'Within limit'], ['none', 'No limit']] as const).map(([status, label]) => (
+              <div key={status} className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded" style={{ backgroundColor: LIMIT_STATUS_COLORS[status] }}></div>
+                <span className="text-xs text-muted-foreground">{label}</span>
+              </div>
+            ))}
+          </>
+        ) : (
+          <>
+            <div className="text-xs font-semibold text-muted-foreground mb-2">Policy Count</div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: '#f8fafc' }}></div>
+              <span className="text-xs text-muted-foreground">0</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: '#06b6d4' }}></div>
+              <span className="text-xs text-muted-foreground">Low</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: '#1d4ed8' }}></div>
+              <span className="text-xs text-muted-foreground">Medium</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: '#dc2626' }}></div>
+              <span className="text-xs text-muted-foreground">High</span>
+            </div>
+          </>
+        )}
       </div>
 
       {/* Loading State */}
@@ -409,6 +502,12 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
         </div>
       )}
 
+      {loadError && !isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <span className="text-sm text-muted-foreground">Map geometry unavailable: {loadError}</span>
+        </div>
+      )}
+
       {/* Enhanced Tooltip */}
       {tooltip && (
         <div
@@ -423,10 +522,15 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
             <div className="flex items-center space-x-3 pb-2 border-b">
               <div 
                 className="w-4 h-4 rounded-full shadow-sm"
-                style={{ backgroundColor: getColor(tooltip.country.policyCount) }}
+                style={{ backgroundColor: getColor(tooltip.country) }}
               />
               <h4 className="font-bold text-lg">{tooltip.country.country}</h4>
             </div>
+            {tooltip.country.names.length > 1 && (
+              <div className="text-xs text-muted-foreground">
+                Includes {tooltip.country.names.join(', ')}
+              </div>
+            )}
             
             {/* Key Metrics */}
             <div className="grid grid-cols-2 gap-3 text-sm">
@@ -436,10 +540,17 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
               </div>
               <div className="bg-muted/50 rounded-lg p-3">
                 <div className="text-muted-foreground text-xs uppercase tracking-wide">Premium</div>
-                <div className="font-bold text-lg">{formatKD(tooltip.country.premium)}</div>
+                <div className="font-bold text-lg">{formatAmount(tooltip.country.premium)}</div>
               </div>
             </div>
 
+            {accumulation?.[tooltip.country.code] && (
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-muted-foreground">Our-Share Liability</span>
+                <span className="font-semibold">{formatAmount(accumulation[tooltip.country.code].exposure)}</span>
+              </div>
+            )}
+
             {/* Performance Metrics */}
             <div className="space-y-2">
               <div className="flex justify-between items-center">
@@ -492,7 +603,11 @@ export default function WorldMap({ data, onCountryHover, onCountryClick }: World
         }}
       />
 
-
+      {unplotted.length > 0 && !isLoading && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Not drawn at this map resolution: {unplotted.map(country => `${country.country} (${formatNumber(country.policyCount)})`).join(', ')}
+        </p>
+      )}
     </div>
   );
 }
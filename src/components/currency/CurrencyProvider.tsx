@@ -0,0 +1,96 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import type { PresentationRate } from '@/lib/fx';
+import { formatCurrency } from '@/lib/format';
+
+const STORAGE_KEY = 'presentation-currency';
+
+const REPORTING_RATE: PresentationRate = { currency: 'KWD', rate: 1, asOf: null };
+
+interface CurrencyContextType {
+  /** Selected presentation currency */
+  currency: string;
+  /** Rate from KD into the selected currency */
+  rate: PresentationRate;
+  currencies: PresentationRate[];
+  source: string | null;
+  setCurrency: (currency: string) => void;
+  /** Re-express a KD amount in the selected currency */
+  convert: (valueKD: number) => number;
+  /** Format a KD amount in the selected currency */
+  formatAmount: (valueKD: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+/**
+ * Presentation currency shared by every page
+ * Figures are aggregated in KD and only converted for display and export, with the rate from /api/fx-rates.
+ */
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currencies, setCurrencies] = useState<PresentationRate[]>([REPORTING_RATE]);
+  const [source, setSource] = useState<string | null>(null);
+  const [currency, setCurrencyState] = useState('KWD');
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) setCurrencyState(stored);
+
+    const loadRates = async () => {
+      try {
+        const response = await fetch('/api/fx-rates');
+        if (!response.ok) {
+          throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        }
+        const result = await response.json();
+        setCurrencies(result.currencies?.length ? result.currencies : [REPORTING_RATE]);
+        setSource(result.source ?? null);
+      } catch (error) {
+        console.error('Currency - Failed to load FX rates:', error);
+      }
+    };
+
+    loadRates();
+  }, []);
+
+  const setCurrency = (next: string) => {
+    setCurrencyState(next);
+    window.localStorage.setItem(STORAGE_KEY, next);
+  };
+
+  // A stored currency that is no longer configured falls back to KD
+  const rate = currencies.find(entry => entry.currency === currency) ?? REPORTING_RATE;
+  const convert = (valueKD: number) => valueKD * rate.rate;
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        currency: rate.currency,
+        rate,
+        currencies,
+        source,
+        setCurrency,
+        convert,
+        formatAmount: (valueKD: number) => formatCurrency(convert(valueKD), rate.currency),
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
+
+/**
+ * Short label for a currency code, e.g. in column headers
+ */
+export function currencyLabel(currency: string): string {
+  return currency === 'KWD' ? 'KD' : currency;
+}
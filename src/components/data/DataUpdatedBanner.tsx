@@ -0,0 +1,25 @@
+"use client";
+
+import { RefreshCw } from "lucide-react";
+
+interface DataUpdatedBannerProps {
+  dataUpdatedAt: Date | null;
+  lastUpdated: Date | null;
+  className?: string;
+}
+
+/**
+ * Notice shown once open data has been refreshed after a dataset reload
+ */
+export function DataUpdatedBanner({ dataUpdatedAt, lastUpdated, className = "" }: DataUpdatedBannerProps) {
+  if (!dataUpdatedAt) return null;
+
+  return (
+    <div className={`flex items-center gap-2 rounded-md border border-blue-200 bg-blue-50 px-4 py-2 text-sm text-blue-800 dark:border-blue-900 dark:bg-blue-950 dark:text-blue-200 ${className}`}>
+      <RefreshCw className="w-4 h-4" />
+      <span>
+        Data updated at {(lastUpdated ?? dataUpdatedAt).toLocaleTimeString()} - figures reflect the latest extract
+      </span>
+    </div>
+  );
+}
@@ -14,6 +14,9 @@ import { ReinsuranceData } from '@/lib/schema';
 const FOCUSED_COLUMNS = [
   { key: 'uy', label: 'Underwriting Year', type: 'string' },
   { key: 'countryName', label: 'Country', type: 'string' },
+  { key: 'businessClass', label: 'Class of Business', type: 'string' },
+  { key: 'treatyNature', label: 'Treaty Nature', type: 'string' },
+  { key: 'renewalStatus', label: 'Renewal Status', type: 'string' },
 ] as const;
 
 interface SimpleSearchFilterProps {
@@ -22,6 +25,9 @@ interface SimpleSearchFilterProps {
   filterOptions?: {
     years?: string[];
     countries?: Array<{ label: string; value: string }>;
+    classes?: string[];
+    treatyNatures?: string[];
+    renewalStatuses?: string[];
   };
   className?: string;
 }
@@ -40,6 +46,15 @@ export function SimpleSearchFilter({ data, onFiltersChange, filterOptions, class
           return filterOptions.years || [];
         case 'countryName':
           return filterOptions.countries?.map((c) => c.value) || [];
+        case 'businessClass':
+          if (filterOptions.classes) return filterOptions.classes;
+          break;
+        case 'treatyNature':
+          if (filterOptions.treatyNatures) return filterOptions.treatyNatures;
+          break;
+        case 'renewalStatus':
+          if (filterOptions.renewalStatuses) return filterOptions.renewalStatuses;
+          break;
         default:
           break;
       }
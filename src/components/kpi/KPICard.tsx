@@ -2,7 +2,9 @@
 
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { formatKD, formatPct, formatNumber } from '@/lib/format';
+import { formatPct, formatNumber } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { PremiumBasisToggle, usePremiumBasis } from '@/components/premium/PremiumBasisProvider';
 import { KPIData } from '@/lib/schema';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 
@@ -25,10 +27,11 @@ export function KpiCard({
   description,
   delay = 0 
 }: KpiCardProps) {
+  const { formatAmount } = useCurrency();
   const formatValue = (val: number) => {
     switch (format) {
       case 'currency':
-        return formatKD(val);
+        return formatAmount(val);
       case 'percentage':
         return formatPct(val);
       case 'number':
@@ -116,14 +119,23 @@ interface KpiStripProps {
   previousData?: KPIData;
 }
 
+/**
+ * Headline KPIs on the written or earned premium basis, with the other basis in the card descriptions
+ */
 export function KpiStrip({ data, previousData }: KpiStripProps) {
+  const { formatAmount } = useCurrency();
+  const { basis, valuationDate } = usePremiumBasis();
+  const earned = basis === 'earned';
+
   const kpiCards = [
     {
-      title: 'Premium',
-      value: data.premium,
-      previousValue: previousData?.premium,
+      title: earned ? 'Earned Premium' : 'Premium',
+      value: earned ? data.earnedPremium : data.premium,
+      previousValue: earned ? previousData?.earnedPremium : previousData?.premium,
       format: 'currency' as const,
-      description: 'Gross Underwritten Premium',
+      description: earned
+        ? `Pro-rata at ${valuationDate} • Written ${formatAmount(data.premium)} • UPR ${formatAmount(data.unearnedPremium)}`
+        : 'Gross Underwritten Premium',
     },
     {
       title: 'Paid Claims',
@@ -148,31 +160,31 @@ export function KpiStrip({ data, previousData }: KpiStripProps) {
     },
     {
       title: 'Expense',
-      value: data.expense,
-      previousValue: previousData?.expense,
+      value: earned ? data.earnedExpense : data.expense,
+      previousValue: earned ? previousData?.earnedExpense : previousData?.expense,
       format: 'currency' as const,
-      description: 'Acquisition Expense',
+      description: earned ? 'Earned Acquisition Expense' : 'Acquisition Expense',
     },
     {
       title: 'Loss Ratio',
-      value: data.lossRatio,
-      previousValue: previousData?.lossRatio,
+      value: earned ? data.earnedLossRatio : data.lossRatio,
+      previousValue: earned ? previousData?.earnedLossRatio : previousData?.lossRatio,
       format: 'percentage' as const,
-      description: 'Incurred / Premium',
+      description: earned ? `Incurred / Earned Premium • Written ${formatPct(data.lossRatio)}` : 'Incurred / Premium',
     },
     {
       title: 'Expense Ratio',
-      value: data.expenseRatio,
-      previousValue: previousData?.expenseRatio,
+      value: earned ? data.earnedExpenseRatio : data.expenseRatio,
+      previousValue: earned ? previousData?.earnedExpenseRatio : previousData?.expenseRatio,
       format: 'percentage' as const,
-      description: 'Expense / Premium',
+      description: earned ? `Earned Expense / Earned Premium • Written ${formatPct(data.expenseRatio)}` : 'Expense / Premium',
     },
     {
       title: 'Combined Ratio',
-      value: data.combinedRatio,
-      previousValue: previousData?.combinedRatio,
+      value: earned ? data.earnedCombinedRatio : data.combinedRatio,
+      previousValue: earned ? previousData?.earnedCombinedRatio : previousData?.combinedRatio,
       format: 'percentage' as const,
-      description: 'Loss + Expense Ratio',
+      description: earned ? `Loss + Expense Ratio • Written ${formatPct(data.combinedRatio)}` : 'Loss + Expense Ratio',
     },
     {
       title: 'Accounts',
@@ -191,15 +203,19 @@ export function KpiStrip({ data, previousData }: KpiStripProps) {
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
-      {kpiCards.map((card, index) => (
-        <KpiCard
-          key={card.title}
-          {...card}
-          delay={index * 0.1}
-        />
-      ))}
+    <div className="mb-8">
+      <div className="flex items-center justify-end mb-4">
+        <PremiumBasisToggle />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {kpiCards.map((card, index) => (
+          <KpiCard
+            key={card.title}
+            {...card}
+            delay={index * 0.1}
+          />
+        ))}
+      </div>
     </div>
   );
 }
-
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Coins, Database } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { formatNumber } from "@/lib/format";
+import { currencyLabel, useCurrency } from "@/components/currency/CurrencyProvider";
+
+interface DatasetSource {
+  file: string;
+  label: string;
+  acceptedRows: number;
+  rejectedRows: number;
+  modifiedAt: string;
+}
+
+export function Footer() {
+  const [datasets, setDatasets] = useState<DatasetSource[]>([]);
+  const [totalRecords, setTotalRecords] = useState<number | null>(null);
+  const { rate, source } = useCurrency();
+
+  // Load the active dataset files so every page shows what it is built on
+  useEffect(() => {
+    const loadDatasets = async () => {
+      try {
+        const response = await fetch('/api/datasets');
+        if (!response.ok) {
+          throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        }
+        const result = await response.json();
+        setDatasets(result.datasets || []);
+        setTotalRecords(result.totalRecords ?? null);
+      } catch (error) {
+        console.error('Footer - Failed to load datasets:', error);
+      }
+    };
+
+    loadDatasets();
+  }, []);
+
+  return (
+    <footer className="border-t bg-muted/30">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Database className="w-3 h-3" />
+          <span className="font-medium">Active data:</span>
+          {datasets.length === 0 && <span>Loading...</span>}
+          {datasets.map((dataset) => (
+            <Badge
+              key={dataset.file}
+              variant="outline"
+              className="text-xs"
+              title={`${dataset.file} • ${formatNumber(dataset.acceptedRows)} records • updated ${new Date(dataset.modifiedAt).toLocaleString()}`}
+            >
+              {dataset.label}
+            </Badge>
+          ))}
+          {totalRecords !== null && datasets.length > 1 && (
+            <span>{formatNumber(totalRecords)} records after merge</span>
+          )}
+          <span className="flex items-center gap-2 ml-auto" title={source ?? undefined}>
+            <Coins className="w-3 h-3" />
+            {rate.asOf === null ? (
+              <span>Amounts in KD</span>
+            ) : (
+              <span>
+                Amounts in {currencyLabel(rate.currency)} at 1 KD = {rate.rate.toFixed(4)} {rate.currency}, as of {rate.asOf}
+              </span>
+            )}
+          </span>
+        </div>
+      </div>
+    </footer>
+  );
+}
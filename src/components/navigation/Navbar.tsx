@@ -22,10 +22,20 @@ import {
   Sun,
   ChevronDown,
   Users,
-  Globe
+  Globe,
+  GitCompare,
+  Coins,
+  Settings,
+  Link2,
+  ShieldCheck,
+  Triangle,
+  Calculator,
+  ShieldAlert,
+  CalendarClock
 } from "lucide-react";
 import Image from "next/image";
 import { useTheme } from "next-themes";
+import { currencyLabel, useCurrency } from "@/components/currency/CurrencyProvider";
 
 const navigation = [
   { name: "Analytics", href: "/analytics", icon: BarChart3 },
@@ -41,6 +51,16 @@ const overviewPages = [
   { name: "Quarterly Overview", href: "/quarterly-overview", icon: TrendingUp },
   { name: "Yearly Overview", href: "/yearly-overview", icon: FileText },
   { name: "Client Overview", href: "/client-overview", icon: Users },
+  { name: "Snapshot Comparison", href: "/snapshots", icon: GitCompare },
+  { name: "Loss Triangles", href: "/triangles", icon: Triangle },
+  { name: "Reserving", href: "/reserving", icon: Calculator },
+  { name: "Exposure Accumulation", href: "/accumulation", icon: ShieldAlert },
+  { name: "Renewal Pipeline", href: "/renewals", icon: CalendarClock },
+];
+
+const adminPages = [
+  { name: "Entity Aliases", href: "/entities", icon: Link2 },
+  { name: "Data Quality", href: "/data-quality", icon: ShieldCheck },
 ];
 
 export function Navbar() {
@@ -48,6 +68,7 @@ export function Navbar() {
   const [mounted, setMounted] = useState(false);
   const pathname = usePathname();
   const { theme, setTheme } = useTheme();
+  const { currency, currencies, setCurrency } = useCurrency();
 
   // Prevent hydration mismatch
   useEffect(() => {
@@ -154,9 +175,63 @@ export function Navbar() {
               </DropdownMenuContent>
             </DropdownMenu>
 
+            {/* Admin Dropdown */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                    adminPages.some(page => pathname === page.href)
+                      ? "bg-white text-black shadow-md"
+                      : "text-gray-300 hover:text-white hover:bg-gray-800"
+                  }`}
+                >
+                  <Settings className="w-4 h-4" />
+                  <span>Admin</span>
+                  <ChevronDown className="w-3 h-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-56">
+                {adminPages.map((page) => (
+                  <DropdownMenuItem key={page.name} asChild>
+                    <Link href={page.href} className="flex items-center space-x-2">
+                      <page.icon className="w-4 h-4" />
+                      <span>{page.name}</span>
+                    </Link>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
           </div>
 
           <div className="flex items-center space-x-4">
+            {/* Presentation Currency */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium text-gray-300 hover:text-white hover:bg-gray-800 transition-all duration-200"
+                  title="Presentation currency"
+                >
+                  <Coins className="w-4 h-4" />
+                  <span>{currencyLabel(currency)}</span>
+                  <ChevronDown className="w-3 h-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-40">
+                {currencies.map((entry) => (
+                  <DropdownMenuItem
+                    key={entry.currency}
+                    onClick={() => setCurrency(entry.currency)}
+                    className={entry.currency === currency ? "font-semibold" : ""}
+                  >
+                    {currencyLabel(entry.currency)}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             {/* Theme Toggle */}
             <Button
               variant="ghost"
@@ -261,6 +336,31 @@ export function Navbar() {
                 })}
               </div>
 
+              {/* Mobile Admin Section */}
+              <div className="px-3 py-2">
+                <div className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+                  Admin
+                </div>
+                {adminPages.map((page) => {
+                  const isActive = pathname === page.href;
+                  return (
+                    <Link
+                      key={page.name}
+                      href={page.href}
+                      className={`flex items-center space-x-2 px-4 py-3 rounded-lg text-base font-medium transition-all duration-200 ${
+                        isActive
+                          ? "bg-white text-black shadow-md"
+                          : "text-gray-300 hover:text-white hover:bg-gray-800"
+                      }`}
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <page.icon className="w-5 h-5" />
+                      <span>{page.name}</span>
+                    </Link>
+                  );
+                })}
+              </div>
+
             </div>
           </div>
         )}
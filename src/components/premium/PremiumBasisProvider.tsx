@@ -0,0 +1,97 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PremiumBasis, getToday, parseValuationDate } from '@/lib/earned';
+
+const STORAGE_KEY = 'premium-basis';
+
+interface PremiumBasisContextType {
+  /** Whether premium and ratios are shown as written or pro-rata earned */
+  basis: PremiumBasis;
+  setBasis: (basis: PremiumBasis) => void;
+  /** Date earned premium is valued at (YYYY-MM-DD) */
+  valuationDate: string;
+  setValuationDate: (date: string) => void;
+}
+
+const PremiumBasisContext = createContext<PremiumBasisContextType | undefined>(undefined);
+
+/**
+ * Written or earned premium basis shared by the KPI strip, UY table and period overviews
+ * The basis is remembered across visits; the valuation date starts at today on every visit.
+ */
+export function PremiumBasisProvider({ children }: { children: React.ReactNode }) {
+  const [basis, setBasisState] = useState<PremiumBasis>('written');
+  const [valuationDate, setValuationDateState] = useState(getToday);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored === 'written' || stored === 'earned') setBasisState(stored);
+  }, []);
+
+  const setBasis = (next: PremiumBasis) => {
+    setBasisState(next);
+    window.localStorage.setItem(STORAGE_KEY, next);
+  };
+
+  // Half-typed dates from the input are ignored until they are complete
+  const setValuationDate = (date: string) => {
+    const parsed = parseValuationDate(date);
+    if (parsed) setValuationDateState(parsed);
+  };
+
+  return (
+    <PremiumBasisContext.Provider value={{ basis, setBasis, valuationDate, setValuationDate }}>
+      {children}
+    </PremiumBasisContext.Provider>
+  );
+}
+
+export function usePremiumBasis() {
+  const context = useContext(PremiumBasisContext);
+  if (context === undefined) {
+    throw new Error('usePremiumBasis must be used within a PremiumBasisProvider');
+  }
+  return context;
+}
+
+/**
+ * Written / Earned switch, with the valuation date when earned is selected
+ */
+export function PremiumBasisToggle({ className }: { className?: string }) {
+  const { basis, setBasis, valuationDate, setValuationDate } = usePremiumBasis();
+
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ''}`}>
+      <div className="flex rounded-md border">
+        <Button
+          variant={basis === 'written' ? 'default' : 'ghost'}
+          size="sm"
+          className="h-8 rounded-r-none"
+          onClick={() => setBasis('written')}
+        >
+          Written
+        </Button>
+        <Button
+          variant={basis === 'earned' ? 'default' : 'ghost'}
+          size="sm"
+          className="h-8 rounded-l-none"
+          onClick={() => setBasis('earned')}
+        >
+          Earned
+        </Button>
+      </div>
+      {basis === 'earned' && (
+        <Input
+          type="date"
+          aria-label="Valuation date"
+          className="h-8 w-[150px]"
+          value={valuationDate}
+          onChange={event => setValuationDate(event.target.value)}
+        />
+      )}
+    </div>
+  );
+}
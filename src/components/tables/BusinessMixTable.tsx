@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Repeat } from 'lucide-react';
+import { formatNumber, formatPct } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { BusinessMixYear } from '@/lib/business-mix';
+
+interface BusinessMixTableProps {
+  rows: BusinessMixYear[];
+  title?: string;
+  /** Extra controls for the header, e.g. a client picker */
+  actions?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * New, renewed and lost business per year with the retention ratio, and the premium bridge from the prior year for a
+ * chosen year
+ */
+export function BusinessMixTable({ rows, title = 'New vs Renewal Business', actions, className }: BusinessMixTableProps) {
+  const { formatAmount } = useCurrency();
+  const bridgeYears = rows.filter(row => row.bridge).map(row => row.year);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const bridgeYear = selectedYear !== null && bridgeYears.includes(selectedYear) ? selectedYear : bridgeYears[bridgeYears.length - 1];
+  const bridge = rows.find(row => row.year === bridgeYear)?.bridge;
+
+  const steps = bridge ? [
+    { label: `${bridgeYear - 1} premium`, amount: bridge.priorPremium, total: true },
+    { label: 'Lost (not renewed)', amount: -bridge.lostPremium, total: false },
+    { label: 'Retained change', amount: bridge.retainedChange, total: false },
+    { label: 'New business', amount: bridge.newPremium, total: false },
+    { label: `${bridgeYear} premium`, amount: bridge.currentPremium, total: true },
+  ] : [];
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            <span>{title}</span>
+          </div>
+          {actions}
+        </CardTitle>
+        <CardDescription>
+          New and renewed business from New/Renew; lost business is the prior year&apos;s premium marked Not Renewed.
+          Retention is the prior year&apos;s renewed over renewed plus not renewed premium.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No business in the current selection.</p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader className="bg-muted/50">
+                <TableRow>
+                  <TableHead className="font-semibold">Year</TableHead>
+                  <TableHead className="text-right font-semibold">New</TableHead>
+                  <TableHead className="text-right font-semibold">New Premium</TableHead>
+                  <TableHead className="text-right font-semibold">Renewed</TableHead>
+                  <TableHead className="text-right font-semibold">Renewed Premium</TableHead>
+                  <TableHead className="text-right font-semibold">Lost</TableHead>
+                  <TableHead className="text-right font-semibold">Lost Premium</TableHead>
+                  <TableHead className="text-right font-semibold">Total Premium</TableHead>
+                  <TableHead className="text-right font-semibold">Retention</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.year} className="hover:bg-muted/30">
+                    <TableCell className="font-medium">{row.year}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{formatNumber(row.newCount)}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{formatAmount(row.newPremium)}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{formatNumber(row.renewedCount)}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{formatAmount(row.renewedPremium)}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{formatNumber(row.lostCount)}</TableCell>
+                    <TableCell className="text-right font-mono text-sm text-red-600">{formatAmount(row.lostPremium)}</TableCell>
+                    <TableCell className="text-right font-mono text-sm font-semibold">{formatAmount(row.premium)}</TableCell>
+                    <TableCell className="text-right">{row.retentionPct === null ? '-' : formatPct(row.retentionPct)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {bridge && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Premium Bridge {bridgeYear - 1} → {bridgeYear}</h3>
+              <div className="flex rounded-md border">
+                {bridgeYears.map((year, index) => (
+                  <Button
+                    key={year}
+                    variant={year === bridgeYear ? 'default' : 'ghost'}
+                    size="sm"
+                    className={`h-8 ${bridgeYears.length === 1 ? '' : index === 0 ? 'rounded-r-none' : index === bridgeYears.length - 1 ? 'rounded-l-none' : 'rounded-none'}`}
+                    onClick={() => setSelectedYear(year)}
+                  >
+                    {year}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="overflow-x-auto border rounded-lg">
+              <Table>
+                <TableBody>
+                  {steps.map(step => (
+                    <TableRow key={step.label} className={step.total ? 'bg-muted/50 font-semibold' : 'hover:bg-muted/30'}>
+                      <TableCell className={step.total ? 'font-semibold' : 'pl-8'}>{step.label}</TableCell>
+                      <TableCell
+                        className={`text-right font-mono text-sm ${step.total ? '' : step.amount < 0 ? 'text-red-600' : 'text-green-600'}`}
+                      >
+                        {!step.total && step.amount > 0 ? '+' : ''}{formatAmount(step.amount)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,22 +3,58 @@
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { formatKD, formatPct, formatNumber } from '@/lib/format';
+import { formatPct, formatNumber, safeDivide } from '@/lib/format';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { PremiumBasisToggle, usePremiumBasis } from '@/components/premium/PremiumBasisProvider';
 import { UYPerformanceRow } from '@/lib/schema';
 
 interface UyPerformanceTableProps {
   data: UYPerformanceRow[];
   totals: UYPerformanceRow;
+  /** Ultimate to reported incurred per UY from a reserving run; null where the run has no reported incurred */
+  ultimateRatios?: Record<string, number | null>;
   className?: string;
 }
 
-export function UyPerformanceTable({ data, totals, className }: UyPerformanceTableProps) {
-  const allData = [...data, totals];
+/**
+ * Performance per underwriting year; on the earned basis premium, expense and ratios are pro-rata at the valuation
+ * date, with the unearned premium reserve and the written loss ratio alongside
+ * The ultimate loss ratio develops each UY's incurred with its reserving ratio and divides by written premium; in the
+ * total, UYs without a ratio count at their reported incurred.
+ */
+export function UyPerformanceTable({ data, totals, ultimateRatios, className }: UyPerformanceTableProps) {
+  const { formatAmount } = useCurrency();
+  const { basis, valuationDate } = usePremiumBasis();
+  const earned = basis === 'earned';
+  const ultimateIncurred = (row: UYPerformanceRow) => {
+    const ratio = ultimateRatios?.[row.uy];
+    return ratio === undefined || ratio === null ? null : row.incurredClaims * ratio;
+  };
+  const totalUltimateIncurred = data.reduce((sum, row) => sum + (ultimateIncurred(row) ?? row.incurredClaims), 0);
+  const getUltimateLossRatio = (row: UYPerformanceRow) => {
+    const ultimate = row === totals ? totalUltimateIncurred : ultimateIncurred(row);
+    return ultimate === null ? null : safeDivide(ultimate, row.premium) * 100;
+  };
+  const allData = [...data, totals].map(row => ({
+    ...row,
+    ...(earned && {
+      premium: row.earnedPremium,
+      expense: row.earnedExpense,
+      lossRatio: row.earnedLossRatio,
+      expenseRatio: row.earnedExpenseRatio,
+      combinedRatio: row.earnedCombinedRatio,
+    }),
+    writtenLossRatio: row.lossRatio,
+    ultimateLossRatio: getUltimateLossRatio(row),
+  }));
 
   return (
     <Card className={className}>
       <CardHeader>
-        <CardTitle>Performance by UY</CardTitle>
+        <CardTitle className="flex items-center justify-between">
+          <span>Performance by UY{earned ? ` (earned at ${valuationDate})` : ''}</span>
+          <PremiumBasisToggle />
+        </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="overflow-x-auto">
@@ -26,12 +62,15 @@ export function UyPerformanceTable({ data, totals, className }: UyPerformanceTab
             <TableHeader>
               <TableRow>
                 <TableHead className="w-[100px]">UY</TableHead>
-                <TableHead className="text-right">Premium</TableHead>
+                <TableHead className="text-right">{earned ? 'Earned Premium' : 'Premium'}</TableHead>
+                {earned && <TableHead className="text-right">UPR</TableHead>}
                 <TableHead className="text-right">Paid Claims</TableHead>
                 <TableHead className="text-right">Outstanding Claims</TableHead>
                 <TableHead className="text-right">Incurred Claims</TableHead>
                 <TableHead className="text-right">Expense</TableHead>
                 <TableHead className="text-right">Loss Ratio</TableHead>
+                {ultimateRatios && <TableHead className="text-right">Ultimate Loss Ratio</TableHead>}
+                {earned && <TableHead className="text-right">Written Loss Ratio</TableHead>}
                 <TableHead className="text-right">Expense Ratio</TableHead>
                 <TableHead className="text-right">Combined Ratio</TableHead>
                 <TableHead className="text-right">Accounts</TableHead>
@@ -55,19 +94,24 @@ export function UyPerformanceTable({ data, totals, className }: UyPerformanceTab
                     {row.uy}
                   </TableCell>
                   <TableCell className="text-right">
-                    {formatKD(row.premium)}
+                    {formatAmount(row.premium)}
                   </TableCell>
+                  {earned && (
+                    <TableCell className="text-right">
+                      {formatAmount(row.unearnedPremium)}
+                    </TableCell>
+                  )}
                   <TableCell className="text-right">
-                    {formatKD(row.paidClaims)}
+                    {formatAmount(row.paidClaims)}
                   </TableCell>
                   <TableCell className="text-right">
-                    {formatKD(row.outstandingClaims)}
+                    {formatAmount(row.outstandingClaims)}
                   </TableCell>
                   <TableCell className="text-right">
-                    {formatKD(row.incurredClaims)}
+                    {formatAmount(row.incurredClaims)}
                   </TableCell>
                   <TableCell className="text-right">
-                    {formatKD(row.expense)}
+                    {formatAmount(row.expense)}
                   </TableCell>
                   <TableCell className="text-right">
                     <span className={`${
@@ -78,6 +122,26 @@ export function UyPerformanceTable({ data, totals, className }: UyPerformanceTab
                       {formatPct(row.lossRatio)}
                     </span>
                   </TableCell>
+                  {ultimateRatios && (
+                    <TableCell className="text-right">
+                      {row.ultimateLossRatio === null ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : (
+                        <span className={`${
+                          row.ultimateLossRatio > 100 ? 'text-red-600' :
+                          row.ultimateLossRatio > 80 ? 'text-yellow-600' :
+                          'text-green-600'
+                        }`}>
+                          {formatPct(row.ultimateLossRatio)}
+                        </span>
+                      )}
+                    </TableCell>
+                  )}
+                  {earned && (
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatPct(row.writtenLossRatio)}
+                    </TableCell>
+                  )}
                   <TableCell className="text-right">
                     <span className={`${
                       row.expenseRatio > 30 ? 'text-red-600' : 
@@ -100,7 +164,7 @@ export function UyPerformanceTable({ data, totals, className }: UyPerformanceTab
                     {formatNumber(row.numberOfAccounts)}
                   </TableCell>
                   <TableCell className="text-right">
-                    {formatKD(row.avgMaxLiability)}
+                    {formatAmount(row.avgMaxLiability)}
                   </TableCell>
                 </motion.tr>
               ))}
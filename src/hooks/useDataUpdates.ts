@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Subscribe to dataset reloads from /api/events
+ * dataVersion increases on every reload, so pages can add it to their fetch effect dependencies;
+ * dataUpdatedAt is the server load time of the latest reload, or null before the first one.
+ */
+export function useDataUpdates() {
+  const [dataVersion, setDataVersion] = useState(0);
+  const [dataUpdatedAt, setDataUpdatedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    const source = new EventSource('/api/events');
+
+    source.addEventListener('dataset-updated', (message) => {
+      try {
+        const event = JSON.parse((message as MessageEvent<string>).data);
+        console.log('Data updates - Dataset reloaded:', event);
+        setDataUpdatedAt(new Date(event.loadedAt));
+      } catch {
+        setDataUpdatedAt(new Date());
+      }
+      setDataVersion(version => version + 1);
+    });
+
+    source.onerror = () => {
+      // EventSource reconnects on its own
+      console.warn('Data updates - Event stream interrupted, reconnecting');
+    };
+
+    return () => source.close();
+  }, []);
+
+  return { dataVersion, dataUpdatedAt };
+}
@@ -0,0 +1,107 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AccumulationLimitTableSchema,
+  calculateAccumulation,
+  getOurShareLiability,
+  loadAccumulationLimits,
+} from '../accumulation';
+import { makeRecord } from './fixtures';
+
+const records = [
+  makeRecord({ orgInsuredTrtyName: 'Refinery', maxLiabilityKD: 1000, signedLine: 0.5, grossUWPrem: 10 }),
+  makeRecord({ orgInsuredTrtyName: 'refinery ', maxLiabilityKD: 400, signSharePct: 25, grossUWPrem: 5 }),
+  makeRecord({
+    orgInsuredTrtyName: 'Port',
+    countryName: 'United Arab Emirates',
+    countryCode: 'ARE',
+    hub: 'Dubai',
+    maxLiabilityKD: 2000,
+    signedLine: 0.1,
+  }),
+  makeRecord({ orgInsuredTrtyName: 'Pipeline', countryName: 'Middle East', countryCode: undefined, maxLiabilityKD: 300, signedLine: 1 }),
+  makeRecord({ orgInsuredTrtyName: 'No rate', signedLine: 1 }),
+  makeRecord({ orgInsuredTrtyName: 'No line', maxLiabilityKD: 100 }),
+];
+
+const table = (limits: unknown[], warningPct = 80) => AccumulationLimitTableSchema.parse({ warningPct, limits });
+
+describe('getOurShareLiability', () => {
+  it('applies Signed Line, or Sign share % where Signed Line is blank', () => {
+    assert.equal(getOurShareLiability(records[0]), 500);
+    assert.equal(getOurShareLiability(records[1]), 100);
+    assert.equal(getOurShareLiability(records[4]), null);
+    assert.equal(getOurShareLiability(records[5]), null);
+  });
+});
+
+describe('calculateAccumulation', () => {
+  it('sums our-share liability per country, hub and insured', () => {
+    const result = calculateAccumulation(records, table([]));
+
+    assert.deepEqual(result.countries.map(country => [country.key, country.exposure, country.policyCount]), [
+      ['KWT', 600, 2],
+      ['ARE', 200, 1],
+    ]);
+    assert.deepEqual(result.hubs.map(hub => [hub.key, hub.exposure]), [['Kuwait', 900], ['Dubai', 200]]);
+    assert.equal(result.insureds[0].name, 'Refinery');
+    assert.equal(result.insureds[0].exposure, 600);
+    assert.deepEqual(result.total, { exposure: 1100, policyCount: 4, premium: 215 });
+  });
+
+  it('keeps regional scopes out of every country and counts excluded policies', () => {
+    const result = calculateAccumulation(records, table([]));
+
+    assert.deepEqual(result.unallocated, { exposure: 300, policyCount: 1 });
+    assert.deepEqual(result.excluded, { noRate: 1, noLine: 1 });
+  });
+
+  it('flags warnings from warningPct, a limit used in full as a warning and anything above it as a breach', () => {
+    const result = calculateAccumulation(records, table([
+      { id: 'country-KWT', type: 'country', country: 'KWT', limit: 600 },
+      { id: 'country-ARE', type: 'country', country: 'ARE', limit: 150 },
+      { id: 'country-SAU', type: 'country', country: 'SAU', limit: 100 },
+      { id: 'zone-gulf', type: 'zone', name: 'Gulf', countries: ['KWT'], hubs: ['Kuwait'], limit: 10000 },
+    ]));
+    const status = Object.fromEntries(result.limits.map(limit => [limit.id, [limit.utilisationPct, limit.status]]));
+
+    assert.deepEqual(status['country-KWT'], [100, 'warning']);
+    assert.equal(status['country-ARE'][1], 'breach');
+    assert.deepEqual(status['country-SAU'], [0, 'ok']);
+    // The regional policy under the Kuwait hub counts once, with the Kuwait policies
+    assert.equal(result.limits.find(limit => limit.id === 'zone-gulf')!.exposure, 900);
+    assert.equal(result.countries.find(country => country.key === 'ARE')!.status, 'breach');
+  });
+
+  it('applies the exact-match filters', () => {
+    const filtered = calculateAccumulation(
+      [...records, makeRecord({ businessClass: 'Energy', maxLiabilityKD: 50, signedLine: 1 })],
+      table([]),
+      { businessClass: 'energy' }
+    );
+
+    assert.equal(filtered.total.exposure, 50);
+  });
+});
+
+describe('loadAccumulationLimits', () => {
+  before(async () => {
+    process.env.DATA_DIR = await fs.mkdtemp(path.join(os.tmpdir(), 'accumulation-'));
+  });
+
+  it('has no limits without a table file', async () => {
+    process.env.ACCUMULATION_LIMITS_FILE = 'missing.json';
+
+    assert.deepEqual((await loadAccumulationLimits()).limits, []);
+  });
+
+  it('names the file when the table is not valid JSON', async () => {
+    process.env.ACCUMULATION_LIMITS_FILE = 'broken.json';
+    await fs.writeFile(path.join(process.env.DATA_DIR!, 'broken.json'), '{ "limits": [');
+
+    await assert.rejects(loadAccumulationLimits(), /Invalid accumulation limits table .*broken\.json/);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateBusinessMix, isRenewalBusiness } from '../business-mix';
+
+const records = [
+  { year: 2020, grossUWPrem: 100, newRenew: 'New', renewalStatus: 'Renewed' },
+  { year: 2020, grossUWPrem: 60, newRenew: 'New', renewalStatus: 'Not Renewed' },
+  { year: 2020, grossUWPrem: 40, newRenew: 'New' },
+  { year: 2021, grossUWPrem: 120, newRenew: 'Renew' },
+  { year: 2021, grossUWPrem: 30, newRenew: 'New' },
+  { year: null, grossUWPrem: 999, newRenew: 'New' },
+];
+
+describe('isRenewalBusiness', () => {
+  it('counts only policies marked Renew as renewal business', () => {
+    assert.equal(isRenewalBusiness({ newRenew: ' renew ' }), true);
+    assert.equal(isRenewalBusiness({ newRenew: 'New' }), false);
+    assert.equal(isRenewalBusiness({}), false);
+  });
+});
+
+describe('calculateBusinessMix', () => {
+  const [first, second] = calculateBusinessMix(records, record => record.year);
+
+  it('splits each year into new and renewed business', () => {
+    assert.equal(first.year, 2020);
+    assert.deepEqual([first.newCount, first.newPremium, first.renewedCount], [3, 200, 0]);
+    assert.deepEqual([second.renewedCount, second.renewedPremium, second.newPremium], [1, 120, 30]);
+  });
+
+  it('takes lost business and retention from the prior year outcomes', () => {
+    assert.equal(first.retentionPct, null);
+    assert.equal(first.bridge, null);
+    assert.deepEqual([second.lostCount, second.lostPremium], [1, 60]);
+    assert.equal(second.retentionPct, 100 / 160 * 100);
+  });
+
+  it('bridges the prior year premium to the current year', () => {
+    const bridge = second.bridge!;
+
+    assert.deepEqual(bridge, { priorPremium: 200, lostPremium: 60, retainedChange: -20, newPremium: 30, currentPremium: 150 });
+    assert.equal(bridge.priorPremium - bridge.lostPremium + bridge.retainedChange + bridge.newPremium, bridge.currentPremium);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateConcentration } from '../concentration';
+import { makeRecord } from './fixtures';
+
+describe('calculateConcentration', () => {
+  it('computes the HHI, equivalent count and top-N shares', () => {
+    const { overall } = calculateConcentration([
+      makeRecord({ cedant: 'A', grossUWPrem: 50 }),
+      makeRecord({ cedant: 'B', grossUWPrem: 30 }),
+      makeRecord({ cedant: 'C', grossUWPrem: 20 }),
+    ], 'cedant');
+
+    assert.equal(overall.entityCount, 3);
+    assert.equal(overall.hhi, 50 * 50 + 30 * 30 + 20 * 20);
+    assert.equal(overall.equivalentCount, 10000 / 3800);
+    assert.deepEqual(overall.topShares, { 5: 100, 10: 100, 20: 100 });
+  });
+
+  it('builds the Pareto curve largest first and leaves out entities netting to zero or below', () => {
+    const { pareto } = calculateConcentration([
+      makeRecord({ cedant: 'Small', grossUWPrem: 25 }),
+      makeRecord({ cedant: 'Large', grossUWPrem: 75 }),
+      makeRecord({ cedant: 'Refunded', grossUWPrem: 10 }),
+      makeRecord({ cedant: 'Refunded', grossUWPrem: -10 }),
+    ], 'cedant');
+
+    assert.deepEqual(pareto.All.map(point => [point.name, point.sharePct, point.cumulativePct, point.entityPct]), [
+      ['Large', 75, 75, 50],
+      ['Small', 25, 100, 100],
+    ]);
+  });
+
+  it('groups cedants by entity id and countries by ISO code', () => {
+    const records = [
+      makeRecord({ cedant: 'Gulf Ins. Co.', cedantId: 'cedant:gulf', countryName: 'Dubai', countryCode: 'ARE' }),
+      makeRecord({ cedant: 'Gulf Insurance', cedantId: 'cedant:gulf', countryName: 'Abu Dhabi', countryCode: 'ARE' }),
+      makeRecord({ cedant: 'Other', countryName: 'GCC', countryCode: undefined }),
+    ];
+
+    assert.equal(calculateConcentration(records, 'cedant').overall.entityCount, 2);
+    const countries = calculateConcentration(records, 'country').pareto.All;
+    assert.deepEqual(countries.map(point => point.name), ['United Arab Emirates', 'GCC']);
+  });
+
+  it('measures each year separately, oldest first', () => {
+    const { years } = calculateConcentration([
+      makeRecord({ uy: '2021', cedant: 'A' }),
+      makeRecord({ uy: '2020', cedant: 'A' }),
+      makeRecord({ uy: '2020', cedant: 'B' }),
+    ], 'cedant');
+
+    assert.deepEqual(years.map(year => [year.key, year.entityCount, year.hhi]), [['2020', 2, 5000], ['2021', 1, 10000]]);
+  });
+});
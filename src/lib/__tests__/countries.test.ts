@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findCountry,
+  findRegionalScope,
+  getCountryByNumeric,
+  getCountryFilterCode,
+  getGeographyDefaults,
+  matchesCountry,
+} from '../countries';
+
+describe('findCountry', () => {
+  it('finds a country by name, alias or code, ignoring case and punctuation', () => {
+    assert.equal(findCountry('Saudi Arabia')?.code, 'SAU');
+    assert.equal(findCountry('ksa')?.code, 'SAU');
+    assert.equal(findCountry('SAU')?.code, 'SAU');
+    assert.equal(findCountry('U.S.A.')?.code, 'USA');
+  });
+
+  it('resolves subdivisions and "Country - Subdivision" names to the country', () => {
+    assert.equal(findCountry('Dubai')?.code, 'ARE');
+    assert.equal(findCountry('UAE - Sharjah')?.code, 'ARE');
+  });
+
+  it('returns null for regional scopes and unknown spellings', () => {
+    assert.equal(findCountry('G.C.C. Countries'), null);
+    assert.equal(findCountry('Atlantis'), null);
+    assert.equal(findCountry(undefined), null);
+  });
+});
+
+describe('findRegionalScope', () => {
+  it('finds multi-country scopes by name or alias', () => {
+    assert.equal(findRegionalScope('GCC')?.name, 'G.C.C. Countries');
+    assert.equal(findRegionalScope('Saudi Arabia'), null);
+  });
+});
+
+describe('getGeographyDefaults', () => {
+  it('gives the region and hub of a country or regional scope', () => {
+    assert.deepEqual(getGeographyDefaults('Kuwait'), { region: 'Asia', hub: 'GCC' });
+    assert.deepEqual(getGeographyDefaults('Africa'), { region: 'Africa', hub: '' });
+    assert.equal(getGeographyDefaults('Atlantis'), null);
+  });
+});
+
+describe('getCountryByNumeric', () => {
+  it('pads the world-atlas feature id to three digits', () => {
+    assert.equal(getCountryByNumeric(48)?.code, 'BHR');
+    assert.equal(getCountryByNumeric('414')?.code, 'KWT');
+    assert.equal(getCountryByNumeric(null), null);
+  });
+});
+
+describe('getCountryFilterCode', () => {
+  it('gives the code of a country filter but not of a subdivision', () => {
+    assert.equal(getCountryFilterCode('KSA'), 'SAU');
+    assert.equal(getCountryFilterCode('Dubai'), null);
+    assert.equal(getCountryFilterCode('GCC'), null);
+  });
+});
+
+describe('matchesCountry', () => {
+  const saudi = { countryName: 'Kingdom of Saudi Arabia', countryCode: 'SAU' };
+  const dubai = { countryName: 'Dubai', countryCode: 'ARE' };
+  const sharjah = { countryName: 'Sharjah', countryCode: 'ARE' };
+
+  it('matches every spelling of a country through its code', () => {
+    assert.equal(matchesCountry('KSA', saudi), true);
+    assert.equal(matchesCountry('saudi arabia', saudi), true);
+    assert.equal(matchesCountry('Kuwait', saudi), false);
+  });
+
+  it('matches a country filter to rows written as its subdivisions', () => {
+    assert.equal(matchesCountry('United Arab Emirates', dubai), true);
+    assert.equal(matchesCountry('UAE', sharjah), true);
+  });
+
+  it('matches a subdivision filter only to its own spelling', () => {
+    assert.equal(matchesCountry('Dubai', dubai), true);
+    assert.equal(matchesCountry('Dubai', sharjah), false);
+    assert.equal(matchesCountry('Dubai', { countryName: 'United Arab Emirates', countryCode: 'ARE' }), false);
+  });
+
+  it('matches an unknown spelling by name alone', () => {
+    assert.equal(matchesCountry('Atlantis', { countryName: ' atlantis ', countryCode: undefined }), true);
+    assert.equal(matchesCountry('Atlantis', saudi), false);
+  });
+});
@@ -0,0 +1,92 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryDataSource, getConfiguredKind } from '../data-source';
+import { makeRecord } from './fixtures';
+
+// Alias and rate tables are read from a scratch data directory
+before(async () => {
+  process.env.DATA_DIR = await fs.mkdtemp(path.join(os.tmpdir(), 'data-source-'));
+  await fs.writeFile(path.join(process.env.DATA_DIR, 'entity-aliases.json'), JSON.stringify({
+    entities: [{ id: 'cedant:gulf', type: 'cedant', name: 'Gulf Insurance Group', aliases: ['Gulf Ins. Co.'] }],
+  }));
+});
+
+const records = [
+  makeRecord({ cedant: 'Gulf Ins. Co.', inceptionYear: 2020, inceptionMonth: 'Jan', grossUWPrem: 100, grossPaidClaims: 40 }),
+  makeRecord({ inceptionYear: 2020, inceptionMonth: 'Feb', grossUWPrem: 300 }),
+  makeRecord({
+    inceptionYear: 2021,
+    inceptionMonth: 'Feb',
+    countryName: 'KSA',
+    countryCode: 'SAU',
+    hub: 'Riyadh',
+    maxLiabilityFC: 500,
+    currency: 'KWD',
+  }),
+];
+
+describe('createMemoryDataSource', () => {
+  it('resolves entities and converts FC amounts on every record read', async () => {
+    const loaded = await createMemoryDataSource(records).loadRecords();
+
+    assert.equal(loaded[0].cedant, 'Gulf Insurance Group');
+    assert.equal(loaded[0].cedantId, 'cedant:gulf');
+    assert.equal(loaded[2].maxLiabilityKD, 500);
+  });
+
+  it('aggregates by period after the exact-match filters', async () => {
+    const source = createMemoryDataSource(records);
+
+    const byMonth = await source.aggregate('month', { year: 2020 }, '2030-01-01');
+    assert.deepEqual(byMonth.periods.map(period => [period.period, period.premium]), [[1, 100], [2, 300]]);
+    assert.equal(byMonth.total.premium, 400);
+    assert.equal(byMonth.total.lossRatioPct, 10);
+
+    const saudi = await source.aggregate('year', { country: 'Saudi Arabia' });
+    assert.deepEqual(saudi.periods.map(period => period.period), [2021]);
+
+    const gulf = await source.aggregate('year', { cedant: 'gulf insurance group' });
+    assert.equal(gulf.total.policyCount, 1);
+  });
+
+  it('lists dimensions with canonical entity names', async () => {
+    const dimensions = await createMemoryDataSource(records).listDimensions();
+
+    assert.deepEqual(dimensions.years, ['2020', '2021']);
+    assert.deepEqual(dimensions.cedants, ['Gulf Insurance', 'Gulf Insurance Group']);
+    assert.deepEqual(dimensions.hubs, ['Kuwait', 'Riyadh']);
+  });
+
+  it('describes the records it serves', async () => {
+    const summary = await createMemoryDataSource(records, 'Fixture').describe();
+
+    assert.equal(summary.kind, 'memory');
+    assert.equal(summary.totalRecords, 3);
+    assert.equal(summary.datasets[0].label, 'Fixture');
+  });
+});
+
+describe('getConfiguredKind', () => {
+  it('follows DATA_SOURCE, then DATABASE_URL, and rejects unknown kinds', () => {
+    const saved = { DATA_SOURCE: process.env.DATA_SOURCE, DATABASE_URL: process.env.DATABASE_URL };
+    try {
+      delete process.env.DATA_SOURCE;
+      delete process.env.DATABASE_URL;
+      assert.equal(getConfiguredKind(), 'csv');
+      process.env.DATABASE_URL = 'postgres://localhost/test';
+      assert.equal(getConfiguredKind(), 'postgres');
+      process.env.DATA_SOURCE = ' Memory ';
+      assert.equal(getConfiguredKind(), 'memory');
+      process.env.DATA_SOURCE = 'sqlite';
+      assert.throws(() => getConfiguredKind(), /Unknown DATA_SOURCE/);
+    } finally {
+      Object.entries(saved).forEach(([key, value]) => {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      });
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDateValue, toDateFormat } from '../dates';
+
+describe('parseDateValue', () => {
+  it('reads ISO dates and timestamps in every format', () => {
+    assert.deepEqual(parseDateValue('2024-03-05', 'DMY'), { date: '2024-03-05', status: 'ok' });
+    assert.deepEqual(parseDateValue('2024-03-05T00:00:00.000Z', 'auto'), { date: '2024-03-05', status: 'ok' });
+  });
+
+  it('reads month names in either order', () => {
+    assert.equal(parseDateValue('05-Mar-24', 'MDY').date, '2024-03-05');
+    assert.equal(parseDateValue('Mar 05, 2024', 'DMY').date, '2024-03-05');
+  });
+
+  it('reads numeric dates in the source format', () => {
+    assert.equal(parseDateValue('05/03/2024', 'DMY').date, '2024-03-05');
+    assert.equal(parseDateValue('03/05/2024', 'MDY').date, '2024-03-05');
+    assert.equal(parseDateValue('05/03/2024', 'ISO').status, 'unparsable');
+  });
+
+  it('tells day from month in auto when one part is above 12', () => {
+    assert.deepEqual(parseDateValue('25/03/2024', 'auto'), { date: '2024-03-25', status: 'ok' });
+    assert.deepEqual(parseDateValue('03/25/2024', 'auto'), { date: '2024-03-25', status: 'ok' });
+  });
+
+  it('reads other auto dates as DD/MM and reports them as ambiguous', () => {
+    assert.deepEqual(parseDateValue('05/03/2024', 'auto'), { date: '2024-03-05', status: 'ambiguous' });
+    // The same day and month read the same either way
+    assert.deepEqual(parseDateValue('05/05/24', 'auto'), { date: '2024-05-05', status: 'ok' });
+  });
+
+  it('reports days that do not exist and blank cells', () => {
+    assert.deepEqual(parseDateValue('29/02/2021', 'DMY'), { date: null, status: 'unparsable' });
+    assert.deepEqual(parseDateValue('2024-13-01', 'auto'), { date: null, status: 'unparsable' });
+    assert.deepEqual(parseDateValue('  ', 'auto'), { date: null, status: 'blank' });
+    assert.equal(parseDateValue('soon', 'auto').status, 'unparsable');
+  });
+});
+
+describe('toDateFormat', () => {
+  it('reads format names case-insensitively', () => {
+    assert.equal(toDateFormat('dmy'), 'DMY');
+    assert.equal(toDateFormat(' Auto '), 'auto');
+    assert.equal(toDateFormat('YMD'), null);
+    assert.equal(toDateFormat(undefined), null);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getEarnedAmounts, getEarnedFraction, parseValuationDate, sumEarnedAmounts } from '../earned';
+import { makeRecord } from './fixtures';
+
+describe('getEarnedFraction', () => {
+  const record = makeRecord({ comDate: '2021-01-01', expDate: '2021-12-31' });
+
+  it('is pro-rata to the days of cover elapsed, inclusive of the valuation date', () => {
+    assert.equal(getEarnedFraction(record, '2021-01-01'), 1 / 365);
+    assert.equal(getEarnedFraction(record, '2021-07-02'), 183 / 365);
+  });
+
+  it('is 0 before cover starts and 1 once it has ended', () => {
+    assert.equal(getEarnedFraction(record, '2020-12-31'), 0);
+    assert.equal(getEarnedFraction(record, '2022-06-30'), 1);
+  });
+
+  it('assumes a year of cover without a usable Exp date', () => {
+    const open = makeRecord({ comDate: '2021-01-01' });
+    const backwards = makeRecord({ comDate: '2021-01-01', expDate: '2020-06-30' });
+
+    assert.equal(getEarnedFraction(open, '2021-12-31'), 1);
+    assert.equal(getEarnedFraction(open, '2021-12-30'), 364 / 365);
+    assert.equal(getEarnedFraction(backwards, '2021-12-30'), 364 / 365);
+  });
+
+  it('treats records without a Com date as fully earned', () => {
+    assert.equal(getEarnedFraction(makeRecord(), '2000-01-01'), 1);
+  });
+});
+
+describe('getEarnedAmounts', () => {
+  it('earns premium and acquisition at the same fraction', () => {
+    const record = makeRecord({ comDate: '2021-01-01', expDate: '2021-01-10', grossUWPrem: 1000, grossActualAcq: 200 });
+
+    assert.deepEqual(getEarnedAmounts(record, '2021-01-05'), { earnedPremium: 500, earnedAcquisition: 100 });
+  });
+});
+
+describe('sumEarnedAmounts', () => {
+  it('adds the earned amounts of every record', () => {
+    const records = [
+      makeRecord({ comDate: '2021-01-01', expDate: '2021-01-10', grossUWPrem: 1000, grossActualAcq: 0 }),
+      makeRecord({ grossUWPrem: 300, grossActualAcq: 30 }),
+    ];
+
+    assert.deepEqual(sumEarnedAmounts(records, '2021-01-05'), { earnedPremium: 800, earnedAcquisition: 30 });
+  });
+});
+
+describe('parseValuationDate', () => {
+  it('accepts ISO dates only', () => {
+    assert.equal(parseValuationDate('2021-03-31'), '2021-03-31');
+    assert.equal(parseValuationDate('2021-02-30'), null);
+    assert.equal(parseValuationDate(''), null);
+  });
+});
@@ -0,0 +1,95 @@
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  EntityAliasTable,
+  applyEntityResolution,
+  confirmEntityAlias,
+  createEntityResolver,
+  loadEntityAliases,
+  removeEntityAlias,
+} from '../entities';
+import { makeRecord } from './fixtures';
+
+const table: EntityAliasTable = {
+  entities: [
+    { id: 'cedant:gulf', type: 'cedant', name: 'Gulf Insurance Group', aliases: ['Gulf Ins. Co.', 'GIG Kuwait'] },
+    { id: 'broker:aon', type: 'broker', name: 'Aon', aliases: ['Aon Re Middle East'] },
+  ],
+};
+
+describe('createEntityResolver', () => {
+  const resolver = createEntityResolver(table);
+
+  it('maps the name and every alias of an entity to it, ignoring case and spacing', () => {
+    assert.deepEqual(resolver.resolve('cedant', 'gulf  ins. co.'), { id: 'cedant:gulf', name: 'Gulf Insurance Group', mapped: true });
+    assert.equal(resolver.resolve('cedant', 'Gulf Insurance Group').id, 'cedant:gulf');
+  });
+
+  it('keeps cedant and broker aliases apart', () => {
+    assert.equal(resolver.resolve('broker', 'Gulf Ins. Co.').mapped, false);
+    assert.equal(resolver.resolve('broker', 'aon re middle east').name, 'Aon');
+  });
+
+  it('resolves unmapped names to themselves with whitespace collapsed', () => {
+    assert.deepEqual(resolver.resolve('cedant', ' Warba  Insurance '), {
+      id: 'cedant:warba-insurance',
+      name: 'Warba Insurance',
+      mapped: false,
+    });
+  });
+});
+
+describe('applyEntityResolution', () => {
+  it('replaces cedant and broker names with their entity and adds the ids', () => {
+    const [record] = applyEntityResolution(
+      [makeRecord({ cedant: 'GIG Kuwait', broker: 'Aon Re Middle East' })],
+      createEntityResolver(table)
+    );
+
+    assert.equal(record.cedant, 'Gulf Insurance Group');
+    assert.equal(record.cedantId, 'cedant:gulf');
+    assert.equal(record.broker, 'Aon');
+    assert.equal(record.brokerId, 'broker:aon');
+  });
+});
+
+describe('alias table edits', () => {
+  // Each test starts from its own copy of the table
+  let tableCount = 0;
+  before(async () => {
+    process.env.DATA_DIR = await fs.mkdtemp(path.join(os.tmpdir(), 'entities-'));
+  });
+  beforeEach(async () => {
+    process.env.ENTITY_ALIASES_FILE = `entity-aliases-${++tableCount}.json`;
+    await fs.writeFile(path.join(process.env.DATA_DIR!, process.env.ENTITY_ALIASES_FILE), JSON.stringify(table));
+  });
+
+  it('moves a confirmed alias from its old entity to the new one', async () => {
+    await confirmEntityAlias('cedant', 'GIG Kuwait', 'Gulf Insurance Kuwait');
+    const { entities } = await loadEntityAliases();
+
+    assert.deepEqual(entities.find(entity => entity.id === 'cedant:gulf')?.aliases, ['Gulf Ins. Co.']);
+    assert.deepEqual(entities.find(entity => entity.name === 'Gulf Insurance Kuwait')?.aliases, ['GIG Kuwait']);
+  });
+
+  it('removes an alias and reports whether there was one', async () => {
+    assert.equal(await removeEntityAlias('cedant', 'gig kuwait'), true);
+    assert.equal(await removeEntityAlias('cedant', 'GIG Kuwait'), false);
+    assert.equal(await removeEntityAlias('broker', 'Gulf Ins. Co.'), false);
+
+    const { entities } = await loadEntityAliases();
+    assert.deepEqual(entities.find(entity => entity.id === 'cedant:gulf')?.aliases, ['Gulf Ins. Co.']);
+  });
+
+  it('removes an entity with its last alias unless its name is referenced', async () => {
+    await removeEntityAlias('broker', 'Aon Re Middle East', ['aon']);
+    assert.ok((await loadEntityAliases()).entities.some(entity => entity.id === 'broker:aon'));
+
+    await confirmEntityAlias('broker', 'Aon Benfield', 'Aon');
+    await removeEntityAlias('broker', 'Aon Benfield');
+    assert.equal((await loadEntityAliases()).entities.some(entity => entity.id === 'broker:aon'), false);
+  });
+});
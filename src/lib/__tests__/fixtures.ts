@@ -0,0 +1,64 @@
+import { ReinsuranceData } from '../schema';
+import { REINSURANCE_COLUMNS } from '../ingestion';
+import { Snapshot, SnapshotPolicy } from '../snapshots';
+
+/**
+ * Shared test data builders
+ */
+
+/**
+ * A valid record with every mandatory field set; overrides replace single fields
+ */
+export function makeRecord(overrides: Partial<ReinsuranceData> = {}): ReinsuranceData {
+  return {
+    uy: '2020',
+    extType: 'Facultative',
+    broker: 'Direct',
+    cedant: 'Gulf Insurance',
+    orgInsuredTrtyName: 'Insured A',
+    maxLiabilityFC: 1000,
+    grossUWPrem: 100,
+    grossActualAcq: 10,
+    grossPaidClaims: 0,
+    grossOsLoss: 0,
+    countryName: 'Kuwait',
+    countryCode: 'KWT',
+    region: 'GCC',
+    hub: 'Kuwait',
+    ...overrides,
+  };
+}
+
+/**
+ * CSV text with every extract column; each row gives values by field and leaves the rest blank
+ */
+export function makeCsv(rows: Array<Partial<Record<keyof typeof REINSURANCE_COLUMNS, string>>>): string {
+  const fields = Object.keys(REINSURANCE_COLUMNS) as Array<keyof typeof REINSURANCE_COLUMNS>;
+  const lines = [
+    fields.map(field => REINSURANCE_COLUMNS[field]),
+    ...rows.map(row => fields.map(field => row[field] ?? '')),
+  ];
+  return lines.map(line => line.map(value => /[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value).join(',')).join('\n');
+}
+
+/**
+ * A snapshot taken on asOf holding the given policies
+ */
+export function makeSnapshot(asOf: string, policies: Array<Partial<SnapshotPolicy> & Pick<SnapshotPolicy, 'key' | 'uy'>>): Snapshot {
+  return {
+    id: `${asOf}-test`,
+    asOf,
+    takenAt: `${asOf}T00:00:00.000Z`,
+    contentHash: asOf,
+    policyCount: policies.length,
+    sources: [],
+    policies: policies.map(policy => ({
+      cedant: 'Gulf Insurance',
+      countryName: 'Kuwait',
+      premium: 0,
+      paidClaims: 0,
+      osLoss: 0,
+      ...policy,
+    })),
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FxRateTable, applyFxConversion, createFxConverter, getPresentationRates, getRecordRateDate } from '../fx';
+import { makeRecord } from './fixtures';
+
+// USD-based rates: KWD changes at the start of 2024, SAR has a single rate
+const table: FxRateTable = {
+  baseCurrency: 'USD',
+  countryCurrencies: { 'Saudi Arabia': 'SAR' },
+  presentationCurrencies: ['USD', 'SAR', 'EUR'],
+  rates: [
+    { currency: 'KWD', date: '2024-01-01', rate: 0.25 },
+    { currency: 'KWD', date: '2023-01-01', rate: 0.5 },
+    { currency: 'SAR', date: '2023-01-01', rate: 4 },
+  ],
+};
+
+describe('createFxConverter', () => {
+  const converter = createFxConverter(table);
+
+  it('uses the latest rate on or before the date', () => {
+    assert.equal(converter.getRate('KWD', '2023-12-31'), 0.5);
+    assert.equal(converter.getRate('KWD', '2024-01-01'), 0.25);
+    assert.deepEqual(converter.getEffectiveRate('KWD', '2024-06-30'), { date: '2024-01-01', rate: 0.25 });
+  });
+
+  it('uses the first rate for dates before it and 1 for the base currency', () => {
+    assert.equal(converter.getRate('KWD', '2020-06-30'), 0.5);
+    assert.deepEqual(converter.getEffectiveRate('USD', '2020-06-30'), { rate: 1, date: null });
+  });
+
+  it('returns null without any rate for a currency', () => {
+    assert.equal(converter.getRate('EGP', '2024-01-01'), null);
+    assert.equal(converter.convert(100, 'EGP', 'KWD', '2024-01-01'), null);
+  });
+
+  it('takes the currency from the record, then its country', () => {
+    assert.equal(converter.getRecordCurrency(makeRecord({ currency: ' sar ' })), 'SAR');
+    assert.equal(converter.getRecordCurrency(makeRecord({ countryName: 'saudi  arabia' })), 'SAR');
+    assert.equal(converter.getRecordCurrency(makeRecord({ countryName: 'Egypt' })), null);
+  });
+});
+
+describe('getRecordRateDate', () => {
+  it('uses an ISO Com date, otherwise 1 January of the reporting year', () => {
+    assert.equal(getRecordRateDate(makeRecord({ comDate: '2023-07-15' })), '2023-07-15');
+    assert.equal(getRecordRateDate(makeRecord({ comDate: '15/07/2023', inceptionYear: 2022 })), '2022-01-01');
+  });
+});
+
+describe('applyFxConversion', () => {
+  const converter = createFxConverter(table);
+
+  it('converts FC amounts to KD at the rates in effect on the Com date', () => {
+    const [before, after] = applyFxConversion([
+      makeRecord({ currency: 'SAR', comDate: '2023-06-30', maxLiabilityFC: 400, tsi100FC: 800 }),
+      makeRecord({ currency: 'SAR', comDate: '2024-06-30', maxLiabilityFC: 400 }),
+    ], converter);
+
+    assert.equal(before.maxLiabilityKD, 50);
+    assert.equal(before.tsi100KD, 100);
+    assert.equal(after.maxLiabilityKD, 25);
+  });
+
+  it('leaves KD amounts undefined when the currency has no rate', () => {
+    const [converted] = applyFxConversion([makeRecord({ currency: 'EGP', maxLiabilityFC: 400 })], converter);
+
+    assert.equal(converted.currency, 'EGP');
+    assert.equal(converted.maxLiabilityKD, undefined);
+  });
+});
+
+describe('getPresentationRates', () => {
+  it('crosses each presentation currency through KD and skips currencies without a rate', () => {
+    const rates = getPresentationRates(table, '2024-06-30');
+
+    assert.deepEqual(rates, [
+      { currency: 'KWD', rate: 1, asOf: null },
+      { currency: 'USD', rate: 4, asOf: '2024-01-01' },
+      { currency: 'SAR', rate: 16, asOf: '2023-01-01' },
+    ]);
+  });
+});
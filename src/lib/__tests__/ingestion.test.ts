@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseReinsuranceCsv } from '../ingestion';
+import { makeCsv } from './fixtures';
+
+const DMY = { format: 'DMY' as const, strict: false };
+
+const row = {
+  viewExtract: 'VE-1',
+  uy: '2020',
+  extType: 'Facultative',
+  broker: 'Direct',
+  cedant: 'Gulf Insurance',
+  orgInsuredTrtyName: 'Insured A',
+  maxLiabilityFC: '1,000',
+  grossUWPrem: '250.5',
+  grossActualAcq: '25',
+  grossPaidClaims: '10',
+  grossOsLoss: '5',
+  countryName: 'Kuwait',
+  comDate: '01/07/2020',
+};
+
+describe('parseReinsuranceCsv', () => {
+  it('maps columns by header name and parses amounts and dates', () => {
+    const result = parseReinsuranceCsv(makeCsv([row]), DMY);
+
+    assert.equal(result.totalRows, 1);
+    assert.equal(result.rejectedRowCount, 0);
+    const [record] = result.records;
+    assert.equal(record.viewExtract, 'VE-1');
+    assert.equal(record.maxLiabilityFC, 1000);
+    assert.equal(record.grossUWPrem, 250.5);
+    assert.equal(record.comDate, '2020-07-01');
+    assert.equal(record.countryCode, 'KWT');
+    assert.equal(record.sourceRow, 2);
+  });
+
+  it('fills blank region and hub from the country defaults', () => {
+    const [record] = parseReinsuranceCsv(makeCsv([row]), DMY).records;
+
+    assert.ok(record.region);
+    assert.ok(record.hub);
+  });
+
+  it('rejects rows missing a mandatory field, with the column and line', () => {
+    const result = parseReinsuranceCsv(makeCsv([row, { ...row, cedant: '' }]), DMY);
+
+    assert.equal(result.records.length, 1);
+    assert.equal(result.rejectedRowCount, 1);
+    assert.deepEqual(result.rejected.map(issue => [issue.row, issue.column]), [[3, 'Cedant']]);
+  });
+
+  it('rejects unparsable amounts instead of reading them as 0', () => {
+    const result = parseReinsuranceCsv(makeCsv([{ ...row, grossUWPrem: 'n/a' }]), DMY);
+
+    assert.equal(result.records.length, 0);
+    assert.equal(result.rejected[0].column, 'Gross UW Prem');
+  });
+
+  it('accepts negative premium, acquisition and claim adjustments', () => {
+    const result = parseReinsuranceCsv(makeCsv([{ ...row, grossUWPrem: '-40', grossActualAcq: '-4', grossPaidClaims: '-1' }]), DMY);
+
+    assert.equal(result.rejectedRowCount, 0);
+    assert.equal(result.records[0].grossUWPrem, -40);
+  });
+
+  it('blanks unparsable dates and reports them', () => {
+    const result = parseReinsuranceCsv(makeCsv([{ ...row, comDate: '29/02/2021' }]), DMY);
+
+    assert.equal(result.records[0].comDate, undefined);
+    assert.equal(result.dates.unparsable, 1);
+    assert.deepEqual(
+      result.dateIssues.map(issue => [issue.column, issue.value, issue.kind]),
+      [['Com date', '29/02/2021', 'unparsable']]
+    );
+  });
+
+  it('reads ambiguous dates as DD/MM, or rejects the row when dates are strict', () => {
+    const lenient = parseReinsuranceCsv(makeCsv([{ ...row, comDate: '03/04/2020' }]), { format: 'auto', strict: false });
+    assert.equal(lenient.records[0].comDate, '2020-04-03');
+    assert.equal(lenient.dates.ambiguous, 1);
+
+    const strict = parseReinsuranceCsv(makeCsv([{ ...row, comDate: '03/04/2020' }]), { format: 'auto', strict: true });
+    assert.equal(strict.records.length, 0);
+    assert.equal(strict.dates.rejected, 1);
+  });
+
+  it('throws when a required column is missing', () => {
+    assert.throws(() => parseReinsuranceCsv('UY,Cedant\n2020,Gulf Insurance', DMY), /missing required columns/);
+  });
+});
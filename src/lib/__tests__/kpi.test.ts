@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateKPIs, calculateUYPerformance, calculateUYPerformanceTotals, getRecordYear } from '../kpi';
+import { makeRecord } from './fixtures';
+
+describe('getRecordYear', () => {
+  it('prefers the inception year and falls back to the UY', () => {
+    assert.equal(getRecordYear(makeRecord({ uy: '2020', inceptionYear: 2021 })), 2021);
+    assert.equal(getRecordYear(makeRecord({ uy: '2020' })), 2020);
+  });
+});
+
+describe('aggregateKPIs', () => {
+  it('averages Max Liability only over records converted to KD', () => {
+    const kpis = aggregateKPIs([
+      makeRecord({ maxLiabilityKD: 100 }),
+      makeRecord({ maxLiabilityKD: 300 }),
+      makeRecord({ currency: 'EGP' }),
+    ], '2020-12-31');
+
+    assert.equal(kpis.numberOfAccounts, 3);
+    assert.equal(kpis.avgMaxLiability, 200);
+  });
+});
+
+describe('calculateUYPerformanceTotals', () => {
+  const records = [
+    makeRecord({ uy: '2020', grossUWPrem: 100, grossPaidClaims: 50, maxLiabilityKD: 100 }),
+    makeRecord({ uy: '2020', grossUWPrem: 100, currency: 'EGP' }),
+    makeRecord({ uy: '2021', grossUWPrem: 200, grossOsLoss: 50, maxLiabilityKD: 400 }),
+  ];
+
+  it('sums each UY row and recomputes the ratios', () => {
+    const totals = calculateUYPerformanceTotals(calculateUYPerformance(records, '2022-12-31'));
+
+    assert.equal(totals.uy, 'Total');
+    assert.equal(totals.premium, 400);
+    assert.equal(totals.incurredClaims, 100);
+    assert.equal(totals.lossRatio, 25);
+    assert.equal(totals.numberOfAccounts, 3);
+  });
+
+  it('leaves records without a rate out of the Max Liability average, as aggregateKPIs does', () => {
+    const rows = calculateUYPerformance(records, '2022-12-31');
+    const totals = calculateUYPerformanceTotals(rows);
+
+    assert.deepEqual(rows.map(row => row.maxLiabilityAccounts), [1, 1]);
+    assert.equal(totals.maxLiabilityAccounts, 2);
+    assert.equal(totals.avgMaxLiability, 250);
+    assert.equal(totals.avgMaxLiability, aggregateKPIs(records, '2022-12-31').avgMaxLiability);
+  });
+
+  it('returns zero totals without rows', () => {
+    const totals = calculateUYPerformanceTotals([]);
+
+    assert.equal(totals.numberOfAccounts, 0);
+    assert.equal(totals.avgMaxLiability, 0);
+  });
+});
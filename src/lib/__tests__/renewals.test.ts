@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRenewalPipeline, calculateRetention, getRenewalDate, getRenewalOutcome } from '../renewals';
+import { makeRecord } from './fixtures';
+
+describe('getRenewalDate', () => {
+  it('uses Renewal Date, or the day after the Exp date', () => {
+    assert.equal(getRenewalDate(makeRecord({ renewalDate: '2021-07-01', expDate: '2021-12-31' })), '2021-07-01');
+    assert.equal(getRenewalDate(makeRecord({ expDate: '2021-12-31' })), '2022-01-01');
+    assert.equal(getRenewalDate(makeRecord()), null);
+  });
+});
+
+describe('getRenewalOutcome', () => {
+  it('reads Renewal Status, leaving anything undecided open', () => {
+    assert.equal(getRenewalOutcome({ renewalStatus: ' Renewed ' }), 'renewed');
+    assert.equal(getRenewalOutcome({ renewalStatus: 'NOT RENEWED' }), 'not-renewed');
+    assert.equal(getRenewalOutcome({ renewalStatus: 'Under negotiation' }), 'open');
+    assert.equal(getRenewalOutcome({}), 'open');
+  });
+});
+
+describe('buildRenewalPipeline', () => {
+  const records = [
+    makeRecord({ orgInsuredTrtyName: 'A', renewalDate: '2021-01-11', grossUWPrem: 100, grossPaidClaims: 30 }),
+    makeRecord({ orgInsuredTrtyName: 'A', uy: '2019', grossUWPrem: 100, grossOsLoss: 50 }),
+    makeRecord({ orgInsuredTrtyName: 'B', renewalDate: '2021-03-01', grossUWPrem: 200 }),
+    makeRecord({ orgInsuredTrtyName: 'C', renewalDate: '2021-01-01', grossUWPrem: 400 }),
+    makeRecord({ orgInsuredTrtyName: 'D', renewalDate: '2021-06-01', grossUWPrem: 800 }),
+  ];
+
+  it('buckets policies due after the as-of date into 30, 60 and 90 day windows', () => {
+    const pipeline = buildRenewalPipeline(records, '2021-01-01');
+
+    assert.deepEqual(pipeline.windows, [
+      { days: 30, policyCount: 1, premium: 100 },
+      { days: 60, policyCount: 2, premium: 300 },
+      { days: 90, policyCount: 2, premium: 300 },
+    ]);
+    assert.deepEqual(pipeline.upcoming.map(renewal => [renewal.insured, renewal.daysToRenewal]), [['A', 10], ['B', 59]]);
+    assert.equal(pipeline.undated, 1);
+  });
+
+  it('shows the loss ratio of the whole cedant and insured account', () => {
+    const [renewal] = buildRenewalPipeline(records, '2021-01-01').upcoming;
+
+    assert.equal(renewal.accountPolicyCount, 2);
+    assert.equal(renewal.accountLossRatio, 40);
+  });
+});
+
+describe('calculateRetention', () => {
+  it('divides renewed by decided premium and keeps open premium out of the rate', () => {
+    const { rows, total } = calculateRetention([
+      makeRecord({ broker: 'Broker A', renewalStatus: 'Renewed', grossUWPrem: 300 }),
+      makeRecord({ broker: 'Broker A', renewalStatus: 'Not Renewed', grossUWPrem: 100 }),
+      makeRecord({ broker: 'Broker B', grossUWPrem: 50 }),
+    ], 'broker');
+
+    assert.deepEqual(rows.map(row => [row.key, row.retentionPct]), [['Broker A', 75], ['Broker B', null]]);
+    assert.equal(total.openPremium, 50);
+    assert.equal(total.retentionPct, 75);
+  });
+});
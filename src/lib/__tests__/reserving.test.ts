@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReservingAssumptionsSchema, isSegmentRun, runReserving } from '../reserving';
+import { buildTriangles } from '../triangles';
+import { makeRecord, makeSnapshot } from './fixtures';
+
+// Incurred: UY 2019 at 30, 40, 40 (quarters 5-7) and UY 2020 at 50, 60, 60 (quarters 1-3)
+const triangles = buildTriangles([
+  makeSnapshot('2020-03-31', [
+    { key: 'P1', uy: '2019', paidClaims: 10, osLoss: 20 },
+    { key: 'P2', uy: '2020', osLoss: 50 },
+  ]),
+  makeSnapshot('2020-06-30', [
+    { key: 'P1', uy: '2019', paidClaims: 20, osLoss: 20 },
+    { key: 'P2', uy: '2020', paidClaims: 10, osLoss: 50 },
+  ]),
+  makeSnapshot('2020-09-30', [
+    { key: 'P1', uy: '2019', paidClaims: 30, osLoss: 10 },
+    { key: 'P2', uy: '2020', paidClaims: 10, osLoss: 50 },
+  ]),
+]);
+
+const records = [
+  makeRecord({ uy: '2019', grossUWPrem: 100 }),
+  makeRecord({ uy: '2020', grossUWPrem: 150 }),
+  makeRecord({ uy: '2020', grossUWPrem: 50 }),
+];
+
+const assumptions = (overrides: Record<string, unknown> = {}) => ReservingAssumptionsSchema.parse(overrides);
+
+describe('runReserving', () => {
+  it('develops the latest diagonal to ultimate with the volume-weighted factors', () => {
+    const run = runReserving(triangles, records, assumptions());
+    const [uy2019, uy2020] = run.results;
+
+    // Quarters 3-4 and 4-5 have no UY with both values and default to 1; 5-6 is 40 / 30
+    assert.deepEqual(run.factors.map(factor => factor.selected), [1.2, 1, 1, 1, 40 / 30, 1]);
+    assert.equal(uy2019.cdf, 1);
+    assert.equal(uy2019.chainLadder.ultimate, 40);
+    assert.equal(uy2020.developmentQuarter, 3);
+    assert.equal(uy2020.cdf, 40 / 30);
+    assert.equal(uy2020.premium, 200);
+    assert.equal(uy2020.chainLadder.ultimate, 80);
+    assert.equal(uy2020.chainLadder.ibnr, 20);
+    assert.equal(uy2020.chainLadder.ultimateLossRatio, 40);
+    assert.equal(run.asOf, '2020-09-30');
+  });
+
+  it('uses the chain-ladder loss ratio of the segment as the BF a priori by default', () => {
+    const run = runReserving(triangles, records, assumptions({ method: 'bornhuetter-ferguson' }));
+
+    // 120 chain-ladder ultimate over 300 premium
+    assert.equal(run.expectedLossRatio, 40);
+    // 60 reported + 200 premium x 40% x (1 - 1 / (4/3))
+    assert.ok(Math.abs(run.results[1].bornhuetterFerguson.ultimate - 80) < 1e-9);
+    assert.deepEqual(run.results[1].selected, run.results[1].bornhuetterFerguson);
+  });
+
+  it('applies selected factor overrides, the tail factor and an a priori loss ratio', () => {
+    const run = runReserving(triangles, records, assumptions({
+      selectedFactors: { 5: 1.5 },
+      tailFactor: 1.1,
+      expectedLossRatio: 50,
+    }));
+    const [uy2019, uy2020] = run.results;
+
+    assert.equal(run.factors[4].overridden, true);
+    assert.ok(Math.abs(uy2019.chainLadder.ultimate - 44) < 1e-9);
+    assert.ok(Math.abs(uy2020.chainLadder.ultimate - 99) < 1e-9);
+    assert.ok(Math.abs(uy2020.bornhuetterFerguson.ultimate - (60 + 200 * 0.5 * (1 - 1 / 1.65))) < 1e-9);
+  });
+
+  it('totals premium, incurred and ultimates over the UYs', () => {
+    const run = runReserving(triangles, records, assumptions());
+
+    assert.equal(run.total.premium, 300);
+    assert.equal(run.total.incurred, 100);
+    assert.equal(run.total.chainLadder.ultimate, 120);
+    assert.equal(run.total.chainLadder.ibnr, 20);
+  });
+});
+
+describe('isSegmentRun', () => {
+  it('matches a run to the segment it covers, ignoring case and spacing', () => {
+    const run = { filters: { hub: 'GCC', cedant: 'Gulf  Insurance' } };
+
+    assert.equal(isSegmentRun(run, { hub: 'gcc', cedant: 'gulf insurance' }), true);
+    assert.equal(isSegmentRun(run, { hub: 'GCC' }), false);
+    assert.equal(isSegmentRun(run, { hub: 'GCC', cedant: 'Gulf Insurance', region: 'Asia' }), false);
+  });
+
+  it('treats a run without filters as the whole portfolio', () => {
+    assert.equal(isSegmentRun({ filters: { region: '' } }, {}), true);
+    assert.equal(isSegmentRun({ filters: {} }, { extType: 'Facultative' }), false);
+  });
+});
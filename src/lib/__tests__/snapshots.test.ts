@@ -0,0 +1,106 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { captureSnapshot, diffSnapshots, listSnapshots, loadSnapshot } from '../snapshots';
+import { createEntityResolver } from '../entities';
+import { makeRecord, makeSnapshot } from './fixtures';
+
+// Snapshots and the alias table are written to scratch directories
+before(async () => {
+  process.env.DATA_DIR = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-data-'));
+  process.env.SNAPSHOT_DIR = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+});
+
+describe('diffSnapshots', () => {
+  const from = makeSnapshot('2024-03-31', [
+    { key: 'A', uy: '2023', premium: 100, osLoss: 20 },
+    { key: 'B', uy: '2023', premium: 50 },
+    { key: 'C', uy: '2024', premium: 70, cedant: 'Gulf Ins. Co.' },
+  ]);
+  const to = makeSnapshot('2024-06-30', [
+    { key: 'A', uy: '2023', premium: 100, osLoss: 20 },
+    { key: 'C', uy: '2024', premium: 70, paidClaims: 30, cedant: 'Gulf Ins. Co.' },
+    { key: 'D', uy: '2024', premium: 40 },
+  ]);
+
+  it('reports added, removed and changed policies and counts unchanged ones', () => {
+    const diff = diffSnapshots(from, to);
+    const byKey = new Map(diff.policies.map(policy => [policy.key, policy]));
+
+    assert.equal(diff.unchangedPolicies, 1);
+    assert.equal(byKey.get('B')?.status, 'removed');
+    assert.equal(byKey.get('C')?.status, 'changed');
+    assert.deepEqual(byKey.get('C')?.incurred, { from: 0, to: 30, change: 30 });
+    assert.equal(byKey.get('D')?.status, 'added');
+    assert.equal(byKey.has('A'), false);
+  });
+
+  it('totals each UY and the whole book', () => {
+    const diff = diffSnapshots(from, to, 'uy');
+    const uy2023 = diff.aggregates.find(aggregate => aggregate.key === '2023');
+
+    assert.deepEqual(uy2023?.policyCount, { from: 2, to: 1, change: -1 });
+    assert.deepEqual(uy2023?.premium, { from: 150, to: 100, change: -50 });
+    assert.deepEqual(diff.total.premium, { from: 220, to: 210, change: -10 });
+    assert.deepEqual(diff.total.incurred, { from: 20, to: 50, change: 30 });
+  });
+
+  it('groups aliases of one cedant under the canonical name when given a resolver', () => {
+    const resolver = createEntityResolver({
+      entities: [{ id: 'cedant:gulf', type: 'cedant', name: 'Gulf Insurance', aliases: ['Gulf Ins. Co.'] }],
+    });
+    const diff = diffSnapshots(from, to, 'cedant', resolver);
+
+    assert.deepEqual(diff.aggregates.map(aggregate => aggregate.key), ['Gulf Insurance']);
+    assert.deepEqual(diff.aggregates[0].policyCount, { from: 3, to: 3, change: 0 });
+  });
+
+  it('keeps differently spelt cedants apart without a resolver', () => {
+    const diff = diffSnapshots(from, to, 'cedant');
+
+    assert.deepEqual(diff.aggregates.map(aggregate => aggregate.key), ['Gulf Ins. Co.', 'Gulf Insurance']);
+  });
+});
+
+describe('captureSnapshot', () => {
+  const sources = [{ file: 'extract.csv', label: 'Extract', modifiedAt: '2024-06-30T08:00:00.000Z' }];
+  const records = [
+    makeRecord({ viewExtract: 'VE-1', grossUWPrem: 100 }),
+    makeRecord({ viewExtract: 'VE-2', grossUWPrem: 200 }),
+  ];
+
+  it('stores a snapshot dated by the newest source file', async () => {
+    const summary = await captureSnapshot(records, sources);
+
+    assert.ok(summary);
+    assert.equal(summary.asOf, '2024-06-30');
+    assert.equal(summary.policyCount, 2);
+    const stored = await loadSnapshot(summary.id);
+    assert.deepEqual(stored?.policies.map(policy => policy.premium), [100, 200]);
+  });
+
+  it('skips a capture whose content matches the latest snapshot', async () => {
+    assert.equal(await captureSnapshot(records, sources), null);
+    assert.equal((await listSnapshots()).length, 1);
+  });
+
+  it('stores a new snapshot once the content changes', async () => {
+    const changed = [records[0], makeRecord({ viewExtract: 'VE-2', grossUWPrem: 250 })];
+    const summary = await captureSnapshot(changed, sources);
+
+    assert.ok(summary);
+    assert.equal((await listSnapshots()).length, 2);
+  });
+});
+
+describe('loadSnapshot', () => {
+  it('returns null for an unknown id', async () => {
+    assert.equal(await loadSnapshot('2024-01-01-missing'), null);
+  });
+
+  it('rejects ids that could leave the snapshot directory', async () => {
+    await assert.rejects(loadSnapshot('../entity-aliases'), /Invalid snapshot id/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildTriangles, getTriangleSheetRows, selectDiagonals } from '../triangles';
+import { createEntityResolver } from '../entities';
+import { makeSnapshot } from './fixtures';
+
+// UY 2019 is at development quarters 5-7 and UY 2020 at 1-3 over the first three quarters of 2020
+const snapshots = [
+  makeSnapshot('2020-03-31', [
+    { key: 'P1', uy: '2019', paidClaims: 10, osLoss: 20 },
+    { key: 'P2', uy: '2020', paidClaims: 0, osLoss: 50 },
+  ]),
+  makeSnapshot('2020-06-30', [
+    { key: 'P1', uy: '2019', paidClaims: 20, osLoss: 20 },
+    { key: 'P2', uy: '2020', paidClaims: 10, osLoss: 50 },
+  ]),
+  makeSnapshot('2020-09-30', [
+    { key: 'P1', uy: '2019', paidClaims: 30, osLoss: 10 },
+    { key: 'P2', uy: '2020', paidClaims: 10, osLoss: 50 },
+  ]),
+];
+
+describe('selectDiagonals', () => {
+  it('keeps the latest snapshot of each quarter, oldest first', () => {
+    const summaries = [
+      { ...snapshots[1], id: 'late-june' },
+      { ...snapshots[1], id: 'early-june', asOf: '2020-06-01' },
+      snapshots[0],
+    ];
+
+    assert.deepEqual(selectDiagonals(summaries).map(snapshot => snapshot.id), ['2020-03-31-test', 'late-june']);
+  });
+});
+
+describe('buildTriangles', () => {
+  it('lays out cumulative amounts by UY and development quarter', () => {
+    const { paid, incurred, diagonals } = buildTriangles(snapshots);
+
+    assert.deepEqual(diagonals.map(diagonal => diagonal.quarter), ['2020 Q1', '2020 Q2', '2020 Q3']);
+    assert.deepEqual(incurred.developmentQuarters, [1, 2, 3, 4, 5, 6, 7]);
+    assert.deepEqual(incurred.rows.map(row => [row.uy, row.values]), [
+      ['2019', [null, null, null, null, 30, 40, 40]],
+      ['2020', [50, 60, 60, null, null, null, null]],
+    ]);
+    assert.deepEqual(paid.rows[1].values.slice(0, 3), [0, 10, 10]);
+  });
+
+  it('computes link ratios and volume-weighted and simple age-to-age factors', () => {
+    const { paid, incurred } = buildTriangles(snapshots);
+
+    assert.deepEqual(incurred.rows[1].linkRatios.slice(0, 3), [1.2, 1, null]);
+    assert.equal(incurred.factors[0].weighted, 1.2);
+    assert.equal(incurred.factors[0].count, 1);
+    assert.equal(incurred.factors[4].weighted, 40 / 30);
+    // A zero earlier value has no link ratio
+    assert.equal(paid.factors[0].count, 0);
+    assert.equal(paid.factors[0].weighted, null);
+  });
+
+  it('filters policies on the resolved cedant and keeps filtered-out quarters at 0', () => {
+    const withOther = [
+      ...snapshots.slice(0, 2),
+      makeSnapshot('2020-09-30', [{ key: 'P3', uy: '2020', cedant: 'Other Re', osLoss: 100 }]),
+    ];
+    const resolver = createEntityResolver({
+      entities: [{ id: 'cedant:gulf', type: 'cedant', name: 'Gulf Insurance Group', aliases: ['Gulf Insurance'] }],
+    });
+
+    const { incurred } = buildTriangles(withOther, { cedant: 'Gulf Insurance Group' }, { resolver });
+
+    assert.deepEqual(incurred.rows.find(row => row.uy === '2020')!.values.slice(0, 3), [50, 60, 0]);
+  });
+});
+
+describe('getTriangleSheetRows', () => {
+  it('converts amounts into the presentation currency and labels it', () => {
+    const { incurred } = buildTriangles(snapshots);
+
+    const rows = getTriangleSheetRows(incurred, { currency: 'USD', rate: 2, asOf: '2021-01-01' });
+
+    assert.match(String(rows[0][0]), /^Incurred \(USD\)/);
+    assert.deepEqual(rows[3].slice(0, 4), ['2020', 100, 120, 120]);
+    // Link ratios do not depend on the currency
+    assert.deepEqual(rows[7].slice(0, 3), ['2020', 1.2, 1]);
+  });
+
+  it('labels KD amounts without conversion by default', () => {
+    const rows = getTriangleSheetRows(buildTriangles(snapshots).incurred);
+
+    assert.equal(rows[0][0], 'Incurred (KD) by development quarter');
+    assert.deepEqual(rows[3].slice(0, 2), ['2020', 50]);
+  });
+});
@@ -0,0 +1,397 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ReinsuranceData } from './schema';
+import { getDataDirectory } from './datasets';
+import { safeDivide } from './format';
+import { norm } from './normalize';
+import { getRecordYear } from './kpi';
+import { getCountryByCode } from './countries';
+
+/**
+ * Exposure accumulation and concentration-limit monitoring
+ * Our-share liability (Max Liability × Signed Line, in KD) is summed per country, hub and insured and compared with
+ * the country and zone limits in a local table (ACCUMULATION_LIMITS_FILE, defaulting to accumulation-limits.json in
+ * the data directory). A zone is a set of countries and/or hubs, e.g. the GCC hub.
+ */
+
+const DEFAULT_LIMITS_FILE = 'accumulation-limits.json';
+
+export type LimitStatus = 'ok' | 'warning' | 'breach';
+
+const LIMIT_STATUS_ORDER: LimitStatus[] = ['ok', 'warning', 'breach'];
+
+const CountryLimitSchema = z.object({
+  type: z.literal('country'),
+  /** ISO 3166-1 alpha-3 code */
+  country: z.string().regex(/^[A-Z]{3}$/, 'country must be an ISO 3166-1 alpha-3 code'),
+  /** Limit in KD */
+  limit: z.number().positive('limit must be positive'),
+});
+
+const ZoneLimitSchema = z.object({
+  type: z.literal('zone'),
+  name: z.string().trim().min(1, 'Zone name is required'),
+  countries: z.array(z.string().regex(/^[A-Z]{3}$/, 'countries must be ISO 3166-1 alpha-3 codes')).default([]),
+  hubs: z.array(z.string().trim().min(1)).default([]),
+  limit: z.number().positive('limit must be positive'),
+});
+
+/**
+ * A limit as entered; its id follows from the country or zone name, so saving the same one again replaces it
+ */
+export const AccumulationLimitInputSchema = z.discriminatedUnion('type', [CountryLimitSchema, ZoneLimitSchema])
+  .refine(limit => limit.type === 'country' || limit.countries.length > 0 || limit.hubs.length > 0, {
+    message: 'A zone needs at least one country or hub',
+    path: ['countries'],
+  });
+
+export type AccumulationLimitInput = z.infer<typeof AccumulationLimitInputSchema>;
+
+/**
+ * Schema for the limits table file
+ * Utilisation at or above warningPct (%) of a limit is flagged before it is breached.
+ */
+export const AccumulationLimitTableSchema = z.object({
+  warningPct: z.number().min(0).max(100).default(80),
+  limits: z.array(z.intersection(z.object({ id: z.string().min(1) }), AccumulationLimitInputSchema)).default([]),
+});
+
+export type AccumulationLimitTable = z.infer<typeof AccumulationLimitTableSchema>;
+export type AccumulationLimit = AccumulationLimitTable['limits'][number];
+
+const EMPTY_LIMIT_TABLE: AccumulationLimitTable = { warningPct: 80, limits: [] };
+
+/**
+ * Exact-match filters narrowing the accumulated policies, e.g. the current year's energy business
+ */
+export interface AccumulationFilters {
+  year?: number;
+  businessClass?: string;
+  extType?: string;
+  runningExpired?: string;
+}
+
+/**
+ * Accumulated exposure of one country, hub or insured
+ */
+export interface AccumulationRow {
+  key: string;
+  name: string;
+  exposure: number;
+  policyCount: number;
+  premium: number;
+}
+
+export interface CountryAccumulation extends AccumulationRow {
+  /** Worst status of the limits covering the country, or null when none does */
+  status: LimitStatus | null;
+  limitIds: string[];
+}
+
+export interface InsuredAccumulation extends AccumulationRow {
+  countries: string[];
+}
+
+/**
+ * A limit with the exposure it covers
+ */
+export interface LimitCheck {
+  id: string;
+  type: AccumulationLimit['type'];
+  name: string;
+  /** ISO codes of the countries the limit covers, for the map */
+  countries: string[];
+  hubs: string[];
+  limit: number;
+  exposure: number;
+  utilisationPct: number;
+  headroom: number;
+  status: LimitStatus;
+}
+
+export interface AccumulationResult {
+  filters: AccumulationFilters;
+  warningPct: number;
+  countries: CountryAccumulation[];
+  hubs: AccumulationRow[];
+  insureds: InsuredAccumulation[];
+  limits: LimitCheck[];
+  total: { exposure: number; policyCount: number; premium: number };
+  /** Exposure on Country values without an ISO code (regional scopes); it counts toward hubs but no country */
+  unallocated: { exposure: number; policyCount: number };
+  /** Policies left out because Max Liability has no KD rate or neither Signed Line nor Sign share % is set */
+  excluded: { noRate: number; noLine: number };
+}
+
+/**
+ * Path of the limits table
+ */
+export function getAccumulationLimitsPath(): string {
+  return path.resolve(getDataDirectory(), process.env.ACCUMULATION_LIMITS_FILE || DEFAULT_LIMITS_FILE);
+}
+
+/**
+ * Our share of a policy as a fraction: Signed Line, or Sign share % where the extract leaves it blank
+ */
+export function getSignedShare(record: ReinsuranceData): number | null {
+  if (record.signedLine !== undefined) return record.signedLine;
+  if (record.signSharePct !== undefined) return record.signSharePct / 100;
+  return null;
+}
+
+/**
+ * Our-share liability of a policy in KD, or null when it cannot be computed
+ */
+export function getOurShareLiability(record: ReinsuranceData): number | null {
+  const share = getSignedShare(record);
+  if (record.maxLiabilityKD === undefined || share === null) return null;
+  return record.maxLiabilityKD * share;
+}
+
+function matchesAccumulationFilters(record: ReinsuranceData, filters: AccumulationFilters): boolean {
+  if (filters.year !== undefined && getRecordYear(record) !== filters.year) return false;
+  const textFilters: Array<[string | undefined, string | undefined]> = [
+    [filters.businessClass, record.businessClass],
+    [filters.extType, record.extType],
+    [filters.runningExpired, record.runningExpired],
+  ];
+  return textFilters.every(([filterValue, recordValue]) => !norm(filterValue) || norm(filterValue) === norm(recordValue));
+}
+
+function getLimitName(limit: AccumulationLimitInput): string {
+  return limit.type === 'country' ? getCountryByCode(limit.country)?.name ?? limit.country : limit.name;
+}
+
+function getLimitId(limit: AccumulationLimitInput): string {
+  return limit.type === 'country'
+    ? `country-${limit.country}`
+    : `zone-${limit.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'zone'}`;
+}
+
+/**
+ * A limit is the most that may be written, so exposure exactly at the limit (100%) is a warning; only exposure above
+ * it is a breach
+ */
+function getLimitStatus(utilisationPct: number, warningPct: number): LimitStatus {
+  if (utilisationPct > 100) return 'breach';
+  return utilisationPct >= warningPct ? 'warning' : 'ok';
+}
+
+function addToRow<T extends AccumulationRow>(rows: Map<string, T>, key: string, create: () => T, exposure: number, premium: number): T {
+  let row = rows.get(key);
+  if (!row) {
+    row = create();
+    rows.set(key, row);
+  }
+  row.exposure += exposure;
+  row.policyCount++;
+  row.premium += premium;
+  return row;
+}
+
+const byExposure = (a: AccumulationRow, b: AccumulationRow) => b.exposure - a.exposure || a.name.localeCompare(b.name);
+
+/**
+ * Accumulate our-share liability per country, hub and insured and check it against the limits
+ */
+export function calculateAccumulation(
+  records: ReinsuranceData[],
+  table: AccumulationLimitTable,
+  filters: AccumulationFilters = {}
+): AccumulationResult {
+  const countries = new Map<string, CountryAccumulation>();
+  const hubs = new Map<string, AccumulationRow>();
+  const insureds = new Map<string, InsuredAccumulation>();
+  const total = { exposure: 0, policyCount: 0, premium: 0 };
+  const unallocated = { exposure: 0, policyCount: 0 };
+  const excluded = { noRate: 0, noLine: 0 };
+  const accumulated: Array<{ record: ReinsuranceData; exposure: number }> = [];
+
+  records.forEach(record => {
+    if (!matchesAccumulationFilters(record, filters)) return;
+    if (record.maxLiabilityKD === undefined) {
+      excluded.noRate++;
+      return;
+    }
+    const exposure = getOurShareLiability(record);
+    if (exposure === null) {
+      excluded.noLine++;
+      return;
+    }
+    accumulated.push({ record, exposure });
+    const premium = record.grossUWPrem || 0;
+    total.exposure += exposure;
+    total.policyCount++;
+    total.premium += premium;
+
+    if (record.countryCode) {
+      const code = record.countryCode;
+      addToRow(countries, code, () => ({
+        key: code,
+        name: getCountryByCode(code)?.name ?? record.countryName,
+        exposure: 0,
+        policyCount: 0,
+        premium: 0,
+        status: null,
+        limitIds: [],
+      }), exposure, premium);
+    } else {
+      unallocated.exposure += exposure;
+      unallocated.policyCount++;
+    }
+
+    const hubKey = norm(record.hub);
+    if (hubKey) {
+      addToRow(hubs, hubKey, () => ({ key: record.hub, name: record.hub, exposure: 0, policyCount: 0, premium: 0 }), exposure, premium);
+    }
+
+    const insuredKey = norm(record.orgInsuredTrtyName);
+    if (insuredKey) {
+      const insured = addToRow(insureds, insuredKey, () => ({
+        key: insuredKey,
+        name: record.orgInsuredTrtyName.trim(),
+        exposure: 0,
+        policyCount: 0,
+        premium: 0,
+        countries: [],
+      }), exposure, premium);
+      const countryName = record.countryCode ? getCountryByCode(record.countryCode)?.name ?? record.countryName : record.countryName;
+      if (!insured.countries.includes(countryName)) insured.countries.push(countryName);
+    }
+  });
+
+  const limits: LimitCheck[] = table.limits.map(limit => {
+    // A zone covers policies in any of its countries or written under any of its hubs, each policy once
+    const hubKeys = new Set(limit.type === 'zone' ? limit.hubs.map(hub => norm(hub)) : []);
+    const limitCountries = new Set(limit.type === 'zone' ? limit.countries : [limit.country]);
+    const members = accumulated.filter(({ record }) =>
+      (record.countryCode !== undefined && limitCountries.has(record.countryCode)) || hubKeys.has(norm(record.hub) ?? '')
+    );
+    const exposure = members.reduce((sum, member) => sum + member.exposure, 0);
+    const covered = [...new Set([
+      ...limitCountries,
+      ...members.map(({ record }) => record.countryCode).filter((code): code is string => !!code),
+    ])];
+
+    const utilisationPct = safeDivide(exposure, limit.limit) * 100;
+    return {
+      id: limit.id,
+      type: limit.type,
+      name: getLimitName(limit),
+      countries: covered,
+      hubs: limit.type === 'zone' ? limit.hubs : [],
+      limit: limit.limit,
+      exposure,
+      utilisationPct,
+      headroom: limit.limit - exposure,
+      status: getLimitStatus(utilisationPct, table.warningPct),
+    };
+  });
+
+  // Each country shows the worst status of the limits covering it
+  limits.forEach(check => {
+    check.countries.forEach(code => {
+      const country = countries.get(code);
+      if (!country) return;
+      country.limitIds.push(check.id);
+      if (country.status === null || LIMIT_STATUS_ORDER.indexOf(check.status) > LIMIT_STATUS_ORDER.indexOf(country.status)) {
+        country.status = check.status;
+      }
+    });
+  });
+
+  return {
+    filters,
+    warningPct: table.warningPct,
+    countries: [...countries.values()].sort(byExposure),
+    hubs: [...hubs.values()].sort(byExposure),
+    insureds: [...insureds.values()].sort(byExposure),
+    limits: limits.sort((a, b) => b.utilisationPct - a.utilisationPct),
+    total,
+    unallocated,
+    excluded,
+  };
+}
+
+// Limits table cache keyed by file path and modification time
+let tableCache: { signature: string; table: AccumulationLimitTable } | null = null;
+
+/**
+ * Read and validate the limits table; without a file there are no limits
+ */
+export async function loadAccumulationLimits(): Promise<AccumulationLimitTable> {
+  const limitsPath = getAccumulationLimitsPath();
+  let signature: string;
+  try {
+    signature = `${limitsPath}:${(await fs.stat(limitsPath)).mtime.getTime()}`;
+  } catch {
+    return EMPTY_LIMIT_TABLE;
+  }
+
+  if (tableCache?.signature === signature) {
+    return tableCache.table;
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(await fs.readFile(limitsPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid accumulation limits table ${limitsPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = AccumulationLimitTableSchema.safeParse(content);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid accumulation limits table ${limitsPath}: ${issues.join('; ')}`);
+  }
+
+  tableCache = { signature, table: parsed.data };
+  return parsed.data;
+}
+
+// Serialises edits so concurrent saves cannot overwrite each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function queueEdit<T>(edit: (table: AccumulationLimitTable) => { table: AccumulationLimitTable; result: T }): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { table, result } = edit(await loadAccumulationLimits());
+    await fs.writeFile(getAccumulationLimitsPath(), `${JSON.stringify(table, null, 2)}\n`);
+    tableCache = null;
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Add a limit, replacing the existing limit for the same country or zone name
+ */
+export function saveAccumulationLimit(input: AccumulationLimitInput): Promise<AccumulationLimit> {
+  return queueEdit(table => {
+    const limit = { ...input, id: getLimitId(input) };
+    const index = table.limits.findIndex(existing => existing.id === limit.id);
+    const limits = index >= 0
+      ? table.limits.map((existing, i) => (i === index ? limit : existing))
+      : [...table.limits, limit];
+    console.log(`Accumulation - Saved limit ${limit.id}: ${limit.limit}`);
+    return { table: { ...table, limits }, result: limit };
+  });
+}
+
+/**
+ * Remove a limit by id
+ */
+export function removeAccumulationLimit(id: string): Promise<boolean> {
+  return queueEdit(table => {
+    const limits = table.limits.filter(limit => limit.id !== id);
+    return { table: { ...table, limits }, result: limits.length !== table.limits.length };
+  });
+}
+
+/**
+ * Set the utilisation (%) at which limits are flagged before they are breached
+ */
+export function setAccumulationWarningPct(warningPct: number): Promise<number> {
+  return queueEdit(table => ({ table: { ...table, warningPct }, result: warningPct }));
+}
@@ -0,0 +1,139 @@
+import { safeDivide } from './format';
+import { norm } from './normalize';
+import { getRenewalOutcome } from './renewals';
+
+/**
+ * New vs renewal business
+ * New/Renew splits each year's premium into new and renewed business. Business lost in a year is the prior year's
+ * policies marked Not Renewed, at their prior-year premium, so the bridge from prior to current premium adds up:
+ * prior - lost + retained change + new = current, where retained change is the renewed premium written less the
+ * prior premium that was not lost (rate, share and exposure movement on the retained book).
+ */
+
+/**
+ * Fields the split reads; satisfied by ReinsuranceData and by the client overview's normalized rows
+ */
+export interface BusinessMixRecord {
+  grossUWPrem?: number | null;
+  newRenew?: string | null;
+  renewalStatus?: string | null;
+}
+
+export interface PremiumBridge {
+  priorPremium: number;
+  /** Prior-year premium marked Not Renewed (a reduction) */
+  lostPremium: number;
+  /** Renewed premium written less the prior premium that was not lost */
+  retainedChange: number;
+  newPremium: number;
+  currentPremium: number;
+}
+
+export interface BusinessMixYear {
+  year: number;
+  policyCount: number;
+  premium: number;
+  newCount: number;
+  newPremium: number;
+  renewedCount: number;
+  renewedPremium: number;
+  /** Prior-year policies marked Not Renewed */
+  lostCount: number;
+  lostPremium: number;
+  /** Renewed over renewed plus not renewed premium of the prior year (%), or null when nothing was decided */
+  retentionPct: number | null;
+  /** Null for a year whose prior year has no business */
+  bridge: PremiumBridge | null;
+}
+
+interface YearTotals {
+  policyCount: number;
+  premium: number;
+  newCount: number;
+  newPremium: number;
+  renewedCount: number;
+  renewedPremium: number;
+  /** Renewal outcomes of this year's policies, decided in the following year */
+  renewedOutcomePremium: number;
+  notRenewedCount: number;
+  notRenewedPremium: number;
+}
+
+/**
+ * Whether a policy is renewal business from its New/Renew flag; anything not marked Renew counts as new
+ */
+export function isRenewalBusiness(record: BusinessMixRecord): boolean {
+  return norm(record.newRenew) === 'renew';
+}
+
+/**
+ * New, renewed and lost business with retention and a premium bridge for every year, oldest first
+ */
+export function calculateBusinessMix<T extends BusinessMixRecord>(
+  records: T[],
+  getYear: (record: T) => number | null | undefined
+): BusinessMixYear[] {
+  const years = new Map<number, YearTotals>();
+  records.forEach(record => {
+    const year = getYear(record);
+    if (!year) return;
+    const totals = years.get(year) ?? {
+      policyCount: 0,
+      premium: 0,
+      newCount: 0,
+      newPremium: 0,
+      renewedCount: 0,
+      renewedPremium: 0,
+      renewedOutcomePremium: 0,
+      notRenewedCount: 0,
+      notRenewedPremium: 0,
+    };
+    years.set(year, totals);
+
+    const premium = record.grossUWPrem || 0;
+    totals.policyCount++;
+    totals.premium += premium;
+    if (isRenewalBusiness(record)) {
+      totals.renewedCount++;
+      totals.renewedPremium += premium;
+    } else {
+      totals.newCount++;
+      totals.newPremium += premium;
+    }
+
+    const outcome = getRenewalOutcome(record);
+    if (outcome === 'renewed') {
+      totals.renewedOutcomePremium += premium;
+    } else if (outcome === 'not-renewed') {
+      totals.notRenewedCount++;
+      totals.notRenewedPremium += premium;
+    }
+  });
+
+  return [...years.keys()].sort((a, b) => a - b).map(year => {
+    const totals = years.get(year)!;
+    const prior = years.get(year - 1);
+    const decided = prior ? prior.renewedOutcomePremium + prior.notRenewedPremium : 0;
+    const lostPremium = prior?.notRenewedPremium ?? 0;
+
+    return {
+      year,
+      policyCount: totals.policyCount,
+      premium: totals.premium,
+      newCount: totals.newCount,
+      newPremium: totals.newPremium,
+      renewedCount: totals.renewedCount,
+      renewedPremium: totals.renewedPremium,
+      lostCount: prior?.notRenewedCount ?? 0,
+      lostPremium,
+      retentionPct: decided > 0 ? safeDivide(prior!.renewedOutcomePremium, decided) * 100 : null,
+      bridge: prior ? {
+        priorPremium: prior.premium,
+        lostPremium,
+        retainedChange: totals.renewedPremium - (prior.premium - lostPremium),
+        newPremium: totals.newPremium,
+        currentPremium: totals.premium,
+      } : null,
+    };
+  });
+}
@@ -0,0 +1,132 @@
+import { ReinsuranceData } from './schema';
+import { safeDivide } from './format';
+import { getRecordYear } from './kpi';
+import { getCountryByCode } from './countries';
+
+/**
+ * Portfolio concentration
+ * Premium is grouped per cedant and broker entity id, per ISO country code (so "Dubai" and "Abu Dhabi" count as the
+ * UAE; regional scopes without a code keep their name) or per insured. The Herfindahl-Hirschman index is the sum of
+ * squared percentage shares (0-10,000, where 10,000 is a single counterparty). Entities whose Gross UW Prem nets to
+ * zero or below are left out, as a negative share has no meaning in either the index or the Pareto curve.
+ */
+
+export type ConcentrationDimension = 'cedant' | 'broker' | 'country' | 'insured';
+
+export const CONCENTRATION_TOP_N = [5, 10, 20] as const;
+
+export type ConcentrationTopN = typeof CONCENTRATION_TOP_N[number];
+
+export interface ConcentrationMetrics {
+  /** Year, or 'All' for every year in the selection */
+  key: string;
+  entityCount: number;
+  premium: number;
+  hhi: number;
+  /** Number of equal-sized entities giving the same index (10,000 / HHI) */
+  equivalentCount: number;
+  /** Share of premium written with the largest N entities (%) */
+  topShares: Record<ConcentrationTopN, number>;
+}
+
+export interface ParetoPoint {
+  rank: number;
+  name: string;
+  premium: number;
+  sharePct: number;
+  /** Share of premium written with this entity and every larger one (%) */
+  cumulativePct: number;
+  /** Rank as a share of all entities (%) */
+  entityPct: number;
+}
+
+export interface ConcentrationResult {
+  dimension: ConcentrationDimension;
+  overall: ConcentrationMetrics;
+  years: ConcentrationMetrics[];
+  /** Cumulative premium curve per year key, entities largest first */
+  pareto: Record<string, ParetoPoint[]>;
+}
+
+/**
+ * Grouping key and display name of a record's counterparty
+ */
+function getEntity(record: ReinsuranceData, dimension: ConcentrationDimension): { key: string; name: string } {
+  if (dimension === 'country') {
+    const country = getCountryByCode(record.countryCode);
+    if (country) return { key: country.code, name: country.name };
+  }
+  const name = (dimension === 'country' ? record.countryName
+    : dimension === 'insured' ? record.orgInsuredTrtyName
+      : record[dimension])?.trim() || '(blank)';
+  const id = dimension === 'cedant' ? record.cedantId : dimension === 'broker' ? record.brokerId : undefined;
+  return { key: id ?? name.toLowerCase(), name };
+}
+
+function sumByEntity(records: ReinsuranceData[], dimension: ConcentrationDimension): Array<{ name: string; premium: number }> {
+  const entities = new Map<string, { name: string; premium: number }>();
+  records.forEach(record => {
+    const { key, name } = getEntity(record, dimension);
+    const entity = entities.get(key) ?? { name, premium: 0 };
+    entity.premium += record.grossUWPrem || 0;
+    entities.set(key, entity);
+  });
+  return [...entities.values()]
+    .filter(entity => entity.premium > 0)
+    .sort((a, b) => b.premium - a.premium || a.name.localeCompare(b.name));
+}
+
+function measure(key: string, entities: Array<{ name: string; premium: number }>): { metrics: ConcentrationMetrics; pareto: ParetoPoint[] } {
+  const premium = entities.reduce((sum, entity) => sum + entity.premium, 0);
+  let cumulative = 0;
+  const pareto = entities.map((entity, index) => {
+    cumulative += entity.premium;
+    return {
+      rank: index + 1,
+      name: entity.name,
+      premium: entity.premium,
+      sharePct: safeDivide(entity.premium, premium) * 100,
+      cumulativePct: safeDivide(cumulative, premium) * 100,
+      entityPct: safeDivide(index + 1, entities.length) * 100,
+    };
+  });
+  const hhi = pareto.reduce((sum, point) => sum + point.sharePct * point.sharePct, 0);
+  const topShare = (n: number) => pareto.length === 0 ? 0 : pareto[Math.min(n, pareto.length) - 1].cumulativePct;
+
+  return {
+    metrics: {
+      key,
+      entityCount: entities.length,
+      premium,
+      hhi,
+      equivalentCount: safeDivide(10000, hhi),
+      topShares: { 5: topShare(5), 10: topShare(10), 20: topShare(20) },
+    },
+    pareto,
+  };
+}
+
+/**
+ * HHI, top-N shares and the Pareto curve for one dimension, over all records and per year (oldest first)
+ */
+export function calculateConcentration(records: ReinsuranceData[], dimension: ConcentrationDimension): ConcentrationResult {
+  const byYear = new Map<number, ReinsuranceData[]>();
+  records.forEach(record => {
+    const year = getRecordYear(record);
+    if (!year) return;
+    const yearRecords = byYear.get(year) ?? [];
+    yearRecords.push(record);
+    byYear.set(year, yearRecords);
+  });
+
+  const overall = measure('All', sumByEntity(records, dimension));
+  const years = [...byYear.keys()].sort((a, b) => a - b)
+    .map(year => measure(String(year), sumByEntity(byYear.get(year)!, dimension)));
+
+  return {
+    dimension,
+    overall: overall.metrics,
+    years: years.map(year => year.metrics),
+    pareto: Object.fromEntries([overall, ...years].map(({ metrics, pareto }) => [metrics.key, pareto])),
+  };
+}
@@ -0,0 +1,246 @@
+import { ReinsuranceData } from './schema';
+
+/**
+ * ISO 3166 country reference
+ * The extract spells countries several ways (Country "Saudi Arabia", Country Name "KSA", emirates on their own),
+ * so records are tagged with an ISO 3166-1 alpha-3 code at ingestion and geography joins on the code.
+ * This module has no server dependencies so the map can use it in the browser.
+ */
+
+export interface CountryReference {
+  /** ISO 3166-1 alpha-3 code */
+  code: string;
+  /** ISO 3166-1 alpha-2 code */
+  alpha2: string;
+  /** ISO 3166-1 numeric code, which world-atlas geometry uses as feature id; null when the country has none */
+  numeric: string | null;
+  name: string;
+  /** Other spellings used in extracts */
+  aliases: string[];
+  /** Emirates, provinces etc. written in place of the country; they resolve to it but do not match it as a filter */
+  subdivisions?: string[];
+  /** Region and Hub for rows that leave them blank */
+  region: string;
+  hub: string;
+}
+
+/**
+ * A multi-country scope written in the Country column, e.g. "G.C.C. Countries"
+ * These have no ISO code and are reported separately from unknown spellings.
+ */
+export interface RegionalScope {
+  name: string;
+  aliases: string[];
+  region: string;
+  hub: string;
+}
+
+const country = (
+  code: string,
+  alpha2: string,
+  numeric: string | null,
+  name: string,
+  region: string,
+  hub: string,
+  aliases: string[] = [],
+  subdivisions?: string[]
+): CountryReference => ({ code, alpha2, numeric, name, aliases, subdivisions, region, hub });
+
+export const COUNTRIES: CountryReference[] = [
+  country('AFG', 'AF', '004', 'Afghanistan', 'Asia', 'ISC'),
+  country('ALB', 'AL', '008', 'Albania', 'Europe', 'CEE'),
+  country('DZA', 'DZ', '012', 'Algeria', 'Africa', 'North Africa'),
+  country('AGO', 'AO', '024', 'Angola', 'Africa', 'Sub-Sahara'),
+  country('ARM', 'AM', '051', 'Armenia', 'Asia', 'CIS'),
+  country('AUS', 'AU', '036', 'Australia', 'Oceania', 'Australia'),
+  country('AZE', 'AZ', '031', 'Azerbaijan', 'Asia', 'CIS'),
+  country('BHR', 'BH', '048', 'Bahrain', 'Asia', 'GCC', ['Kingdom of Bahrain']),
+  country('BGD', 'BD', '050', 'Bangladesh', 'Asia', 'ISC'),
+  country('BEN', 'BJ', '204', 'Benin', 'Africa', 'Sub-Sahara'),
+  country('BMU', 'BM', '060', 'Bermuda', 'Americas', 'North America'),
+  country('BOL', 'BO', '068', 'Bolivia', 'Americas', 'America (South)', ['Bolivia (Plurinational State of)']),
+  country('BIH', 'BA', '070', 'Bosnia and Herzegovina', 'Europe', 'CEE', ['Bosnia Herzegovina', 'Bosnia and Herz.', 'Bosnia']),
+  country('BWA', 'BW', '072', 'Botswana', 'Africa', 'Sub-Sahara'),
+  country('BRN', 'BN', '096', 'Brunei', 'Asia', 'South East Asia', ['Brunei Darussalam']),
+  country('BGR', 'BG', '100', 'Bulgaria', 'Europe', 'CEE'),
+  country('CHN', 'CN', '156', 'China', 'Asia', 'Far East', ["People's Republic of China", 'PRC']),
+  country('CRI', 'CR', '188', 'Costa Rica', 'Americas', 'America (South)'),
+  country('CYP', 'CY', '196', 'Cyprus', 'Asia', 'Mediterranean (Asia)'),
+  country('CZE', 'CZ', '203', 'Czechia', 'Europe', 'CEE', ['Czech Republic']),
+  country('DJI', 'DJ', '262', 'Djibouti', 'Africa', 'Sub-Sahara'),
+  country('EGY', 'EG', '818', 'Egypt', 'Africa', 'North Africa'),
+  country('GNQ', 'GQ', '226', 'Equatorial Guinea', 'Africa', 'Sub-Sahara', ['Eq. Guinea']),
+  country('ETH', 'ET', '231', 'Ethiopia', 'Africa', 'Sub-Sahara'),
+  country('GMB', 'GM', '270', 'Gambia', 'Africa', 'Sub-Sahara', ['The Gambia']),
+  country('GEO', 'GE', '268', 'Georgia', 'Europe', 'CEE'),
+  country('DEU', 'DE', '276', 'Germany', 'Europe', 'Europe (West)'),
+  country('GHA', 'GH', '288', 'Ghana', 'Africa', 'Sub-Sahara'),
+  country('GRC', 'GR', '300', 'Greece', 'Europe', 'Europe (West)'),
+  country('HKG', 'HK', '344', 'Hong Kong', 'Asia', 'Far East'),
+  country('IND', 'IN', '356', 'India', 'Asia', 'ISC'),
+  country('IDN', 'ID', '360', 'Indonesia', 'Asia', 'South East Asia'),
+  country('IRQ', 'IQ', '368', 'Iraq', 'Asia', 'Arab'),
+  country('CIV', 'CI', '384', "Côte d'Ivoire", 'Africa', 'Sub-Sahara', ['Ivory Coast', "Cote d'Ivoire"]),
+  country('JOR', 'JO', '400', 'Jordan', 'Asia', 'Mediterranean (Asia)'),
+  country('KAZ', 'KZ', '398', 'Kazakhstan', 'Asia', 'CIS'),
+  country('KEN', 'KE', '404', 'Kenya', 'Africa', 'Sub-Sahara'),
+  country('KOR', 'KR', '410', 'South Korea', 'Asia', 'Far East', ['Korea (S)', 'Korea, Republic of', 'Republic of Korea', 'Korea']),
+  // Kosovo has no ISO 3166 code; XKX is the user-assigned code most datasets use
+  country('XKX', 'XK', null, 'Kosovo', 'Europe', 'CEE'),
+  country('KWT', 'KW', '414', 'Kuwait', 'Asia', 'GCC', ['State of Kuwait']),
+  country('KGZ', 'KG', '417', 'Kyrgyzstan', 'Asia', 'CIS', ['Kyrgyz Republic']),
+  country('LAO', 'LA', '418', 'Laos', 'Asia', 'South East Asia', ["Lao People's Democratic Republic", 'Lao PDR']),
+  country('LVA', 'LV', '428', 'Latvia', 'Europe', 'CEE'),
+  country('LBN', 'LB', '422', 'Lebanon', 'Asia', 'Mediterranean (Asia)'),
+  country('LBY', 'LY', '434', 'Libya', 'Africa', 'North Africa'),
+  country('MKD', 'MK', '807', 'North Macedonia', 'Europe', 'CEE', ['Macedonia']),
+  country('MDG', 'MG', '450', 'Madagascar', 'Africa', 'Africa (off-coast)', ['Madagascar (Malagasy Republic)', 'Malagasy Republic']),
+  country('MYS', 'MY', '458', 'Malaysia', 'Asia', 'South East Asia'),
+  country('MDV', 'MV', '462', 'Maldives', 'Asia', 'ISC'),
+  country('MLT', 'MT', '470', 'Malta', 'Europe', 'Europe (West)'),
+  country('MUS', 'MU', '480', 'Mauritius', 'Africa', 'Africa (off-coast)'),
+  country('MEX', 'MX', '484', 'Mexico', 'Americas', 'North America'),
+  country('MNG', 'MN', '496', 'Mongolia', 'Asia', 'Far East'),
+  country('MAR', 'MA', '504', 'Morocco', 'Africa', 'North Africa'),
+  country('MOZ', 'MZ', '508', 'Mozambique', 'Africa', 'Sub-Sahara'),
+  country('MMR', 'MM', '104', 'Myanmar', 'Asia', 'South East Asia', ['Burma']),
+  country('NPL', 'NP', '524', 'Nepal', 'Asia', 'ISC'),
+  country('NZL', 'NZ', '554', 'New Zealand', 'Oceania', 'New Zealand'),
+  country('NGA', 'NG', '566', 'Nigeria', 'Africa', 'Sub-Sahara'),
+  country('NOR', 'NO', '578', 'Norway', 'Europe', 'Europe (West)'),
+  country('OMN', 'OM', '512', 'Oman', 'Asia', 'GCC', ['Sultanate of Oman']),
+  country('PAK', 'PK', '586', 'Pakistan', 'Asia', 'ISC'),
+  country('PSE', 'PS', '275', 'Palestine', 'Asia', 'Mediterranean (Asia)', ['State of Palestine', 'Palestinian Territories']),
+  country('PHL', 'PH', '608', 'Philippines', 'Asia', 'South East Asia'),
+  country('POL', 'PL', '616', 'Poland', 'Europe', 'CEE'),
+  country('QAT', 'QA', '634', 'Qatar', 'Asia', 'GCC', ['State of Qatar']),
+  country('ROU', 'RO', '642', 'Romania', 'Europe', 'CEE'),
+  country('RUS', 'RU', '643', 'Russia', 'Europe', 'CEE', ['Russian Federation']),
+  country('SAU', 'SA', '682', 'Saudi Arabia', 'Asia', 'GCC', ['KSA', 'Kingdom of Saudi Arabia']),
+  country('SEN', 'SN', '686', 'Senegal', 'Africa', 'Sub-Sahara'),
+  country('SGP', 'SG', '702', 'Singapore', 'Asia', 'South East Asia'),
+  country('SVK', 'SK', '703', 'Slovakia', 'Europe', 'CEE', ['Slovak Republic']),
+  country('SVN', 'SI', '705', 'Slovenia', 'Europe', 'CEE'),
+  country('ZAF', 'ZA', '710', 'South Africa', 'Africa', 'Sub-Sahara'),
+  country('ESP', 'ES', '724', 'Spain', 'Europe', 'Europe (West)'),
+  country('LKA', 'LK', '144', 'Sri Lanka', 'Asia', 'ISC'),
+  country('SDN', 'SD', '729', 'Sudan', 'Africa', 'Sub-Sahara'),
+  country('TWN', 'TW', '158', 'Taiwan', 'Asia', 'Far East'),
+  country('TJK', 'TJ', '762', 'Tajikistan', 'Asia', 'CIS'),
+  country('TZA', 'TZ', '834', 'Tanzania', 'Africa', 'Sub-Sahara', ['United Republic of Tanzania']),
+  country('THA', 'TH', '764', 'Thailand', 'Asia', 'South East Asia'),
+  country('TUN', 'TN', '788', 'Tunisia', 'Africa', 'North Africa'),
+  country('TUR', 'TR', '792', 'Turkey', 'Asia', 'Turkey', ['Türkiye', 'Turkiye']),
+  country('TKM', 'TM', '795', 'Turkmenistan', 'Asia', 'CIS'),
+  country('UGA', 'UG', '800', 'Uganda', 'Africa', 'Sub-Sahara'),
+  country('UKR', 'UA', '804', 'Ukraine', 'Europe', 'CEE'),
+  country('ARE', 'AE', '784', 'United Arab Emirates', 'Asia', 'GCC', ['UAE'], [
+    'Abu Dhabi', 'Dubai', 'Sharjah', 'Ajman', 'Fujairah', 'Fujeirah', 'Ras Al Khaimah', 'Umm Al Quwain',
+  ]),
+  country('GBR', 'GB', '826', 'United Kingdom', 'Europe', 'Europe (West)', ['UK', 'Great Britain', 'England']),
+  country('USA', 'US', '840', 'United States', 'Americas', 'North America', ['U.S.A.', 'US', 'United States of America']),
+  country('UZB', 'UZ', '860', 'Uzbekistan', 'Asia', 'CIS'),
+  country('VEN', 'VE', '862', 'Venezuela', 'Americas', 'America (South)', ['Venezuela (Bolivarian Republic of)']),
+  country('VNM', 'VN', '704', 'Vietnam', 'Asia', 'South East Asia', ['Viet Nam']),
+  country('YEM', 'YE', '887', 'Yemen', 'Asia', 'Arab'),
+  country('ZMB', 'ZM', '894', 'Zambia', 'Africa', 'Sub-Sahara'),
+];
+
+export const REGIONAL_SCOPES: RegionalScope[] = [
+  { name: 'G.C.C. Countries', aliases: ['GCC', 'Gulf Cooperation Council'], region: 'Asia', hub: 'GCC' },
+  { name: 'African Countries', aliases: ['Africa'], region: 'Africa', hub: '' },
+  { name: 'World - Wide', aliases: ['Worldwide'], region: '', hub: '' },
+];
+
+/**
+ * Lookup key for a country spelling: case, punctuation and spacing are ignored, so "U.S.A." matches "USA"
+ */
+export function getCountryKey(name: string | null | undefined): string {
+  return (name ?? '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const countriesByKey = new Map<string, { country: CountryReference; subdivision: boolean }>();
+COUNTRIES.forEach(entry => {
+  [entry.code, entry.name, ...entry.aliases].forEach(name => {
+    countriesByKey.set(getCountryKey(name), { country: entry, subdivision: false });
+  });
+  entry.subdivisions?.forEach(name => {
+    countriesByKey.set(getCountryKey(name), { country: entry, subdivision: true });
+  });
+});
+
+const countriesByCode = new Map(COUNTRIES.map(entry => [entry.code, entry]));
+const countriesByNumeric = new Map(COUNTRIES.filter(entry => entry.numeric).map(entry => [entry.numeric, entry]));
+
+const scopesByKey = new Map<string, RegionalScope>();
+REGIONAL_SCOPES.forEach(scope => {
+  [scope.name, ...scope.aliases].forEach(name => scopesByKey.set(getCountryKey(name), scope));
+});
+
+function lookupCountry(name: string | null | undefined) {
+  const match = countriesByKey.get(getCountryKey(name));
+  if (match || !name) return match;
+  // "UAE - Dubai" style names from the Country Name column resolve on the part after the dash
+  const dash = name.lastIndexOf(' - ');
+  return dash > 0 ? countriesByKey.get(getCountryKey(name.slice(dash + 3))) : undefined;
+}
+
+/**
+ * Country for a spelling, alias, alpha-3 code or subdivision, or null when it is not a known country
+ */
+export function findCountry(name: string | null | undefined): CountryReference | null {
+  return lookupCountry(name)?.country ?? null;
+}
+
+/**
+ * Country for an ISO 3166-1 alpha-3 code
+ */
+export function getCountryByCode(code: string | null | undefined): CountryReference | null {
+  return code ? countriesByCode.get(code.toUpperCase()) ?? null : null;
+}
+
+/**
+ * Country for an ISO 3166-1 numeric code such as "682"
+ */
+export function getCountryByNumeric(numeric: string | number | null | undefined): CountryReference | null {
+  return numeric === null || numeric === undefined ? null : countriesByNumeric.get(String(numeric).padStart(3, '0')) ?? null;
+}
+
+/**
+ * Regional scope for a Country value such as "G.C.C. Countries", or null
+ */
+export function findRegionalScope(name: string | null | undefined): RegionalScope | null {
+  return scopesByKey.get(getCountryKey(name)) ?? null;
+}
+
+/**
+ * Default Region and Hub for a Country value, from its country or regional scope
+ */
+export function getGeographyDefaults(name: string | null | undefined): { region: string; hub: string } | null {
+  const match = findCountry(name) ?? findRegionalScope(name);
+  return match ? { region: match.region, hub: match.hub } : null;
+}
+
+/**
+ * Country code a country filter matches on, or null when it names a subdivision, regional scope or unknown spelling
+ */
+export function getCountryFilterCode(filterValue: string): string | null {
+  const match = lookupCountry(filterValue);
+  return match && !match.subdivision ? match.country.code : null;
+}
+
+/**
+ * Whether a record matches a country filter
+ * The raw spelling always matches; a filter naming a country (by name, alias or code) also matches every record
+ * tagged with that country's code, so "KSA" finds "Saudi Arabia" rows. Subdivisions only match their own spelling.
+ */
+export function matchesCountry(filterValue: string, record: Pick<ReinsuranceData, 'countryName' | 'countryCode'>): boolean {
+  if (getCountryKey(filterValue) === getCountryKey(record.countryName)) return true;
+  const code = getCountryFilterCode(filterValue);
+  return !!code && code === record.countryCode;
+}
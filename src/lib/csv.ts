@@ -0,0 +1,94 @@
+/**
+ * Minimal RFC 4180 CSV parser and writer
+ *
+ * Handles quoted fields containing commas, line breaks and escaped quotes ("").
+ * Accepts both CRLF and LF line endings and ignores a leading UTF-8 BOM.
+ */
+
+/**
+ * Parse CSV text into rows of raw string fields
+ * Blank lines are dropped; fields are returned untrimmed.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    // Skip empty lines (a single empty field)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last row when the file has no trailing newline
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Build a header-name -> column-index lookup from the header row
+ * Header names are matched case-insensitively after trimming.
+ */
+export function indexHeaders(headers: string[]): Map<string, number> {
+  const index = new Map<string, number>();
+  headers.forEach((header, i) => {
+    const key = header.trim().toLowerCase();
+    if (!index.has(key)) index.set(key, i);
+  });
+  return index;
+}
+
+/**
+ * Format rows as CSV text, quoting fields that contain commas, quotes or line breaks
+ */
+export function formatCsv(rows: Array<Array<string | number | null>>): string {
+  return rows
+    .map(row => row
+      .map(field => {
+        const value = field === null ? '' : String(field);
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+      })
+      .join(','))
+    .join('\n');
+}
@@ -0,0 +1,124 @@
+import { watch, FSWatcher } from 'fs';
+import path from 'path';
+import { getDataDirectory, getManifestPath, resolveDatasetFiles } from './datasets';
+import { invalidateReinsuranceData, loadIngestionReport } from './ingestion';
+import { getFxRatesPath } from './fx';
+import { getEntityAliasesPath } from './entities';
+
+/**
+ * Dataset change notifications
+ * One watcher on the data directory invalidates the shared ingestion cache, reloads it once and
+ * notifies every subscriber (the /api/events stream), so all routes and open pages move together.
+ */
+
+/**
+ * Event sent to subscribers after the record set has been reloaded
+ */
+export interface DatasetUpdatedEvent {
+  type: 'dataset-updated';
+  loadedAt: string;
+  totalRecords: number;
+  changedFile: string | null;
+}
+
+type DataEventListener = (event: DatasetUpdatedEvent) => void;
+
+// Editors and copy tools write in several steps; wait for the directory to settle before reloading
+const RELOAD_DEBOUNCE_MS = 500;
+
+const listeners = new Set<DataEventListener>();
+let watchers: FSWatcher[] = [];
+let watching = false;
+let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Whether a changed file can affect the record set
+ */
+function isDatasetFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.csv')
+    || [getManifestPath(), getFxRatesPath(), getEntityAliasesPath()].includes(filePath);
+}
+
+/**
+ * Invalidate, reload and notify after a dataset file change
+ */
+async function reloadAndNotify(changedFile: string | null): Promise<void> {
+  invalidateReinsuranceData();
+  try {
+    const report = await loadIngestionReport();
+    const event: DatasetUpdatedEvent = {
+      type: 'dataset-updated',
+      loadedAt: report.loadedAt,
+      totalRecords: report.records.length,
+      changedFile,
+    };
+    console.log('Data events - Dataset reloaded after change to', changedFile ?? 'data directory');
+    listeners.forEach(listener => listener(event));
+  } catch (error) {
+    // A half-written file fails to parse; the next change event retries
+    console.error('Data events - Reload failed:', error);
+  }
+}
+
+function scheduleReload(changedFile: string | null): void {
+  if (reloadTimer) clearTimeout(reloadTimer);
+  reloadTimer = setTimeout(() => {
+    reloadTimer = null;
+    reloadAndNotify(changedFile);
+  }, RELOAD_DEBOUNCE_MS);
+}
+
+/**
+ * Watch the data directory plus the directories of every registered extract, the FX rate table and the alias table
+ * Directories are watched rather than files so replaced (renamed-over) extracts are still seen.
+ */
+async function startWatcher(): Promise<void> {
+  if (watching) return;
+  watching = true;
+
+  const files = await resolveDatasetFiles().catch(() => []);
+  // The last subscriber may have left while the registry was being resolved
+  if (!watching) return;
+
+  const directories = new Set([
+    getDataDirectory(),
+    path.dirname(getFxRatesPath()),
+    path.dirname(getEntityAliasesPath()),
+    ...files.map(file => path.dirname(file.path)),
+  ]);
+
+  directories.forEach(directory => {
+    const directoryWatcher = watch(directory, (_eventType, fileName) => {
+      const changed = fileName ? path.resolve(directory, fileName.toString()) : null;
+      if (changed && !isDatasetFile(changed)) return;
+      scheduleReload(changed ? path.relative(getDataDirectory(), changed) : null);
+    });
+    directoryWatcher.on('error', error => console.error('Data events - Watcher error:', error));
+    watchers.push(directoryWatcher);
+  });
+  console.log('Data events - Watching', [...directories].join(', '));
+}
+
+function stopWatcher(): void {
+  if (reloadTimer) clearTimeout(reloadTimer);
+  reloadTimer = null;
+  watchers.forEach(directoryWatcher => directoryWatcher.close());
+  watchers = [];
+  watching = false;
+}
+
+/**
+ * Listen for dataset reloads; the watcher runs while at least one listener is subscribed
+ * Returns the unsubscribe function.
+ */
+export function subscribeToDataEvents(listener: DataEventListener): () => void {
+  listeners.add(listener);
+  startWatcher().catch(error => console.error('Data events - Failed to start watcher:', error));
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      stopWatcher();
+    }
+  };
+}
@@ -0,0 +1,281 @@
+import type { DateIssue, IngestionReport, RejectedRow } from './ingestion';
+import { ReinsuranceData } from './schema';
+import { getRecordComDate } from './kpi';
+
+/**
+ * Data-quality checks over the ingestion report
+ * Rejected rows come from schema validation; the other checks look at accepted records. Each check lists the
+ * offending rows by file and line so data stewards can fix the source extract.
+ */
+
+export const DATA_QUALITY_CHECKS = [
+  {
+    id: 'missing-fields',
+    label: 'Missing mandatory fields',
+    description: 'Rows rejected because a required column is blank',
+  },
+  {
+    id: 'zero-premium-claims',
+    label: 'Zero premium with claims',
+    description: 'Policies with no Gross UW Prem but paid or outstanding claims',
+  },
+  {
+    id: 'negative-values',
+    label: 'Negative values',
+    description: 'Negative amounts: premium, acquisition and claim adjustments (kept in every total), rejected Max Liability cells, and negative shares, lines or FC amounts',
+  },
+  {
+    id: 'duplicate-view-extract',
+    label: 'Duplicate View Extract',
+    description: 'Several rows with the same UY and View Extract, and extracts superseded by a later file',
+  },
+  {
+    id: 'com-date-outside-uy',
+    label: 'Com date outside UY',
+    description: 'Com dates whose year differs from the underwriting year',
+  },
+  {
+    id: 'ambiguous-date',
+    label: 'Ambiguous dates',
+    description: 'D/M/Y dates where day and month could be swapped: read as DD/MM, or rejected when dates are strict',
+  },
+  {
+    id: 'unparsable-date',
+    label: 'Unparsable dates',
+    description: 'Date cells that are not a valid date in the file\'s configured format',
+  },
+] as const;
+
+export type DataQualityCheckId = typeof DATA_QUALITY_CHECKS[number]['id'];
+
+/**
+ * One offending row (or cell) found by a check
+ */
+export interface DataQualityIssue {
+  file: string | null;
+  row: number | null;
+  viewExtract: string | null;
+  uy: string | null;
+  cedant: string | null;
+  column: string | null;
+  value: string | null;
+  detail: string;
+}
+
+export interface DataQualityCheckResult {
+  id: DataQualityCheckId;
+  label: string;
+  description: string;
+  count: number;
+  /** Issue counts per column or kind, largest first */
+  breakdown: Array<{ label: string; count: number }>;
+  issues: DataQualityIssue[];
+}
+
+/**
+ * Issue count per check, as stored with each snapshot for the trend
+ */
+export type DataQualityCounts = Partial<Record<DataQualityCheckId, number>>;
+
+// Premium, acquisition and claim columns whose negative adjustment rows are accepted and counted in totals
+const ADJUSTMENT_COLUMNS: Array<[keyof ReinsuranceData, string]> = [
+  ['grossUWPrem', 'Gross UW Prem'],
+  ['grossBookPrem', 'Gross Book Prem'],
+  ['grossActualAcq', 'Gross Actual Acq.'],
+  ['grossPaidClaims', 'Gross paid claims'],
+  ['grossOsLoss', 'Gross os loss'],
+];
+
+// Optional numeric columns the schema does not constrain to be non-negative
+const OPTIONAL_AMOUNT_COLUMNS: Array<[keyof ReinsuranceData, string]> = [
+  ['signSharePct', 'Sign share %'],
+  ['acceptedShare', 'Accepted Share'],
+  ['writtenLine', 'Written Line'],
+  ['signedLine', 'Signed Line'],
+  ['tsi100FC', '100% TSI (FC)'],
+  ['orgPremFC', 'Org Prem (FC)'],
+];
+
+function recordIssue(record: ReinsuranceData, column: string | null, value: string | null, detail: string): DataQualityIssue {
+  return {
+    file: record.sourceFile ?? null,
+    row: record.sourceRow ?? null,
+    viewExtract: record.viewExtract ?? null,
+    uy: record.uy,
+    cedant: record.cedant,
+    column,
+    value,
+    detail,
+  };
+}
+
+function rejectedIssue(issue: RejectedRow): DataQualityIssue {
+  return {
+    file: issue.file ?? null,
+    row: issue.row,
+    viewExtract: null,
+    uy: null,
+    cedant: null,
+    column: issue.column,
+    value: issue.value,
+    detail: issue.reason,
+  };
+}
+
+function countBy(issues: DataQualityIssue[], label: (issue: DataQualityIssue) => string) {
+  const counts = new Map<string, number>();
+  issues.forEach(issue => counts.set(label(issue), (counts.get(label(issue)) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([key, count]) => ({ label: key, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+function findMissingFields(report: IngestionReport): DataQualityIssue[] {
+  return report.rejected
+    .filter(issue => issue.column && issue.reason.endsWith('is required'))
+    .map(rejectedIssue);
+}
+
+function findZeroPremiumClaims(records: ReinsuranceData[]): DataQualityIssue[] {
+  return records
+    .filter(record => record.grossUWPrem === 0 && record.grossPaidClaims + record.grossOsLoss > 0)
+    .map(record => recordIssue(
+      record,
+      'Gross UW Prem',
+      '0',
+      `Paid ${record.grossPaidClaims}, outstanding ${record.grossOsLoss}`
+    ));
+}
+
+function findNegativeValues(report: IngestionReport): DataQualityIssue[] {
+  const rejected = report.rejected
+    .filter(issue => issue.reason.endsWith('must be non-negative'))
+    .map(rejectedIssue);
+
+  const accepted: DataQualityIssue[] = [];
+  report.records.forEach(record => {
+    ADJUSTMENT_COLUMNS.forEach(([field, column]) => {
+      const value = record[field];
+      if (typeof value === 'number' && value < 0) {
+        accepted.push(recordIssue(record, column, String(value), `Negative ${column} adjustment, included in totals`));
+      }
+    });
+    OPTIONAL_AMOUNT_COLUMNS.forEach(([field, column]) => {
+      const value = record[field];
+      if (typeof value === 'number' && value < 0) {
+        accepted.push(recordIssue(record, column, String(value), `${column} is negative`));
+      }
+    });
+  });
+  return [...rejected, ...accepted];
+}
+
+function findDuplicateViewExtracts(report: IngestionReport): DataQualityIssue[] {
+  const groups = new Map<string, ReinsuranceData[]>();
+  report.records.forEach(record => {
+    if (!record.viewExtract) return;
+    const key = `${record.uy}|${record.viewExtract}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  });
+
+  const issues: DataQualityIssue[] = [];
+  groups.forEach(group => {
+    if (group.length < 2) return;
+    group.forEach(record => issues.push(recordIssue(
+      record,
+      'View Extract',
+      record.viewExtract ?? null,
+      `${group.length} rows share UY ${record.uy} and this View Extract`
+    )));
+  });
+
+  report.duplicates.forEach(duplicate => issues.push({
+    file: duplicate.supersededFile,
+    row: null,
+    viewExtract: duplicate.viewExtract,
+    uy: null,
+    cedant: null,
+    column: 'View Extract',
+    value: duplicate.viewExtract,
+    detail: `${duplicate.supersededRows} row(s) superseded by ${duplicate.file}`,
+  }));
+  return issues;
+}
+
+function findComDatesOutsideUy(records: ReinsuranceData[]): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  records.forEach(record => {
+    const comDate = getRecordComDate(record);
+    const uy = parseInt(record.uy, 10);
+    if (!comDate || isNaN(uy) || comDate.getFullYear() === uy) return;
+    issues.push(recordIssue(record, 'Com date', record.comDate ?? null, `Com date year ${comDate.getFullYear()} is not UY ${uy}`));
+  });
+  return issues;
+}
+
+function findDateIssues(report: IngestionReport, kind: DateIssue['kind']): DataQualityIssue[] {
+  const recordsByRow = new Map(report.records.map(record => [`${record.sourceFile}:${record.sourceRow}`, record]));
+  return report.dateIssues
+    .filter(issue => issue.kind === kind)
+    .map(issue => {
+      const detail = kind === 'unparsable'
+        ? 'Not a valid date; treated as blank'
+        : issue.readAs ? `Read as ${issue.readAs}; day and month could be swapped` : 'Row rejected: day and month could be swapped';
+      const record = recordsByRow.get(`${issue.file}:${issue.row}`);
+      return record
+        ? recordIssue(record, issue.column, issue.value, detail)
+        : rejectedIssue({ ...issue, reason: detail });
+    });
+}
+
+// Checks broken down by CSV column; the others are broken down by UY
+const COLUMN_BREAKDOWN_CHECKS: ReadonlySet<DataQualityCheckId> = new Set([
+  'missing-fields', 'negative-values', 'ambiguous-date', 'unparsable-date',
+]);
+
+// Results per loaded report; the ingestion cache hands out the same object until the files change
+const resultCache = new WeakMap<IngestionReport, DataQualityCheckResult[]>();
+
+/**
+ * Run every check over an ingestion report
+ */
+export function runDataQualityChecks(report: IngestionReport): DataQualityCheckResult[] {
+  const cached = resultCache.get(report);
+  if (cached) return cached;
+
+  const found: Record<DataQualityCheckId, DataQualityIssue[]> = {
+    'missing-fields': findMissingFields(report),
+    'zero-premium-claims': findZeroPremiumClaims(report.records),
+    'negative-values': findNegativeValues(report),
+    'duplicate-view-extract': findDuplicateViewExtracts(report),
+    'com-date-outside-uy': findComDatesOutsideUy(report.records),
+    'ambiguous-date': findDateIssues(report, 'ambiguous'),
+    'unparsable-date': findDateIssues(report, 'unparsable'),
+  };
+
+  const results = DATA_QUALITY_CHECKS.map(check => {
+    const issues = found[check.id];
+    return {
+      ...check,
+      count: issues.length,
+      breakdown: countBy(issues, issue => COLUMN_BREAKDOWN_CHECKS.has(check.id)
+        ? issue.column ?? '(row)'
+        : issue.uy ? `UY ${issue.uy}` : 'Superseded'),
+      issues,
+    };
+  });
+  resultCache.set(report, results);
+  return results;
+}
+
+/**
+ * Issue count per check
+ */
+export function getDataQualityCounts(results: DataQualityCheckResult[]): DataQualityCounts {
+  return Object.fromEntries(results.map(result => [result.id, result.count]));
+}
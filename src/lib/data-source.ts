@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ReinsuranceData, ReinsuranceDataSchema, PerformanceTotals } from './schema';
+import { DatasetSourceSummary, loadIngestionReport } from './ingestion';
+import { AggregateFilters, DimensionLists, ReportingPeriod, aggregateByPeriod, getDimensionLists } from './kpi';
+import { aggregatePostgres, describePostgresTable, listPostgresDimensions, loadPostgresRecords } from './postgres-source';
+import { convertRecords } from './fx';
+import { resolveRecordEntities } from './entities';
+import { DateParsingSummary, emptyDateSummary, parseDateValue } from './dates';
+
+/**
+ * Pluggable data access for the API routes
+ * Routes ask getDataSource() for records, dimensions and aggregates instead of reading files or tables directly.
+ * The implementation is chosen by DATA_SOURCE (csv, postgres or memory); without it PostgreSQL is used when
+ * DATABASE_URL is set and the CSV registry otherwise.
+ */
+
+export type DataSourceKind = 'csv' | 'postgres' | 'memory';
+
+/**
+ * Period totals plus the total over every period
+ */
+export interface PeriodAggregate {
+  periods: Array<PerformanceTotals & { period: number }>;
+  total: PerformanceTotals;
+}
+
+/**
+ * What a data source is currently serving, as shown by /api/datasets
+ */
+export interface DataSourceSummary {
+  kind: DataSourceKind;
+  datasets: DatasetSourceSummary[];
+  totalRecords: number;
+  duplicateCount: number;
+  loadedAt: string;
+  /** Ambiguous and unparsable dates in the loaded records, returned as metadata by the date-bucketed routes */
+  dates: DateParsingSummary;
+}
+
+export interface DataSource {
+  readonly kind: DataSourceKind;
+  /** All validated records */
+  loadRecords(options?: { forceReload?: boolean }): Promise<ReinsuranceData[]>;
+  /** Sorted unique values for each filter dimension */
+  listDimensions(): Promise<DimensionLists>;
+  /** Performance totals grouped by month, quarter or year, with earned premium at the valuation date (default today) */
+  aggregate(period: ReportingPeriod, filters?: AggregateFilters, valuationDate?: string): Promise<PeriodAggregate>;
+  /** Files or tables behind the current record set */
+  describe(): Promise<DataSourceSummary>;
+}
+
+/**
+ * Data source over a record loader; dimensions and aggregates are computed with the kpi helpers
+ * Loaded records are resolved to canonical cedant and broker entities and their FC amounts converted to KD.
+ */
+function createRecordDataSource(
+  kind: DataSourceKind,
+  loadUnresolved: (options: { forceReload?: boolean }) => Promise<ReinsuranceData[]>,
+  describe: () => Promise<DataSourceSummary>
+): DataSource {
+  const load = async (options: { forceReload?: boolean }) =>
+    convertRecords(await resolveRecordEntities(await loadUnresolved(options)));
+  return {
+    kind,
+    loadRecords: (options = {}) => load(options),
+    listDimensions: async () => getDimensionLists(await load({})),
+    aggregate: async (period, filters = {}, valuationDate) => aggregateByPeriod(await load({}), period, filters, valuationDate),
+    describe,
+  };
+}
+
+/**
+ * Data source over the CSV dataset registry
+ */
+export function createCsvDataSource(): DataSource {
+  return createRecordDataSource(
+    'csv',
+    async options => (await loadIngestionReport(options)).records,
+    async () => {
+      const report = await loadIngestionReport();
+      return {
+        kind: 'csv',
+        datasets: report.sources,
+        totalRecords: report.records.length,
+        duplicateCount: report.duplicates.length,
+        loadedAt: report.loadedAt,
+        dates: report.dates,
+      };
+    }
+  );
+}
+
+/**
+ * Data source over the PostgreSQL policies table
+ * Records are read as for the CSV datasets so figures match; aggregates and dimensions are queried in SQL rather than
+ * computed over the whole table.
+ */
+export function createPostgresDataSource(): DataSource {
+  return {
+    ...createRecordDataSource('postgres', loadPostgresRecords, describePostgresTable),
+    listDimensions: listPostgresDimensions,
+    aggregate: aggregatePostgres,
+  };
+}
+
+/**
+ * Ambiguous and unparsable dates among records that did not go through CSV ingestion, read as kpi.ts reads them
+ */
+function summarizeRecordDates(records: ReinsuranceData[]): DateParsingSummary {
+  const summary = emptyDateSummary();
+  records.forEach(record => {
+    [record.comDate, record.expDate, record.renewalDate].forEach(value => {
+      const { status } = parseDateValue(value, 'auto');
+      if (status === 'ambiguous') summary.ambiguous++;
+      if (status === 'unparsable') summary.unparsable++;
+    });
+  });
+  return summary;
+}
+
+/**
+ * Data source over a fixed set of records, for fixtures and tests
+ */
+export function createMemoryDataSource(records: ReinsuranceData[], label = 'In-memory records'): DataSource {
+  const loadedAt = new Date().toISOString();
+  const dates = summarizeRecordDates(records);
+  return createRecordDataSource(
+    'memory',
+    async () => records,
+    async () => ({
+      kind: 'memory',
+      datasets: [{
+        file: 'memory',
+        label,
+        totalRows: records.length,
+        acceptedRows: records.length,
+        rejectedRows: 0,
+        modifiedAt: loadedAt,
+      }],
+      totalRecords: records.length,
+      duplicateCount: 0,
+      loadedAt,
+      dates,
+    })
+  );
+}
+
+/**
+ * Memory data source seeded from the JSON fixture named by DATA_FIXTURE, or empty without one
+ */
+async function createFixtureDataSource(): Promise<DataSource> {
+  const fixture = process.env.DATA_FIXTURE;
+  if (!fixture) {
+    return createMemoryDataSource([]);
+  }
+
+  const fixturePath = path.resolve(fixture);
+  const parsed = z.array(ReinsuranceDataSchema).safeParse(JSON.parse(await fs.readFile(fixturePath, 'utf-8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid data fixture ${fixturePath}: ${issues.join('; ')}`);
+  }
+  return createMemoryDataSource(parsed.data, path.basename(fixturePath));
+}
+
+/**
+ * Data source kind selected by configuration
+ */
+export function getConfiguredKind(): DataSourceKind {
+  const configured = process.env.DATA_SOURCE?.trim().toLowerCase();
+  if (configured === 'csv' || configured === 'postgres' || configured === 'memory') {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown DATA_SOURCE "${process.env.DATA_SOURCE}" (expected csv, postgres or memory)`);
+  }
+  return process.env.DATABASE_URL ? 'postgres' : 'csv';
+}
+
+// Process-wide data source shared by every route
+let activeSource: DataSource | null = null;
+
+/**
+ * The configured data source, created on first use
+ */
+export async function getDataSource(): Promise<DataSource> {
+  if (!activeSource) {
+    const kind = getConfiguredKind();
+    activeSource = kind === 'postgres'
+      ? createPostgresDataSource()
+      : kind === 'memory'
+        ? await createFixtureDataSource()
+        : createCsvDataSource();
+    console.log('Data source -', activeSource.kind);
+  }
+  return activeSource;
+}
+
+/**
+ * Replace the active data source, e.g. with an in-memory dataset in tests; null restores the configured one
+ */
+export function setDataSource(source: DataSource | null): void {
+  activeSource = source;
+}
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { DATE_FORMATS, DateFormat, DateParsingOptions, toDateFormat } from './dates';
+
+/**
+ * Dataset registry
+ * Resolves which CSV extracts make up the active record set. Files live in the data directory
+ * (DATA_DIR, defaulting to the working directory) and are listed in a manifest (DATASET_MANIFEST,
+ * defaulting to datasets.json). Without a manifest every *.csv file in the data directory is used.
+ * Each file's date format and strictness come from its manifest entry, then the manifest, then DATE_FORMAT and
+ * STRICT_DATES.
+ */
+
+const DEFAULT_MANIFEST = 'datasets.json';
+
+/**
+ * Schema for the dataset manifest file
+ * Extracts are merged in listed order; later files win when the same View Extract appears twice.
+ */
+export const DatasetManifestSchema = z.object({
+  dateFormat: z.enum(DATE_FORMATS).optional(),
+  strictDates: z.boolean().optional(),
+  datasets: z.array(z.object({
+    file: z.string().min(1, 'Dataset file is required'),
+    label: z.string().optional(),
+    enabled: z.boolean().optional(),
+    dateFormat: z.enum(DATE_FORMATS).optional(),
+    strictDates: z.boolean().optional(),
+  })).min(1, 'Manifest must list at least one dataset'),
+});
+
+export type DatasetManifest = z.infer<typeof DatasetManifestSchema>;
+
+/**
+ * A dataset file selected for loading
+ */
+export interface DatasetFile {
+  file: string;
+  label: string;
+  path: string;
+  modified: number;
+  dates: DateParsingOptions;
+}
+
+/**
+ * Directory that holds the manifest and the CSV extracts
+ */
+export function getDataDirectory(): string {
+  return process.env.DATA_DIR ? path.resolve(process.env.DATA_DIR) : process.cwd();
+}
+
+/**
+ * Path of the dataset manifest
+ */
+export function getManifestPath(): string {
+  return path.resolve(getDataDirectory(), process.env.DATASET_MANIFEST || DEFAULT_MANIFEST);
+}
+
+/**
+ * Date parsing settings for files the manifest does not configure: DATE_FORMAT (auto, DMY, MDY or ISO, default
+ * auto) and STRICT_DATES (true rejects ambiguous dates)
+ */
+export function getDefaultDateOptions(): DateParsingOptions {
+  const configured = process.env.DATE_FORMAT;
+  const format = toDateFormat(configured);
+  if (configured?.trim() && !format) {
+    throw new Error(`Unknown DATE_FORMAT "${configured}" (expected ${DATE_FORMATS.join(', ')})`);
+  }
+  return {
+    format: format ?? 'auto',
+    strict: process.env.STRICT_DATES?.trim().toLowerCase() === 'true',
+  };
+}
+
+async function statOrNull(filePath: string) {
+  try {
+    return await fs.stat(filePath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read and validate the manifest, or null when there is none
+ */
+async function readManifest(manifestPath: string): Promise<DatasetManifest | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(manifestPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const parsed = DatasetManifestSchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid dataset manifest ${manifestPath}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolve the active dataset files in merge order
+ */
+export async function resolveDatasetFiles(): Promise<DatasetFile[]> {
+  const dataDir = getDataDirectory();
+  const manifestPath = getManifestPath();
+  const manifest = await readManifest(manifestPath);
+  const defaults = getDefaultDateOptions();
+
+  const entries: Array<{ file: string; label?: string; dateFormat?: DateFormat; strictDates?: boolean }> = manifest
+    ? manifest.datasets.filter(entry => entry.enabled !== false)
+    : (await fs.readdir(dataDir))
+        .filter(name => name.toLowerCase().endsWith('.csv'))
+        .sort()
+        .map(file => ({ file }));
+
+  if (entries.length === 0) {
+    throw new Error(`No dataset files found in ${dataDir}`);
+  }
+
+  const files: DatasetFile[] = [];
+  for (const entry of entries) {
+    const filePath = path.resolve(dataDir, entry.file);
+    const stats = await statOrNull(filePath);
+    if (!stats) {
+      throw new Error(`Dataset file not found: ${filePath}${manifest ? ` (listed in ${manifestPath})` : ''}`);
+    }
+    files.push({
+      file: entry.file,
+      label: entry.label || path.basename(entry.file, path.extname(entry.file)),
+      path: filePath,
+      modified: stats.mtime.getTime(),
+      dates: {
+        format: entry.dateFormat ?? manifest?.dateFormat ?? defaults.format,
+        strict: entry.strictDates ?? manifest?.strictDates ?? defaults.strict,
+      },
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Cache key that changes whenever the manifest, any listed file or a file's date settings change
+ */
+export async function getDatasetSignature(files: DatasetFile[]): Promise<string> {
+  const manifestStats = await statOrNull(getManifestPath());
+  return [
+    manifestStats ? manifestStats.mtime.getTime() : 'no-manifest',
+    ...files.map(file => `${file.path}:${file.modified}:${file.dates.format}:${file.dates.strict}`),
+  ].join('|');
+}
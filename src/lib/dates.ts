@@ -0,0 +1,135 @@
+/**
+ * Date parsing for the CSV date columns
+ * Every source declares how its D/M/Y style values are ordered, so 03/04/2020 always lands in the same month.
+ * ISO values (YYYY-MM-DD) and values with a month name are accepted whatever the configured format.
+ * Browser-safe: no Node imports, so client code can parse dates the same way.
+ */
+
+/**
+ * Order of day and month in numeric dates
+ * auto reads a value as MM/DD only when its second part is above 12, and as DD/MM otherwise; values where both
+ * parts are 12 or below are reported as ambiguous.
+ */
+export const DATE_FORMATS = ['auto', 'DMY', 'MDY', 'ISO'] as const;
+
+export type DateFormat = typeof DATE_FORMATS[number];
+
+/**
+ * Outcome of parsing one cell
+ * date is the ISO date (YYYY-MM-DD) the value was read as, or null when it is blank or unparsable. An ambiguous
+ * value still carries the DD/MM reading; strict sources reject it instead of using it.
+ */
+export interface ParsedDate {
+  date: string | null;
+  status: 'ok' | 'blank' | 'ambiguous' | 'unparsable';
+}
+
+/**
+ * Date parsing settings of one source
+ */
+export interface DateParsingOptions {
+  format: DateFormat;
+  /** Reject rows whose dates are ambiguous instead of assuming DD/MM */
+  strict: boolean;
+}
+
+/**
+ * Ambiguous and unparsable date counts of a load
+ * rejected counts the ambiguous dates strict sources turned into rejected rows; they are included in ambiguous.
+ */
+export interface DateParsingSummary {
+  ambiguous: number;
+  unparsable: number;
+  rejected: number;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ][\d:.]+Z?)?$/;
+const NUMERIC_DATE = /^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})$/;
+// 01 Jan 2020, 01-Jan-20, Jan 01 2020
+const DAY_MONTH_NAME = /^(\d{1,2})[\s\-]([A-Za-z]{3,9})[\s\-,]+(\d{2}|\d{4})$/;
+const MONTH_NAME_DAY = /^([A-Za-z]{3,9})[\s\-](\d{1,2}),?[\s\-](\d{2}|\d{4})$/;
+
+/**
+ * ISO date for a calendar day, or null when the day does not exist (e.g. 31/02)
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > lastDay) return null;
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Two-digit years are read as 20xx, as in the extracts
+function toFullYear(year: string): number {
+  const parsed = parseInt(year, 10);
+  return year.length <= 2 ? 2000 + parsed : parsed;
+}
+
+function monthFromName(name: string): number | null {
+  const index = MONTH_NAMES.indexOf(name.slice(0, 3).toUpperCase());
+  return index >= 0 ? index + 1 : null;
+}
+
+const UNPARSABLE: ParsedDate = { date: null, status: 'unparsable' };
+
+/**
+ * Parse a date cell in a source's format
+ */
+export function parseDateValue(raw: string | undefined, format: DateFormat): ParsedDate {
+  const value = raw?.trim();
+  if (!value) return { date: null, status: 'blank' };
+
+  const iso = value.match(ISO_DATE);
+  if (iso) {
+    const date = toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+    return date ? { date, status: 'ok' } : UNPARSABLE;
+  }
+
+  const named = value.match(DAY_MONTH_NAME) ?? value.match(MONTH_NAME_DAY);
+  if (named) {
+    const [dayPart, monthPart] = /^\d/.test(named[1]) ? [named[1], named[2]] : [named[2], named[1]];
+    const month = monthFromName(monthPart);
+    const date = month ? toIsoDate(toFullYear(named[3]), month, parseInt(dayPart, 10)) : null;
+    return date ? { date, status: 'ok' } : UNPARSABLE;
+  }
+
+  const numeric = value.match(NUMERIC_DATE);
+  if (!numeric || format === 'ISO') return UNPARSABLE;
+
+  const first = parseInt(numeric[1], 10);
+  const second = parseInt(numeric[2], 10);
+  const year = toFullYear(numeric[3]);
+
+  if (format === 'DMY' || format === 'MDY') {
+    const date = format === 'DMY' ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+    return date ? { date, status: 'ok' } : UNPARSABLE;
+  }
+
+  // auto: only a part above 12 tells day from month
+  if (first <= 12 && second > 12) {
+    const date = toIsoDate(year, first, second);
+    return date ? { date, status: 'ok' } : UNPARSABLE;
+  }
+  const date = toIsoDate(year, second, first);
+  if (!date) return UNPARSABLE;
+  return { date, status: first <= 12 && second <= 12 && first !== second ? 'ambiguous' : 'ok' };
+}
+
+/**
+ * Read a date format name case-insensitively, or null when it is not one of DATE_FORMATS
+ */
+export function toDateFormat(value: string | undefined): DateFormat | null {
+  const normalized = value?.trim().toUpperCase();
+  if (!normalized) return null;
+  if (normalized === 'AUTO') return 'auto';
+  return DATE_FORMATS.find(format => format === normalized) ?? null;
+}
+
+/**
+ * Empty summary to add counts to
+ */
+export function emptyDateSummary(): DateParsingSummary {
+  return { ambiguous: 0, unparsable: 0, rejected: 0 };
+}
@@ -0,0 +1,93 @@
+import { ReinsuranceData } from './schema';
+import { parseDateValue } from './dates';
+
+/**
+ * Pro-rata earned premium
+ * Gross UW Prem is earned evenly over the cover period from Com date to Exp date, counting both days. Policies without
+ * an Exp date are taken to run for one year; policies without a usable Com date are treated as fully earned.
+ * Acquisition is deferred the same way, so earned ratios compare like with like.
+ * Browser-safe: the dashboard computes earned KPIs from records in the page.
+ */
+
+/**
+ * Premium figure ratios are based on
+ */
+export type PremiumBasis = 'written' | 'earned';
+
+export const PREMIUM_BASES: readonly PremiumBasis[] = ['written', 'earned'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days since 1970-01-01 for an ISO date, ignoring time zones
+ */
+function toDayNumber(isoDate: string): number {
+  const [year, month, day] = isoDate.split('-').map(part => parseInt(part, 10));
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+/**
+ * Today's date as YYYY-MM-DD, the default valuation date
+ */
+export function getToday(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Valuation date from a query parameter or input, or null when it is not a valid date
+ */
+export function parseValuationDate(value: string | null | undefined): string | null {
+  if (!value?.trim()) return null;
+  return parseDateValue(value, 'ISO').date;
+}
+
+/**
+ * First and last day of cover as day numbers, or null when the record has no usable Com date
+ * A missing or unparsable Exp date, or one before the Com date, is replaced by Com date plus one year less a day.
+ */
+function getCoverDays(record: ReinsuranceData): { start: number; end: number } | null {
+  const comDate = parseDateValue(record.comDate, 'auto').date;
+  if (!comDate) return null;
+  const start = toDayNumber(comDate);
+
+  const expDate = parseDateValue(record.expDate, 'auto').date;
+  const expDay = expDate ? toDayNumber(expDate) : null;
+  if (expDay !== null && expDay >= start) {
+    return { start, end: expDay };
+  }
+  const [year, month, day] = comDate.split('-').map(part => parseInt(part, 10));
+  return { start, end: Date.UTC(year + 1, month - 1, day) / DAY_MS - 1 };
+}
+
+/**
+ * Share of the cover period elapsed at the end of the valuation date, between 0 and 1
+ */
+export function getEarnedFraction(record: ReinsuranceData, valuationDate: string): number {
+  const cover = getCoverDays(record);
+  if (!cover) return 1;
+  const elapsed = toDayNumber(valuationDate) - cover.start + 1;
+  return Math.min(1, Math.max(0, elapsed / (cover.end - cover.start + 1)));
+}
+
+/**
+ * Earned Gross UW Prem and acquisition of one record at the valuation date
+ */
+export function getEarnedAmounts(record: ReinsuranceData, valuationDate: string): { earnedPremium: number; earnedAcquisition: number } {
+  const fraction = getEarnedFraction(record, valuationDate);
+  return {
+    earnedPremium: (record.grossUWPrem || 0) * fraction,
+    earnedAcquisition: (record.grossActualAcq || 0) * fraction,
+  };
+}
+
+/**
+ * Summed earned premium and acquisition of a group of records
+ */
+export function sumEarnedAmounts(records: ReinsuranceData[], valuationDate: string): { earnedPremium: number; earnedAcquisition: number } {
+  return records.reduce((sums, record) => {
+    const amounts = getEarnedAmounts(record, valuationDate);
+    sums.earnedPremium += amounts.earnedPremium;
+    sums.earnedAcquisition += amounts.earnedAcquisition;
+    return sums;
+  }, { earnedPremium: 0, earnedAcquisition: 0 });
+}
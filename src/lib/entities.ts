@@ -0,0 +1,366 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ReinsuranceData } from './schema';
+import { getDataDirectory } from './datasets';
+import { norm } from './normalize';
+
+/**
+ * Cedant and broker entity resolution
+ * The extract spells the same counterparty in several ways. A confirmed alias table (ENTITY_ALIASES_FILE,
+ * defaulting to entity-aliases.json in the data directory) maps raw names to a canonical entity, and loaded
+ * records carry the canonical name and id so every aggregation groups by entity rather than spelling.
+ */
+
+const DEFAULT_ALIASES_FILE = 'entity-aliases.json';
+
+// Suggestions below this similarity are not shown
+const SUGGESTION_THRESHOLD = 0.75;
+const MAX_SUGGESTIONS = 3;
+
+export type EntityType = 'cedant' | 'broker';
+
+export const EntityTypeSchema = z.enum(['cedant', 'broker']);
+
+/**
+ * Schema for the alias table file
+ */
+export const EntityAliasTableSchema = z.object({
+  entities: z.array(z.object({
+    id: z.string().min(1),
+    type: EntityTypeSchema,
+    name: z.string().min(1, 'Entity name is required'),
+    aliases: z.array(z.string()).default([]),
+  })),
+});
+
+export type EntityAliasTable = z.infer<typeof EntityAliasTableSchema>;
+export type CanonicalEntity = EntityAliasTable['entities'][number];
+
+const EMPTY_ALIAS_TABLE: EntityAliasTable = { entities: [] };
+
+/**
+ * A possible match for an unmapped name: a confirmed entity, or another unmapped name (entityId null)
+ */
+export interface EntitySuggestion {
+  entityId: string | null;
+  name: string;
+  score: number;
+}
+
+export interface EntityResolver {
+  /** Canonical id and name for a raw name; unmapped names resolve to themselves with whitespace collapsed */
+  resolve(type: EntityType, rawName: string): { id: string; name: string; mapped: boolean };
+}
+
+/**
+ * Path of the alias table
+ */
+export function getEntityAliasesPath(): string {
+  return path.resolve(getDataDirectory(), process.env.ENTITY_ALIASES_FILE || DEFAULT_ALIASES_FILE);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'entity';
+}
+
+function cleanName(value: string): string {
+  return value.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Id of an entity that is not in the alias table
+ */
+export function getUnmappedEntityId(type: EntityType, rawName: string): string {
+  return `${type}:${slugify(cleanName(rawName))}`;
+}
+
+/**
+ * Build a resolver over an alias table
+ * Names are compared after norm(), so case and spacing differences never need an alias.
+ */
+export function createEntityResolver(table: EntityAliasTable): EntityResolver {
+  const byName = new Map<string, CanonicalEntity>();
+  table.entities.forEach(entity => {
+    [entity.name, ...entity.aliases].forEach(name => {
+      const key = norm(name);
+      if (key) byName.set(`${entity.type}|${key}`, entity);
+    });
+  });
+
+  return {
+    resolve: (type, rawName) => {
+      const entity = byName.get(`${type}|${norm(rawName)}`);
+      return entity
+        ? { id: entity.id, name: entity.name, mapped: true }
+        : { id: getUnmappedEntityId(type, rawName), name: cleanName(rawName), mapped: false };
+    },
+  };
+}
+
+// Abbreviations expanded and legal-form words dropped before names are compared
+const ABBREVIATIONS: Record<string, string> = {
+  ins: 'insurance',
+  insur: 'insurance',
+  reins: 'reinsurance',
+  re: 'reinsurance',
+  co: 'company',
+  coop: 'cooperative',
+  natl: 'national',
+  nat: 'national',
+  intl: 'international',
+  grp: 'group',
+  mgmt: 'management',
+};
+
+// Words most names share; they say nothing about which counterparty is meant
+const GENERIC_WORDS = new Set([
+  'insurance', 'reinsurance', 'assurance', 'general', 'group', 'broker', 'brokers', 'brokerage',
+]);
+
+const LEGAL_FORMS = new Set([
+  'company', 'ltd', 'limited', 'plc', 'llc', 'inc', 'corp', 'corporation', 'sa', 'sal', 'sak', 'saog', 'saoc',
+  'psc', 'pjsc', 'bsc', 'jsc', 'ec', 'kscp', 'ksc', 'pte', 'pvt', 'private', 'wll', 'the', 'and', 'of',
+]);
+
+/**
+ * Comparison key for a counterparty name: abbreviations expanded, punctuation, legal forms and generic words removed
+ * A name made only of generic words keeps them.
+ */
+export function getEntityMatchKey(name: string): string {
+  const tokens = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '')
+    .split(/[^a-z0-9]+/)
+    .map(token => ABBREVIATIONS[token] ?? token)
+    .filter(token => token && !LEGAL_FORMS.has(token));
+  const distinctive = tokens.filter(token => !GENERIC_WORDS.has(token));
+  return (distinctive.length > 0 ? distinctive : tokens).join(' ');
+}
+
+function bigrams(value: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+interface PreparedName {
+  key: string;
+  grams: Map<string, number>;
+}
+
+function prepareName(name: string): PreparedName {
+  const key = getEntityMatchKey(name);
+  return { key, grams: bigrams(key) };
+}
+
+/**
+ * Dice coefficient over character bigrams of two prepared match keys (0 to 1)
+ */
+function diceSimilarity(a: PreparedName, b: PreparedName): number {
+  if (!a.key || !b.key) return 0;
+  if (a.key === b.key) return 1;
+
+  let overlap = 0;
+  a.grams.forEach((count, gram) => {
+    overlap += Math.min(count, b.grams.get(gram) ?? 0);
+  });
+  return (2 * overlap) / (a.key.length - 1 + b.key.length - 1);
+}
+
+/**
+ * Similarity of two counterparty names (0 to 1), ignoring legal forms and common abbreviations
+ */
+export function getNameSimilarity(a: string, b: string): number {
+  return diceSimilarity(prepareName(a), prepareName(b));
+}
+
+/**
+ * Fuzzy-match suggestions for each unmapped name, against confirmed entities and the other unmapped names
+ */
+export function suggestEntityMatches(
+  type: EntityType,
+  unmappedNames: string[],
+  table: EntityAliasTable
+): Map<string, EntitySuggestion[]> {
+  const candidates = [
+    ...table.entities
+      .filter(entity => entity.type === type)
+      .flatMap(entity => [entity.name, ...entity.aliases].map(name => ({ entityId: entity.id, entityName: entity.name, name }))),
+    ...unmappedNames.map(name => ({ entityId: null, entityName: name, name })),
+  ].map(candidate => ({ ...candidate, prepared: prepareName(candidate.name) }));
+
+  const suggestions = new Map<string, EntitySuggestion[]>();
+  unmappedNames.forEach(unmapped => {
+    const prepared = prepareName(unmapped);
+    const best = new Map<string, EntitySuggestion>();
+    candidates.forEach(candidate => {
+      if (candidate.entityId === null && candidate.name === unmapped) return;
+      const score = diceSimilarity(prepared, candidate.prepared);
+      if (score < SUGGESTION_THRESHOLD) return;
+      const key = candidate.entityId ?? candidate.entityName;
+      if ((best.get(key)?.score ?? 0) < score) {
+        best.set(key, { entityId: candidate.entityId, name: candidate.entityName, score });
+      }
+    });
+    suggestions.set(unmapped, [...best.values()].sort((a, b) => b.score - a.score).slice(0, MAX_SUGGESTIONS));
+  });
+  return suggestions;
+}
+
+// Alias table cache keyed by file path and modification time
+let tableCache: { signature: string; table: EntityAliasTable } | null = null;
+
+/**
+ * Read and validate the alias table; without a file every name is its own entity
+ */
+export async function loadEntityAliases(): Promise<EntityAliasTable> {
+  const aliasesPath = getEntityAliasesPath();
+  let signature: string;
+  try {
+    signature = `${aliasesPath}:${(await fs.stat(aliasesPath)).mtime.getTime()}`;
+  } catch {
+    return EMPTY_ALIAS_TABLE;
+  }
+
+  if (tableCache?.signature === signature) {
+    return tableCache.table;
+  }
+
+  const parsed = EntityAliasTableSchema.safeParse(JSON.parse(await fs.readFile(aliasesPath, 'utf-8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid entity alias table ${aliasesPath}: ${issues.join('; ')}`);
+  }
+
+  tableCache = { signature, table: parsed.data };
+  return parsed.data;
+}
+
+/**
+ * Replace cedant and broker names with their canonical entity and add the entity ids
+ */
+export function applyEntityResolution(records: ReinsuranceData[], resolver: EntityResolver): ReinsuranceData[] {
+  return records.map(record => {
+    const cedant = resolver.resolve('cedant', record.cedant);
+    const broker = resolver.resolve('broker', record.broker);
+    return {
+      ...record,
+      cedant: cedant.name,
+      cedantId: cedant.id,
+      broker: broker.name,
+      brokerId: broker.id,
+    };
+  });
+}
+
+// Resolved record sets keyed by the loaded array, so cached loads are only resolved once per alias table
+const resolvedCache = new WeakMap<ReinsuranceData[], { table: EntityAliasTable; records: ReinsuranceData[] }>();
+
+/**
+ * Resolve a loaded record set with the current alias table
+ */
+export async function resolveRecordEntities(records: ReinsuranceData[]): Promise<ReinsuranceData[]> {
+  const table = await loadEntityAliases();
+  const cached = resolvedCache.get(records);
+  if (cached?.table === table) {
+    return cached.records;
+  }
+
+  const resolved = applyEntityResolution(records, createEntityResolver(table));
+  resolvedCache.set(records, { table, records: resolved });
+  return resolved;
+}
+
+async function writeEntityAliases(table: EntityAliasTable): Promise<void> {
+  await fs.writeFile(getEntityAliasesPath(), `${JSON.stringify(table, null, 2)}\n`);
+  tableCache = null;
+}
+
+// Serialises edits so concurrent confirmations cannot overwrite each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function queueEdit<T>(edit: (table: EntityAliasTable) => { table: EntityAliasTable; result: T }): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { table, result } = edit(await loadEntityAliases());
+    await writeEntityAliases(table);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Confirm that a raw name belongs to the entity called entityName, creating the entity if needed
+ * The alias is removed from any other entity of the same type first.
+ */
+export function confirmEntityAlias(type: EntityType, alias: string, entityName: string): Promise<CanonicalEntity> {
+  return queueEdit(table => {
+    const aliasKey = norm(alias);
+    const nameKey = norm(entityName);
+    if (!aliasKey || !nameKey) {
+      throw new Error('Alias and entity name are required');
+    }
+
+    const entities = table.entities.map(entity =>
+      entity.type === type && norm(entity.name) !== nameKey
+        ? { ...entity, aliases: entity.aliases.filter(existing => norm(existing) !== aliasKey) }
+        : entity
+    );
+
+    const index = entities.findIndex(entity => entity.type === type && norm(entity.name) === nameKey);
+    let target: CanonicalEntity;
+    if (index >= 0) {
+      target = { ...entities[index] };
+    } else {
+      const baseId = `${type}-${slugify(cleanName(entityName))}`;
+      const ids = new Set(entities.map(entity => entity.id));
+      let id = baseId;
+      for (let n = 2; ids.has(id); n++) id = `${baseId}-${n}`;
+      target = { id, type, name: cleanName(entityName), aliases: [] };
+    }
+    if (aliasKey !== nameKey && !target.aliases.some(existing => norm(existing) === aliasKey)) {
+      target.aliases = [...target.aliases, cleanName(alias)];
+    }
+    if (index >= 0) {
+      entities[index] = target;
+    } else {
+      entities.push(target);
+    }
+
+    console.log(`Entities - Mapped ${type} "${alias}" to ${target.id}`);
+    return { table: { entities }, result: target };
+  });
+}
+
+/**
+ * Remove a raw name from its entity
+ * The entity it was taken from is removed as well once it has no aliases left, unless its name is in referencedNames
+ * (e.g. the cedant segment of a saved reserving run). Other entities are never touched, so entities confirmed without
+ * aliases survive.
+ */
+export function removeEntityAlias(type: EntityType, alias: string, referencedNames: string[] = []): Promise<boolean> {
+  return queueEdit(table => {
+    const aliasKey = norm(alias);
+    const index = table.entities.findIndex(entity =>
+      entity.type === type && entity.aliases.some(existing => norm(existing) === aliasKey)
+    );
+    if (index < 0) {
+      return { table, result: false };
+    }
+
+    const entity = table.entities[index];
+    const aliases = entity.aliases.filter(existing => norm(existing) !== aliasKey);
+    const referenced = referencedNames.some(name => norm(name) === norm(entity.name));
+    const entities = aliases.length > 0 || referenced
+      ? table.entities.map((existing, i) => i === index ? { ...entity, aliases } : existing)
+      : table.entities.filter((_, i) => i !== index);
+
+    console.log(`Entities - Removed ${type} alias "${alias}" from ${entity.id}`);
+    return { table: { entities }, result: true };
+  });
+}
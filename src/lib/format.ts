@@ -6,12 +6,20 @@
  * Format a number as Kuwaiti Dinar currency with thousand separators
  */
 export function formatKD(value: number): string {
-  if (value === 0) return '0 KD';
-  if (isNaN(value)) return '0 KD';
+  return formatCurrency(value, 'KWD');
+}
+
+/**
+ * Format a number in any ISO 4217 currency with thousand separators and no decimals
+ */
+export function formatCurrency(value: number, currency: string): string {
+  const label = currency === 'KWD' ? 'KD' : currency;
+  if (value === 0) return `0 ${label}`;
+  if (isNaN(value)) return `0 ${label}`;
   
-  return new Intl.NumberFormat('en-KW', {
+  return new Intl.NumberFormat(currency === 'KWD' ? 'en-KW' : 'en-US', {
     style: 'currency',
-    currency: 'KWD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(value);
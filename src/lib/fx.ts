@@ -0,0 +1,245 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ReinsuranceData } from './schema';
+import { getDataDirectory } from './datasets';
+import { getRecordYear } from './kpi';
+import { norm } from './normalize';
+
+/**
+ * Foreign-currency conversion
+ * Max Liability (FC), 100% TSI (FC) and Org Prem (FC) are in each policy's original currency. They are converted
+ * with a local rate table (FX_RATES_FILE, defaulting to fx-rates.json in the data directory) at the policy's
+ * commencement date, before any aggregation, and carried on the record as KD amounts.
+ */
+
+/**
+ * Currency every reported amount is aggregated in
+ */
+export const REPORTING_CURRENCY = 'KWD';
+
+const DEFAULT_RATES_FILE = 'fx-rates.json';
+
+const DEFAULT_PRESENTATION_CURRENCIES = ['KWD', 'USD', 'EUR'];
+
+const CurrencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code');
+
+/**
+ * Schema for the rate table file
+ * Each rate is the number of currency units per unit of baseCurrency, valid from its date until the next one.
+ * Records without a Currency column take their country's currency, then defaultCurrency.
+ * presentationCurrencies lists the currencies pages can be switched to.
+ */
+export const FxRateTableSchema = z.object({
+  source: z.string().optional(),
+  baseCurrency: CurrencyCodeSchema,
+  defaultCurrency: CurrencyCodeSchema.optional(),
+  countryCurrencies: z.record(z.string(), CurrencyCodeSchema).default({}),
+  presentationCurrencies: z.array(CurrencyCodeSchema).optional(),
+  rates: z.array(z.object({
+    currency: CurrencyCodeSchema,
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Rate date must be YYYY-MM-DD'),
+    rate: z.number().positive('Rate must be positive'),
+  })),
+});
+
+export type FxRateTable = z.infer<typeof FxRateTableSchema>;
+
+// Without a rate table only KD amounts convert
+const EMPTY_RATE_TABLE: FxRateTable = { baseCurrency: REPORTING_CURRENCY, countryCurrencies: {}, rates: [] };
+
+/**
+ * A rate with the date it applies from; the base currency has no date
+ */
+export interface EffectiveRate {
+  rate: number;
+  date: string | null;
+}
+
+/**
+ * Rate for re-expressing KD totals in a presentation currency
+ */
+export interface PresentationRate {
+  currency: string;
+  /** Units of the currency per 1 KD */
+  rate: number;
+  /** Date of the older of the two rates behind the cross rate, or null for KD itself */
+  asOf: string | null;
+}
+
+export interface FxConverter {
+  table: FxRateTable;
+  /** Original currency of a record, or null when neither the record, its country nor the table default gives one */
+  getRecordCurrency(record: ReinsuranceData): string | null;
+  /** Units of currency per unit of the base currency on a date, or null without any rate for the currency */
+  getRate(currency: string, date: string): number | null;
+  /** Like getRate, with the date of the rate used */
+  getEffectiveRate(currency: string, date: string): EffectiveRate | null;
+  /** Convert an amount between two currencies at a date, or null when either rate is missing */
+  convert(amount: number, from: string, to: string, date: string): number | null;
+}
+
+/**
+ * Path of the rate table
+ */
+export function getFxRatesPath(): string {
+  return path.resolve(getDataDirectory(), process.env.FX_RATES_FILE || DEFAULT_RATES_FILE);
+}
+
+/**
+ * Build a converter over a rate table
+ * A date before a currency's first rate uses that first rate.
+ */
+export function createFxConverter(table: FxRateTable): FxConverter {
+  const ratesByCurrency = new Map<string, Array<{ date: string; rate: number }>>();
+  table.rates.forEach(({ currency, date, rate }) => {
+    const rates = ratesByCurrency.get(currency) ?? [];
+    rates.push({ date, rate });
+    ratesByCurrency.set(currency, rates);
+  });
+  ratesByCurrency.forEach(rates => rates.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const countryCurrencies = new Map(
+    Object.entries(table.countryCurrencies).map(([country, currency]) => [norm(country), currency])
+  );
+
+  const getEffectiveRate = (currency: string, date: string): EffectiveRate | null => {
+    if (currency === table.baseCurrency) return { rate: 1, date: null };
+    const rates = ratesByCurrency.get(currency);
+    if (!rates || rates.length === 0) return null;
+    return rates.filter(rate => rate.date <= date).pop() ?? rates[0];
+  };
+  const getRate = (currency: string, date: string) => getEffectiveRate(currency, date)?.rate ?? null;
+
+  return {
+    table,
+    getRecordCurrency: record =>
+      record.currency?.trim().toUpperCase()
+        || countryCurrencies.get(norm(record.countryName))
+        || table.defaultCurrency
+        || null,
+    getRate,
+    getEffectiveRate,
+    convert: (amount, from, to, date) => {
+      if (from === to) return amount;
+      const fromRate = getRate(from, date);
+      const toRate = getRate(to, date);
+      return fromRate && toRate ? (amount / fromRate) * toRate : null;
+    },
+  };
+}
+
+/**
+ * Date a record's amounts are converted at: Com date when it is ISO, otherwise 1 January of its reporting year
+ */
+export function getRecordRateDate(record: ReinsuranceData): string {
+  const comDate = record.comDate?.trim().slice(0, 10);
+  if (comDate && /^\d{4}-\d{2}-\d{2}$/.test(comDate)) return comDate;
+  const year = getRecordYear(record);
+  return year ? `${year}-01-01` : new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Latest rate from KD into each presentation currency
+ * Currencies without a rate are left out; KD is always first.
+ */
+export function getPresentationRates(table: FxRateTable, date = new Date().toISOString().slice(0, 10)): PresentationRate[] {
+  const converter = createFxConverter(table);
+  const reporting = converter.getEffectiveRate(REPORTING_CURRENCY, date);
+  const currencies = [REPORTING_CURRENCY, ...(table.presentationCurrencies ?? DEFAULT_PRESENTATION_CURRENCIES)];
+
+  const rates: PresentationRate[] = [];
+  new Set(currencies).forEach(currency => {
+    if (currency === REPORTING_CURRENCY) {
+      rates.push({ currency, rate: 1, asOf: null });
+      return;
+    }
+    const target = converter.getEffectiveRate(currency, date);
+    if (!reporting || !target) return;
+    const dates = [reporting.date, target.date].filter((d): d is string => d !== null).sort();
+    rates.push({ currency, rate: target.rate / reporting.rate, asOf: dates[0] ?? null });
+  });
+  return rates;
+}
+
+// Rate table cache keyed by file path and modification time
+let tableCache: { signature: string; table: FxRateTable } | null = null;
+
+/**
+ * Read and validate the rate table
+ */
+export async function loadFxRates(): Promise<FxRateTable> {
+  const ratesPath = getFxRatesPath();
+  let signature: string;
+  try {
+    signature = `${ratesPath}:${(await fs.stat(ratesPath)).mtime.getTime()}`;
+  } catch {
+    return EMPTY_RATE_TABLE;
+  }
+
+  if (tableCache?.signature === signature) {
+    return tableCache.table;
+  }
+
+  const parsed = FxRateTableSchema.safeParse(JSON.parse(await fs.readFile(ratesPath, 'utf-8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid FX rate table ${ratesPath}: ${issues.join('; ')}`);
+  }
+
+  console.log('FX - Loaded', parsed.data.rates.length, 'rates from', ratesPath);
+  tableCache = { signature, table: parsed.data };
+  return parsed.data;
+}
+
+/**
+ * Resolve each record's currency and add KD amounts for its FC columns
+ * Amounts in a currency without a rate are left undefined rather than treated as KD.
+ */
+export function applyFxConversion(records: ReinsuranceData[], converter: FxConverter): ReinsuranceData[] {
+  const missingRates = new Map<string, number>();
+
+  const converted = records.map(record => {
+    const currency = converter.getRecordCurrency(record);
+    const date = getRecordRateDate(record);
+    const toKD = (amount: number | undefined) =>
+      amount === undefined || !currency ? undefined : converter.convert(amount, currency, REPORTING_CURRENCY, date) ?? undefined;
+
+    const maxLiabilityKD = toKD(record.maxLiabilityFC);
+    if (maxLiabilityKD === undefined) {
+      const key = currency ?? 'unknown currency';
+      missingRates.set(key, (missingRates.get(key) ?? 0) + 1);
+    }
+
+    return {
+      ...record,
+      currency: currency ?? undefined,
+      maxLiabilityKD,
+      tsi100KD: toKD(record.tsi100FC),
+      orgPremKD: toKD(record.orgPremFC),
+    };
+  });
+
+  missingRates.forEach((count, currency) => {
+    console.warn(`FX - No rate for ${currency}; ${count} records keep unconverted FC amounts`);
+  });
+  return converted;
+}
+
+// Converted record sets keyed by the loaded array, so cached loads are only converted once per rate table
+const convertedCache = new WeakMap<ReinsuranceData[], { table: FxRateTable; records: ReinsuranceData[] }>();
+
+/**
+ * Convert a loaded record set with the current rate table
+ */
+export async function convertRecords(records: ReinsuranceData[]): Promise<ReinsuranceData[]> {
+  const table = await loadFxRates();
+  const cached = convertedCache.get(records);
+  if (cached?.table === table) {
+    return cached.records;
+  }
+
+  const converted = applyFxConversion(records, createFxConverter(table));
+  convertedCache.set(records, { table, records: converted });
+  return converted;
+}
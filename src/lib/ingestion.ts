@@ -0,0 +1,492 @@
+import { promises as fs } from 'fs';
+import { ReinsuranceData, ReinsuranceDataSchema } from './schema';
+import { parseCsv, indexHeaders } from './csv';
+import { resolveDatasetFiles, getDatasetSignature, getDefaultDateOptions } from './datasets';
+import { DateParsingOptions, DateParsingSummary, emptyDateSummary, parseDateValue } from './dates';
+import { captureSnapshot } from './snapshots';
+import { findCountry, getGeographyDefaults } from './countries';
+import { getDataQualityCounts, runDataQualityChecks } from './data-quality';
+
+/**
+ * Shared CSV ingestion for all API routes
+ * Parses the registered extracts once per file change and serves every route from the same cache.
+ */
+
+/**
+ * CSV header name for each ReinsuranceData field
+ */
+export const REINSURANCE_COLUMNS = {
+  viewExtract: 'View Extract',
+  loc: 'Loc',
+  uy: 'UY',
+  extType: 'Ext Type',
+  broker: 'Broker',
+  cedant: 'Cedant',
+  orgInsuredTrtyName: 'Org.Insured/Trty Name',
+  maxLiabilityFC: 'Max Liability (FC)',
+  grossUWPrem: 'Gross UW Prem',
+  grossBookPrem: 'Gross Book Prem',
+  grossActualAcq: 'Gross Actual Acq.',
+  grossPaidClaims: 'Gross paid claims',
+  grossOsLoss: 'Gross os loss',
+  countryName: 'Country',
+  region: 'Region',
+  hub: 'Hub',
+  inceptionYear: 'Inception Year',
+  inceptionQuarter: 'Inception Quarter',
+  inceptionMonth: 'Inception Month',
+  comDate: 'Com date',
+  businessClass: 'Class',
+  subBranch: 'Sub br',
+  treatyNature: 'Trty nature',
+  natureOfRiskDesc: 'Nature of risk Desc',
+  signSharePct: 'Sign share %',
+  acceptedShare: 'Accepted Share',
+  writtenLine: 'Written Line',
+  signedLine: 'Signed Line',
+  tsi100FC: '100% TSI (FC)',
+  orgPremFC: 'Org Prem (FC)',
+  currency: 'Currency',
+  newRenew: 'New/Renew',
+  renewalStatus: 'Renewal Status',
+  runningExpired: 'Running/Expired',
+  status: 'Status',
+  expDate: 'Exp date',
+  renewalDate: 'Renewal Date',
+} as const satisfies Record<Exclude<keyof ReinsuranceData, DerivedField>, string>;
+
+/**
+ * Fields not read from the CSV: the ISO country code from countries.ts and the source file and row, set while
+ * loading, and the KD amounts from fx.ts and entity ids from entities.ts, filled after ingestion
+ */
+type DerivedField =
+  | 'countryCode' | 'sourceFile' | 'sourceRow' | 'maxLiabilityKD' | 'tsi100KD' | 'orgPremKD' | 'cedantId' | 'brokerId';
+
+type ReinsuranceField = keyof typeof REINSURANCE_COLUMNS;
+
+/**
+ * Whether a schema path segment is a field read from an extract column; derived fields have no column
+ */
+function isReinsuranceField(field: PropertyKey | undefined): field is ReinsuranceField {
+  return typeof field === 'string' && Object.prototype.hasOwnProperty.call(REINSURANCE_COLUMNS, field);
+}
+
+/**
+ * Columns older extracts do not have; rows without them load with the field unset
+ */
+const OPTIONAL_COLUMNS: ReadonlySet<ReinsuranceField> = new Set(['currency']);
+
+/**
+ * Date columns, stored as ISO dates (YYYY-MM-DD) once parsed in the source's format
+ */
+const DATE_FIELDS = ['comDate', 'expDate', 'renewalDate'] as const satisfies readonly ReinsuranceField[];
+
+/**
+ * A single reason a CSV row was rejected
+ */
+export interface RejectedRow {
+  file?: string;
+  row: number;
+  column: string | null;
+  value: string | null;
+  reason: string;
+}
+
+/**
+ * A date cell that was ambiguous or could not be parsed
+ * readAs is the ISO date an ambiguous value was loaded as, or null when it was rejected or unparsable; unparsable
+ * values are left blank in the record, so only the issue keeps the original text.
+ */
+export interface DateIssue {
+  file?: string;
+  row: number;
+  column: string;
+  value: string;
+  kind: 'ambiguous' | 'unparsable';
+  readAs: string | null;
+}
+
+/**
+ * Outcome of ingesting one CSV file
+ */
+export interface IngestionResult {
+  records: ReinsuranceData[];
+  rejected: RejectedRow[];
+  totalRows: number;
+  rejectedRowCount: number;
+  dateIssues: DateIssue[];
+  dates: DateParsingSummary;
+}
+
+/**
+ * Per-file load summary
+ */
+export interface DatasetSourceSummary {
+  file: string;
+  label: string;
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  modifiedAt: string;
+  /** Date format the file was read with and its ambiguous and unparsable date counts, for CSV extracts */
+  dates?: DateParsingOptions & DateParsingSummary;
+}
+
+/**
+ * Merged ingestion result plus load metadata, as exposed by /api/ingestion-report
+ */
+export interface IngestionReport extends IngestionResult {
+  sources: DatasetSourceSummary[];
+  duplicates: DuplicateRecord[];
+  loadedAt: string;
+}
+
+// Process-wide cache shared by every route
+let reportCache: IngestionReport | null = null;
+let cacheSignature: string | null = null;
+
+/**
+ * Numeric parsing: blank cells count as 0, anything unparsable becomes NaN so validation rejects it
+ */
+function parseAmount(value: string | undefined): number {
+  if (!value || value.trim() === '') return 0;
+  const cleaned = value.replace(/[,\s]/g, '');
+  return /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(cleaned) ? parseFloat(cleaned) : NaN;
+}
+
+/**
+ * Like parseAmount, but blank cells stay undefined for optional columns
+ */
+function parseOptionalAmount(value: string | undefined): number | undefined {
+  if (!value || value.trim() === '') return undefined;
+  return parseAmount(value);
+}
+
+/**
+ * Parse whole numbers stored as floats (e.g. "2019.0")
+ */
+function parseWholeNumber(value: string | undefined): number | undefined {
+  if (!value || value.trim() === '') return undefined;
+  const parsed = parseFloat(value.replace(/[,\s]/g, ''));
+  return isNaN(parsed) ? undefined : Math.floor(parsed);
+}
+
+/**
+ * Parse CSV content into ReinsuranceData records using header-name column mapping
+ * Every row is validated against ReinsuranceDataSchema; failures are collected instead of being dropped silently.
+ * Dates are read in the given format; with strict set, rows with an ambiguous date are rejected.
+ */
+export function parseReinsuranceCsv(csvContent: string, dateOptions: DateParsingOptions = getDefaultDateOptions()): IngestionResult {
+  const [headers, ...rows] = parseCsv(csvContent);
+  if (!headers) {
+    return { records: [], rejected: [], totalRows: 0, rejectedRowCount: 0, dateIssues: [], dates: emptyDateSummary() };
+  }
+
+  const headerIndex = indexHeaders(headers);
+  const missing = (Object.keys(REINSURANCE_COLUMNS) as ReinsuranceField[])
+    .filter(field => !OPTIONAL_COLUMNS.has(field) && !headerIndex.has(REINSURANCE_COLUMNS[field].toLowerCase()))
+    .map(field => REINSURANCE_COLUMNS[field]);
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing required columns: ${missing.join(', ')}`);
+  }
+
+  const column = (row: string[], field: ReinsuranceField): string | undefined => {
+    const index = headerIndex.get(REINSURANCE_COLUMNS[field].toLowerCase());
+    const value = index === undefined ? undefined : row[index];
+    return value === undefined ? undefined : value.trim();
+  };
+
+  const records: ReinsuranceData[] = [];
+  const rejected: RejectedRow[] = [];
+  const dateIssues: DateIssue[] = [];
+  const dates = emptyDateSummary();
+  let rejectedRowCount = 0;
+
+  rows.forEach((row, i) => {
+    // Data rows start on line 2 of the file
+    const rowNumber = i + 2;
+
+    if (row.length !== headers.length) {
+      rejected.push({
+        row: rowNumber,
+        column: null,
+        value: null,
+        reason: `Expected ${headers.length} values, found ${row.length}`,
+      });
+      rejectedRowCount++;
+      return;
+    }
+
+    // Date columns as ISO dates; unparsable values are left blank so the row still loads
+    const dateValues: Partial<Record<typeof DATE_FIELDS[number], string>> = {};
+    const dateRejections: RejectedRow[] = [];
+    DATE_FIELDS.forEach(field => {
+      const raw = column(row, field) || undefined;
+      const parsed = parseDateValue(raw, dateOptions.format);
+      if (parsed.status === 'ok') {
+        dateValues[field] = parsed.date!;
+        return;
+      }
+      if (parsed.status === 'blank') return;
+
+      const rejectAmbiguous = parsed.status === 'ambiguous' && dateOptions.strict;
+      dateIssues.push({
+        row: rowNumber,
+        column: REINSURANCE_COLUMNS[field],
+        value: raw!,
+        kind: parsed.status,
+        readAs: rejectAmbiguous ? null : parsed.date,
+      });
+      if (parsed.status === 'unparsable') {
+        dates.unparsable++;
+        return;
+      }
+      dates.ambiguous++;
+      if (rejectAmbiguous) {
+        dates.rejected++;
+        dateRejections.push({
+          row: rowNumber,
+          column: REINSURANCE_COLUMNS[field],
+          value: raw!,
+          reason: `${REINSURANCE_COLUMNS[field]} is ambiguous: day and month could be swapped`,
+        });
+      } else {
+        dateValues[field] = parsed.date!;
+      }
+    });
+
+    const countryName = column(row, 'countryName') || '';
+    const country = findCountry(countryName);
+    const geography = getGeographyDefaults(countryName);
+
+    const candidate: ReinsuranceData = {
+      viewExtract: column(row, 'viewExtract') || undefined,
+      loc: column(row, 'loc') || undefined,
+      uy: column(row, 'uy') || '',
+      extType: column(row, 'extType') || '',
+      broker: column(row, 'broker') || '',
+      cedant: column(row, 'cedant') || '',
+      orgInsuredTrtyName: column(row, 'orgInsuredTrtyName') || '',
+      maxLiabilityFC: parseAmount(column(row, 'maxLiabilityFC')),
+      grossUWPrem: parseAmount(column(row, 'grossUWPrem')),
+      grossBookPrem: parseAmount(column(row, 'grossBookPrem')),
+      grossActualAcq: parseAmount(column(row, 'grossActualAcq')),
+      grossPaidClaims: parseAmount(column(row, 'grossPaidClaims')),
+      grossOsLoss: parseAmount(column(row, 'grossOsLoss')),
+      countryName,
+      countryCode: country?.code,
+      region: column(row, 'region') || geography?.region || '',
+      hub: column(row, 'hub') || geography?.hub || '',
+      inceptionYear: parseWholeNumber(column(row, 'inceptionYear')),
+      inceptionQuarter: column(row, 'inceptionQuarter') || undefined,
+      inceptionMonth: column(row, 'inceptionMonth') || undefined,
+      comDate: dateValues.comDate,
+      businessClass: column(row, 'businessClass') || undefined,
+      subBranch: column(row, 'subBranch') || undefined,
+      treatyNature: column(row, 'treatyNature') || undefined,
+      natureOfRiskDesc: column(row, 'natureOfRiskDesc') || undefined,
+      signSharePct: parseOptionalAmount(column(row, 'signSharePct')),
+      acceptedShare: parseOptionalAmount(column(row, 'acceptedShare')),
+      writtenLine: parseOptionalAmount(column(row, 'writtenLine')),
+      signedLine: parseOptionalAmount(column(row, 'signedLine')),
+      tsi100FC: parseOptionalAmount(column(row, 'tsi100FC')),
+      orgPremFC: parseOptionalAmount(column(row, 'orgPremFC')),
+      currency: column(row, 'currency')?.toUpperCase() || undefined,
+      newRenew: column(row, 'newRenew') || undefined,
+      renewalStatus: column(row, 'renewalStatus') || undefined,
+      runningExpired: column(row, 'runningExpired') || undefined,
+      status: column(row, 'status') || undefined,
+      expDate: dateValues.expDate,
+      renewalDate: dateValues.renewalDate,
+      sourceRow: rowNumber,
+    };
+
+    const result = ReinsuranceDataSchema.safeParse(candidate);
+    if (result.success && dateRejections.length === 0) {
+      records.push(result.data);
+      return;
+    }
+
+    rejectedRowCount++;
+    rejected.push(...dateRejections);
+    result.error?.issues.forEach(issue => {
+      // Issues on derived fields are reported under the field name, with the derived value
+      const field = issue.path[0];
+      if (isReinsuranceField(field)) {
+        rejected.push({ row: rowNumber, column: REINSURANCE_COLUMNS[field], value: column(row, field) ?? null, reason: issue.message });
+        return;
+      }
+      const derived = typeof field === 'string' ? candidate[field as keyof ReinsuranceData] : undefined;
+      rejected.push({
+        row: rowNumber,
+        column: typeof field === 'string' ? field : null,
+        value: derived === undefined ? null : String(derived),
+        reason: issue.message,
+      });
+    });
+  });
+
+  if (rejectedRowCount > 0) {
+    console.warn(`Ingestion - Rejected ${rejectedRowCount} of ${rows.length} rows`);
+  }
+  if (dates.ambiguous + dates.unparsable > 0) {
+    console.warn(`Ingestion - ${dates.ambiguous} ambiguous and ${dates.unparsable} unparsable dates (format ${dateOptions.format})`);
+  }
+
+  return { records, rejected, totalRows: rows.length, rejectedRowCount, dateIssues, dates };
+}
+
+/**
+ * A View Extract whose rows in an earlier file were replaced by a later file
+ */
+export interface DuplicateRecord {
+  viewExtract: string;
+  file: string;
+  supersededFile: string;
+  supersededRows: number;
+}
+
+/**
+ * Merge per-file records in manifest order
+ * When a View Extract appears in several files, the rows from the last file replace the earlier ones.
+ * Rows sharing a View Extract inside one file are separate lines of the same policy and are all kept.
+ */
+function mergeRecords(recordSets: Array<{ file: string; records: ReinsuranceData[] }>) {
+  const byKey = new Map<string, { file: string; records: ReinsuranceData[] }>();
+  const unkeyed: ReinsuranceData[] = [];
+  const duplicates: DuplicateRecord[] = [];
+
+  recordSets.forEach(({ file, records }) => {
+    const fileGroups = new Map<string, ReinsuranceData[]>();
+    records.forEach(record => {
+      if (!record.viewExtract) {
+        unkeyed.push(record);
+        return;
+      }
+      const group = fileGroups.get(record.viewExtract);
+      if (group) {
+        group.push(record);
+      } else {
+        fileGroups.set(record.viewExtract, [record]);
+      }
+    });
+
+    fileGroups.forEach((group, viewExtract) => {
+      const existing = byKey.get(viewExtract);
+      if (existing) {
+        duplicates.push({
+          viewExtract,
+          file,
+          supersededFile: existing.file,
+          supersededRows: existing.records.length,
+        });
+        // Re-insert so the superseding rows take the later position
+        byKey.delete(viewExtract);
+      }
+      byKey.set(viewExtract, { file, records: group });
+    });
+  });
+
+  return {
+    records: [...[...byKey.values()].flatMap(entry => entry.records), ...unkeyed],
+    duplicates,
+  };
+}
+
+/**
+ * Drop the cached record set so the next load re-reads the files
+ */
+export function invalidateReinsuranceData(): void {
+  reportCache = null;
+  cacheSignature = null;
+}
+
+/**
+ * Load, validate and merge every registered dataset with caching
+ * Files are only re-parsed when the manifest or a file modification time changes. Each re-parse captures a snapshot
+ * unless captureSnapshot is false, e.g. for tools that only read the files.
+ */
+export async function loadIngestionReport(
+  options: { forceReload?: boolean; captureSnapshot?: boolean } = {}
+): Promise<IngestionReport> {
+  if (options.forceReload) {
+    invalidateReinsuranceData();
+  }
+
+  const files = await resolveDatasetFiles();
+  const signature = await getDatasetSignature(files);
+
+  // Return cached data if nothing has changed
+  if (reportCache && cacheSignature === signature) {
+    return reportCache;
+  }
+
+  const recordSets: Array<{ file: string; records: ReinsuranceData[] }> = [];
+  const rejected: RejectedRow[] = [];
+  const dateIssues: DateIssue[] = [];
+  const dates = emptyDateSummary();
+  const sources: DatasetSourceSummary[] = [];
+  let totalRows = 0;
+  let rejectedRowCount = 0;
+
+  for (const file of files) {
+    console.log('Ingestion - Loading CSV from path:', file.path);
+    const csvContent = await fs.readFile(file.path, 'utf-8');
+    const result = parseReinsuranceCsv(csvContent, file.dates);
+
+    recordSets.push({ file: file.file, records: result.records.map(record => ({ ...record, sourceFile: file.file })) });
+    rejected.push(...result.rejected.map(issue => ({ ...issue, file: file.file })));
+    dateIssues.push(...result.dateIssues.map(issue => ({ ...issue, file: file.file })));
+    dates.ambiguous += result.dates.ambiguous;
+    dates.unparsable += result.dates.unparsable;
+    dates.rejected += result.dates.rejected;
+    totalRows += result.totalRows;
+    rejectedRowCount += result.rejectedRowCount;
+    sources.push({
+      file: file.file,
+      label: file.label,
+      totalRows: result.totalRows,
+      acceptedRows: result.records.length,
+      rejectedRows: result.rejectedRowCount,
+      modifiedAt: new Date(file.modified).toISOString(),
+      dates: { ...file.dates, ...result.dates },
+    });
+  }
+
+  const { records, duplicates } = mergeRecords(recordSets);
+
+  reportCache = {
+    records,
+    rejected,
+    totalRows,
+    rejectedRowCount,
+    dateIssues,
+    dates,
+    sources,
+    duplicates,
+    loadedAt: new Date().toISOString(),
+  };
+  cacheSignature = signature;
+
+  console.log('Ingestion - Merged data:', records.length, 'records from', files.length, 'file(s),', duplicates.length, 'duplicates superseded');
+
+  // Keep a dated copy of every distinct extract with its data-quality counts; a failed write must not block serving the data
+  if (options.captureSnapshot !== false) {
+    captureSnapshot(
+      records,
+      sources.map(({ file, label, modifiedAt }) => ({ file, label, modifiedAt })),
+      getDataQualityCounts(runDataQualityChecks(reportCache))
+    )
+      .catch(error => console.error('Ingestion - Failed to capture snapshot:', error));
+  }
+
+  return reportCache;
+}
+
+/**
+ * Load all validated reinsurance records
+ */
+export async function loadReinsuranceData(options: { forceReload?: boolean } = {}): Promise<ReinsuranceData[]> {
+  const report = await loadIngestionReport(options);
+  return report.records;
+}
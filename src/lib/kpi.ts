@@ -1,12 +1,37 @@
-import { ReinsuranceData, KPIData, UYPerformanceRow } from './schema';
+import { ReinsuranceData, KPIData, UYPerformanceRow, PerformanceTotals } from './schema';
 import { safeDivide } from './format';
+import { norm } from './normalize';
+import { matchesCountry } from './countries';
+import { parseDateValue } from './dates';
+import { getEarnedAmounts, getToday, sumEarnedAmounts } from './earned';
+
+/**
+ * Time bucket used for period aggregation
+ */
+export type ReportingPeriod = 'month' | 'quarter' | 'year';
+
+/**
+ * Exact-match filters applied before period aggregation
+ * Text values are compared after norm() so spelling and case differences do not matter.
+ */
+export interface AggregateFilters {
+  year?: number;
+  country?: string;
+  hub?: string;
+  region?: string;
+  cedant?: string;
+  insured?: string;
+}
+
+const MONTH_ABBREVIATIONS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
 
 // Cache for parsed dates to improve performance
 const dateCache = new Map<string, Date | null>();
 
 /**
- * Robust Com date parser with multiple format support and caching
- * Optimized for common date formats in reinsurance data
+ * Com date as a JS date for period bucketing
+ * Ingestion stores dates as ISO in each source's configured format; other values (e.g. hand-written fixtures) are
+ * read with the auto format, which treats ambiguous D/M/Y values as DD/MM.
  */
 function parseComDateToJSDate(raw: string | undefined): Date | null {
   if (!raw || !raw.trim()) return null;
@@ -17,49 +42,92 @@ function parseComDateToJSDate(raw: string | undefined): Date | null {
     return dateCache.get(s)!;
   }
 
-  let result: Date | null = null;
-
-  // 1) Try ISO first (YYYY-MM-DD) - most reliable
-  const iso = /^\d{4}-\d{2}-\d{2}$/;
-  if (iso.test(s)) {
-    const d = new Date(s + "T00:00:00");
-    result = isNaN(d.getTime()) ? null : d;
-  } else {
-    // 2) Try D/M/Y vs M/D/Y disambiguation
-    const dmy = /^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/;
-    const m1 = s.match(dmy);
-    if (m1) {
-      const [, a, b, y] = m1;
-      const A = parseInt(a, 10), B = parseInt(b, 10);
-      const Y = parseInt(y, 10) < 100 ? 2000 + parseInt(y, 10) : parseInt(y, 10);
-
-      // If a > 12 -> a is day (DD/MM), else if b > 12 -> b is day (MM/DD)
-      // Prefer DD/MM/YYYY when unambiguous (common in the file)
-      let day = A, month = B;
-      if (A <= 12 && B > 12) { day = B; month = A; }  // MM/DD -> swap
-      // JS Date months are 0-based
-      const d = new Date(Y, month - 1, day);
-      result = isNaN(d.getTime()) ? null : d;
-    } else {
-      // 3) Try "01 Jan 2020" style
-      const d2 = Date.parse(s);
-      result = !isNaN(d2) ? new Date(d2) : null;
-    }
-  }
+  const { date } = parseDateValue(s, 'auto');
+  const result = date ? new Date(date + "T00:00:00") : null;
 
   // Cache the result
   dateCache.set(s, result);
   return result;
 }
 
+/**
+ * Com date of a record as parsed for period bucketing, or null when it is blank or unparsable
+ */
+export function getRecordComDate(record: ReinsuranceData): Date | null {
+  return parseComDateToJSDate(record.comDate);
+}
+
+/**
+ * Reporting year of a record: Inception Year when present, otherwise the UY
+ */
+export function getRecordYear(record: ReinsuranceData): number | null {
+  if (record.inceptionYear) return record.inceptionYear;
+  const uyYear = parseInt(record.uy, 10);
+  return isNaN(uyYear) ? null : uyYear;
+}
+
+/**
+ * Sorted list of every reporting year present in the data
+ */
+export function getAvailableYears(records: ReinsuranceData[]): number[] {
+  const years = new Set<number>();
+  records.forEach(record => {
+    const year = getRecordYear(record);
+    if (year) years.add(year);
+  });
+  return [...years].sort((a, b) => a - b);
+}
+
+/**
+ * Inception month (1-12): Inception Month when present, otherwise the Com date month
+ */
+export function getRecordMonth(record: ReinsuranceData): number | null {
+  const monthIndex = MONTH_ABBREVIATIONS.indexOf(record.inceptionMonth?.trim().slice(0, 3).toUpperCase() ?? '');
+  if (monthIndex >= 0) return monthIndex + 1;
+
+  const comDate = parseComDateToJSDate(record.comDate);
+  return comDate ? comDate.getMonth() + 1 : null;
+}
+
+/**
+ * Inception quarter (1-4): Inception Quarter (Q1-Q4 or 1-4) when present, otherwise derived from the month
+ */
+export function getRecordQuarter(record: ReinsuranceData): number | null {
+  const match = record.inceptionQuarter?.trim().toUpperCase().match(/^Q?([1-4])$/);
+  if (match) return parseInt(match[1], 10);
+
+  const month = getRecordMonth(record);
+  return month ? Math.ceil(month / 3) : null;
+}
+
+/**
+ * Period number of a record for the given bucket
+ */
+export function getRecordPeriod(record: ReinsuranceData, period: ReportingPeriod): number | null {
+  if (period === 'month') return getRecordMonth(record);
+  if (period === 'quarter') return getRecordQuarter(record);
+  return getRecordYear(record);
+}
+
+/**
+ * Loss, expense and combined ratios (%) on the earned basis
+ */
+function earnedRatios(incurredClaims: number, earnedPremium: number, earnedExpense: number) {
+  const earnedLossRatio = safeDivide(incurredClaims, earnedPremium) * 100;
+  const earnedExpenseRatio = safeDivide(earnedExpense, earnedPremium) * 100;
+  return { earnedLossRatio, earnedExpenseRatio, earnedCombinedRatio: earnedLossRatio + earnedExpenseRatio };
+}
+
 /**
  * Calculate KPIs for a single reinsurance data record
+ * Earned figures are pro-rata at the valuation date (YYYY-MM-DD, default today).
  */
-export function calculateRecordKPIs(record: ReinsuranceData): KPIData {
+export function calculateRecordKPIs(record: ReinsuranceData, valuationDate = getToday()): KPIData {
   const incurredClaims = record.grossPaidClaims + record.grossOsLoss;
   const lossRatio = safeDivide(incurredClaims, record.grossUWPrem) * 100;
   const expenseRatio = safeDivide(record.grossActualAcq, record.grossUWPrem) * 100;
   const combinedRatio = lossRatio + expenseRatio;
+  const { earnedPremium, earnedAcquisition } = getEarnedAmounts(record, valuationDate);
 
   return {
     premium: record.grossUWPrem,
@@ -71,14 +139,28 @@ export function calculateRecordKPIs(record: ReinsuranceData): KPIData {
     expenseRatio,
     combinedRatio,
     numberOfAccounts: 1,
-    avgMaxLiability: record.maxLiabilityFC,
+    avgMaxLiability: record.maxLiabilityKD ?? 0,
+    earnedPremium,
+    unearnedPremium: record.grossUWPrem - earnedPremium,
+    earnedExpense: earnedAcquisition,
+    ...earnedRatios(incurredClaims, earnedPremium, earnedAcquisition),
   };
 }
 
+const EMPTY_EARNED_KPIS = {
+  earnedPremium: 0,
+  unearnedPremium: 0,
+  earnedExpense: 0,
+  earnedLossRatio: 0,
+  earnedExpenseRatio: 0,
+  earnedCombinedRatio: 0,
+};
+
 /**
  * Aggregate KPIs from multiple records
+ * Earned figures are pro-rata at the valuation date (YYYY-MM-DD, default today).
  */
-export function aggregateKPIs(records: ReinsuranceData[]): KPIData {
+export function aggregateKPIs(records: ReinsuranceData[], valuationDate = getToday()): KPIData {
   if (records.length === 0) {
     return {
       premium: 0,
@@ -91,6 +173,7 @@ export function aggregateKPIs(records: ReinsuranceData[]): KPIData {
       combinedRatio: 0,
       numberOfAccounts: 0,
       avgMaxLiability: 0,
+      ...EMPTY_EARNED_KPIS,
     };
   }
 
@@ -99,12 +182,15 @@ export function aggregateKPIs(records: ReinsuranceData[]): KPIData {
   const totalOutstandingClaims = records.reduce((sum, record) => sum + record.grossOsLoss, 0);
   const totalIncurredClaims = totalPaidClaims + totalOutstandingClaims;
   const totalExpense = records.reduce((sum, record) => sum + record.grossActualAcq, 0);
-  const totalMaxLiability = records.reduce((sum, record) => sum + record.maxLiabilityFC, 0);
+  // Max Liability is only comparable once converted to KD; records without a rate are left out of the average
+  const convertedLiabilities = records.filter(record => record.maxLiabilityKD !== undefined);
+  const totalMaxLiability = convertedLiabilities.reduce((sum, record) => sum + record.maxLiabilityKD!, 0);
 
   const lossRatio = safeDivide(totalIncurredClaims, totalPremium) * 100;
   const expenseRatio = safeDivide(totalExpense, totalPremium) * 100;
   const combinedRatio = lossRatio + expenseRatio;
-  const avgMaxLiability = safeDivide(totalMaxLiability, records.length);
+  const avgMaxLiability = safeDivide(totalMaxLiability, convertedLiabilities.length);
+  const { earnedPremium, earnedAcquisition } = sumEarnedAmounts(records, valuationDate);
 
   return {
     premium: totalPremium,
@@ -117,13 +203,17 @@ export function aggregateKPIs(records: ReinsuranceData[]): KPIData {
     combinedRatio,
     numberOfAccounts: records.length,
     avgMaxLiability,
+    earnedPremium,
+    unearnedPremium: totalPremium - earnedPremium,
+    earnedExpense: earnedAcquisition,
+    ...earnedRatios(totalIncurredClaims, earnedPremium, earnedAcquisition),
   };
 }
 
 /**
- * Calculate UY performance data
+ * Calculate UY performance data, with earned figures at the valuation date (default today)
  */
-export function calculateUYPerformance(records: ReinsuranceData[]): UYPerformanceRow[] {
+export function calculateUYPerformance(records: ReinsuranceData[], valuationDate = getToday()): UYPerformanceRow[] {
   // Group records by UY
   const groupedByUY = records.reduce((acc, record) => {
     if (!acc[record.uy]) {
@@ -135,10 +225,11 @@ export function calculateUYPerformance(records: ReinsuranceData[]): UYPerformanc
 
   // Calculate KPIs for each UY
   const uyPerformance: UYPerformanceRow[] = Object.entries(groupedByUY).map(([uy, uyRecords]) => {
-    const kpis = aggregateKPIs(uyRecords);
+    const kpis = aggregateKPIs(uyRecords, valuationDate);
     return {
       uy,
       ...kpis,
+      maxLiabilityAccounts: uyRecords.filter(record => record.maxLiabilityKD !== undefined).length,
     };
   });
 
@@ -163,6 +254,8 @@ export function calculateUYPerformanceTotals(uyPerformance: UYPerformanceRow[]):
       combinedRatio: 0,
       numberOfAccounts: 0,
       avgMaxLiability: 0,
+      maxLiabilityAccounts: 0,
+      ...EMPTY_EARNED_KPIS,
     };
   }
 
@@ -172,12 +265,16 @@ export function calculateUYPerformanceTotals(uyPerformance: UYPerformanceRow[]):
   const totalIncurredClaims = uyPerformance.reduce((sum, row) => sum + row.incurredClaims, 0);
   const totalExpense = uyPerformance.reduce((sum, row) => sum + row.expense, 0);
   const totalAccounts = uyPerformance.reduce((sum, row) => sum + row.numberOfAccounts, 0);
-  const totalMaxLiability = uyPerformance.reduce((sum, row) => sum + row.avgMaxLiability * row.numberOfAccounts, 0);
+  // Each UY average is weighted by the accounts it was taken over, so records without a rate stay out of the total
+  const maxLiabilityAccounts = uyPerformance.reduce((sum, row) => sum + row.maxLiabilityAccounts, 0);
+  const totalMaxLiability = uyPerformance.reduce((sum, row) => sum + row.avgMaxLiability * row.maxLiabilityAccounts, 0);
+  const totalEarnedPremium = uyPerformance.reduce((sum, row) => sum + row.earnedPremium, 0);
+  const totalEarnedExpense = uyPerformance.reduce((sum, row) => sum + row.earnedExpense, 0);
 
   const lossRatio = safeDivide(totalIncurredClaims, totalPremium) * 100;
   const expenseRatio = safeDivide(totalExpense, totalPremium) * 100;
   const combinedRatio = lossRatio + expenseRatio;
-  const avgMaxLiability = safeDivide(totalMaxLiability, totalAccounts);
+  const avgMaxLiability = safeDivide(totalMaxLiability, maxLiabilityAccounts);
 
   return {
     uy: 'Total',
@@ -191,9 +288,124 @@ export function calculateUYPerformanceTotals(uyPerformance: UYPerformanceRow[]):
     combinedRatio,
     numberOfAccounts: totalAccounts,
     avgMaxLiability,
+    maxLiabilityAccounts,
+    earnedPremium: totalEarnedPremium,
+    unearnedPremium: totalPremium - totalEarnedPremium,
+    earnedExpense: totalEarnedExpense,
+    ...earnedRatios(totalIncurredClaims, totalEarnedPremium, totalEarnedExpense),
+  };
+}
+
+/**
+ * Summed measures performance totals are derived from
+ */
+export type PerformanceSums = Pick<
+  PerformanceTotals,
+  'policyCount' | 'premium' | 'acquisition' | 'paidClaims' | 'osLoss' | 'earnedPremium' | 'earnedAcquisition'
+>;
+
+/**
+ * Derive incurred, technical result and ratios from summed measures, on the written and the earned basis
+ */
+export function summarizePerformance(sums: PerformanceSums): PerformanceTotals {
+  const incurredClaims = sums.paidClaims + sums.osLoss;
+  const lossRatioPct = safeDivide(incurredClaims, sums.premium) * 100;
+  const acquisitionPct = safeDivide(sums.acquisition, sums.premium) * 100;
+  const earnedLossRatioPct = safeDivide(incurredClaims, sums.earnedPremium) * 100;
+  const earnedAcquisitionPct = safeDivide(sums.earnedAcquisition, sums.earnedPremium) * 100;
+
+  return {
+    ...sums,
+    incurredClaims,
+    technicalResult: sums.premium - incurredClaims - sums.acquisition,
+    lossRatioPct,
+    acquisitionPct,
+    combinedRatioPct: lossRatioPct + acquisitionPct,
+    unearnedPremium: sums.premium - sums.earnedPremium,
+    earnedTechnicalResult: sums.earnedPremium - incurredClaims - sums.earnedAcquisition,
+    earnedLossRatioPct,
+    earnedAcquisitionPct,
+    earnedCombinedRatioPct: earnedLossRatioPct + earnedAcquisitionPct,
   };
 }
 
+/**
+ * Performance totals for a group of records, with earned figures at the valuation date (default today)
+ */
+export function calculatePerformanceTotals(records: ReinsuranceData[], valuationDate = getToday()): PerformanceTotals {
+  return summarizePerformance({
+    policyCount: records.length,
+    premium: records.reduce((sum, record) => sum + (record.grossUWPrem || 0), 0),
+    acquisition: records.reduce((sum, record) => sum + (record.grossActualAcq || 0), 0),
+    paidClaims: records.reduce((sum, record) => sum + (record.grossPaidClaims || 0), 0),
+    osLoss: records.reduce((sum, record) => sum + (record.grossOsLoss || 0), 0),
+    ...sumEarnedAmounts(records, valuationDate),
+  });
+}
+
+/**
+ * Combine several performance totals into one, recomputing the ratios
+ */
+export function combinePerformanceTotals(rows: PerformanceTotals[]): PerformanceTotals {
+  return summarizePerformance({
+    policyCount: rows.reduce((sum, row) => sum + row.policyCount, 0),
+    premium: rows.reduce((sum, row) => sum + row.premium, 0),
+    acquisition: rows.reduce((sum, row) => sum + row.acquisition, 0),
+    paidClaims: rows.reduce((sum, row) => sum + row.paidClaims, 0),
+    osLoss: rows.reduce((sum, row) => sum + row.osLoss, 0),
+    earnedPremium: rows.reduce((sum, row) => sum + row.earnedPremium, 0),
+    earnedAcquisition: rows.reduce((sum, row) => sum + row.earnedAcquisition, 0),
+  });
+}
+
+/**
+ * Whether a record matches the exact-match aggregate filters
+ */
+export function matchesAggregateFilters(record: ReinsuranceData, filters: AggregateFilters): boolean {
+  if (filters.year !== undefined && getRecordYear(record) !== filters.year) return false;
+
+  if (filters.country && !matchesCountry(filters.country, record)) return false;
+
+  const textFilters: Array<[string | undefined, string]> = [
+    [filters.hub, record.hub],
+    [filters.region, record.region],
+    [filters.cedant, record.cedant],
+    [filters.insured, record.orgInsuredTrtyName],
+  ];
+  return textFilters.every(([filterValue, recordValue]) => !norm(filterValue) || norm(filterValue) === norm(recordValue));
+}
+
+/**
+ * Performance totals per period, in ascending period order
+ * Records without a value for the period are left out of both the periods and the total. Earned figures are at the
+ * valuation date (default today).
+ */
+export function aggregateByPeriod(
+  records: ReinsuranceData[],
+  period: ReportingPeriod,
+  filters: AggregateFilters = {},
+  valuationDate = getToday()
+): { periods: Array<PerformanceTotals & { period: number }>; total: PerformanceTotals } {
+  const groups = new Map<number, ReinsuranceData[]>();
+  records.forEach(record => {
+    if (!matchesAggregateFilters(record, filters)) return;
+    const key = getRecordPeriod(record, period);
+    if (key === null) return;
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  });
+
+  const periods = [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([key, group]) => ({ period: key, ...calculatePerformanceTotals(group, valuationDate) }));
+
+  return { periods, total: combinePerformanceTotals(periods) };
+}
+
 /**
  * Filter records based on filter options with case-insensitive exact matching
  * Optimized with early returns and cached year parsing
@@ -245,6 +457,13 @@ export function filterRecords(records: ReinsuranceData[], filters: Partial<Recor
   return filtered;
 }
 
+/**
+ * Sorted unique non-empty values of an optional text column
+ */
+function uniqueValues(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((v): v is string => !!v))].sort();
+}
+
 /**
  * Get unique values for filter options
  */
@@ -258,5 +477,39 @@ export function getFilterOptions(records: ReinsuranceData[]) {
     countryName: [...new Set(records.map(r => r.countryName))].sort(),
     region: [...new Set(records.map(r => r.region))].sort(),
     hub: [...new Set(records.map(r => r.hub))].sort(),
+    businessClass: uniqueValues(records.map(r => r.businessClass)),
+    subBranch: uniqueValues(records.map(r => r.subBranch)),
+    treatyNature: uniqueValues(records.map(r => r.treatyNature)),
+    natureOfRiskDesc: uniqueValues(records.map(r => r.natureOfRiskDesc)),
+    newRenew: uniqueValues(records.map(r => r.newRenew)),
+    renewalStatus: uniqueValues(records.map(r => r.renewalStatus)),
+    runningExpired: uniqueValues(records.map(r => r.runningExpired)),
+    status: uniqueValues(records.map(r => r.status)),
   };
 }
+
+/**
+ * Sorted unique values of each filterable dimension, as served by /api/dimensions
+ */
+export function getDimensionLists(records: ReinsuranceData[]) {
+  return {
+    years: getAvailableYears(records).map(String),
+    countries: uniqueValues(records.map(r => r.countryName)),
+    regions: uniqueValues(records.map(r => r.region)),
+    hubs: uniqueValues(records.map(r => r.hub)),
+    brokers: uniqueValues(records.map(r => r.broker)),
+    cedants: uniqueValues(records.map(r => r.cedant)),
+    extTypes: uniqueValues(records.map(r => r.extType)),
+    insuredNames: uniqueValues(records.map(r => r.orgInsuredTrtyName)),
+    classes: uniqueValues(records.map(r => r.businessClass)),
+    subBranches: uniqueValues(records.map(r => r.subBranch)),
+    treatyNatures: uniqueValues(records.map(r => r.treatyNature)),
+    natureOfRisks: uniqueValues(records.map(r => r.natureOfRiskDesc)),
+    newRenew: uniqueValues(records.map(r => r.newRenew)),
+    renewalStatuses: uniqueValues(records.map(r => r.renewalStatus)),
+    runningExpired: uniqueValues(records.map(r => r.runningExpired)),
+    statuses: uniqueValues(records.map(r => r.status)),
+  };
+}
+
+export type DimensionLists = ReturnType<typeof getDimensionLists>;
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { GeometryCollection, GeometryObject, Topology } from 'topojson-specification';
+import { quantize } from 'topojson-client';
+import { presimplify, quantile, simplify } from 'topojson-simplify';
+import { findCountry, getCountryByNumeric } from './countries';
+
+/**
+ * World map geometry served from the app instead of a CDN
+ * Country outlines are the world-atlas 2.0.2 files (Natural Earth, public domain) kept in data/world-atlas, and are
+ * served as TopoJSON by /api/map-geometry. Every country carries its ISO 3166-1 alpha-3 code in properties.iso_a3 so the map joins on
+ * the same codes as records.
+ */
+
+export type MapResolution = 'low' | 'medium' | 'high';
+
+export type MapRegion = 'world' | 'mena';
+
+export const MAP_RESOLUTIONS: readonly MapResolution[] = ['low', 'medium', 'high'];
+
+export const MAP_REGIONS: readonly MapRegion[] = ['world', 'mena'];
+
+/**
+ * Source scale for each resolution, and the share of points simplification keeps (1 keeps the source as is)
+ */
+const RESOLUTION_SOURCES: Record<MapResolution, { file: string; keep: number }> = {
+  low: { file: 'countries-110m.json', keep: 1 },
+  medium: { file: 'countries-50m.json', keep: 1 },
+  high: { file: 'countries-10m.json', keep: 0.3 },
+};
+
+/**
+ * Core markets drawn from the detailed geometry on top of the world layer: the GCC and the wider Middle East and
+ * North Africa
+ */
+export const MENA_COUNTRY_CODES: readonly string[] = [
+  'SAU', 'ARE', 'KWT', 'QAT', 'BHR', 'OMN', 'YEM', 'IRQ', 'IRN', 'JOR', 'LBN', 'SYR', 'PSE', 'ISR',
+  'EGY', 'LBY', 'TUN', 'DZA', 'MAR', 'ESH', 'MRT', 'SDN', 'DJI', 'TUR', 'CYP',
+];
+
+/**
+ * Resolution each region uses when the request does not name one
+ */
+export const DEFAULT_REGION_RESOLUTION: Record<MapRegion, MapResolution> = {
+  world: 'low',
+  mena: 'high',
+};
+
+// Grid size for re-quantizing simplified geometry, as in the world-atlas files
+const QUANTIZATION = 1e5;
+
+interface CountryProperties {
+  name: string;
+  iso_a3?: string;
+}
+
+type CountryTopology = Topology<{ countries: GeometryCollection<CountryProperties> }>;
+
+// ISO numeric codes of MENA countries the reference does not list, so the subset does not depend on the extract
+const EXTRA_MENA_NUMERIC: Record<string, string> = {
+  '364': 'IRN', '760': 'SYR', '376': 'ISR', '732': 'ESH', '478': 'MRT',
+};
+
+/**
+ * Directory holding the world-atlas TopoJSON files
+ * They are part of the repository rather than read from node_modules, so server file tracing includes them.
+ */
+function getWorldAtlasDirectory(): string {
+  return path.join(process.cwd(), 'data', 'world-atlas');
+}
+
+/**
+ * ISO alpha-3 code of a world-atlas geometry: by numeric id, then by name for the few without one (Kosovo)
+ */
+function getGeometryCode(geometry: GeometryObject<CountryProperties>): string | undefined {
+  const id = geometry.id === undefined ? undefined : String(geometry.id);
+  return getCountryByNumeric(id)?.code
+    ?? (id ? EXTRA_MENA_NUMERIC[id] : undefined)
+    ?? findCountry(getGeometryName(geometry))?.code;
+}
+
+function getGeometryName(geometry: GeometryObject<CountryProperties>): string {
+  return (geometry.properties as Partial<CountryProperties> | undefined)?.name ?? '';
+}
+
+/**
+ * Keep only the arcs the remaining geometries use and renumber them
+ */
+function pruneArcs(topology: CountryTopology): CountryTopology {
+  const used = new Map<number, number>();
+  const arcs: CountryTopology['arcs'] = [];
+  const remap = (index: number): number => {
+    const arc = index < 0 ? ~index : index;
+    let mapped = used.get(arc);
+    if (mapped === undefined) {
+      mapped = arcs.length;
+      used.set(arc, mapped);
+      arcs.push(topology.arcs[arc]);
+    }
+    return index < 0 ? ~mapped : mapped;
+  };
+
+  const geometries = topology.objects.countries.geometries.map(geometry => {
+    if (geometry.type === 'Polygon') {
+      return { ...geometry, arcs: geometry.arcs.map(ring => ring.map(remap)) };
+    }
+    if (geometry.type === 'MultiPolygon') {
+      return { ...geometry, arcs: geometry.arcs.map(polygon => polygon.map(ring => ring.map(remap))) };
+    }
+    return geometry;
+  });
+
+  return { ...topology, arcs, objects: { countries: { ...topology.objects.countries, geometries } } };
+}
+
+/**
+ * Read a world-atlas file, tag each country with its code and apply the resolution's simplification
+ * The land object is dropped; the map only draws countries.
+ */
+async function buildTopology(region: MapRegion, resolution: MapResolution): Promise<CountryTopology> {
+  const source = RESOLUTION_SOURCES[resolution];
+  const raw = JSON.parse(await fs.readFile(path.join(getWorldAtlasDirectory(), source.file), 'utf-8')) as CountryTopology;
+
+  let geometries = raw.objects.countries.geometries.map(geometry => {
+    const code = getGeometryCode(geometry);
+    return { ...geometry, properties: { name: getGeometryName(geometry), ...(code ? { iso_a3: code } : {}) } };
+  });
+  if (region === 'mena') {
+    geometries = geometries.filter(geometry => geometry.properties.iso_a3 && MENA_COUNTRY_CODES.includes(geometry.properties.iso_a3));
+  }
+
+  let topology: CountryTopology = pruneArcs({
+    type: 'Topology',
+    transform: raw.transform,
+    arcs: raw.arcs,
+    objects: { countries: { type: 'GeometryCollection', geometries } },
+  });
+
+  if (source.keep < 1) {
+    // Simplification returns absolute coordinates; quantize again so the payload stays delta-encoded
+    const presimplified = presimplify(topology);
+    topology = quantize(simplify(presimplified, quantile(presimplified, source.keep)), QUANTIZATION);
+  }
+  return topology;
+}
+
+// Serialized geometry per region and resolution; the source files never change at runtime
+const geometryCache = new Map<string, Promise<string>>();
+
+/**
+ * TopoJSON for a region at a resolution, serialized once per process
+ */
+export function loadMapGeometry(region: MapRegion, resolution: MapResolution): Promise<string> {
+  const key = `${region}:${resolution}`;
+  let cached = geometryCache.get(key);
+  if (!cached) {
+    cached = buildTopology(region, resolution).then(topology => JSON.stringify(topology));
+    cached.catch(() => geometryCache.delete(key));
+    geometryCache.set(key, cached);
+  }
+  return cached;
+}
@@ -0,0 +1,19 @@
+import { ReinsuranceData } from './schema';
+
+/**
+ * Stable policy keys for a record set
+ * The key is "UY|View Extract"; repeated lines of the same extract get "#2", "#3"... in record order,
+ * so reloading an unchanged extract always produces the same keys. Records without a View Extract get null.
+ */
+export function getPolicyKeys(records: ReinsuranceData[]): Array<string | null> {
+  const occurrences = new Map<string, number>();
+
+  return records.map(record => {
+    if (!record.viewExtract) return null;
+
+    const baseKey = `${record.uy}|${record.viewExtract}`;
+    const occurrence = (occurrences.get(baseKey) ?? 0) + 1;
+    occurrences.set(baseKey, occurrence);
+    return occurrence === 1 ? baseKey : `${baseKey}#${occurrence}`;
+  });
+}
@@ -0,0 +1,184 @@
+import type { DataSourceSummary, PeriodAggregate } from './data-source';
+import { ReinsuranceData } from './schema';
+import { getAggregatedDataByPeriod, getDimensions, getPolicies, getPolicyTableSummary } from '@backend/services/queries';
+import { DimensionValue, Policy, QueryFilters } from '@backend/services/types';
+import { findCountry, getGeographyDefaults } from './countries';
+import { emptyDateSummary } from './dates';
+import { AggregateFilters, DimensionLists, ReportingPeriod, combinePerformanceTotals, summarizePerformance } from './kpi';
+import { EntityAliasTable, EntityType, createEntityResolver, loadEntityAliases } from './entities';
+import { getToday } from './earned';
+import { norm } from './normalize';
+
+/**
+ * PostgreSQL records over the policies table
+ * Records read back carry the raw extract names and FC amounts; data-source.ts resolves entities and converts to KD
+ * as it does for the CSV datasets, so both sources report the same figures. Aggregates and dimension lists are
+ * computed in SQL instead, over the KD premium and claim columns.
+ */
+
+/**
+ * Map a policies row to a ReinsuranceData record
+ * node-postgres returns DECIMAL columns as strings.
+ */
+function toRecord(policy: Policy): ReinsuranceData {
+  const toDate = (value: Date | undefined) => value ? new Date(value).toISOString().slice(0, 10) : undefined;
+  const toOptionalNumber = (value: number | null | undefined) => value === null || value === undefined ? undefined : Number(value);
+  return {
+    viewExtract: policy.view_extract ?? undefined,
+    loc: policy.loc ?? undefined,
+    uy: policy.uy ?? String(policy.year),
+    extType: policy.ext_type ?? '',
+    broker: policy.broker ?? '',
+    cedant: policy.cedant ?? '',
+    orgInsuredTrtyName: policy.insured ?? '',
+    maxLiabilityFC: Number(policy.max_liability_fc ?? 0),
+    grossUWPrem: Number(policy.gross_uw_prem),
+    grossBookPrem: Number(policy.gross_book_prem),
+    grossActualAcq: Number(policy.gross_actual_acq),
+    grossPaidClaims: Number(policy.gross_paid_claims),
+    grossOsLoss: Number(policy.gross_os_loss),
+    countryName: policy.country_name ?? '',
+    countryCode: policy.country_code ?? findCountry(policy.country_name)?.code,
+    region: policy.region || getGeographyDefaults(policy.country_name)?.region || '',
+    hub: policy.hub || getGeographyDefaults(policy.country_name)?.hub || '',
+    inceptionYear: policy.inception_year ?? undefined,
+    inceptionQuarter: policy.quarter ? `Q${policy.quarter}` : undefined,
+    inceptionMonth: policy.inception_month ?? undefined,
+    comDate: toDate(policy.com_date),
+    businessClass: policy.business_class ?? undefined,
+    subBranch: policy.sub_branch ?? undefined,
+    treatyNature: policy.treaty_nature ?? undefined,
+    natureOfRiskDesc: policy.nature_of_risk_desc ?? undefined,
+    signSharePct: toOptionalNumber(policy.sign_share_pct),
+    acceptedShare: toOptionalNumber(policy.accepted_share),
+    writtenLine: toOptionalNumber(policy.written_line),
+    signedLine: toOptionalNumber(policy.signed_line),
+    tsi100FC: toOptionalNumber(policy.tsi100_fc),
+    orgPremFC: toOptionalNumber(policy.org_prem_fc),
+    currency: policy.currency ?? undefined,
+    newRenew: policy.new_renew ?? undefined,
+    renewalStatus: policy.renewal_status ?? undefined,
+    runningExpired: policy.running_expired ?? undefined,
+    status: policy.status ?? undefined,
+    expDate: toDate(policy.exp_date),
+    renewalDate: toDate(policy.renewal_date),
+    sourceFile: policy.source_file ?? undefined,
+    sourceRow: policy.source_row ?? undefined,
+  };
+}
+
+// Records of the last read, reused while the table's row count and last update are unchanged
+let recordCache: { signature: string; records: ReinsuranceData[] } | null = null;
+
+/**
+ * Every policy in the table as a record
+ * The same array is returned until the table changes, so the entity and FX caches keyed on it stay warm.
+ */
+export async function loadPostgresRecords(options: { forceReload?: boolean } = {}): Promise<ReinsuranceData[]> {
+  const { policyCount, lastUpdated } = await getPolicyTableSummary();
+  const signature = `${policyCount}:${lastUpdated?.getTime() ?? ''}`;
+  if (!options.forceReload && recordCache?.signature === signature) {
+    return recordCache.records;
+  }
+
+  const records = (await getPolicies()).map(toRecord);
+  recordCache = { signature, records };
+  return records;
+}
+
+/**
+ * Every raw spelling of a canonical cedant, since cedant_norm holds the name as extracted
+ * A name that is not a confirmed entity is matched as given.
+ */
+function getCedantSpellings(table: EntityAliasTable, cedant: string): string[] {
+  const entity = table.entities.find(candidate => candidate.type === 'cedant' && norm(candidate.name) === norm(cedant));
+  return entity ? [entity.name, ...entity.aliases] : [cedant];
+}
+
+/**
+ * Performance totals per period from the policies table, filtered as aggregateByPeriod() filters records
+ */
+export async function aggregatePostgres(
+  period: ReportingPeriod,
+  filters: AggregateFilters = {},
+  valuationDate = getToday()
+): Promise<PeriodAggregate> {
+  const queryFilters: QueryFilters = {
+    year: filters.year,
+    country: filters.country,
+    hub: filters.hub,
+    region: filters.region,
+    cedant: filters.cedant ? getCedantSpellings(await loadEntityAliases(), filters.cedant) : undefined,
+    insured: filters.insured,
+  };
+  const rows = await getAggregatedDataByPeriod(period, queryFilters, valuationDate);
+
+  const periods = rows.map(row => ({
+    period: row.period,
+    ...summarizePerformance({
+      policyCount: row.policyCount,
+      premium: row.premium,
+      acquisition: row.acq,
+      paidClaims: row.paidClaims,
+      osLoss: row.osLoss,
+      earnedPremium: row.earnedPremium,
+      earnedAcquisition: row.earnedAcq,
+    }),
+  }));
+  return { periods, total: combinePerformanceTotals(periods) };
+}
+
+/**
+ * Sorted unique values for each filter dimension from the policies table
+ * Cedants and brokers are listed under their canonical entity names, as the record sources list them.
+ */
+export async function listPostgresDimensions(): Promise<DimensionLists> {
+  const [dimensions, table] = await Promise.all([getDimensions(), loadEntityAliases()]);
+  const resolver = createEntityResolver(table);
+  const labels = (values: DimensionValue[]) => [...new Set(values.map(value => value.label))].sort();
+  const entityNames = (type: EntityType, values: DimensionValue[]) =>
+    [...new Set(values.map(value => resolver.resolve(type, value.label).name))].sort();
+
+  return {
+    years: dimensions.years.map(String),
+    countries: labels(dimensions.countries),
+    regions: labels(dimensions.regions),
+    hubs: labels(dimensions.hubs),
+    brokers: entityNames('broker', dimensions.brokers),
+    cedants: entityNames('cedant', dimensions.cedants),
+    extTypes: labels(dimensions.extTypes),
+    insuredNames: labels(dimensions.insureds),
+    classes: labels(dimensions.classes),
+    subBranches: labels(dimensions.subBranches),
+    treatyNatures: labels(dimensions.treatyNatures),
+    natureOfRisks: labels(dimensions.natureOfRisks),
+    newRenew: labels(dimensions.newRenew),
+    renewalStatuses: labels(dimensions.renewalStatuses),
+    runningExpired: labels(dimensions.runningExpired),
+    statuses: labels(dimensions.statuses),
+  };
+}
+
+/**
+ * The policies table as a dataset summary
+ */
+export async function describePostgresTable(): Promise<DataSourceSummary> {
+  const { policyCount, lastUpdated } = await getPolicyTableSummary();
+  const modifiedAt = (lastUpdated ?? new Date()).toISOString();
+  return {
+    kind: 'postgres',
+    datasets: [{
+      file: 'policies',
+      label: 'PostgreSQL policies table',
+      totalRows: policyCount,
+      acceptedRows: policyCount,
+      rejectedRows: 0,
+      modifiedAt,
+    }],
+    totalRecords: policyCount,
+    duplicateCount: 0,
+    loadedAt: new Date().toISOString(),
+    // Dates are typed columns, checked when the CSV was loaded
+    dates: emptyDateSummary(),
+  };
+}
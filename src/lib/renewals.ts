@@ -0,0 +1,203 @@
+import { ReinsuranceData } from './schema';
+import { safeDivide } from './format';
+import { norm } from './normalize';
+import { parseDateValue } from './dates';
+
+/**
+ * Renewal pipeline and retention
+ * A policy falls due on its Renewal Date, or the day after its Exp date where the extract leaves Renewal Date blank.
+ * Renewal Status records the outcome: Renewed and Not Renewed are decided, anything else (e.g. New) is still open.
+ * Retention is renewed premium over renewed plus not renewed premium, so open policies do not dilute it.
+ */
+
+export const RENEWAL_WINDOWS = [30, 60, 90] as const;
+
+export type RenewalWindow = typeof RENEWAL_WINDOWS[number];
+
+export type RenewalOutcome = 'renewed' | 'not-renewed' | 'open';
+
+export type RetentionDimension = 'cedant' | 'broker' | 'hub' | 'uy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A policy falling due for renewal after the as-of date
+ */
+export interface UpcomingRenewal {
+  renewalDate: string;
+  daysToRenewal: number;
+  insured: string;
+  cedant: string;
+  broker: string;
+  hub: string;
+  country: string;
+  uy: string;
+  /** Gross UW Prem of the expiring policy */
+  expiringPremium: number;
+  /** Incurred over premium of every policy of the same cedant and insured, all years (%) */
+  accountLossRatio: number;
+  accountPolicyCount: number;
+  newRenew: string | null;
+  renewalStatus: string | null;
+  runningExpired: string | null;
+}
+
+/**
+ * Renewed and not renewed business of a cedant, broker, hub or UY
+ */
+export interface RetentionRow {
+  key: string;
+  renewedPremium: number;
+  notRenewedPremium: number;
+  renewedCount: number;
+  notRenewedCount: number;
+  /** Premium of policies whose renewal is still open; not part of the retention rate */
+  openPremium: number;
+  /** Renewed over decided premium (%), or null when nothing has been decided */
+  retentionPct: number | null;
+}
+
+export interface RenewalPipeline {
+  asOf: string;
+  windows: Array<{ days: RenewalWindow; policyCount: number; premium: number }>;
+  /** Policies due within the longest window, soonest first */
+  upcoming: UpcomingRenewal[];
+  /** Policies without a Renewal Date or a usable Exp date */
+  undated: number;
+}
+
+/**
+ * Whole days since 1970-01-01 for an ISO date, ignoring time zones
+ */
+function toDayNumber(isoDate: string): number {
+  const [year, month, day] = isoDate.split('-').map(part => parseInt(part, 10));
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+/**
+ * Date a policy falls due for renewal as YYYY-MM-DD, or null when neither Renewal Date nor Exp date is usable
+ */
+export function getRenewalDate(record: ReinsuranceData): string | null {
+  const renewalDate = parseDateValue(record.renewalDate, 'auto').date;
+  if (renewalDate) return renewalDate;
+  const expDate = parseDateValue(record.expDate, 'auto').date;
+  return expDate ? new Date((toDayNumber(expDate) + 1) * DAY_MS).toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Outcome of a policy's renewal from its Renewal Status
+ */
+export function getRenewalOutcome(record: { renewalStatus?: string | null }): RenewalOutcome {
+  const status = norm(record.renewalStatus);
+  if (status === 'renewed') return 'renewed';
+  if (status === 'not renewed') return 'not-renewed';
+  return 'open';
+}
+
+function getAccountKey(record: ReinsuranceData): string {
+  return `${record.cedantId ?? norm(record.cedant)}|${norm(record.orgInsuredTrtyName)}`;
+}
+
+/**
+ * Policies falling due within 30, 60 and 90 days after the as-of date
+ */
+export function buildRenewalPipeline(records: ReinsuranceData[], asOf: string): RenewalPipeline {
+  const accounts = new Map<string, { premium: number; incurred: number; count: number }>();
+  records.forEach(record => {
+    const key = getAccountKey(record);
+    const account = accounts.get(key) ?? { premium: 0, incurred: 0, count: 0 };
+    account.premium += record.grossUWPrem || 0;
+    account.incurred += (record.grossPaidClaims || 0) + (record.grossOsLoss || 0);
+    account.count++;
+    accounts.set(key, account);
+  });
+
+  const start = toDayNumber(asOf);
+  const horizon = Math.max(...RENEWAL_WINDOWS);
+  let undated = 0;
+  const upcoming: UpcomingRenewal[] = [];
+  records.forEach(record => {
+    const renewalDate = getRenewalDate(record);
+    if (!renewalDate) {
+      undated++;
+      return;
+    }
+    const daysToRenewal = toDayNumber(renewalDate) - start;
+    if (daysToRenewal <= 0 || daysToRenewal > horizon) return;
+
+    const account = accounts.get(getAccountKey(record))!;
+    upcoming.push({
+      renewalDate,
+      daysToRenewal,
+      insured: record.orgInsuredTrtyName,
+      cedant: record.cedant,
+      broker: record.broker,
+      hub: record.hub,
+      country: record.countryName,
+      uy: record.uy,
+      expiringPremium: record.grossUWPrem || 0,
+      accountLossRatio: safeDivide(account.incurred, account.premium) * 100,
+      accountPolicyCount: account.count,
+      newRenew: record.newRenew ?? null,
+      renewalStatus: record.renewalStatus ?? null,
+      runningExpired: record.runningExpired ?? null,
+    });
+  });
+  upcoming.sort((a, b) => a.daysToRenewal - b.daysToRenewal || b.expiringPremium - a.expiringPremium);
+
+  return {
+    asOf,
+    windows: RENEWAL_WINDOWS.map(days => {
+      const due = upcoming.filter(renewal => renewal.daysToRenewal <= days);
+      return { days, policyCount: due.length, premium: due.reduce((sum, renewal) => sum + renewal.expiringPremium, 0) };
+    }),
+    upcoming,
+    undated,
+  };
+}
+
+function getDimensionValue(record: ReinsuranceData, dimension: RetentionDimension): string {
+  return record[dimension]?.trim() || '(blank)';
+}
+
+function finishRetention(row: Omit<RetentionRow, 'retentionPct'>): RetentionRow {
+  const decided = row.renewedPremium + row.notRenewedPremium;
+  return { ...row, retentionPct: decided > 0 ? safeDivide(row.renewedPremium, decided) * 100 : null };
+}
+
+/**
+ * Renewed vs not renewed premium per value of a dimension, largest decided premium first (UYs in order)
+ */
+export function calculateRetention(
+  records: ReinsuranceData[],
+  dimension: RetentionDimension
+): { rows: RetentionRow[]; total: RetentionRow } {
+  const empty = (key: string) => ({ key, renewedPremium: 0, notRenewedPremium: 0, renewedCount: 0, notRenewedCount: 0, openPremium: 0 });
+  const groups = new Map<string, Omit<RetentionRow, 'retentionPct'>>();
+  const total = empty('Total');
+
+  records.forEach(record => {
+    const key = getDimensionValue(record, dimension);
+    const group = groups.get(key) ?? empty(key);
+    groups.set(key, group);
+    const premium = record.grossUWPrem || 0;
+    const outcome = getRenewalOutcome(record);
+    [group, total].forEach(row => {
+      if (outcome === 'renewed') {
+        row.renewedPremium += premium;
+        row.renewedCount++;
+      } else if (outcome === 'not-renewed') {
+        row.notRenewedPremium += premium;
+        row.notRenewedCount++;
+      } else {
+        row.openPremium += premium;
+      }
+    });
+  });
+
+  const rows = [...groups.values()].map(finishRetention);
+  rows.sort(dimension === 'uy'
+    ? (a, b) => a.key.localeCompare(b.key)
+    : (a, b) => (b.renewedPremium + b.notRenewedPremium) - (a.renewedPremium + a.notRenewedPremium) || a.key.localeCompare(b.key));
+  return { rows, total: finishRetention(total) };
+}
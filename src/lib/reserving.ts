@@ -0,0 +1,268 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { ReinsuranceData } from './schema';
+import { getDataDirectory } from './datasets';
+import { safeDivide } from './format';
+import { DevelopmentTriangle, matchesTriangleFilters, TriangleFilters, TriangleSet } from './triangles';
+import { norm } from './normalize';
+
+/**
+ * Chain-ladder and Bornhuetter-Ferguson reserving over the development triangles
+ * Selected age-to-age factors default to the volume-weighted factors and can be overridden per development quarter.
+ * Runs are saved with their assumptions and results to RESERVING_RUNS_FILE (defaulting to reserving-runs.json in the
+ * data directory), so a reported IBNR can always be traced back to the factors it was based on.
+ */
+
+const DEFAULT_RUNS_FILE = 'reserving-runs.json';
+
+export const RESERVING_METHODS = ['chain-ladder', 'bornhuetter-ferguson'] as const;
+
+export type ReservingMethod = typeof RESERVING_METHODS[number];
+
+export const TriangleFiltersSchema = z.object({
+  hub: z.string().optional(),
+  region: z.string().optional(),
+  extType: z.string().optional(),
+  cedant: z.string().optional(),
+});
+
+/**
+ * Assumptions of a run
+ * selectedFactors is keyed by the development quarter a factor develops from; quarters without an override use the
+ * volume-weighted factor, or 1 when no UY has both quarters. A null expectedLossRatio (%) uses the chain-ladder
+ * ultimate loss ratio of all UYs in the segment as the BF a priori loss ratio.
+ */
+export const ReservingAssumptionsSchema = z.object({
+  measure: z.enum(['paid', 'incurred']).default('incurred'),
+  selectedFactors: z.record(z.string(), z.number().positive()).default({}),
+  tailFactor: z.number().positive().default(1),
+  expectedLossRatio: z.number().nonnegative().nullable().default(null),
+  method: z.enum(RESERVING_METHODS).default('chain-ladder'),
+});
+
+export type ReservingAssumptions = z.infer<typeof ReservingAssumptionsSchema>;
+
+const MethodResultSchema = z.object({
+  ultimate: z.number(),
+  ibnr: z.number(),
+  ultimateLossRatio: z.number(),
+});
+
+export type MethodResult = z.infer<typeof MethodResultSchema>;
+
+const ReservingFactorSchema = z.object({
+  from: z.number(),
+  to: z.number(),
+  weighted: z.number().nullable(),
+  simple: z.number().nullable(),
+  selected: z.number(),
+  overridden: z.boolean(),
+  /** Cumulative development factor from the earlier quarter to ultimate, tail included */
+  cdf: z.number(),
+});
+
+export type ReservingFactor = z.infer<typeof ReservingFactorSchema>;
+
+/**
+ * Estimates for one UY
+ * reported is the latest value of the measure the factors were selected on; IBNR is ultimate less reported incurred.
+ */
+const ReservingUYResultSchema = z.object({
+  uy: z.string(),
+  premium: z.number(),
+  developmentQuarter: z.number(),
+  reported: z.number(),
+  incurred: z.number(),
+  cdf: z.number(),
+  reportedLossRatio: z.number(),
+  chainLadder: MethodResultSchema,
+  bornhuetterFerguson: MethodResultSchema,
+  /** Estimate of the run's selected method */
+  selected: MethodResultSchema,
+});
+
+export type ReservingUYResult = z.infer<typeof ReservingUYResultSchema>;
+
+export const ReservingRunSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  filters: TriangleFiltersSchema,
+  assumptions: ReservingAssumptionsSchema,
+  /** Snapshot date of the latest diagonal */
+  asOf: z.string().nullable(),
+  /** BF a priori loss ratio (%) actually used */
+  expectedLossRatio: z.number(),
+  factors: z.array(ReservingFactorSchema),
+  results: z.array(ReservingUYResultSchema),
+  total: ReservingUYResultSchema.omit({ developmentQuarter: true, cdf: true }),
+});
+
+export type ReservingRun = z.infer<typeof ReservingRunSchema>;
+
+/**
+ * A run as listed, without factors and per-UY results
+ */
+export type ReservingRunSummary = Pick<ReservingRun, 'id' | 'name' | 'createdAt' | 'filters' | 'assumptions' | 'asOf' | 'total'>;
+
+/**
+ * Path of the saved runs file
+ */
+export function getReservingRunsPath(): string {
+  return path.resolve(getDataDirectory(), process.env.RESERVING_RUNS_FILE || DEFAULT_RUNS_FILE);
+}
+
+function methodResult(ultimate: number, incurred: number, premium: number): MethodResult {
+  return { ultimate, ibnr: ultimate - incurred, ultimateLossRatio: safeDivide(ultimate, premium) * 100 };
+}
+
+/**
+ * Selected factors and cumulative development factors of a triangle
+ */
+function selectFactors(triangle: DevelopmentTriangle, assumptions: ReservingAssumptions): ReservingFactor[] {
+  const selected = triangle.factors.map(factor =>
+    assumptions.selectedFactors[String(factor.from)] ?? factor.weighted ?? 1
+  );
+  return triangle.factors.map((factor, index) => ({
+    from: factor.from,
+    to: factor.to,
+    weighted: factor.weighted,
+    simple: factor.simple,
+    selected: selected[index],
+    overridden: assumptions.selectedFactors[String(factor.from)] !== undefined,
+    cdf: selected.slice(index).reduce((product, value) => product * value, assumptions.tailFactor),
+  }));
+}
+
+/**
+ * Chain-ladder and BF ultimates, IBNR and ultimate loss ratios per UY of a segment
+ * Premium is the current Gross UW Prem of the segment's records per UY.
+ */
+export function runReserving(
+  triangles: TriangleSet,
+  records: ReinsuranceData[],
+  assumptions: ReservingAssumptions
+): Omit<ReservingRun, 'id' | 'name' | 'createdAt'> {
+  const triangle = triangles[assumptions.measure];
+  const factors = selectFactors(triangle, assumptions);
+  // The most developed quarter has no factor left, only the tail
+  const cdfAt = (quarter: number) => factors[quarter - 1]?.cdf ?? assumptions.tailFactor;
+
+  const premiums = new Map<string, number>();
+  records.forEach(record => {
+    if (!matchesTriangleFilters(record, triangles.filters)) return;
+    premiums.set(record.uy, (premiums.get(record.uy) ?? 0) + (record.grossUWPrem || 0));
+  });
+
+  const incurredRows = new Map(triangles.incurred.rows.map(row => [row.uy, row]));
+  const latest = triangle.rows.flatMap(row => {
+    const index = row.values.map(value => value !== null).lastIndexOf(true);
+    if (index < 0) return [];
+    const developmentQuarter = index + 1;
+    return [{
+      uy: row.uy,
+      developmentQuarter,
+      reported: row.values[index]!,
+      incurred: incurredRows.get(row.uy)?.values[index] ?? 0,
+      premium: premiums.get(row.uy) ?? 0,
+      cdf: cdfAt(developmentQuarter),
+    }];
+  });
+
+  const chainLadderUltimate = latest.reduce((sum, row) => sum + row.reported * row.cdf, 0);
+  const totalPremium = latest.reduce((sum, row) => sum + row.premium, 0);
+  const expectedLossRatio = assumptions.expectedLossRatio ?? safeDivide(chainLadderUltimate, totalPremium) * 100;
+
+  const results = latest.map(row => {
+    const chainLadder = methodResult(row.reported * row.cdf, row.incurred, row.premium);
+    const expectedUnreported = row.premium * expectedLossRatio / 100 * (1 - safeDivide(1, row.cdf));
+    const bornhuetterFerguson = methodResult(row.reported + expectedUnreported, row.incurred, row.premium);
+    return {
+      ...row,
+      reportedLossRatio: safeDivide(row.incurred, row.premium) * 100,
+      chainLadder,
+      bornhuetterFerguson,
+      selected: assumptions.method === 'chain-ladder' ? chainLadder : bornhuetterFerguson,
+    };
+  });
+
+  const sum = (pick: (row: ReservingUYResult) => number) => results.reduce((total, row) => total + pick(row), 0);
+  const totalIncurred = sum(row => row.incurred);
+  const chainLadder = methodResult(sum(row => row.chainLadder.ultimate), totalIncurred, totalPremium);
+  const bornhuetterFerguson = methodResult(sum(row => row.bornhuetterFerguson.ultimate), totalIncurred, totalPremium);
+
+  return {
+    filters: triangles.filters,
+    assumptions,
+    asOf: triangles.diagonals.at(-1)?.asOf ?? null,
+    expectedLossRatio,
+    factors,
+    results,
+    total: {
+      uy: 'Total',
+      premium: totalPremium,
+      reported: sum(row => row.reported),
+      incurred: totalIncurred,
+      reportedLossRatio: safeDivide(totalIncurred, totalPremium) * 100,
+      chainLadder,
+      bornhuetterFerguson,
+      selected: assumptions.method === 'chain-ladder' ? chainLadder : bornhuetterFerguson,
+    },
+  };
+}
+
+/**
+ * Saved runs, newest first; without a file there are none
+ */
+export async function listReservingRuns(): Promise<ReservingRun[]> {
+  const runsPath = getReservingRunsPath();
+  let content: string;
+  try {
+    content = await fs.readFile(runsPath, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const parsed = z.array(ReservingRunSchema).safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid reserving runs file ${runsPath}: ${issues.join('; ')}`);
+  }
+  return parsed.data.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Serialises saves so concurrent runs cannot overwrite each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Save a run with its assumptions and results
+ */
+export function saveReservingRun(run: Omit<ReservingRun, 'id' | 'name' | 'createdAt'>, name?: string): Promise<ReservingRun> {
+  const save = writeQueue.then(async () => {
+    const createdAt = new Date().toISOString();
+    const saved: ReservingRun = {
+      ...run,
+      id: randomUUID(),
+      name: name?.trim() || `Run ${createdAt.slice(0, 16).replace('T', ' ')}`,
+      createdAt,
+    };
+    const runs = await listReservingRuns();
+    await fs.writeFile(getReservingRunsPath(), `${JSON.stringify([saved, ...runs], null, 2)}\n`);
+    console.log('Reserving - Saved run', saved.id, 'for filters', run.filters);
+    return saved;
+  });
+
+  writeQueue = save.catch(() => undefined);
+  return save;
+}
+
+/**
+ * Whether a run covers exactly the given segment, the whole portfolio for empty filters; names are compared after
+ * norm()
+ */
+export function isSegmentRun(run: Pick<ReservingRun, 'filters'>, filters: TriangleFilters): boolean {
+  const keys: Array<keyof TriangleFilters> = ['hub', 'region', 'extType', 'cedant'];
+  return keys.every(key => norm(run.filters[key]) === norm(filters[key]));
+}
@@ -3,26 +3,63 @@ import { z } from 'zod';
 /**
  * Zod schema for reinsurance data contract
  * Based on the specification: UY, Ext Type, Broker, Cedant, Org.Insured/Trty Name, Max Liability (FC), Gross UW Prem, Gross Actual Acq., Gross paid claims, Gross os loss, Country Name, Region, Hub
+ * plus the optional policy, treaty and renewal columns carried through from the extract
  */
 export const ReinsuranceDataSchema = z.object({
+  viewExtract: z.string().optional(),
+  loc: z.string().optional(),
   uy: z.string().min(1, 'UY is required'),
   extType: z.string().min(1, 'Ext Type is required'),
   broker: z.string().min(1, 'Broker is required'),
   cedant: z.string().min(1, 'Cedant is required'),
   orgInsuredTrtyName: z.string().min(1, 'Org.Insured/Trty Name is required'),
   maxLiabilityFC: z.number().min(0, 'Max Liability must be non-negative'),
-  grossUWPrem: z.number().min(0, 'Gross UW Prem must be non-negative'),
-  grossBookPrem: z.number().min(0, 'Gross Book Prem must be non-negative').optional(),
-  grossActualAcq: z.number().min(0, 'Gross Actual Acq. must be non-negative'),
-  grossPaidClaims: z.number().min(0, 'Gross paid claims must be non-negative'),
-  grossOsLoss: z.number().min(0, 'Gross os loss must be non-negative'),
+  // Premium, acquisition and claim amounts may be negative: the extract books returns and recoveries as adjustment
+  // rows, which count in every total and are listed by the data-quality report
+  grossUWPrem: z.number(),
+  grossBookPrem: z.number().optional(),
+  grossActualAcq: z.number(),
+  grossPaidClaims: z.number(),
+  grossOsLoss: z.number(),
   countryName: z.string().min(1, 'Country Name is required'),
-  region: z.string().min(1, 'Region is required'),
-  hub: z.string().min(1, 'Hub is required'),
+  // ISO 3166-1 alpha-3 code from the country reference; unset for regional scopes and unknown spellings
+  countryCode: z.string().optional(),
+  // Region and Hub are derived columns that older extract rows leave blank; ingestion fills them from the country's defaults
+  region: z.string(),
+  hub: z.string(),
   inceptionYear: z.number().optional(),
   inceptionQuarter: z.string().optional(),
   inceptionMonth: z.string().optional(),
   comDate: z.string().optional(),
+  // Policy and treaty attributes
+  businessClass: z.string().optional(),
+  subBranch: z.string().optional(),
+  treatyNature: z.string().optional(),
+  natureOfRiskDesc: z.string().optional(),
+  signSharePct: z.number().optional(),
+  acceptedShare: z.number().optional(),
+  writtenLine: z.number().optional(),
+  signedLine: z.number().optional(),
+  tsi100FC: z.number().optional(),
+  orgPremFC: z.number().optional(),
+  // Original currency of the FC columns; the KD amounts are filled from the FX rate table after ingestion
+  currency: z.string().optional(),
+  maxLiabilityKD: z.number().optional(),
+  tsi100KD: z.number().optional(),
+  orgPremKD: z.number().optional(),
+  // Canonical counterparty ids from the entity alias table; cedant and broker hold the canonical names
+  cedantId: z.string().optional(),
+  brokerId: z.string().optional(),
+  // Renewal lifecycle
+  newRenew: z.string().optional(),
+  renewalStatus: z.string().optional(),
+  runningExpired: z.string().optional(),
+  status: z.string().optional(),
+  expDate: z.string().optional(),
+  renewalDate: z.string().optional(),
+  // Extract file and line the record was read from, for drill-down to the source row
+  sourceFile: z.string().optional(),
+  sourceRow: z.number().optional(),
 });
 
 export type ReinsuranceData = z.infer<typeof ReinsuranceDataSchema>;
@@ -41,6 +78,13 @@ export const KPIDataSchema = z.object({
   combinedRatio: z.number().min(0),
   numberOfAccounts: z.number().min(0),
   avgMaxLiability: z.number().min(0),
+  // Pro-rata earned basis at the valuation date (earned.ts)
+  earnedPremium: z.number().min(0),
+  unearnedPremium: z.number().min(0),
+  earnedExpense: z.number().min(0),
+  earnedLossRatio: z.number().min(0),
+  earnedExpenseRatio: z.number().min(0),
+  earnedCombinedRatio: z.number().min(0),
 });
 
 export type KPIData = z.infer<typeof KPIDataSchema>;
@@ -57,6 +101,14 @@ export const FilterOptionsSchema = z.object({
   countryName: z.array(z.string()).optional(),
   region: z.array(z.string()).optional(),
   hub: z.array(z.string()).optional(),
+  businessClass: z.array(z.string()).optional(),
+  subBranch: z.array(z.string()).optional(),
+  treatyNature: z.array(z.string()).optional(),
+  natureOfRiskDesc: z.array(z.string()).optional(),
+  newRenew: z.array(z.string()).optional(),
+  renewalStatus: z.array(z.string()).optional(),
+  runningExpired: z.array(z.string()).optional(),
+  status: z.array(z.string()).optional(),
 });
 
 export type FilterOptions = z.infer<typeof FilterOptionsSchema>;
@@ -87,7 +139,41 @@ export const UYPerformanceRowSchema = z.object({
   combinedRatio: z.number(),
   numberOfAccounts: z.number(),
   avgMaxLiability: z.number(),
+  // Accounts with Max Liability in KD, the ones avgMaxLiability averages over
+  maxLiabilityAccounts: z.number(),
+  earnedPremium: z.number(),
+  unearnedPremium: z.number(),
+  earnedExpense: z.number(),
+  earnedLossRatio: z.number(),
+  earnedExpenseRatio: z.number(),
+  earnedCombinedRatio: z.number(),
 });
 
 export type UYPerformanceRow = z.infer<typeof UYPerformanceRowSchema>;
 
+
+/**
+ * Schema for summed performance measures of a group of policies (a period, country, etc.)
+ */
+export const PerformanceTotalsSchema = z.object({
+  policyCount: z.number(),
+  premium: z.number(),
+  acquisition: z.number(),
+  paidClaims: z.number(),
+  osLoss: z.number(),
+  incurredClaims: z.number(),
+  technicalResult: z.number(),
+  lossRatioPct: z.number(),
+  acquisitionPct: z.number(),
+  combinedRatioPct: z.number(),
+  // Pro-rata earned basis at the valuation date (earned.ts)
+  earnedPremium: z.number(),
+  unearnedPremium: z.number(),
+  earnedAcquisition: z.number(),
+  earnedTechnicalResult: z.number(),
+  earnedLossRatioPct: z.number(),
+  earnedAcquisitionPct: z.number(),
+  earnedCombinedRatioPct: z.number(),
+});
+
+export type PerformanceTotals = z.infer<typeof PerformanceTotalsSchema>;
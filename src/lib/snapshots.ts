@@ -0,0 +1,367 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { ReinsuranceData } from './schema';
+import { getDataDirectory } from './datasets';
+import { getPolicyKeys } from './policy-key';
+import { safeDivide } from './format';
+import { createEntityResolver, EntityResolver, loadEntityAliases } from './entities';
+
+/**
+ * Dataset snapshots
+ * Every distinct record set the loader sees is stored as a dated snapshot in SNAPSHOT_DIR (defaulting to
+ * <data directory>/snapshots), so figures at a previous close can be compared with the current extract.
+ */
+
+const INDEX_FILE = 'index.json';
+
+/**
+ * Per-policy measures kept in a snapshot
+ */
+export const SnapshotPolicySchema = z.object({
+  key: z.string(),
+  uy: z.string(),
+  cedant: z.string(),
+  // Canonical cedant entity id when the snapshot was taken; older snapshots have none
+  cedantId: z.string().optional(),
+  countryName: z.string(),
+  // Segment attributes for development triangles; older snapshots have none
+  hub: z.string().optional(),
+  region: z.string().optional(),
+  extType: z.string().optional(),
+  premium: z.number(),
+  paidClaims: z.number(),
+  osLoss: z.number(),
+});
+
+export type SnapshotPolicy = z.infer<typeof SnapshotPolicySchema>;
+
+/**
+ * Snapshot metadata as listed in the index
+ */
+export const SnapshotSummarySchema = z.object({
+  id: z.string(),
+  asOf: z.string(),
+  takenAt: z.string(),
+  contentHash: z.string(),
+  policyCount: z.number(),
+  sources: z.array(z.object({
+    file: z.string(),
+    label: z.string(),
+    modifiedAt: z.string(),
+  })),
+  // Data-quality issue counts per check when the snapshot was taken; older snapshots have none
+  quality: z.record(z.string(), z.number()).optional(),
+});
+
+export type SnapshotSummary = z.infer<typeof SnapshotSummarySchema>;
+
+export const SnapshotSchema = SnapshotSummarySchema.extend({
+  policies: z.array(SnapshotPolicySchema),
+});
+
+export type Snapshot = z.infer<typeof SnapshotSchema>;
+
+export type SnapshotGrouping = 'uy' | 'cedant' | 'country';
+
+/**
+ * A measure in two snapshots
+ */
+export interface MeasureMovement {
+  from: number;
+  to: number;
+  change: number;
+}
+
+/**
+ * How one policy moved between two snapshots
+ */
+export interface PolicyMovement {
+  key: string;
+  uy: string;
+  cedant: string;
+  countryName: string;
+  status: 'added' | 'removed' | 'changed';
+  premium: MeasureMovement;
+  paidClaims: MeasureMovement;
+  osLoss: MeasureMovement;
+  incurred: MeasureMovement;
+}
+
+/**
+ * How a group of policies (a UY, cedant or country) moved between two snapshots
+ */
+export interface AggregateMovement {
+  key: string;
+  policyCount: MeasureMovement;
+  premium: MeasureMovement;
+  paidClaims: MeasureMovement;
+  osLoss: MeasureMovement;
+  incurred: MeasureMovement;
+  lossRatioPct: MeasureMovement;
+}
+
+export interface SnapshotDiff {
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  groupBy: SnapshotGrouping;
+  total: AggregateMovement;
+  aggregates: AggregateMovement[];
+  policies: PolicyMovement[];
+  unchangedPolicies: number;
+}
+
+/**
+ * Directory that holds snapshot files
+ */
+export function getSnapshotDirectory(): string {
+  return process.env.SNAPSHOT_DIR
+    ? path.resolve(process.env.SNAPSHOT_DIR)
+    : path.join(getDataDirectory(), 'snapshots');
+}
+
+/**
+ * Keyed per-policy measures for a record set; records without a View Extract cannot be tracked and are skipped
+ * The raw cedant name is kept next to its canonical entity id, so later alias changes can still be applied.
+ */
+function toSnapshotPolicies(records: ReinsuranceData[], resolver: EntityResolver): SnapshotPolicy[] {
+  const keys = getPolicyKeys(records);
+  const policies: SnapshotPolicy[] = [];
+  records.forEach((record, index) => {
+    const key = keys[index];
+    if (!key) return;
+    policies.push({
+      key,
+      uy: record.uy,
+      cedant: record.cedant,
+      cedantId: resolver.resolve('cedant', record.cedant).id,
+      countryName: record.countryName,
+      hub: record.hub,
+      region: record.region,
+      extType: record.extType,
+      premium: record.grossUWPrem,
+      paidClaims: record.grossPaidClaims,
+      osLoss: record.grossOsLoss,
+    });
+  });
+  return policies;
+}
+
+/**
+ * Snapshot index, newest first
+ */
+export async function listSnapshots(): Promise<SnapshotSummary[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(getSnapshotDirectory(), INDEX_FILE), 'utf-8');
+  } catch {
+    return [];
+  }
+  const snapshots = z.array(SnapshotSummarySchema).parse(JSON.parse(content));
+  return snapshots.sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+}
+
+/**
+ * Whether an id has the form captureSnapshot generates; anything else could escape the snapshot directory
+ */
+export function isSnapshotId(id: string): boolean {
+  return /^[\w-]+$/.test(id);
+}
+
+/**
+ * Read one snapshot by id, or null when there is no such snapshot
+ */
+export async function loadSnapshot(id: string): Promise<Snapshot | null> {
+  if (!isSnapshotId(id)) {
+    throw new Error(`Invalid snapshot id: ${id}`);
+  }
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(getSnapshotDirectory(), `${id}.json`), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  return SnapshotSchema.parse(JSON.parse(content));
+}
+
+// Serialises captures so concurrent loads cannot write the same snapshot twice
+let captureQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Store the record set as a snapshot unless the latest snapshot already has identical content
+ * The snapshot is dated by the newest source file, i.e. the extract date.
+ */
+export function captureSnapshot(
+  records: ReinsuranceData[],
+  sources: Array<{ file: string; label: string; modifiedAt: string }>,
+  quality?: Record<string, number>
+): Promise<SnapshotSummary | null> {
+  const capture = captureQueue.then(async () => {
+    const policies = toSnapshotPolicies(records, createEntityResolver(await loadEntityAliases()));
+    const contentHash = createHash('sha1').update(JSON.stringify(policies)).digest('hex');
+
+    const snapshots = await listSnapshots();
+    if (snapshots[0]?.contentHash === contentHash) {
+      return null;
+    }
+
+    const asOf = sources.map(source => source.modifiedAt).sort().reverse()[0]?.slice(0, 10)
+      ?? new Date().toISOString().slice(0, 10);
+    const summary: SnapshotSummary = {
+      id: `${asOf}-${contentHash.slice(0, 8)}`,
+      asOf,
+      takenAt: new Date().toISOString(),
+      contentHash,
+      policyCount: policies.length,
+      sources,
+      quality,
+    };
+
+    const directory = getSnapshotDirectory();
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, `${summary.id}.json`), JSON.stringify({ ...summary, policies }));
+    await fs.writeFile(
+      path.join(directory, INDEX_FILE),
+      JSON.stringify([summary, ...snapshots.filter(s => s.id !== summary.id)], null, 2)
+    );
+
+    console.log('Snapshots - Captured', summary.id, 'with', policies.length, 'policies');
+    return summary;
+  });
+
+  captureQueue = capture.catch(() => undefined);
+  return capture;
+}
+
+function movement(from: number, to: number): MeasureMovement {
+  return { from, to, change: to - from };
+}
+
+interface GroupTotals {
+  policyCount: number;
+  premium: number;
+  paidClaims: number;
+  osLoss: number;
+}
+
+const EMPTY_GROUP: GroupTotals = { policyCount: 0, premium: 0, paidClaims: 0, osLoss: 0 };
+
+function addPolicy(group: GroupTotals, policy: SnapshotPolicy): GroupTotals {
+  return {
+    policyCount: group.policyCount + 1,
+    premium: group.premium + policy.premium,
+    paidClaims: group.paidClaims + policy.paidClaims,
+    osLoss: group.osLoss + policy.osLoss,
+  };
+}
+
+/**
+ * Canonical cedant of a snapshot policy: resolved with the current alias table when given, otherwise the entity
+ * stored with the snapshot
+ */
+function getPolicyCedant(policy: SnapshotPolicy, resolver?: EntityResolver): { id: string; name: string } {
+  if (resolver) return resolver.resolve('cedant', policy.cedant);
+  return { id: policy.cedantId ?? policy.cedant, name: policy.cedant };
+}
+
+/**
+ * Sum the measures of each group in a snapshot, labelled with the group's name
+ */
+function groupTotals(
+  policies: SnapshotPolicy[],
+  groupBy: SnapshotGrouping,
+  resolver?: EntityResolver
+): Map<string, GroupTotals & { label: string }> {
+  const groups = new Map<string, GroupTotals & { label: string }>();
+  policies.forEach(policy => {
+    const cedant = groupBy === 'cedant' ? getPolicyCedant(policy, resolver) : null;
+    const key = groupBy === 'uy' ? policy.uy : cedant ? cedant.id : policy.countryName;
+    const group = groups.get(key);
+    groups.set(key, { ...addPolicy(group ?? EMPTY_GROUP, policy), label: group?.label ?? cedant?.name ?? key });
+  });
+  return groups;
+}
+
+/**
+ * Movement of one group, including its loss ratio
+ */
+function aggregateMovement(key: string, a: GroupTotals = EMPTY_GROUP, b: GroupTotals = EMPTY_GROUP): AggregateMovement {
+  const incurredFrom = a.paidClaims + a.osLoss;
+  const incurredTo = b.paidClaims + b.osLoss;
+
+  return {
+    key,
+    policyCount: movement(a.policyCount, b.policyCount),
+    premium: movement(a.premium, b.premium),
+    paidClaims: movement(a.paidClaims, b.paidClaims),
+    osLoss: movement(a.osLoss, b.osLoss),
+    incurred: movement(incurredFrom, incurredTo),
+    lossRatioPct: movement(safeDivide(incurredFrom, a.premium) * 100, safeDivide(incurredTo, b.premium) * 100),
+  };
+}
+
+/**
+ * Compare two snapshots per policy key and per UY, cedant or country
+ * Cedants are grouped by canonical entity, resolved with the resolver when given so snapshots taken before an alias
+ * was confirmed group with later ones. Policies are ordered by the size of their incurred and premium movement.
+ */
+export function diffSnapshots(
+  from: Snapshot,
+  to: Snapshot,
+  groupBy: SnapshotGrouping = 'uy',
+  resolver?: EntityResolver
+): SnapshotDiff {
+  const fromPolicies = new Map(from.policies.map(policy => [policy.key, policy]));
+  const toPolicies = new Map(to.policies.map(policy => [policy.key, policy]));
+  const policies: PolicyMovement[] = [];
+  let unchangedPolicies = 0;
+
+  new Set([...fromPolicies.keys(), ...toPolicies.keys()]).forEach(key => {
+    const a = fromPolicies.get(key);
+    const b = toPolicies.get(key);
+    const reference = (b ?? a)!;
+    const premium = movement(a?.premium ?? 0, b?.premium ?? 0);
+    const paidClaims = movement(a?.paidClaims ?? 0, b?.paidClaims ?? 0);
+    const osLoss = movement(a?.osLoss ?? 0, b?.osLoss ?? 0);
+
+    if (a && b && premium.change === 0 && paidClaims.change === 0 && osLoss.change === 0) {
+      unchangedPolicies++;
+      return;
+    }
+
+    policies.push({
+      key,
+      uy: reference.uy,
+      cedant: getPolicyCedant(reference, resolver).name,
+      countryName: reference.countryName,
+      status: !a ? 'added' : !b ? 'removed' : 'changed',
+      premium,
+      paidClaims,
+      osLoss,
+      incurred: movement(paidClaims.from + osLoss.from, paidClaims.to + osLoss.to),
+    });
+  });
+
+  policies.sort((x, y) =>
+    (Math.abs(y.incurred.change) + Math.abs(y.premium.change)) - (Math.abs(x.incurred.change) + Math.abs(x.premium.change))
+  );
+
+  const fromGroups = groupTotals(from.policies, groupBy, resolver);
+  const toGroups = groupTotals(to.policies, groupBy, resolver);
+  const aggregates = [...new Set([...fromGroups.keys(), ...toGroups.keys()])]
+    .map(key => aggregateMovement((toGroups.get(key) ?? fromGroups.get(key))!.label, fromGroups.get(key), toGroups.get(key)))
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  return {
+    // Parsing through the summary schema drops the policy lists
+    from: SnapshotSummarySchema.parse(from),
+    to: SnapshotSummarySchema.parse(to),
+    groupBy,
+    total: aggregateMovement('Total', from.policies.reduce(addPolicy, EMPTY_GROUP), to.policies.reduce(addPolicy, EMPTY_GROUP)),
+    aggregates,
+    policies,
+    unchangedPolicies,
+  };
+}
@@ -0,0 +1,297 @@
+import ExcelJS from 'exceljs';
+import { ReinsuranceData } from './schema';
+import { listSnapshots, loadSnapshot, Snapshot, SnapshotPolicy, SnapshotSummary } from './snapshots';
+import { createEntityResolver, EntityResolver, loadEntityAliases } from './entities';
+import { getDataSource } from './data-source';
+import { getPolicyKeys } from './policy-key';
+import { norm } from './normalize';
+import { safeDivide } from './format';
+import { PresentationRate, REPORTING_CURRENCY } from './fx';
+
+/**
+ * Loss development triangles
+ * Every snapshot is a diagonal: at a snapshot dated in calendar quarter Q, underwriting year Y is at development
+ * quarter (Q - first quarter of Y) + 1. When several snapshots fall in the same calendar quarter the latest one is
+ * used, so each cell is the cumulative position at the last close of the quarter.
+ */
+
+export type TriangleMeasure = 'paid' | 'incurred';
+
+export const TRIANGLE_MEASURES: readonly TriangleMeasure[] = ['paid', 'incurred'];
+
+/**
+ * Exact-match segment filters; text values are compared after norm()
+ */
+export interface TriangleFilters {
+  hub?: string;
+  region?: string;
+  extType?: string;
+  cedant?: string;
+}
+
+export interface TriangleRow {
+  uy: string;
+  /** Cumulative amount per development quarter; null where no snapshot was taken in that quarter */
+  values: Array<number | null>;
+  /** values[i + 1] / values[i]; null when either is missing or values[i] is 0 */
+  linkRatios: Array<number | null>;
+}
+
+/**
+ * Age-to-age factor from one development quarter to the next
+ */
+export interface AgeToAgeFactor {
+  from: number;
+  to: number;
+  /** Sum of the later column over the sum of the earlier one, over the UYs that have both */
+  weighted: number | null;
+  /** Mean of the individual link ratios */
+  simple: number | null;
+  /** UYs the factor is based on */
+  count: number;
+}
+
+export interface DevelopmentTriangle {
+  measure: TriangleMeasure;
+  developmentQuarters: number[];
+  rows: TriangleRow[];
+  factors: AgeToAgeFactor[];
+}
+
+export interface TriangleSet {
+  filters: TriangleFilters;
+  /** Snapshots used as diagonals, oldest first */
+  diagonals: Array<{ id: string; asOf: string; quarter: string }>;
+  paid: DevelopmentTriangle;
+  incurred: DevelopmentTriangle;
+}
+
+/**
+ * Segment attributes of a policy, for snapshots taken before they were stored
+ */
+export type PolicyAttributes = Pick<SnapshotPolicy, 'hub' | 'region' | 'extType'>;
+
+/**
+ * Whether a policy's segment attributes match the filters
+ */
+export function matchesTriangleFilters(
+  segment: { hub?: string; region?: string; extType?: string; cedant?: string },
+  filters: TriangleFilters
+): boolean {
+  const textFilters: Array<[string | undefined, string | undefined]> = [
+    [filters.hub, segment.hub],
+    [filters.region, segment.region],
+    [filters.extType, segment.extType],
+    [filters.cedant, segment.cedant],
+  ];
+  return textFilters.every(([filterValue, value]) => !norm(filterValue) || norm(filterValue) === norm(value));
+}
+
+/**
+ * Calendar quarter of an ISO date as a running number (year * 4 + quarter index)
+ */
+function toQuarterNumber(isoDate: string): number {
+  const year = parseInt(isoDate.slice(0, 4), 10);
+  const month = parseInt(isoDate.slice(5, 7), 10);
+  return year * 4 + Math.floor((month - 1) / 3);
+}
+
+function formatQuarterNumber(quarter: number): string {
+  return `${Math.floor(quarter / 4)} Q${(quarter % 4) + 1}`;
+}
+
+/**
+ * Latest snapshot of each calendar quarter, oldest first
+ */
+export function selectDiagonals(snapshots: SnapshotSummary[]): SnapshotSummary[] {
+  const byQuarter = new Map<number, SnapshotSummary>();
+  snapshots.forEach(snapshot => {
+    const quarter = toQuarterNumber(snapshot.asOf);
+    const current = byQuarter.get(quarter);
+    if (!current || `${snapshot.asOf}${snapshot.takenAt}` > `${current.asOf}${current.takenAt}`) {
+      byQuarter.set(quarter, snapshot);
+    }
+  });
+  return [...byQuarter.values()].sort((a, b) => a.asOf.localeCompare(b.asOf));
+}
+
+/**
+ * Segment attributes of the current records by policy key
+ */
+export function getPolicyAttributes(records: ReinsuranceData[]): Map<string, PolicyAttributes> {
+  const keys = getPolicyKeys(records);
+  const attributes = new Map<string, PolicyAttributes>();
+  records.forEach((record, index) => {
+    const key = keys[index];
+    if (key) attributes.set(key, { hub: record.hub, region: record.region, extType: record.extType });
+  });
+  return attributes;
+}
+
+/**
+ * Paid or incurred triangle from per-UY sums at each development quarter
+ */
+function toTriangle(
+  measure: TriangleMeasure,
+  sums: Map<number, Map<number, { paid: number; incurred: number }>>,
+  observed: Map<number, Set<number>>
+): DevelopmentTriangle {
+  const uys = [...sums.keys()].sort((a, b) => a - b);
+  const lastQuarter = Math.max(0, ...uys.flatMap(uy => [...observed.get(uy) ?? []]));
+  const developmentQuarters = Array.from({ length: lastQuarter }, (_, index) => index + 1);
+
+  const rows: TriangleRow[] = uys.map(uy => {
+    const values = developmentQuarters.map(quarter => {
+      if (!observed.get(uy)?.has(quarter)) return null;
+      return sums.get(uy)?.get(quarter)?.[measure] ?? 0;
+    });
+    const linkRatios = values.slice(0, -1).map((value, index) => {
+      const next = values[index + 1];
+      return value === null || next === null || value === 0 ? null : next / value;
+    });
+    return { uy: String(uy), values, linkRatios };
+  });
+
+  const factors = developmentQuarters.slice(0, -1).map((from, index) => {
+    let earlier = 0;
+    let later = 0;
+    const ratios: number[] = [];
+    rows.forEach(row => {
+      const ratio = row.linkRatios[index];
+      if (ratio === null) return;
+      earlier += row.values[index]!;
+      later += row.values[index + 1]!;
+      ratios.push(ratio);
+    });
+    return {
+      from,
+      to: from + 1,
+      weighted: ratios.length ? safeDivide(later, earlier) : null,
+      simple: ratios.length ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : null,
+      count: ratios.length,
+    };
+  });
+
+  return { measure, developmentQuarters, rows, factors };
+}
+
+/**
+ * Paid and incurred development triangles by UY over a set of snapshots
+ * Cedants are matched after resolving them with the alias table; hub, region and ext type come from the snapshot,
+ * or from the current records with the same policy key for snapshots taken before they were stored.
+ */
+export function buildTriangles(
+  snapshots: Snapshot[],
+  filters: TriangleFilters = {},
+  options: { resolver?: EntityResolver; attributes?: Map<string, PolicyAttributes> } = {}
+): TriangleSet {
+  const diagonals = selectDiagonals(snapshots);
+  const selected = new Set(diagonals.map(snapshot => snapshot.id));
+
+  const matches = (policy: SnapshotPolicy): boolean => {
+    const fallback = options.attributes?.get(policy.key);
+    return matchesTriangleFilters({
+      hub: policy.hub ?? fallback?.hub,
+      region: policy.region ?? fallback?.region,
+      extType: policy.extType ?? fallback?.extType,
+      cedant: options.resolver ? options.resolver.resolve('cedant', policy.cedant).name : policy.cedant,
+    }, filters);
+  };
+
+  // UY -> development quarter -> sums, and the development quarters each UY has a snapshot for
+  const sums = new Map<number, Map<number, { paid: number; incurred: number }>>();
+  const observed = new Map<number, Set<number>>();
+
+  snapshots.filter(snapshot => selected.has(snapshot.id)).forEach(snapshot => {
+    const quarter = toQuarterNumber(snapshot.asOf);
+    snapshot.policies.forEach(policy => {
+      const uy = parseInt(policy.uy, 10);
+      if (isNaN(uy)) return;
+      const developmentQuarter = quarter - uy * 4 + 1;
+      if (developmentQuarter < 1) return;
+
+      // Filtered-out policies still mark the cell as observed, so a quarter without matching policies shows 0 rather than a gap
+      if (!observed.has(uy)) observed.set(uy, new Set());
+      observed.get(uy)!.add(developmentQuarter);
+      if (!matches(policy)) return;
+      if (!sums.has(uy)) sums.set(uy, new Map());
+
+      const cells = sums.get(uy)!;
+      const cell = cells.get(developmentQuarter) ?? { paid: 0, incurred: 0 };
+      cell.paid += policy.paidClaims;
+      cell.incurred += policy.paidClaims + policy.osLoss;
+      cells.set(developmentQuarter, cell);
+    });
+  });
+
+  return {
+    filters,
+    diagonals: diagonals.map(snapshot => ({
+      id: snapshot.id,
+      asOf: snapshot.asOf,
+      quarter: formatQuarterNumber(toQuarterNumber(snapshot.asOf)),
+    })),
+    paid: toTriangle('paid', sums, observed),
+    incurred: toTriangle('incurred', sums, observed),
+  };
+}
+
+/**
+ * Triangles of a segment over the stored snapshots, with the current records they were matched against
+ */
+export async function loadTriangles(filters: TriangleFilters): Promise<{ triangles: TriangleSet; records: ReinsuranceData[] }> {
+  const dataSource = await getDataSource();
+  const [records, table] = await Promise.all([dataSource.loadRecords(), loadEntityAliases()]);
+  const snapshots = await Promise.all(selectDiagonals(await listSnapshots()).map(summary => loadSnapshot(summary.id)));
+
+  // A snapshot removed after it was listed is left out
+  const triangles = buildTriangles(snapshots.filter(snapshot => snapshot !== null), filters, {
+    resolver: createEntityResolver(table),
+    attributes: getPolicyAttributes(records),
+  });
+  return { triangles, records };
+}
+
+const REPORTING_RATE: PresentationRate = { currency: REPORTING_CURRENCY, rate: 1, asOf: null };
+
+/**
+ * Triangle laid out as a sheet: amounts per UY in the presentation currency, then the link ratios and the
+ * age-to-age factors (which do not depend on the currency)
+ */
+export function getTriangleSheetRows(
+  triangle: DevelopmentTriangle,
+  rate: PresentationRate = REPORTING_RATE
+): Array<Array<string | number | null>> {
+  const quarters = triangle.developmentQuarters;
+  const links = quarters.slice(0, -1).map(quarter => `${quarter}-${quarter + 1}`);
+  const unit = rate.currency === REPORTING_CURRENCY ? 'KD' : rate.currency;
+  const title = `${triangle.measure === 'paid' ? 'Paid' : 'Incurred'} (${unit}) by development quarter`;
+  return [
+    [rate.currency === REPORTING_CURRENCY ? title : `${title}, converted at ${rate.rate} ${unit} per KD as of ${rate.asOf}`],
+    ['UY', ...quarters.map(String)],
+    ...triangle.rows.map(row => [row.uy, ...row.values.map(value => value === null ? null : value * rate.rate)]),
+    [],
+    ['Link ratios', ...links],
+    ...triangle.rows.map(row => [row.uy, ...row.linkRatios]),
+    [],
+    ['Age-to-age factors', ...links],
+    ['Volume weighted', ...triangle.factors.map(factor => factor.weighted)],
+    ['Simple average', ...triangle.factors.map(factor => factor.simple)],
+    ['UYs', ...triangle.factors.map(factor => factor.count)],
+  ];
+}
+
+/**
+ * XLSX workbook with a sheet per triangle
+ */
+export async function buildTriangleWorkbook(set: TriangleSet, rate: PresentationRate = REPORTING_RATE): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  [set.paid, set.incurred].forEach(triangle => {
+    const sheet = workbook.addWorksheet(triangle.measure === 'paid' ? 'Paid' : 'Incurred');
+    sheet.addRows(getTriangleSheetRows(triangle, rate));
+    sheet.getColumn(1).width = 20;
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(2).font = { bold: true };
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}